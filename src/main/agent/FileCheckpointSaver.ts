@@ -0,0 +1,368 @@
+import * as fs from "fs";
+import * as path from "path";
+import type { RunnableConfig } from "@langchain/core/runnables";
+import {
+  BaseCheckpointSaver,
+  Checkpoint,
+  CheckpointListOptions,
+  CheckpointMetadata,
+  CheckpointPendingWrite,
+  CheckpointTuple,
+  PendingWrite,
+  TASKS,
+  WRITES_IDX_MAP,
+  copyCheckpoint,
+  getCheckpointId,
+} from "@langchain/langgraph-checkpoint";
+
+// Older checkpoints are only needed to rewind a thread, which the app never
+// does, and every checkpoint carries the full message history
+const MAX_CHECKPOINTS_PER_THREAD = 20;
+
+// Threads with ids starting with this are only kept in memory, for runs
+// outside the saved conversations
+export const TRANSIENT_THREAD_PREFIX = "transient:";
+
+export function isTransientThread(threadId: string): boolean {
+  return threadId.startsWith(TRANSIENT_THREAD_PREFIX);
+}
+
+// Serialized checkpoint and metadata, and the id of the checkpoint before it
+type StoredCheckpoint = [Uint8Array, Uint8Array, string | undefined];
+// Task id, channel and serialized value
+type StoredWrite = [string, string, Uint8Array];
+
+interface ThreadData {
+  // namespace -> checkpoint id -> checkpoint
+  checkpoints: Record<string, Record<string, StoredCheckpoint>>;
+  // namespace -> checkpoint id -> "taskId,index" -> pending write
+  writes: Record<string, Record<string, Record<string, StoredWrite>>>;
+}
+
+/**
+ * A checkpointer that keeps each thread in a JSON file, so conversations
+ * survive restarts. Threads are loaded when the saver is created and a
+ * thread's file is replaced whenever one of its checkpoints changes.
+ */
+export class FileCheckpointSaver extends BaseCheckpointSaver {
+  private directory: string;
+  private threads: Map<string, ThreadData> = new Map();
+  // Saves per thread, chained so writes to one file never interleave
+  private pendingSaves: Map<string, Promise<void>> = new Map();
+
+  constructor(directory: string) {
+    super();
+    this.directory = directory;
+    this.loadThreads();
+  }
+
+  async getTuple(config: RunnableConfig): Promise<CheckpointTuple | undefined> {
+    const threadId = config.configurable?.thread_id;
+    const namespace = config.configurable?.checkpoint_ns ?? "";
+    const checkpoints = this.threads.get(threadId)?.checkpoints[namespace];
+    if (!checkpoints) {
+      return undefined;
+    }
+
+    // The newest checkpoint unless the config names one. Checkpoint ids are
+    // time ordered.
+    const checkpointId =
+      getCheckpointId(config) || Object.keys(checkpoints).sort().pop();
+    if (!checkpointId || !checkpoints[checkpointId]) {
+      return undefined;
+    }
+    return this.toTuple(threadId, namespace, checkpointId);
+  }
+
+  async *list(
+    config: RunnableConfig,
+    options?: CheckpointListOptions
+  ): AsyncGenerator<CheckpointTuple> {
+    const { before, filter } = options ?? {};
+    let limit = options?.limit;
+    const threadIds = config.configurable?.thread_id
+      ? [config.configurable.thread_id]
+      : Array.from(this.threads.keys());
+
+    for (const threadId of threadIds) {
+      const namespaces = this.threads.get(threadId)?.checkpoints || {};
+      for (const [namespace, checkpoints] of Object.entries(namespaces)) {
+        if (
+          config.configurable?.checkpoint_ns !== undefined &&
+          namespace !== config.configurable.checkpoint_ns
+        ) {
+          continue;
+        }
+
+        // Newest first
+        for (const checkpointId of Object.keys(checkpoints).sort().reverse()) {
+          if (
+            (config.configurable?.checkpoint_id &&
+              checkpointId !== config.configurable.checkpoint_id) ||
+            (before?.configurable?.checkpoint_id &&
+              checkpointId >= before.configurable.checkpoint_id)
+          ) {
+            continue;
+          }
+
+          const tuple = await this.toTuple(threadId, namespace, checkpointId);
+          const metadata: Record<string, unknown> = tuple.metadata || {};
+          if (
+            filter &&
+            !Object.entries(filter).every(
+              ([key, value]) => metadata[key] === value
+            )
+          ) {
+            continue;
+          }
+
+          if (limit !== undefined) {
+            if (limit <= 0) return;
+            limit -= 1;
+          }
+          yield tuple;
+        }
+      }
+    }
+  }
+
+  async put(
+    config: RunnableConfig,
+    checkpoint: Checkpoint,
+    metadata: CheckpointMetadata
+  ): Promise<RunnableConfig> {
+    const threadId = config.configurable?.thread_id;
+    const namespace = config.configurable?.checkpoint_ns ?? "";
+    if (threadId === undefined) {
+      throw new Error("Failed to put checkpoint: the config has no thread_id");
+    }
+
+    // Sends are kept as writes of the checkpoint before, see toTuple
+    const stored: Partial<Checkpoint> = copyCheckpoint(checkpoint);
+    delete stored.pending_sends;
+
+    const thread = this.threadData(threadId);
+    (thread.checkpoints[namespace] ||= {})[checkpoint.id] = [
+      this.serde.dumpsTyped(stored)[1],
+      this.serde.dumpsTyped(metadata)[1],
+      config.configurable?.checkpoint_id,
+    ];
+    await this.saveThread(threadId);
+
+    return {
+      configurable: {
+        thread_id: threadId,
+        checkpoint_ns: namespace,
+        checkpoint_id: checkpoint.id,
+      },
+    };
+  }
+
+  async putWrites(
+    config: RunnableConfig,
+    writes: PendingWrite[],
+    taskId: string
+  ): Promise<void> {
+    const threadId = config.configurable?.thread_id;
+    const namespace = config.configurable?.checkpoint_ns ?? "";
+    const checkpointId = config.configurable?.checkpoint_id;
+    if (threadId === undefined || checkpointId === undefined) {
+      throw new Error(
+        "Failed to put writes: the config has no thread_id or checkpoint_id"
+      );
+    }
+
+    const thread = this.threadData(threadId);
+    const checkpointWrites = ((thread.writes[namespace] ||= {})[
+      checkpointId
+    ] ||= {});
+    writes.forEach(([channel, value], index) => {
+      // Special writes such as errors have fixed negative indexes and
+      // replace earlier ones; a task's regular writes are kept once
+      const writeIndex = WRITES_IDX_MAP[channel] ?? index;
+      const key = `${taskId},${writeIndex}`;
+      if (writeIndex >= 0 && key in checkpointWrites) {
+        return;
+      }
+      checkpointWrites[key] = [
+        taskId,
+        channel,
+        this.serde.dumpsTyped(value)[1],
+      ];
+    });
+    await this.saveThread(threadId);
+  }
+
+  hasThread(threadId: string): boolean {
+    return this.threads.has(threadId);
+  }
+
+  async deleteThread(threadId: string): Promise<void> {
+    this.threads.delete(threadId);
+
+    await this.pendingSaves.get(threadId);
+    this.pendingSaves.delete(threadId);
+    await fs.promises.rm(this.threadFile(threadId), { force: true });
+    await fs.promises.rm(`${this.threadFile(threadId)}.tmp`, { force: true });
+  }
+
+  private async toTuple(
+    threadId: string,
+    namespace: string,
+    checkpointId: string
+  ): Promise<CheckpointTuple> {
+    const thread = this.threads.get(threadId)!;
+    const [checkpoint, metadata, parentId] =
+      thread.checkpoints[namespace][checkpointId];
+    const load = (value: Uint8Array) => this.serde.loadsTyped("json", value);
+
+    // Sends made by the tasks of the checkpoint before this one
+    const parentWrites = parentId
+      ? Object.values(thread.writes[namespace]?.[parentId] || {})
+      : [];
+    const pendingSends = await Promise.all(
+      parentWrites
+        .filter(([, channel]) => channel === TASKS)
+        .map(([, , value]) => load(value))
+    );
+    const pendingWrites = await Promise.all(
+      Object.values(thread.writes[namespace]?.[checkpointId] || {}).map(
+        async ([taskId, channel, value]): Promise<CheckpointPendingWrite> => [
+          taskId,
+          channel,
+          await load(value),
+        ]
+      )
+    );
+
+    return {
+      config: {
+        configurable: {
+          thread_id: threadId,
+          checkpoint_ns: namespace,
+          checkpoint_id: checkpointId,
+        },
+      },
+      checkpoint: { ...(await load(checkpoint)), pending_sends: pendingSends },
+      metadata: await load(metadata),
+      pendingWrites,
+      ...(parentId !== undefined && {
+        parentConfig: {
+          configurable: {
+            thread_id: threadId,
+            checkpoint_ns: namespace,
+            checkpoint_id: parentId,
+          },
+        },
+      }),
+    };
+  }
+
+  private threadData(threadId: string): ThreadData {
+    let thread = this.threads.get(threadId);
+    if (!thread) {
+      thread = { checkpoints: {}, writes: {} };
+      this.threads.set(threadId, thread);
+    }
+    return thread;
+  }
+
+  private loadThreads() {
+    if (!fs.existsSync(this.directory)) {
+      return;
+    }
+
+    for (const file of fs.readdirSync(this.directory)) {
+      if (!file.endsWith(".json")) continue;
+      try {
+        const data = decode(
+          JSON.parse(fs.readFileSync(path.join(this.directory, file), "utf8"))
+        );
+        this.threads.set(data.threadId, {
+          checkpoints: data.checkpoints || {},
+          writes: data.writes || {},
+        });
+      } catch (error) {
+        console.error(`Failed to load conversation checkpoint ${file}:`, error);
+      }
+    }
+  }
+
+  private saveThread(threadId: string): Promise<void> {
+    if (isTransientThread(threadId) || !this.hasThread(threadId)) {
+      return Promise.resolve();
+    }
+
+    const save = (this.pendingSaves.get(threadId) || Promise.resolve())
+      .then(async () => {
+        const thread = this.threads.get(threadId);
+        if (!thread) {
+          return; // Deleted while the save waited
+        }
+        this.pruneThread(thread);
+        const data = encode({ threadId, ...thread });
+
+        // Write a copy and swap it in, so quitting mid-write never leaves
+        // a truncated conversation behind
+        const file = this.threadFile(threadId);
+        await fs.promises.mkdir(this.directory, { recursive: true });
+        await fs.promises.writeFile(`${file}.tmp`, JSON.stringify(data));
+        await fs.promises.rename(`${file}.tmp`, file);
+      })
+      .catch((error) => {
+        console.error(`Failed to save conversation ${threadId}:`, error);
+      });
+
+    this.pendingSaves.set(threadId, save);
+    return save;
+  }
+
+  // Drop all but the newest checkpoints of each namespace, and their writes
+  private pruneThread(thread: ThreadData) {
+    for (const [namespace, checkpoints] of Object.entries(thread.checkpoints)) {
+      const ids = Object.keys(checkpoints).sort();
+      for (const id of ids.slice(0, -MAX_CHECKPOINTS_PER_THREAD)) {
+        delete checkpoints[id];
+        delete thread.writes[namespace]?.[id];
+      }
+    }
+  }
+
+  private threadFile(threadId: string): string {
+    return path.join(
+      this.directory,
+      `${threadId.replace(/[^\w-]/g, "_")}.json`
+    );
+  }
+}
+
+// Checkpoints are stored serialized as bytes, which JSON can't hold as is
+function encode(value: any): any {
+  if (value instanceof Uint8Array) {
+    return { __bytes: Buffer.from(value).toString("base64") };
+  }
+  if (Array.isArray(value)) {
+    return value.map(encode);
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, encode(item)])
+    );
+  }
+  return value;
+}
+
+function decode(value: any): any {
+  if (Array.isArray(value)) {
+    return value.map(decode);
+  }
+  if (value && typeof value === "object") {
+    if (typeof value.__bytes === "string") {
+      return new Uint8Array(Buffer.from(value.__bytes, "base64"));
+    }
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, decode(item)])
+    );
+  }
+  return value;
+}
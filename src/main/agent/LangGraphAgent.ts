@@ -1,6 +1,13 @@
-import { MemorySaver } from "@langchain/langgraph";
+import { EventEmitter } from "events";
+import { BaseCheckpointSaver, MemorySaver } from "@langchain/langgraph";
 import { tool } from "@langchain/core/tools";
-import { HumanMessage, AIMessage, BaseMessage } from "@langchain/core/messages";
+import {
+  HumanMessage,
+  AIMessage,
+  BaseMessage,
+  SystemMessage,
+  ToolMessage,
+} from "@langchain/core/messages";
 import { BaseChatModel } from "@langchain/core/language_models/chat_models";
 import { ToolNode } from "@langchain/langgraph/prebuilt";
 import {
@@ -8,10 +15,47 @@ import {
   MessagesAnnotation,
   START,
   END,
+  Command,
+  interrupt,
 } from "@langchain/langgraph";
 import { MCPManager } from "../mcp/MCPManager";
 import { ModelService } from "../services/ModelService";
-import { ChatMessage, ToolCall, Tool, ModelConfig } from "../../shared/types";
+import { ModelCallUsage, UsageService } from "../services/UsageService";
+import {
+  ChatMessage,
+  ToolCall,
+  Tool,
+  ModelConfig,
+  ServerListChangedEvent,
+  ElicitationRecord,
+  PendingToolCall,
+  ToolApprovalDecision,
+  ToolApprovalRequest,
+  ToolCallResult,
+  AgentStreamEvent,
+  Persona,
+  ContextUsage,
+} from "../../shared/types";
+import { buildSystemPrompt } from "./systemPrompt";
+import {
+  TRANSIENT_THREAD_PREFIX,
+  isTransientThread,
+} from "./FileCheckpointSaver";
+import {
+  AgentState,
+  AgentStateAnnotation,
+  MAX_TOOL_RESULT_SHARE,
+  RECENT_TURNS_SHARE,
+  SUMMARIZE_AT,
+  SUMMARY_PROMPT,
+  dropOldestTurns,
+  estimateTextTokens,
+  estimateTokens,
+  transcriptText,
+  truncateToolResults,
+  turnsToSummarize,
+  unsummarizedMessages,
+} from "./contextWindow";
 import { z } from "zod";
 import { v4 as uuidv4 } from "uuid";
 
@@ -21,13 +65,48 @@ process.env.LANGCHAIN_PROJECT = "mcp-studio";
 process.env.LANGCHAIN_API_KEY =
   "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";
 
-export class LangGraphAgent {
+// System prompt settings of the conversation a turn runs in
+export interface ConversationPromptSettings {
+  persona?: Persona;
+  systemPrompt?: string;
+}
+
+// Tool approval state of one thread
+interface ThreadApprovals {
+  // "Ask once" tools the user already approved in the thread
+  approvedToolIds: Set<string>;
+  // Set while a turn is paused on tool approval. Tool calls already shown
+  // to the user are not reported again when it resumes.
+  pausedTurn: {
+    reportedToolCallIds: Set<string>;
+    modelId?: string;
+  } | null;
+}
+
+// What a turn runs with. Turns run one at a time, each in its own thread.
+interface Turn {
+  runId: string;
+  threadId: string;
+  approvals: ThreadApprovals;
+  abortController: AbortController | null; // Set while the graph streams
+  stopped: boolean;
+  streamedText: string; // The current model reply so far
+  activeToolCallIds: Set<string>;
+  usage: ModelCallUsage[]; // Model calls of the turn
+}
+
+const newApprovals = (): ThreadApprovals => ({
+  approvedToolIds: new Set(),
+  pausedTurn: null,
+});
+
+export class LangGraphAgent extends EventEmitter {
   private mcpManager: MCPManager;
   private modelService: ModelService;
   private model: BaseChatModel | null = null;
   private modelWithTools: any = null; // Model bound with tools
   private app: any = null; // LangGraph compiled app
-  private checkpointer: MemorySaver;
+  private checkpointer: BaseCheckpointSaver;
   private tools: any[] = [];
   private toolNode: ToolNode | null = null;
   private isInitialized: boolean = false;
@@ -38,11 +117,30 @@ export class LangGraphAgent {
     string,
     { result: string; timestamp: number }
   > = new Map();
-
-  constructor(mcpManager: MCPManager, modelService: ModelService) {
+  // MCP tools by the name the model calls them, for approval policies
+  private toolsByName: Map<string, Tool> = new Map();
+  // Tool approvals of the open conversation, and of detached threads
+  private approvals: ThreadApprovals = newApprovals();
+  private detachedApprovals: Map<string, ThreadApprovals> = new Map();
+  // The turn being run, so it can be stopped. Later turns wait in the queue.
+  private turn: Turn | null = null;
+  private turnQueue: Promise<unknown> = Promise.resolve();
+  private usageService: UsageService | null;
+  private promptSettingsProvider:
+    | ((threadId: string) => ConversationPromptSettings)
+    | null = null;
+
+  constructor(
+    mcpManager: MCPManager,
+    modelService: ModelService,
+    checkpointer: BaseCheckpointSaver = new MemorySaver(), // Conversation memory
+    usageService?: UsageService
+  ) {
+    super();
     this.mcpManager = mcpManager;
     this.modelService = modelService;
-    this.checkpointer = new MemorySaver(); // Initialize memory for conversations
+    this.checkpointer = checkpointer;
+    this.usageService = usageService || null;
 
     // Listen for tool state changes to refresh agent
     this.mcpManager.on("toolStateChanged", () => {
@@ -50,6 +148,28 @@ export class LangGraphAgent {
       this.refreshAgent();
     });
 
+    // A workspace profile brought its own tool states
+    this.mcpManager.on("toolStatesReplaced", () => {
+      console.log("LangGraphAgent: Profile switched, refreshing agent...");
+      this.refreshAgent();
+    });
+
+    // A reconnected server's tools come back with their saved enable states
+    this.mcpManager.on("toolStatesReapplied", () => {
+      console.log("LangGraphAgent: Server reconnected, refreshing agent...");
+      this.refreshAgent();
+    });
+
+    // Rebuild the graph when a server adds or removes tools at runtime
+    this.mcpManager.on("listChanged", (event: ServerListChangedEvent) => {
+      if (event.kind === "tools") {
+        console.log(
+          `LangGraphAgent: Tools changed on server ${event.serverId}, refreshing agent...`
+        );
+        this.refreshAgent();
+      }
+    });
+
     // Initialize agent asynchronously
     this.initializeAgent();
   }
@@ -144,9 +264,11 @@ export class LangGraphAgent {
       this.toolNode = null;
 
       // Create a simple workflow without tools
-      const workflow = new StateGraph(MessagesAnnotation)
+      const workflow = new StateGraph(AgentStateAnnotation)
+        .addNode("context", this.manageContext.bind(this))
         .addNode("agent", this.callModel.bind(this))
-        .addEdge(START, "agent")
+        .addEdge(START, "context")
+        .addEdge("context", "agent")
         .addEdge("agent", END);
 
       this.app = workflow.compile({ checkpointer: this.checkpointer });
@@ -167,13 +289,20 @@ export class LangGraphAgent {
         this.modelWithTools = agentModel;
       }
 
-      // Create the StateGraph workflow
-      const workflow = new StateGraph(MessagesAnnotation)
+      // Create the StateGraph workflow. Every model call is preceded by
+      // "context", which keeps the thread inside the context window, and
+      // tool calls pass through "review", which may pause the run until the
+      // user approves them.
+      const workflow = new StateGraph(AgentStateAnnotation)
+        .addNode("context", this.manageContext.bind(this))
         .addNode("agent", this.callModel.bind(this))
-        .addNode("tools", this.toolNode)
-        .addEdge(START, "agent")
-        .addEdge("tools", "agent")
-        .addConditionalEdges("agent", this.shouldContinue.bind(this));
+        .addNode("review", this.reviewToolCalls.bind(this))
+        .addNode("tools", this.runApprovedTools.bind(this))
+        .addEdge(START, "context")
+        .addEdge("context", "agent")
+        .addEdge("tools", "context")
+        .addConditionalEdges("agent", this.shouldContinue.bind(this))
+        .addConditionalEdges("review", this.afterReview.bind(this));
 
       // Compile the workflow with checkpointer for memory
       this.app = workflow.compile({ checkpointer: this.checkpointer });
@@ -182,8 +311,79 @@ export class LangGraphAgent {
     console.log(`LangGraphAgent: StateGraph workflow set up successfully`);
   }
 
+  // StateGraph node function - when the thread fills most of the context
+  // window, folds its older turns into the summary
+  private async manageContext(state: AgentState) {
+    if (!this.model || !this.currentModelConfig) {
+      return {};
+    }
+
+    const { contextWindow } = this.modelService.getContextLimits(
+      this.currentModelConfig
+    );
+    const { usage } = this.prepareContext(state);
+    if (
+      usage.usedTokens <= contextWindow * SUMMARIZE_AT &&
+      !usage.droppedTurns
+    ) {
+      return {};
+    }
+
+    const older = turnsToSummarize(
+      unsummarizedMessages(state),
+      contextWindow * RECENT_TURNS_SHARE
+    );
+    if (older.length === 0) {
+      return {}; // Only the current turn is left; callModel cuts it down
+    }
+
+    try {
+      console.log(
+        `LangGraphAgent: Summarising ${older.length} older messages to fit the context window`
+      );
+      const maxToolResultTokens = Math.floor(
+        contextWindow * MAX_TOOL_RESULT_SHARE
+      );
+      const input = [
+        new SystemMessage({ content: SUMMARY_PROMPT }),
+        new HumanMessage({
+          content: [
+            state.summary && `Earlier summary:\n${state.summary}`,
+            `Conversation:\n${transcriptText(older, maxToolResultTokens)}`,
+          ]
+            .filter((part) => part)
+            .join("\n\n"),
+        }),
+      ];
+      const response = await this.model.invoke(input);
+      if (this.usageService && this.turn) {
+        this.turn.usage.push(
+          await this.usageService.measureCall(
+            this.model,
+            this.currentModelConfig,
+            input,
+            response
+          )
+        );
+      }
+
+      const summary = this.chunkText(response.content).trim();
+      if (!summary) {
+        return {};
+      }
+      return {
+        summary,
+        summarizedThroughId: older[older.length - 1].id,
+      };
+    } catch (error) {
+      // callModel still leaves out what doesn't fit
+      console.error("Failed to summarise the conversation:", error);
+      return {};
+    }
+  }
+
   // StateGraph node function - calls the model
-  private async callModel(state: typeof MessagesAnnotation.State) {
+  private async callModel(state: AgentState) {
     try {
       console.log("Calling model with messages:", state.messages.length);
 
@@ -192,40 +392,28 @@ export class LangGraphAgent {
         throw new Error("No model available");
       }
 
-      let messagesToSend = [...state.messages];
+      const { messages: messagesToSend, usage } = this.prepareContext(state);
+      this.emit("contextUsage", usage);
+
+      const response = await modelToUse.invoke(messagesToSend);
+      console.log("Model response:", response);
 
-      // Only add system instruction on the first call
       if (
-        this.modelWithTools &&
-        state.messages.filter((m) => m.getType() === "human").length === 1
+        this.usageService &&
+        this.turn &&
+        this.model &&
+        this.currentModelConfig
       ) {
-        const lastHumanMessage = state.messages.find(
-          (msg) => msg.getType() === "human"
+        this.turn.usage.push(
+          await this.usageService.measureCall(
+            this.model,
+            this.currentModelConfig,
+            messagesToSend,
+            response
+          )
         );
-
-        if (lastHumanMessage) {
-          const currentQuery =
-            typeof lastHumanMessage.content === "string"
-              ? lastHumanMessage.content
-              : JSON.stringify(lastHumanMessage.content);
-
-          const availableTools = this.tools.map((tool) => tool.name).join(", ");
-
-          const systemInstruction = new HumanMessage({
-            content: `You are a helpful AI assistant with these tools: ${availableTools}
-
-CRITICAL: You MUST use tools to answer this specific query: "${currentQuery}"
-
-Do not provide answers based on general knowledge when tools can give specific, current information. Always use the appropriate tools first, then respond based on their results.`,
-          });
-
-          messagesToSend = [systemInstruction, ...state.messages];
-        }
       }
 
-      const response = await modelToUse.invoke(messagesToSend);
-      console.log("Model response:", response);
-
       return { messages: [response] };
     } catch (error) {
       console.error("Error in callModel:", error);
@@ -238,6 +426,148 @@ Do not provide answers based on general knowledge when tools can give specific,
     }
   }
 
+  /**
+   * The messages a model call sends for the thread: the system prompt with
+   * the summary of older turns, then the newer messages with tool results
+   * cut to size and, if they still don't fit, without the oldest turns
+   */
+  private prepareContext(
+    state: AgentState,
+    modelConfig: ModelConfig | null = this.currentModelConfig
+  ): { messages: BaseMessage[]; usage: ContextUsage } {
+    const { contextWindow, maxOutputTokens } = modelConfig
+      ? this.modelService.getContextLimits(modelConfig)
+      : { contextWindow: Infinity, maxOutputTokens: 0 };
+
+    // The system prompt isn't kept in the thread, so it always reflects
+    // the current persona, model and tools
+    const system = new SystemMessage({
+      content: [
+        this.buildSystemPrompt(),
+        state.summary &&
+          `Summary of the earlier conversation:\n${state.summary}`,
+      ]
+        .filter((part) => part)
+        .join("\n\n"),
+    });
+    // Tool definitions are sent with every call too
+    const toolTokens =
+      this.tools.length > 0
+        ? estimateTextTokens(
+            JSON.stringify(
+              Array.from(this.toolsByName.values()).map((tool) => ({
+                name: tool.name,
+                description: tool.description,
+                inputSchema: tool.inputSchema,
+              }))
+            )
+          )
+        : 0;
+    const budget =
+      contextWindow - maxOutputTokens - toolTokens - estimateTokens([system]);
+
+    const truncated = truncateToolResults(
+      unsummarizedMessages(state),
+      Math.floor(contextWindow * MAX_TOOL_RESULT_SHARE)
+    );
+    const fitted = dropOldestTurns(truncated.messages, budget);
+    const messages = [system, ...fitted.messages];
+
+    return {
+      messages,
+      usage: {
+        usedTokens: estimateTokens(messages) + toolTokens,
+        contextWindow,
+        summarized: !!state.summary,
+        droppedTurns: fitted.droppedTurns,
+        truncatedResults: truncated.truncated,
+      },
+    };
+  }
+
+  /**
+   * How full the context window of the given model, or the current one,
+   * is with the open conversation
+   */
+  public async getContextUsage(
+    modelConfigId?: string
+  ): Promise<ContextUsage | null> {
+    const modelConfig = modelConfigId
+      ? this.modelService.getModelConfigs().find((c) => c.id === modelConfigId)
+      : this.currentModelConfig;
+    if (!modelConfig) {
+      return null;
+    }
+
+    const values =
+      this.app && this.currentThreadId
+        ? (
+            await this.app.getState({
+              configurable: { thread_id: this.currentThreadId },
+            })
+          ).values
+        : {};
+    return this.prepareContext(
+      {
+        messages: values.messages || [],
+        summary: values.summary,
+        summarizedThroughId: values.summarizedThroughId,
+      },
+      modelConfig
+    ).usage;
+  }
+
+  private buildSystemPrompt(): string {
+    const { persona, systemPrompt } = this.getPromptSettings();
+    const now = new Date();
+    const servers = this.mcpManager
+      .listServers()
+      .filter((server) => server.connected)
+      .map((server) => server.name);
+    const toolNames = this.tools.map((tool) => tool.name);
+
+    return buildSystemPrompt(
+      {
+        personaPrompt: persona?.systemPrompt,
+        modelPrompt: this.currentModelConfig?.systemPrompt,
+        conversationPrompt: systemPrompt,
+        hasTools: toolNames.length > 0,
+      },
+      {
+        date: now.toLocaleDateString("en-US", {
+          weekday: "long",
+          year: "numeric",
+          month: "long",
+          day: "numeric",
+        }),
+        time: now.toLocaleTimeString("en-US"),
+        model: this.currentModelConfig?.name || "unknown",
+        persona: persona?.name || "Assistant",
+        servers: servers.join(", ") || "none",
+        tools: toolNames.join(", ") || "none",
+      }
+    );
+  }
+
+  /**
+   * Where the agent looks up the persona and instructions of the
+   * conversation it's running in
+   */
+  public setPromptSettingsProvider(
+    provider: (threadId: string) => ConversationPromptSettings
+  ): void {
+    this.promptSettingsProvider = provider;
+  }
+
+  // Settings of the running turn's thread, or else the open conversation's
+  private getPromptSettings(): ConversationPromptSettings {
+    const threadId = this.turn ? this.turn.threadId : this.currentThreadId;
+    if (!threadId || !this.promptSettingsProvider) {
+      return {};
+    }
+    return this.promptSettingsProvider(threadId);
+  }
+
   // StateGraph conditional edge function - determines next step
   private shouldContinue(state: typeof MessagesAnnotation.State) {
     const lastMessage = state.messages[state.messages.length - 1] as AIMessage;
@@ -252,14 +582,164 @@ Do not provide answers based on general knowledge when tools can give specific,
       return END;
     }
 
-    // If the LLM makes a tool call, route to the "tools" node
+    // If the LLM makes a tool call, route it through approval first
     if (lastMessage.tool_calls?.length) {
-      return "tools";
+      return "review";
     }
 
     // Default to ending the workflow
     return END;
   }
+
+  // StateGraph node function - applies each tool's approval policy to the
+  // requested tool calls, pausing the run when the user has to decide. The
+  // node runs again from the top on resume, when interrupt() returns the
+  // user's decisions.
+  private async reviewToolCalls(state: typeof MessagesAnnotation.State) {
+    const lastMessage = state.messages[state.messages.length - 1] as AIMessage;
+    const toolCalls = lastMessage.tool_calls || [];
+    const { approvedToolIds } = this.runningTurn().approvals;
+    const rejections: ToolMessage[] = [];
+    const pending: PendingToolCall[] = [];
+
+    for (const toolCall of toolCalls) {
+      const mcpTool = this.toolsByName.get(toolCall.name);
+      if (!mcpTool?.serverId) {
+        continue; // The tool node reports unknown tools
+      }
+
+      const policy = this.mcpManager.getToolPolicy(
+        mcpTool.name,
+        mcpTool.serverId,
+        mcpTool.annotations
+      );
+      const toolId = `${mcpTool.serverId}:${mcpTool.name}`;
+
+      if (policy === "deny") {
+        rejections.push(
+          this.rejectToolCall(
+            toolCall,
+            "The user does not allow this tool to be called."
+          )
+        );
+      } else if (
+        policy === "ask" ||
+        (policy === "askOnce" && !approvedToolIds.has(toolId))
+      ) {
+        pending.push({
+          id: toolCall.id || "",
+          name: mcpTool.name,
+          qualifiedName: toolCall.name,
+          serverId: mcpTool.serverId,
+          args: toolCall.args,
+          policy,
+          destructive: mcpTool.annotations?.destructiveHint === true,
+        });
+      }
+    }
+
+    if (pending.length === 0) {
+      return { messages: rejections };
+    }
+
+    const decisions: ToolApprovalDecision[] = interrupt({
+      toolCalls: pending,
+    });
+
+    let edited = false;
+    const reviewedCalls = toolCalls.map((toolCall) => {
+      const decision = decisions.find((d) => d.id === toolCall.id);
+      if (decision?.action === "approve" && decision.args !== undefined) {
+        edited = true;
+        return { ...toolCall, args: decision.args };
+      }
+      return toolCall;
+    });
+
+    for (const call of pending) {
+      const decision = decisions.find((d) => d.id === call.id);
+      if (decision?.action === "approve") {
+        if (call.policy === "askOnce") {
+          approvedToolIds.add(`${call.serverId}:${call.name}`);
+        }
+      } else {
+        rejections.push(
+          this.rejectToolCall(
+            { id: call.id, name: call.qualifiedName },
+            decision?.reason
+              ? `The user rejected this tool call: ${decision.reason}`
+              : "The user rejected this tool call."
+          )
+        );
+      }
+    }
+
+    // Same id, so the edited message replaces the original in the state
+    const messages: BaseMessage[] = edited
+      ? [
+          new AIMessage({
+            id: lastMessage.id,
+            content: lastMessage.content,
+            tool_calls: reviewedCalls,
+          }),
+        ]
+      : [];
+    return { messages: [...messages, ...rejections] };
+  }
+
+  // StateGraph conditional edge function - runs the tool calls that are
+  // still unanswered, or lets the model react to the rejections
+  private afterReview(state: typeof MessagesAnnotation.State) {
+    return this.getUnansweredToolCalls(state.messages).length > 0
+      ? "tools"
+      : "context";
+  }
+
+  // StateGraph node function - runs the approved tool calls only
+  private async runApprovedTools(state: typeof MessagesAnnotation.State) {
+    if (!this.toolNode) {
+      throw new Error("No tools available");
+    }
+    return this.toolNode.invoke({
+      messages: [
+        new AIMessage({
+          content: "",
+          tool_calls: this.getUnansweredToolCalls(state.messages),
+        }),
+      ],
+    });
+  }
+
+  private getUnansweredToolCalls(messages: BaseMessage[]) {
+    for (let i = messages.length - 1; i >= 0; i--) {
+      const message = messages[i] as AIMessage;
+      if (message.getType() !== "ai" || !message.tool_calls?.length) {
+        continue;
+      }
+
+      const answered = new Set(
+        messages
+          .slice(i + 1)
+          .filter((msg) => msg.getType() === "tool")
+          .map((msg) => (msg as ToolMessage).tool_call_id)
+      );
+      return message.tool_calls.filter(
+        (toolCall) => !answered.has(toolCall.id || "")
+      );
+    }
+    return [];
+  }
+
+  private rejectToolCall(
+    toolCall: { id?: string; name: string },
+    reason: string
+  ): ToolMessage {
+    return new ToolMessage({
+      tool_call_id: toolCall.id || "",
+      name: toolCall.name,
+      content: `${reason} Do not try to call it again for this request.`,
+    });
+  }
   // New node function - generates response after seeing tool results
   private async respondWithToolResults(state: typeof MessagesAnnotation.State) {
     try {
@@ -330,6 +810,7 @@ Be natural and helpful. Explain what information you found and how it answers th
   private async getAvailableTools(): Promise<any[]> {
     console.log("LangGraphAgent: Getting available tools...");
     const tools: any[] = [];
+    this.toolsByName.clear();
     const servers = this.mcpManager.listServers();
     // console.log("LangGraphAgent: Found servers:", servers);
 
@@ -358,7 +839,23 @@ Be natural and helpful. Explain what information you found and how it answers th
       //   );
       // });
 
+      // A persona may limit the assistant to some servers and tools
+      const { persona } = this.getPromptSettings();
+
       for (const mcpTool of mcpTools) {
+        if (
+          persona?.allowedServerIds &&
+          !persona.allowedServerIds.includes(mcpTool.serverId || "")
+        ) {
+          continue;
+        }
+        if (
+          persona?.allowedTools &&
+          !persona.allowedTools.includes(mcpTool.qualifiedName || mcpTool.name)
+        ) {
+          continue;
+        }
+
         try {
           // Convert JSON Schema to Zod schema for better type safety
           const zodSchema = this.convertJsonSchemaToZod(
@@ -366,6 +863,9 @@ Be natural and helpful. Explain what information you found and how it answers th
             mcpTool.name
           );
 
+          // Namespaced so same-named tools on different servers stay apart
+          const toolName = mcpTool.qualifiedName || mcpTool.name;
+
           // Use the modern tool() function for better reliability
           const langchainTool = tool(
             async (input: any) => {
@@ -378,7 +878,7 @@ Be natural and helpful. Explain what information you found and how it answers th
                 args = await this.processToolInputs(args, mcpTool);
 
                 // Create a cache key for this tool execution
-                const cacheKey = `${mcpTool.name}:${JSON.stringify(args)}`;
+                const cacheKey = `${toolName}:${JSON.stringify(args)}`;
                 const now = Date.now();
                 const cacheExpiryMs = 30000; // 30 seconds cache
 
@@ -437,12 +937,22 @@ Be natural and helpful. Explain what information you found and how it answers th
                   }
                 }
 
-                // Call the MCP tool with the processed arguments
-                const result = await this.mcpManager.callTool(
-                  mcpTool.name,
-                  args,
-                  serverId
-                );
+                // Call the MCP tool with the processed arguments. The call id
+                // lets a stopped run cancel it on the server.
+                const callId = uuidv4();
+                const { activeToolCallIds } = this.runningTurn();
+                activeToolCallIds.add(callId);
+                let result: ToolCallResult;
+                try {
+                  result = await this.mcpManager.callTool(
+                    mcpTool.name,
+                    args,
+                    serverId,
+                    callId
+                  );
+                } finally {
+                  activeToolCallIds.delete(callId);
+                }
 
                 // Switch back to previous model if we switched
                 if (modelSwitched && previousModel) {
@@ -462,10 +972,7 @@ Be natural and helpful. Explain what information you found and how it answers th
                 console.log(`Tool ${mcpTool.name} result:`, result);
 
                 // Tools must always return strings according to LangChain docs
-                const stringResult =
-                  typeof result === "string"
-                    ? result
-                    : JSON.stringify(result, null, 2);
+                const stringResult = this.formatToolResult(result);
 
                 // Store model information for this tool execution
                 // We'll append it to the result so we can extract it later
@@ -524,13 +1031,14 @@ This suggests there may be a mismatch between the tool's expected parameters and
               }
             },
             {
-              name: mcpTool.name,
+              name: toolName,
               description: this.enhanceToolDescription(mcpTool),
               schema: zodSchema,
             }
           );
 
           tools.push(langchainTool);
+          this.toolsByName.set(toolName, mcpTool);
           // console.log(`Created tool for ${mcpTool.name}`);
         } catch (toolError: any) {
           console.error(`Error creating tool ${mcpTool.name}:`, toolError);
@@ -547,6 +1055,15 @@ This suggests there may be a mismatch between the tool's expected parameters and
     return tools;
   }
 
+  // What the model sees of a tool result: the structured output when the
+  // tool returned one, otherwise its content blocks
+  private formatToolResult(result: ToolCallResult): string {
+    const body = result.structuredContent
+      ? JSON.stringify(result.structuredContent, null, 2)
+      : JSON.stringify(result.content, null, 2);
+    return result.isError ? `The tool reported an error:\n${body}` : body;
+  }
+
   // Option 2: Use LangChain's withStructuredOutput for guaranteed valid tool calls
   private async createStructuredToolCallingModel(tools: any[]): Promise<any> {
     if (!this.model || tools.length === 0) {
@@ -633,6 +1150,280 @@ This suggests there may be a mismatch between the tool's expected parameters and
   async processMessage(
     message: string,
     modelId?: string
+  ): Promise<ChatMessage> {
+    return this.runTurn(this.openThreadId(), this.approvals, (turn) =>
+      this.runMessage(turn, message, modelId)
+    );
+  }
+
+  /**
+   * Run a turn in a thread of its own that isn't saved with the
+   * conversations, leaving the open conversation as it was. Turns with the
+   * same key share a thread until the app closes.
+   */
+  async processDetachedMessage(
+    message: string,
+    modelId?: string,
+    key: string = uuidv4()
+  ): Promise<ChatMessage> {
+    const threadId = `${TRANSIENT_THREAD_PREFIX}${key}`;
+    let approvals = this.detachedApprovals.get(threadId);
+    if (!approvals) {
+      approvals = newApprovals();
+      this.detachedApprovals.set(threadId, approvals);
+    }
+    return this.runTurn(threadId, approvals, (turn) =>
+      this.runMessage(turn, message, modelId)
+    );
+  }
+
+  /**
+   * Continue a turn that paused for tool approval. Tool calls without a
+   * decision are rejected.
+   */
+  async respondToToolApproval(
+    decisions: ToolApprovalDecision[]
+  ): Promise<ChatMessage> {
+    return this.runTurn(this.openThreadId(), this.approvals, (turn) =>
+      this.resumeMessage(turn, decisions)
+    );
+  }
+
+  /**
+   * Abort the running turn. Tool calls still in flight are cancelled on
+   * their servers, and the turn ends with what was streamed so far.
+   */
+  public stopMessage(): boolean {
+    if (!this.turn?.abortController) {
+      return false;
+    }
+    this.turn.stopped = true;
+    this.turn.abortController.abort();
+    this.turn.activeToolCallIds.forEach((callId) =>
+      this.mcpManager.cancelToolCall(callId)
+    );
+    return true;
+  }
+
+  // The open conversation's thread, started with its first turn
+  private openThreadId(): string {
+    if (!this.currentThreadId) {
+      this.currentThreadId = uuidv4();
+      console.log(
+        `LangGraphAgent: Starting new conversation with thread ID: ${this.currentThreadId}`
+      );
+    }
+    return this.currentThreadId;
+  }
+
+  // Graph nodes and tools only run inside a turn
+  private runningTurn(): Turn {
+    if (!this.turn) {
+      throw new Error("No turn is running");
+    }
+    return this.turn;
+  }
+
+  // Queue a turn behind the ones already running or waiting. Turns share
+  // the model, tools and graph, so they run one at a time.
+  private runTurn(
+    threadId: string,
+    approvals: ThreadApprovals,
+    run: (turn: Turn) => Promise<ChatMessage>
+  ): Promise<ChatMessage> {
+    const result = this.turnQueue.then(() =>
+      this.executeTurn(threadId, approvals, run)
+    );
+    this.turnQueue = result.catch(() => undefined);
+    return result;
+  }
+
+  // Run one turn, streaming its progress as "streamEvent"s. Servers may ask
+  // the user for input while tools run during the turn.
+  private async executeTurn(
+    threadId: string,
+    approvals: ThreadApprovals,
+    run: (turn: Turn) => Promise<ChatMessage>
+  ): Promise<ChatMessage> {
+    const turn: Turn = {
+      runId: uuidv4(),
+      threadId,
+      approvals,
+      abortController: null,
+      stopped: false,
+      streamedText: "",
+      activeToolCallIds: new Set(),
+      usage: [],
+    };
+    this.turn = turn;
+    this.emitStream({ type: "start", runId: turn.runId });
+
+    const elicitations: ElicitationRecord[] = [];
+    const recordElicitation = (record: ElicitationRecord) => {
+      elicitations.push(record);
+    };
+    this.mcpManager.on("elicitation", recordElicitation);
+
+    try {
+      let response = await run(turn);
+      if (turn.stopped) {
+        response = {
+          ...response,
+          content: turn.streamedText
+            ? `${turn.streamedText}\n\n*Stopped.*`
+            : "*Stopped before the assistant replied.*",
+        };
+      }
+      if (elicitations.length > 0) {
+        response = { ...response, elicitations };
+      }
+      const usage = this.usageService?.record(turn.usage, {
+        source: "chat",
+        conversationId: isTransientThread(threadId) ? undefined : threadId,
+        messageId: response.id,
+      });
+      if (usage) {
+        response = { ...response, usage };
+      }
+
+      this.emitStream({
+        type: "end",
+        runId: turn.runId,
+        message: response,
+        ...(turn.stopped ? { stopped: true } : {}),
+      });
+      return response;
+    } finally {
+      this.mcpManager.off("elicitation", recordElicitation);
+      this.turn = null;
+    }
+  }
+
+  // Stream the graph and forward model tokens and tool steps. Returns the
+  // thread's state afterwards, like invoke() would; a stopped run returns
+  // the state it got to.
+  private async runGraph(
+    turn: Turn,
+    input: any,
+    config: { configurable: { thread_id: string } }
+  ): Promise<any> {
+    const controller = new AbortController();
+    turn.abortController = controller;
+
+    try {
+      const events = this.app.streamEvents(input, {
+        ...config,
+        version: "v2",
+        signal: controller.signal,
+      });
+      for await (const event of events) {
+        this.forwardGraphEvent(turn, event);
+      }
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        throw error;
+      }
+      await this.closeStoppedRun(config);
+    } finally {
+      turn.abortController = null;
+    }
+
+    return (await this.app.getState(config)).values;
+  }
+
+  private forwardGraphEvent(turn: Turn, event: any) {
+    const { runId } = turn;
+
+    switch (event.event) {
+      case "on_chat_model_start":
+        if (event.metadata?.langgraph_node === "agent") {
+          turn.streamedText = "";
+        }
+        break;
+
+      case "on_chat_model_stream": {
+        if (event.metadata?.langgraph_node !== "agent") break;
+        const text = this.chunkText(event.data?.chunk?.content);
+        if (text) {
+          turn.streamedText += text;
+          this.emitStream({ type: "token", runId, text });
+        }
+        break;
+      }
+
+      case "on_tool_start":
+        this.emitStream({
+          type: "toolStart",
+          runId,
+          callId: event.run_id,
+          name: this.toolsByName.get(event.name)?.name || event.name,
+          args: event.data?.input,
+        });
+        break;
+
+      case "on_tool_end": {
+        const output = event.data?.output;
+        const content =
+          typeof output === "string" ? output : output?.content ?? "";
+        this.emitStream({
+          type: "toolEnd",
+          runId,
+          callId: event.run_id,
+          name: this.toolsByName.get(event.name)?.name || event.name,
+          result: String(content).split("|||MODEL_USED:")[0],
+        });
+        break;
+      }
+    }
+  }
+
+  // Text of a streamed chunk; some providers send content blocks
+  private chunkText(content: any): string {
+    if (typeof content === "string") {
+      return content;
+    }
+    if (Array.isArray(content)) {
+      return content
+        .map((block) => (block?.type === "text" ? block.text : ""))
+        .join("");
+    }
+    return "";
+  }
+
+  // A run stopped mid-step can leave tool calls without results, which
+  // providers reject on the next turn. Answer them so the thread stays
+  // usable.
+  private async closeStoppedRun(config: {
+    configurable: { thread_id: string };
+  }) {
+    const { values } = await this.app.getState(config);
+    const unanswered = this.getUnansweredToolCalls(values?.messages || []);
+    if (unanswered.length === 0) {
+      return;
+    }
+
+    await this.app.updateState(
+      config,
+      {
+        messages: unanswered.map((toolCall) =>
+          this.rejectToolCall(
+            toolCall,
+            "The user stopped the run before this tool call finished."
+          )
+        ),
+      },
+      "tools"
+    );
+  }
+
+  private emitStream(event: AgentStreamEvent) {
+    this.emit("streamEvent", event);
+  }
+
+  private async runMessage(
+    turn: Turn,
+    message: string,
+    modelId?: string
   ): Promise<ChatMessage> {
     try {
       // Ensure agent is initialized
@@ -640,6 +1431,17 @@ This suggests there may be a mismatch between the tool's expected parameters and
         await this.initializeAgent();
       }
 
+      // A new message can't start while tool calls wait for a decision
+      if (turn.approvals.pausedTurn) {
+        return {
+          id: uuidv4(),
+          role: "assistant",
+          content:
+            "Approve or reject the pending tool calls before sending another message.",
+          timestamp: new Date(),
+        };
+      }
+
       // Switch model if requested
       if (modelId) {
         await this.switchToModel(modelId);
@@ -661,14 +1463,7 @@ This suggests there may be a mismatch between the tool's expected parameters and
 
       console.log("Processing message with StateGraph workflow:", message);
 
-      // Create a unique thread ID for this conversation if one doesn't exist
-      if (!this.currentThreadId) {
-        this.currentThreadId = uuidv4();
-        console.log(
-          `LangGraphAgent: Starting new conversation with thread ID: ${this.currentThreadId}`
-        );
-      }
-      const config = { configurable: { thread_id: this.currentThreadId } };
+      const config = { configurable: { thread_id: turn.threadId } };
 
       // Handle case when no tools are available (app is LLM-only)
       if (!this.toolNode || this.tools.length === 0) {
@@ -677,26 +1472,18 @@ This suggests there may be a mismatch between the tool's expected parameters and
         );
 
         // Invoke the LLM-only workflow
-        const result = await this.app.invoke(
+        const result = await this.runGraph(
+          turn,
           {
-            messages: [
-              new HumanMessage({
-                content: `You are Granite, developed by IBM. You are a helpful AI assistant.
-
-Since no MCP tools are currently available, respond using your built-in knowledge. If users ask about specific operations that would require tools (like checking current time, listing files, or git operations), politely explain that those tools are not currently connected and offer to help with other questions.
-
-Be conversational and helpful. You can discuss general knowledge, programming concepts, and provide guidance on various topics.
-
-User query: ${message}`,
-              }),
-            ],
+            messages: [new HumanMessage({ content: message })],
           },
           config
         );
 
         const lastMessage = result.messages[result.messages.length - 1];
         return {
-          id: uuidv4(),
+          // The thread's message id, so usage finds the message again
+          id: lastMessage.id || uuidv4(),
           role: "assistant",
           content: lastMessage.content || "No response generated",
           timestamp: new Date(),
@@ -708,7 +1495,8 @@ User query: ${message}`,
       console.log("Processing message with StateGraph ReAct workflow");
 
       // Invoke the StateGraph workflow - it will handle tool calling automatically
-      const result = await this.app.invoke(
+      const result = await this.runGraph(
+        turn,
         {
           messages: [new HumanMessage({ content: message })],
         },
@@ -717,86 +1505,44 @@ User query: ${message}`,
 
       console.log("StateGraph result:", result);
 
-      // Extract the final response and tool calls from the workflow result
-      let content = "No response generated";
-      const toolCalls: ToolCall[] = [];
-
-      if (result.messages && result.messages.length > 0) {
-        // Get the last message from the workflow
-        const lastMessage = result.messages[result.messages.length - 1];
-        content = lastMessage.content || "No response generated";
-
-        // Find the starting point of this conversation turn by looking for our input message
-        const inputMessageIndex = result.messages.findIndex(
-          (msg: BaseMessage) =>
-            msg.getType() === "human" && msg.content === message
-        );
-
-        // Only extract tool calls from messages after our input (current turn only)
-        const currentTurnMessages =
-          inputMessageIndex >= 0
-            ? result.messages.slice(inputMessageIndex)
-            : result.messages;
-
-        // Extract tool calls only from AI messages in the current turn
-        const currentTurnAiMessages = currentTurnMessages.filter(
-          (msg: BaseMessage) => msg.getType() === "ai"
-        ) as AIMessage[];
-
-        for (const aiMessage of currentTurnAiMessages) {
-          if (aiMessage.tool_calls && Array.isArray(aiMessage.tool_calls)) {
-            for (const toolCall of aiMessage.tool_calls) {
-              // Find the corresponding tool message with the result (also from current turn)
-              const toolMessage = currentTurnMessages.find(
-                (msg: BaseMessage) =>
-                  msg.getType() === "tool" &&
-                  (msg as any).tool_call_id === toolCall.id
-              );
-
-              // Extract model information from tool result if available
-              let toolResult = toolMessage
-                ? (toolMessage as any).content
-                : undefined;
-              let modelUsedForTool =
-                this.currentModelConfig?.modelId || modelId;
-
-              if (
-                toolResult &&
-                typeof toolResult === "string" &&
-                toolResult.includes("|||MODEL_USED:")
-              ) {
-                const parts = toolResult.split("|||MODEL_USED:");
-                if (parts.length === 2) {
-                  toolResult = parts[0]; // Clean result without model info
-                  const modelPart = parts[1].split("|||")[0]; // Extract model info
-                  if (modelPart && modelPart !== "unknown") {
-                    modelUsedForTool = modelPart;
-                  }
-                }
-              }
-
-              toolCalls.push({
-                id: toolCall.id || uuidv4(),
-                name: toolCall.name,
-                args: toolCall.args,
-                serverId: "mcp", // StateGraph handles this automatically
-                result: toolResult,
-                modelId: modelUsedForTool, // Use the actual model that executed this tool
-              });
-            }
-          }
-        }
-      }
-
+      return await this.buildTurnResponse(turn, result, config, modelId);
+    } catch (error: any) {
+      console.error("Error processing message with StateGraph:", error);
       return {
         id: uuidv4(),
         role: "assistant",
-        content,
+        content: `Error: ${error.message}`,
         timestamp: new Date(),
-        toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
       };
+    }
+  }
+
+  private async resumeMessage(
+    turn: Turn,
+    decisions: ToolApprovalDecision[]
+  ): Promise<ChatMessage> {
+    const { approvals } = turn;
+    try {
+      if (!approvals.pausedTurn || !this.app) {
+        throw new Error("No tool calls are waiting for approval");
+      }
+
+      const config = { configurable: { thread_id: turn.threadId } };
+      const result = await this.runGraph(
+        turn,
+        new Command({ resume: decisions }),
+        config
+      );
+
+      return await this.buildTurnResponse(
+        turn,
+        result,
+        config,
+        approvals.pausedTurn.modelId
+      );
     } catch (error: any) {
-      console.error("Error processing message with StateGraph:", error);
+      console.error("Error resuming StateGraph after tool approval:", error);
+      approvals.pausedTurn = null;
       return {
         id: uuidv4(),
         role: "assistant",
@@ -806,6 +1552,134 @@ User query: ${message}`,
     }
   }
 
+  // Extract the final response and the current turn's tool calls from the
+  // workflow result. When the run paused for approval, the tool calls
+  // waiting on the user are returned as the pending approval instead.
+  private async buildTurnResponse(
+    turn: Turn,
+    result: any,
+    config: { configurable: { thread_id: string } },
+    modelId?: string
+  ): Promise<ChatMessage> {
+    const snapshot = await this.app.getState(config);
+    const approval = (snapshot.tasks || [])
+      .flatMap((task: any) => task.interrupts || [])
+      .find((pending: any) => pending.value?.toolCalls)?.value as
+      | { toolCalls: PendingToolCall[] }
+      | undefined;
+
+    const alreadyReported =
+      turn.approvals.pausedTurn?.reportedToolCallIds || new Set<string>();
+    let content = "No response generated";
+    let messageId: string | undefined;
+    const toolCalls: ToolCall[] = [];
+
+    if (result.messages && result.messages.length > 0) {
+      // Get the last message from the workflow
+      const lastMessage = result.messages[result.messages.length - 1];
+      messageId = lastMessage.id;
+      content =
+        lastMessage.content || (approval ? "" : "No response generated");
+
+      // The current turn starts at the last user message
+      let inputMessageIndex = -1;
+      result.messages.forEach((msg: BaseMessage, index: number) => {
+        if (msg.getType() === "human") {
+          inputMessageIndex = index;
+        }
+      });
+
+      // Only extract tool calls from messages after our input (current turn only)
+      const currentTurnMessages =
+        inputMessageIndex >= 0
+          ? result.messages.slice(inputMessageIndex)
+          : result.messages;
+
+      // Extract tool calls only from AI messages in the current turn
+      const currentTurnAiMessages = currentTurnMessages.filter(
+        (msg: BaseMessage) => msg.getType() === "ai"
+      ) as AIMessage[];
+
+      for (const aiMessage of currentTurnAiMessages) {
+        if (aiMessage.tool_calls && Array.isArray(aiMessage.tool_calls)) {
+          for (const toolCall of aiMessage.tool_calls) {
+            if (toolCall.id && alreadyReported.has(toolCall.id)) {
+              continue;
+            }
+
+            // Find the corresponding tool message with the result (also from current turn)
+            const toolMessage = currentTurnMessages.find(
+              (msg: BaseMessage) =>
+                msg.getType() === "tool" &&
+                (msg as any).tool_call_id === toolCall.id
+            );
+
+            // Calls waiting for approval are shown with the approval request
+            if (!toolMessage && approval) {
+              continue;
+            }
+
+            // Extract model information from tool result if available
+            let toolResult = toolMessage
+              ? (toolMessage as any).content
+              : undefined;
+            let modelUsedForTool = this.currentModelConfig?.modelId || modelId;
+
+            if (
+              toolResult &&
+              typeof toolResult === "string" &&
+              toolResult.includes("|||MODEL_USED:")
+            ) {
+              const parts = toolResult.split("|||MODEL_USED:");
+              if (parts.length === 2) {
+                toolResult = parts[0]; // Clean result without model info
+                const modelPart = parts[1].split("|||")[0]; // Extract model info
+                if (modelPart && modelPart !== "unknown") {
+                  modelUsedForTool = modelPart;
+                }
+              }
+            }
+
+            const mcpTool = this.toolsByName.get(toolCall.name);
+            toolCalls.push({
+              id: toolCall.id || uuidv4(),
+              name: mcpTool?.name || toolCall.name,
+              args: toolCall.args,
+              serverId: mcpTool?.serverId || "mcp",
+              result: toolResult,
+              modelId: modelUsedForTool, // Use the actual model that executed this tool
+            });
+          }
+        }
+      }
+    }
+
+    turn.approvals.pausedTurn = approval
+      ? {
+          reportedToolCallIds: new Set([
+            ...Array.from(alreadyReported),
+            ...toolCalls.map((toolCall) => toolCall.id),
+          ]),
+          modelId,
+        }
+      : null;
+
+    return {
+      // The thread's message id, so usage finds the message again
+      id: messageId || uuidv4(),
+      role: "assistant",
+      content,
+      timestamp: new Date(),
+      toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+      ...(approval && {
+        pendingApproval: {
+          threadId: config.configurable.thread_id,
+          toolCalls: approval.toolCalls,
+        },
+      }),
+    };
+  }
+
   // Method to switch to a specific model configuration
   async switchToModel(modelConfigId: string): Promise<void> {
     const configs = this.modelService.getModelConfigs();
@@ -844,6 +1718,7 @@ User query: ${message}`,
   // Method to start a new conversation (and clear history)
   public startNewConversation(): void {
     this.currentThreadId = null;
+    this.approvals = newApprovals();
     // Clear tool execution cache for new conversation
     this.recentToolExecutions.clear();
     console.log(
@@ -854,9 +1729,44 @@ User query: ${message}`,
   // Method to set a custom thread ID for conversation context
   public setThreadId(threadId: string): void {
     this.currentThreadId = threadId;
+    this.approvals = newApprovals();
     console.log(`LangGraphAgent: Set thread ID to: ${threadId}`);
   }
 
+  /**
+   * Continue a saved conversation. When it was left paused on tool approval,
+   * the approval request is returned so the user can answer it.
+   */
+  public async resumeThread(
+    threadId: string
+  ): Promise<ToolApprovalRequest | undefined> {
+    this.setThreadId(threadId);
+    if (!this.app) {
+      return undefined;
+    }
+
+    const snapshot = await this.app.getState({
+      configurable: { thread_id: threadId },
+    });
+    const approval = (snapshot.tasks || [])
+      .flatMap((task: any) => task.interrupts || [])
+      .find((pending: any) => pending.value?.toolCalls)?.value as
+      | { toolCalls: PendingToolCall[] }
+      | undefined;
+    if (!approval) {
+      return undefined;
+    }
+
+    // Calls made before the pause are already in the transcript
+    const reportedToolCallIds = new Set<string>(
+      (snapshot.values?.messages || [])
+        .filter((msg: BaseMessage) => msg.getType() === "tool")
+        .map((msg: ToolMessage) => msg.tool_call_id)
+    );
+    this.approvals.pausedTurn = { reportedToolCallIds };
+    return { threadId, toolCalls: approval.toolCalls };
+  }
+
   // Method to get current thread ID
   public getThreadId(): string | null {
     return this.currentThreadId;
@@ -948,6 +1858,13 @@ User query: ${message}`,
 
     let enhanced = `${name}: ${description}`;
 
+    // Behaviour hints from the server, so the model can pick the least
+    // invasive tool
+    const hints = this.describeToolAnnotations(tool);
+    if (hints) {
+      enhanced += `\nBehaviour: ${hints}`;
+    }
+
     if (schema.properties) {
       const params = Object.keys(schema.properties);
       if (params.length > 0) {
@@ -1002,6 +1919,29 @@ User query: ${message}`,
     return enhanced;
   }
 
+  private describeToolAnnotations(tool: Tool): string {
+    const annotations = tool.annotations;
+    if (!annotations) {
+      return "";
+    }
+
+    const hints: string[] = [];
+    if (annotations.readOnlyHint) {
+      hints.push("read-only, does not change anything");
+    } else if (annotations.destructiveHint) {
+      hints.push("destructive, may delete or overwrite data");
+    } else if (annotations.readOnlyHint === false) {
+      hints.push("makes changes");
+    }
+    if (annotations.idempotentHint) {
+      hints.push("safe to repeat");
+    }
+    if (annotations.openWorldHint) {
+      hints.push("reaches external systems");
+    }
+    return hints.join("; ");
+  }
+
   // Get tool-specific usage examples
   private getToolSpecificExample(toolName: string, schema: any): string {
     const lowerName = toolName.toLowerCase();
@@ -0,0 +1,192 @@
+/**
+ * Context window management for the chat agent
+ *
+ * Before every model call the thread is measured against the model's context
+ * window. Older turns are folded into a running summary kept in the graph
+ * state, oversized tool results are cut short for the model (the transcript
+ * keeps them whole), and as a last resort the oldest turns are left out.
+ */
+
+import { Annotation, MessagesAnnotation } from "@langchain/langgraph";
+import { AIMessage, BaseMessage, ToolMessage } from "@langchain/core/messages";
+
+export const AgentStateAnnotation = Annotation.Root({
+  ...MessagesAnnotation.spec,
+  // What happened up to and including the message summarizedThroughId.
+  // The messages stay in the thread so the chat can still show them.
+  summary: Annotation<string | undefined>,
+  summarizedThroughId: Annotation<string | undefined>,
+});
+
+export type AgentState = typeof AgentStateAnnotation.State;
+
+// Summarise once the thread fills this much of the window, before it
+// overflows, and keep this much of the window for the recent turns
+export const SUMMARIZE_AT = 0.8;
+export const RECENT_TURNS_SHARE = 0.5;
+
+// A single tool result may take up this much of the window
+export const MAX_TOOL_RESULT_SHARE = 0.25;
+
+export const SUMMARY_PROMPT = `You summarise conversations between a user and an AI assistant that can call tools. Write a concise summary of the conversation below for the assistant to continue from. Keep the user's goals and preferences, decisions made, facts and figures found with tools, and anything still unresolved. Leave out pleasantries. If an earlier summary is given, fold it into the new one.`;
+
+// About four characters a token for English text and code. Providers count
+// exactly; this only has to be close enough to stay inside the window.
+const CHARS_PER_TOKEN = 4;
+const TOKENS_PER_MESSAGE = 4;
+
+export function messageText(message: BaseMessage): string {
+  if (typeof message.content === "string") {
+    return message.content;
+  }
+  return message.content
+    .map((block: any) => (block?.type === "text" ? block.text : ""))
+    .join("");
+}
+
+export function estimateTextTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+export function estimateTokens(messages: BaseMessage[]): number {
+  return messages.reduce((total, message) => {
+    const toolCalls = (message as AIMessage).tool_calls;
+    return (
+      total +
+      TOKENS_PER_MESSAGE +
+      estimateTextTokens(messageText(message)) +
+      (toolCalls?.length ? estimateTextTokens(JSON.stringify(toolCalls)) : 0)
+    );
+  }, 0);
+}
+
+// The messages the summary doesn't cover yet
+export function unsummarizedMessages(state: AgentState): BaseMessage[] {
+  if (!state.summarizedThroughId) {
+    return state.messages;
+  }
+  const index = state.messages.findIndex(
+    (message) => message.id === state.summarizedThroughId
+  );
+  return index >= 0 ? state.messages.slice(index + 1) : state.messages;
+}
+
+/**
+ * Split messages into turns, each starting at a user message, so tool calls
+ * always stay with their results
+ */
+export function splitTurns(messages: BaseMessage[]): BaseMessage[][] {
+  const turns: BaseMessage[][] = [];
+  for (const message of messages) {
+    if (message.getType() === "human" || turns.length === 0) {
+      turns.push([message]);
+    } else {
+      turns[turns.length - 1].push(message);
+    }
+  }
+  return turns;
+}
+
+/**
+ * Cut tool results longer than maxTokens, telling the model the user can
+ * still see the whole result
+ */
+export function truncateToolResults(
+  messages: BaseMessage[],
+  maxTokens: number
+): { messages: BaseMessage[]; truncated: number } {
+  let truncated = 0;
+  const result = messages.map((message) => {
+    if (message.getType() !== "tool") {
+      return message;
+    }
+    const text = messageText(message);
+    const tokens = estimateTextTokens(text);
+    if (tokens <= maxTokens) {
+      return message;
+    }
+
+    truncated++;
+    const toolMessage = message as ToolMessage;
+    return new ToolMessage({
+      id: toolMessage.id,
+      tool_call_id: toolMessage.tool_call_id,
+      name: toolMessage.name,
+      content: `${text.slice(0, maxTokens * CHARS_PER_TOKEN)}
+
+[Result truncated from about ${tokens} to ${maxTokens} tokens to fit the context window. The user can view the full result in the chat.]`,
+    });
+  });
+  return { messages: result, truncated };
+}
+
+/**
+ * Leave out the oldest turns until the rest fits in the budget. The latest
+ * turn is always kept.
+ */
+export function dropOldestTurns(
+  messages: BaseMessage[],
+  budget: number
+): { messages: BaseMessage[]; droppedTurns: number } {
+  const turns = splitTurns(messages);
+  let droppedTurns = 0;
+  while (turns.length > 1 && estimateTokens(turns.flat()) > budget) {
+    turns.shift();
+    droppedTurns++;
+  }
+  return { messages: turns.flat(), droppedTurns };
+}
+
+/**
+ * Older turns to summarise, leaving the most recent ones that fit in the
+ * budget (and at least the latest turn) as they are
+ */
+export function turnsToSummarize(
+  messages: BaseMessage[],
+  recentBudget: number
+): BaseMessage[] {
+  const turns = splitTurns(messages);
+  let kept = 1;
+  while (
+    kept < turns.length &&
+    estimateTokens(turns.slice(-(kept + 1)).flat()) <= recentBudget
+  ) {
+    kept++;
+  }
+  return turns.slice(0, -kept).flat();
+}
+
+// The messages as plain text for the summariser, which sees no tool calls
+// it would have to answer
+export function transcriptText(
+  messages: BaseMessage[],
+  maxToolResultTokens: number
+): string {
+  return messages
+    .map((message) => {
+      const text = messageText(message);
+      switch (message.getType()) {
+        case "human":
+          return `User: ${text}`;
+        case "ai": {
+          const calls = ((message as AIMessage).tool_calls || []).map(
+            (call) =>
+              `Assistant called ${call.name}(${JSON.stringify(call.args)})`
+          );
+          return [text && `Assistant: ${text}`, ...calls]
+            .filter((line) => line)
+            .join("\n");
+        }
+        case "tool": {
+          const limit = maxToolResultTokens * CHARS_PER_TOKEN;
+          return `Tool result: ${
+            text.length > limit ? `${text.slice(0, limit)} [...]` : text
+          }`;
+        }
+        default:
+          return text;
+      }
+    })
+    .filter((line) => line)
+    .join("\n\n");
+}
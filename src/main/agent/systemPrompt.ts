@@ -0,0 +1,44 @@
+/**
+ * System prompt for the chat agent
+ *
+ * The prompt is assembled for every model call from the persona's prompt
+ * (or the default one), the model's own instructions, the conversation's
+ * instructions and guidance on tool use, then its {{variables}} are filled.
+ */
+
+import { renderPromptTemplate } from "../../shared/promptVariables";
+
+export const DEFAULT_SYSTEM_PROMPT = `You are a helpful AI assistant in MCP Studio. Today is {{date}}.
+
+Be conversational and helpful. You can discuss general knowledge, programming concepts, and provide guidance on various topics.`;
+
+const TOOL_GUIDANCE = `You can call these tools: {{tools}}
+
+Do not provide answers based on general knowledge when tools can give specific, current information. Use the appropriate tools first, then respond based on their results.
+
+When the user is only asking a question, prefer tools marked read-only. Use tools that make changes only when the user asks for a change.`;
+
+const NO_TOOLS_GUIDANCE = `No MCP tools are currently available, so respond using your built-in knowledge. If users ask about specific operations that would require tools (like checking current time, listing files, or git operations), politely explain that those tools are not currently connected and offer to help with other questions.`;
+
+export interface SystemPromptParts {
+  personaPrompt?: string;
+  modelPrompt?: string;
+  conversationPrompt?: string;
+  hasTools: boolean;
+}
+
+export function buildSystemPrompt(
+  parts: SystemPromptParts,
+  variables: Record<string, string>
+): string {
+  const sections = [
+    parts.personaPrompt?.trim() || DEFAULT_SYSTEM_PROMPT,
+    parts.modelPrompt?.trim(),
+    parts.conversationPrompt?.trim(),
+    parts.hasTools ? TOOL_GUIDANCE : NO_TOOLS_GUIDANCE,
+  ];
+  return renderPromptTemplate(
+    sections.filter((section) => section).join("\n\n"),
+    variables
+  );
+}
@@ -15,14 +15,31 @@ import { app, BrowserWindow, ipcMain, dialog, shell } from "electron";
 import path from "path";
 import http from "http";
 import url from "url";
-import { MCPManager } from "./mcp/MCPManager";
+import { MCPManager, SERVER_SECRET_FIELDS } from "./mcp/MCPManager";
 import { LangGraphAgent } from "./agent/LangGraphAgent";
+import { FileCheckpointSaver } from "./agent/FileCheckpointSaver";
 import { WorkflowAgent } from "./agent/WorkflowAgent";
 import { ModelService } from "./services/ModelService";
+import { SamplingService } from "./services/SamplingService";
+import { ElicitationService } from "./services/ElicitationService";
 import Store from "electron-store";
-import { IpcChannels } from "../shared/types";
+import {
+  IpcChannels,
+  ServerListChangedEvent,
+  ToolProgressEvent,
+  AgentStreamEvent,
+  ChatMessage,
+  ContextUsage,
+} from "../shared/types";
 import { loggingService } from "./services/LoggingService";
 import APIServerService from "./services/APIServerService";
+import { secretVault } from "./services/SecretVault";
+import { ServerTransferService } from "./services/ServerTransferService";
+import { ProfileService } from "./services/ProfileService";
+import { ConversationService } from "./services/ConversationService";
+import { PersonaService } from "./services/PersonaService";
+import { UsageService } from "./services/UsageService";
+import { isSecretRef } from "../shared/secrets";
 
 // Set app name and metadata - use "MCP Studio" to match existing data location
 app.setName("MCP Studio");
@@ -37,14 +54,39 @@ if (process.platform === "darwin") {
 let mainWindow: BrowserWindow | null = null;
 let mcpManager: MCPManager;
 let modelService: ModelService;
+let samplingService: SamplingService;
+let elicitationService: ElicitationService;
 let agent: LangGraphAgent; // For regular AI chat
 let workflowAgent: WorkflowAgent; // For workflow-specific operations
 let apiServerService: APIServerService;
+let serverTransferService: ServerTransferService;
+let profileService: ProfileService;
+let conversationService: ConversationService;
+let personaService: PersonaService;
+let usageService: UsageService;
 let oauth2Server: http.Server | null = null;
 const store = new Store({
   name: "config", // This will create/read from 'config.json' in the app data directory
   // This should match the existing data location for MCP Studio
 });
+// Token usage records, kept apart since every model call adds to them
+const usageStore = new Store({ name: "usage" });
+
+// Port the OAuth2 callback server ended up listening on
+let oauth2CallbackPort = 3000;
+
+// Main-process consumers of OAuth2 callbacks, such as MCP server
+// authorization. A waiter returns true when the callback was meant for it.
+const oauth2CallbackWaiters: Set<(callbackUrl: string) => boolean> = new Set();
+
+function deliverOAuth2Callback(callbackUrl: string) {
+  for (const waiter of oauth2CallbackWaiters) {
+    if (waiter(callbackUrl)) {
+      return;
+    }
+  }
+  mainWindow?.webContents.send("oauth2-callback", callbackUrl);
+}
 
 // Simple OAuth2 callback server
 function createOAuth2Server() {
@@ -86,15 +128,12 @@ function createOAuth2Server() {
 
             // Send the callback URL to the renderer
             if (mainWindow) {
-              mainWindow.webContents.send("oauth2-callback", callbackUrl);
+              deliverOAuth2Callback(callbackUrl);
             }
           } else {
             // No authorization code in POST body, send the original URL
             if (mainWindow) {
-              mainWindow.webContents.send(
-                "oauth2-callback",
-                `http://${req.headers.host}${req.url}`
-              );
+              deliverOAuth2Callback(`http://${req.headers.host}${req.url}`);
             }
           }
         });
@@ -118,7 +157,7 @@ function createOAuth2Server() {
         if (mainWindow) {
           const fullCallbackUrl = `http://${req.headers.host}${req.url}`;
           console.log("🔗 Sending callback URL to renderer:", fullCallbackUrl);
-          mainWindow.webContents.send("oauth2-callback", fullCallbackUrl);
+          deliverOAuth2Callback(fullCallbackUrl);
         }
       }
 
@@ -159,6 +198,7 @@ function createOAuth2Server() {
   function tryListen(port: number) {
     oauth2Server
       ?.listen(port, "0.0.0.0", () => {
+        oauth2CallbackPort = port;
         console.log(
           `🔗 OAuth2 callback server listening on http://localhost:${port} and http://127.0.0.1:${port}`
         );
@@ -176,6 +216,265 @@ function createOAuth2Server() {
   tryListen(3000);
 }
 
+// Open an OAuth2 authorization URL in a modal window. Callbacks are picked
+// up from its navigation or by the local callback server.
+async function openOAuth2Window(
+  url: string,
+  onClosed?: () => void
+): Promise<boolean> {
+  console.log("🔗 Opening OAuth2 URL in Electron window:", url);
+
+  // Create a new Electron window for OAuth2 instead of opening externally
+  const oauth2Window = new BrowserWindow({
+    width: 500,
+    height: 700,
+    webPreferences: {
+      nodeIntegration: false,
+      contextIsolation: true,
+      webSecurity: true,
+    },
+    modal: true,
+    parent: mainWindow || undefined,
+    show: false,
+    title: "OAuth2 Authentication",
+    autoHideMenuBar: true,
+  });
+
+  // Handle navigation to detect callback URL
+  oauth2Window.webContents.on("will-navigate", (event, navigationUrl) => {
+    console.log("🔗 OAuth2 window navigating to:", navigationUrl);
+
+    // Parse the URL to check for OAuth2 parameters
+    const urlObj = new URL(navigationUrl);
+    const hasCode = urlObj.searchParams.has("code");
+    const hasState = urlObj.searchParams.has("state");
+    const hasError = urlObj.searchParams.has("error");
+
+    // Also check URL fragment for authorization code (some providers use hash instead of query params)
+    const hasCodeInFragment = urlObj.hash.includes("code=");
+    const hasStateInFragment = urlObj.hash.includes("state=");
+    const hasErrorInFragment = urlObj.hash.includes("error=");
+
+    // Check if this is a callback URL - more comprehensive check
+    const isCallbackUrl =
+      navigationUrl.includes("localhost:3000") ||
+      navigationUrl.includes("127.0.0.1:3000") ||
+      navigationUrl.includes("code=") ||
+      navigationUrl.includes("oauth-callback") ||
+      navigationUrl.includes("oauth_callback") ||
+      hasCode ||
+      hasError ||
+      hasCodeInFragment ||
+      hasErrorInFragment ||
+      (navigationUrl.includes("?") && (hasState || hasError)) ||
+      (navigationUrl.includes("#") &&
+        (hasStateInFragment || hasErrorInFragment));
+
+    console.log("🔗 Is callback URL?", isCallbackUrl);
+    console.log("🔗 URL parameters:", {
+      hasCode,
+      hasState,
+      hasError,
+      hasCodeInFragment,
+      hasStateInFragment,
+      hasErrorInFragment,
+      searchParams: urlObj.search,
+      hash: urlObj.hash,
+      pathname: urlObj.pathname,
+      hostname: urlObj.hostname,
+      port: urlObj.port,
+    });
+
+    if (isCallbackUrl) {
+      event.preventDefault();
+
+      console.log(
+        "🔗 Detected OAuth2 callback, sending to main window:",
+        navigationUrl
+      );
+
+      // Special handling for IBM SSO OIDC base URL callback
+      if (navigationUrl === "http://localhost:3000/" && !hasCode && !hasError) {
+        console.log(
+          "🔗 IBM SSO OIDC base URL detected, checking for authorization code delivery..."
+        );
+
+        // Try to execute JavaScript in the OAuth2 window to check for authorization code
+        // IBM SSO OIDC might be using localStorage, sessionStorage, or hidden form fields
+        oauth2Window.webContents
+          .executeJavaScript(
+            `
+          (function() {
+            console.log("🔗 Checking for authorization code in OAuth2 window...");
+            
+            // Check URL parameters again (sometimes they're set via JavaScript)
+            const urlParams = new URLSearchParams(window.location.search);
+            const hashParams = new URLSearchParams(window.location.hash.substring(1));
+            
+            // Check localStorage and sessionStorage
+            const localStorageCode = localStorage.getItem('oauth2_code') || localStorage.getItem('code');
+            const sessionStorageCode = sessionStorage.getItem('oauth2_code') || sessionStorage.getItem('code');
+            
+            // Check for any hidden form fields or data attributes
+            const codeInputs = document.querySelectorAll('input[name*="code"], input[id*="code"]');
+            const hiddenCodes = Array.from(codeInputs).map(input => input.value).filter(Boolean);
+            
+            // Check for any script tags or data that might contain the code
+            const scripts = Array.from(document.querySelectorAll('script')).map(script => script.textContent || script.innerHTML);
+            const codeInScripts = scripts.filter(script => script && script.includes('code=')).join('\\n');
+            
+            const result = {
+              url: window.location.href,
+              search: window.location.search,
+              hash: window.location.hash,
+              urlCode: urlParams.get('code'),
+              hashCode: hashParams.get('code'),
+              localStorageCode,
+              sessionStorageCode,
+              hiddenCodes,
+              codeInScripts: codeInScripts.substring(0, 500), // Limit to first 500 chars
+              documentTitle: document.title,
+              bodyHTML: document.body ? document.body.innerHTML.substring(0, 1000) : 'No body' // First 1000 chars
+            };
+            
+            console.log("🔗 OAuth2 window inspection result:", result);
+            return result;
+          })();
+        `
+          )
+          .then((result) => {
+            console.log("🔗 OAuth2 window inspection complete:", result);
+
+            // Check if we found an authorization code
+            const foundCode =
+              result.urlCode ||
+              result.hashCode ||
+              result.localStorageCode ||
+              result.sessionStorageCode ||
+              (result.hiddenCodes && result.hiddenCodes.length > 0
+                ? result.hiddenCodes[0]
+                : null);
+
+            if (foundCode) {
+              console.log(
+                "🔗 Found authorization code in OAuth2 window:",
+                foundCode
+              );
+              // Construct a proper callback URL with the found code
+              const callbackUrl = `http://localhost:3000/oauth-callback.html?code=${foundCode}&state=${
+                result.urlCode
+                  ? new URLSearchParams(result.search).get("state")
+                  : ""
+              }`;
+
+              if (mainWindow) {
+                deliverOAuth2Callback(callbackUrl);
+              }
+              oauth2Window.close();
+            } else {
+              console.log(
+                "🔗 No authorization code found in OAuth2 window, sending original callback URL"
+              );
+              if (mainWindow) {
+                deliverOAuth2Callback(navigationUrl);
+              }
+              oauth2Window.close();
+            }
+          })
+          .catch((error) => {
+            console.error("🔗 Error inspecting OAuth2 window:", error);
+            if (mainWindow) {
+              deliverOAuth2Callback(navigationUrl);
+            }
+            oauth2Window.close();
+          });
+
+        return; // Don't close immediately
+      }
+
+      // Send the callback URL to the main window
+      if (mainWindow) {
+        deliverOAuth2Callback(navigationUrl);
+      }
+
+      // Close the OAuth2 window
+      oauth2Window.close();
+    }
+  });
+
+  // Show window after it's ready to prevent white flash
+  oauth2Window.once("ready-to-show", () => {
+    oauth2Window.show();
+  });
+
+  // Clean up when window is closed
+  oauth2Window.on("closed", () => {
+    console.log("🔗 OAuth2 window closed");
+    onClosed?.();
+  });
+
+  // Load the OAuth2 URL
+  await oauth2Window.loadURL(url);
+
+  return true;
+}
+
+// Run the browser part of an MCP server's authorization code flow and
+// resolve with the code from the matching callback
+function authorizeMcpServer(authorizationUrl: URL): Promise<string> {
+  const state = authorizationUrl.searchParams.get("state");
+
+  return new Promise((resolve, reject) => {
+    let settled = false;
+    const finish = (error: Error | null, code?: string) => {
+      if (settled) return;
+      settled = true;
+      oauth2CallbackWaiters.delete(waiter);
+      clearTimeout(timeout);
+      if (error) {
+        reject(error);
+      } else {
+        resolve(code!);
+      }
+    };
+
+    const waiter = (callbackUrl: string) => {
+      const callback = new URL(callbackUrl);
+      const params = new URLSearchParams(
+        callback.search || callback.hash.substring(1)
+      );
+      if (state && params.get("state") !== state) {
+        return false;
+      }
+
+      const error = params.get("error");
+      const code = params.get("code");
+      if (error) {
+        finish(
+          new Error(
+            `Authorization failed: ${params.get("error_description") || error}`
+          )
+        );
+      } else if (!code) {
+        finish(new Error("Authorization code not found in callback"));
+      } else {
+        finish(null, code);
+      }
+      return true;
+    };
+
+    const timeout = setTimeout(
+      () => finish(new Error("Timed out waiting for authorization")),
+      5 * 60 * 1000
+    );
+    oauth2CallbackWaiters.add(waiter);
+
+    openOAuth2Window(authorizationUrl.toString(), () =>
+      finish(new Error("Authorization window was closed"))
+    ).catch((error) => finish(error));
+  });
+}
+
 function createWindow() {
   // Debug paths
   const preloadPath = path.join(__dirname, "preload.js");
@@ -273,6 +572,8 @@ function createWindow() {
     // Set the main window for logging service
     if (mainWindow) {
       loggingService.setMainWindow(mainWindow);
+      samplingService?.setMainWindow(mainWindow);
+      elicitationService?.setMainWindow(mainWindow);
       loggingService.success("MCP Studio started successfully");
     }
   });
@@ -320,7 +621,7 @@ app.whenReady().then(async () => {
     ) {
       // Send the callback URL to the renderer process
       if (mainWindow) {
-        mainWindow.webContents.send("oauth2-callback", url);
+        deliverOAuth2Callback(url);
       }
     }
   });
@@ -337,7 +638,7 @@ app.whenReady().then(async () => {
 
     if (oauthUrl && mainWindow) {
       console.log("🔗 OAuth2 callback from second instance:", oauthUrl);
-      mainWindow.webContents.send("oauth2-callback", oauthUrl);
+      deliverOAuth2Callback(oauthUrl);
 
       // Focus the main window
       if (mainWindow.isMinimized()) mainWindow.restore();
@@ -364,16 +665,110 @@ app.whenReady().then(async () => {
     timestamp: new Date(),
   });
 
+  // Import/export of other clients' server configs
+  serverTransferService = new ServerTransferService(mcpManager);
+
   // Initialize Model Service
   modelService = new ModelService(store, loggingService);
   loggingService.log("Model Service initialized", {
     timestamp: new Date(),
   });
 
+  // Token usage of every model call, for costs per message and model
+  usageService = new UsageService(store, usageStore, loggingService);
+
+  // Route server sampling requests through the configured models
+  samplingService = new SamplingService(
+    modelService,
+    usageService,
+    loggingService
+  );
+  if (mainWindow) {
+    samplingService.setMainWindow(mainWindow);
+  }
+  mcpManager.setSamplingHandler((serverConfig, params, signal) =>
+    samplingService.createMessage(serverConfig, params, signal)
+  );
+
+  // Let servers ask the user for structured input mid-call
+  elicitationService = new ElicitationService(loggingService);
+  if (mainWindow) {
+    elicitationService.setMainWindow(mainWindow);
+  }
+  mcpManager.setElicitationHandler((serverConfig, params) =>
+    elicitationService.elicit(serverConfig, params)
+  );
+
+  // Remote servers that need OAuth sign in through the callback server
+  mcpManager.setAuthorizationHandler({
+    getRedirectUrl: () =>
+      `http://localhost:${oauth2CallbackPort}/oauth-callback.html`,
+    authorize: authorizeMcpServer,
+  });
+
+  // Workspace profiles; the active one's servers connect on startup
+  profileService = new ProfileService(
+    store,
+    mcpManager,
+    modelService,
+    loggingService
+  );
+  profileService.restoreActiveProfile().catch((error) => {
+    console.error("Failed to restore the active profile:", error);
+  });
+
+  // Move plaintext secrets into the vault as soon as it can encrypt
+  secretVault.on("statusChanged", (status) => {
+    if (status.unlocked) {
+      migrateSecrets();
+    }
+  });
+  if (secretVault.isUnlocked()) {
+    migrateSecrets();
+  }
+
+  // Chat conversations, kept on disk so they survive restarts
+  const checkpointer = new FileCheckpointSaver(
+    path.join(app.getPath("userData"), "conversations")
+  );
+  conversationService = new ConversationService(
+    store,
+    checkpointer,
+    mcpManager,
+    usageService,
+    loggingService
+  );
+  personaService = new PersonaService(store, loggingService);
+
   // Initialize Agent with error handling
   try {
-    agent = new LangGraphAgent(mcpManager, modelService);
+    agent = new LangGraphAgent(
+      mcpManager,
+      modelService,
+      checkpointer,
+      usageService
+    );
     console.log("LangGraph Agent initialized successfully");
+
+    // Each conversation may have a persona and its own instructions
+    agent.setPromptSettingsProvider((threadId) => {
+      if (!conversationService.hasConversation(threadId)) {
+        return {};
+      }
+      const conversation = conversationService.getConversation(threadId);
+      return {
+        persona: conversation.personaId
+          ? personaService.getPersona(conversation.personaId)
+          : undefined,
+        systemPrompt: conversation.systemPrompt,
+      };
+    });
+
+    // Pick up the conversation that was open when the app closed
+    const activeConversationId = conversationService.getActiveConversationId();
+    if (activeConversationId) {
+      agent.setThreadId(activeConversationId);
+    }
   } catch (error) {
     console.warn("Failed to initialize LangGraph Agent:", error);
     console.warn(
@@ -424,6 +819,19 @@ app.on("activate", () => {
 // Flag to prevent double registration of IPC handlers
 let ipcHandlersSetup = false;
 
+// Earlier versions kept API keys, tokens and passwords in plaintext configs
+async function migrateSecrets() {
+  try {
+    mcpManager.migrateSecrets();
+    modelService.migrateSecrets();
+    await apiServerService.migrateSecrets();
+  } catch (error) {
+    loggingService.error("Failed to move secrets into the vault", {
+      error: String(error),
+    });
+  }
+}
+
 // Helper function to test remote server connections
 async function testRemoteServerConnection(config: {
   url: string;
@@ -436,6 +844,7 @@ async function testRemoteServerConnection(config: {
   headers?: Record<string, string>;
 }): Promise<{ success: boolean; error?: string; capabilities?: string[] }> {
   try {
+    config = secretVault.reveal(config, SERVER_SECRET_FIELDS);
     const headers: Record<string, string> = {
       "Content-Type": "application/json",
       "User-Agent": "LangGraph-MCP-Client/1.0.0",
@@ -590,6 +999,23 @@ async function testRemoteServerConnection(config: {
   }
 }
 
+// Run a chat turn in the open conversation, starting one named after the
+// message when there is none
+async function runConversationTurn(
+  message: string,
+  run: () => Promise<ChatMessage>
+): Promise<ChatMessage> {
+  let threadId = agent.getThreadId();
+  if (!threadId || !conversationService.hasConversation(threadId)) {
+    threadId = conversationService.createConversation(message).id;
+    agent.setThreadId(threadId);
+  }
+
+  const response = await run();
+  await conversationService.recordTurn(threadId, message);
+  return response;
+}
+
 function setupIpcHandlers() {
   if (ipcHandlersSetup) {
     console.log("⚠️ IPC handlers already set up, skipping...");
@@ -640,6 +1066,25 @@ function setupIpcHandlers() {
     return result;
   });
 
+  ipcMain.handle(IpcChannels.SET_SERVER_ROOTS, async (_, id, roots) => {
+    return await mcpManager.setServerRoots(id, roots);
+  });
+
+  ipcMain.handle(IpcChannels.SET_SERVER_LOG_LEVEL, async (_, id, level) => {
+    return await mcpManager.setServerLogLevel(id, level);
+  });
+
+  ipcMain.handle(IpcChannels.GET_SERVER_STDERR, async (_, id) => {
+    return mcpManager.getServerStderr(id);
+  });
+
+  ipcMain.handle(
+    IpcChannels.SET_SERVER_HEALTH_CHECK_INTERVAL,
+    async (_, id, seconds) => {
+      return mcpManager.setServerHealthCheckInterval(id, seconds);
+    }
+  );
+
   ipcMain.handle(
     IpcChannels.TEST_REMOTE_SERVER_CONNECTION,
     async (_, config) => {
@@ -666,11 +1111,15 @@ function setupIpcHandlers() {
 
   ipcMain.handle(
     IpcChannels.EXECUTE_TOOL,
-    async (_, { serverId, toolName, args }) => {
-      return await mcpManager.callTool(toolName, args, serverId);
+    async (_, { serverId, toolName, args, callId }) => {
+      return await mcpManager.callTool(toolName, args, serverId, callId);
     }
   );
 
+  ipcMain.handle(IpcChannels.CANCEL_TOOL, async (_, callId) => {
+    return mcpManager.cancelToolCall(callId);
+  });
+
   // Tool state management
   ipcMain.handle(IpcChannels.GET_TOOL_STATES, async () => {
     return mcpManager.getToolStates();
@@ -691,6 +1140,19 @@ function setupIpcHandlers() {
     }
   );
 
+  // Tool approval policies
+  ipcMain.handle(IpcChannels.GET_TOOL_POLICIES, async () => {
+    return mcpManager.getToolPolicies();
+  });
+
+  ipcMain.handle(
+    IpcChannels.SET_TOOL_POLICY,
+    async (_, { toolName, serverId, policy }) => {
+      mcpManager.setToolPolicy(toolName, serverId, policy);
+      return true;
+    }
+  );
+
   // Agent operations
   ipcMain.handle(IpcChannels.SEND_MESSAGE, async (_, { message, model }) => {
     if (!agent) {
@@ -698,7 +1160,9 @@ function setupIpcHandlers() {
         "Chat agent is not available. Please configure a model in settings."
       );
     }
-    return await agent.processMessage(message, model);
+    return await runConversationTurn(message, () =>
+      agent.processMessage(message, model)
+    );
   });
 
   ipcMain.handle(
@@ -743,17 +1207,121 @@ This workflow has ${workflow.nodes.length} nodes and is designed for: ${
 Help the user understand or work with this workflow. Use available MCP tools when appropriate.`;
       }
 
-      return await agent.processMessage(contextualMessage, model);
+      // Workflow runs keep their own history, apart from the conversations
+      return await agent.processDetachedMessage(
+        contextualMessage,
+        model,
+        workflow?.id ? `workflow-${workflow.id}` : undefined
+      );
     }
   );
 
+  ipcMain.handle(IpcChannels.RESPOND_TOOL_APPROVAL, async (_, decisions) => {
+    if (!agent) {
+      throw new Error(
+        "Chat agent is not available. Please configure a model in settings."
+      );
+    }
+    const response = await agent.respondToToolApproval(decisions);
+    const threadId = agent.getThreadId();
+    if (threadId) {
+      await conversationService.recordTurn(threadId);
+    }
+    return response;
+  });
+
+  ipcMain.handle(IpcChannels.STOP_MESSAGE, async () => {
+    return agent ? agent.stopMessage() : false;
+  });
+
   ipcMain.handle(IpcChannels.CLEAR_CHAT, async () => {
     if (agent) {
       agent.startNewConversation();
     }
+    conversationService.setActiveConversation(null);
     return { success: true };
   });
 
+  // Chat conversations
+  ipcMain.handle(IpcChannels.UPDATE_CONVERSATION_PROMPT, async (_, update) => {
+    const conversation = conversationService.updatePrompt(update);
+    // A new chat's conversation starts here rather than on its first message
+    if (agent && agent.getThreadId() !== conversation.id) {
+      agent.setThreadId(conversation.id);
+    }
+    return conversation;
+  });
+
+  ipcMain.handle(IpcChannels.LIST_CONVERSATIONS, async (_, search) => {
+    return await conversationService.listConversations(search);
+  });
+
+  ipcMain.handle(IpcChannels.OPEN_CONVERSATION, async (_, id) => {
+    const conversation = conversationService.getConversation(id);
+    const pendingApproval = agent ? await agent.resumeThread(id) : undefined;
+    conversationService.setActiveConversation(id);
+    return {
+      conversation,
+      messages: await conversationService.getMessages(id),
+      ...(pendingApproval && { pendingApproval }),
+    };
+  });
+
+  ipcMain.handle(IpcChannels.RENAME_CONVERSATION, async (_, { id, title }) => {
+    return conversationService.renameConversation(id, title);
+  });
+
+  ipcMain.handle(IpcChannels.DELETE_CONVERSATION, async (_, id) => {
+    if (agent?.getThreadId() === id) {
+      agent.startNewConversation();
+    }
+    await conversationService.deleteConversation(id);
+  });
+
+  ipcMain.handle(IpcChannels.EXPORT_CONVERSATION, async (_, { id, format }) => {
+    return await conversationService.exportConversation(id, format);
+  });
+
+  // Personas
+  ipcMain.handle(IpcChannels.LIST_PERSONAS, async () => {
+    return personaService.listPersonas();
+  });
+
+  ipcMain.handle(IpcChannels.SAVE_PERSONA, async (_, persona) => {
+    return personaService.savePersona(persona);
+  });
+
+  ipcMain.handle(IpcChannels.DELETE_PERSONA, async (_, id) => {
+    personaService.deletePersona(id);
+  });
+
+  // Context window
+  ipcMain.handle(IpcChannels.GET_CONTEXT_USAGE, async (_, modelConfigId) => {
+    return agent ? await agent.getContextUsage(modelConfigId) : null;
+  });
+
+  // Token usage and cost
+  const conversationTitle = (id: string) =>
+    conversationService.hasConversation(id)
+      ? conversationService.getConversation(id).title
+      : undefined;
+
+  ipcMain.handle(IpcChannels.GET_USAGE_SUMMARY, async (_, query) => {
+    return usageService.getSummary(query || {}, conversationTitle);
+  });
+
+  ipcMain.handle(IpcChannels.EXPORT_USAGE_CSV, async (_, query) => {
+    return await usageService.exportCsv(query || {}, conversationTitle);
+  });
+
+  ipcMain.handle(IpcChannels.GET_MODEL_PRICES, async () => {
+    return usageService.getPrices();
+  });
+
+  ipcMain.handle(IpcChannels.SAVE_MODEL_PRICES, async (_, prices) => {
+    return usageService.savePrices(prices);
+  });
+
   // Model management operations
   ipcMain.handle(IpcChannels.GET_MODEL_CONFIGS, async () => {
     return modelService.getModelConfigs();
@@ -786,15 +1354,149 @@ Help the user understand or work with this workflow. Use available MCP tools whe
     return await modelService.getOllamaModels(baseURL);
   });
 
+  // Sampling approvals from the renderer
+  ipcMain.handle(IpcChannels.SAMPLING_RESPONSE, async (_, response) => {
+    return samplingService.resolveApproval(response);
+  });
+
+  // Elicitation answers from the renderer
+  ipcMain.handle(IpcChannels.ELICITATION_RESPONSE, async (_, response) => {
+    return elicitationService.resolveRequest(response);
+  });
+
+  // Secret vault
+  ipcMain.handle(IpcChannels.GET_VAULT_STATUS, async () => {
+    return secretVault.getStatus();
+  });
+
+  ipcMain.handle(IpcChannels.UNLOCK_VAULT, async (_, passphrase) => {
+    return secretVault.unlock(passphrase);
+  });
+
+  ipcMain.handle(IpcChannels.STORE_SECRET, async (_, value) => {
+    return secretVault.storeSecret(value);
+  });
+
+  // The only way a secret reaches the renderer, when the user clicks reveal
+  ipcMain.handle(IpcChannels.REVEAL_SECRET, async (_, ref) => {
+    if (!isSecretRef(ref)) {
+      throw new Error("Not a secret reference");
+    }
+    loggingService.addLog(
+      "info",
+      "SecretVault",
+      "Secret revealed to the UI",
+      { ref },
+      { category: "system" }
+    );
+    return secretVault.resolve(ref);
+  });
+
+  ipcMain.handle(IpcChannels.DELETE_SECRET, async (_, ref) => {
+    secretVault.deleteSecret(ref);
+  });
+
+  // Server config import/export
+  ipcMain.handle(IpcChannels.DETECT_SERVER_CONFIG_FILES, async () => {
+    return await serverTransferService.detectConfigFiles();
+  });
+
+  ipcMain.handle(IpcChannels.OPEN_SERVER_CONFIG_FILE, async () => {
+    return await serverTransferService.openConfigFile();
+  });
+
+  ipcMain.handle(
+    IpcChannels.EXPORT_SERVER_CONFIGS,
+    async (_, { serverIds, format, options }) => {
+      return serverTransferService.exportServers(serverIds, format, options);
+    }
+  );
+
+  ipcMain.handle(
+    IpcChannels.SAVE_SERVER_CONFIG_EXPORT,
+    async (_, { content, format }) => {
+      return await serverTransferService.saveExport(content, format);
+    }
+  );
+
+  // Workspace profiles
+  ipcMain.handle(IpcChannels.LIST_PROFILES, async () => {
+    return profileService.listProfiles();
+  });
+
+  ipcMain.handle(
+    IpcChannels.CREATE_PROFILE,
+    async (_, { name, description }) => {
+      return profileService.createProfile(name, description);
+    }
+  );
+
+  ipcMain.handle(IpcChannels.SAVE_PROFILE, async (_, id) => {
+    return profileService.saveProfile(id);
+  });
+
+  ipcMain.handle(IpcChannels.DELETE_PROFILE, async (_, id) => {
+    profileService.deleteProfile(id);
+  });
+
+  ipcMain.handle(IpcChannels.SWITCH_PROFILE, async (_, id) => {
+    return await profileService.switchProfile(id);
+  });
+
+  ipcMain.handle(IpcChannels.EXPORT_PROFILE, async (_, id) => {
+    return await profileService.exportProfile(id);
+  });
+
+  ipcMain.handle(IpcChannels.IMPORT_PROFILE, async () => {
+    return await profileService.importProfile();
+  });
+
   // Resource operations
   ipcMain.handle(IpcChannels.LIST_RESOURCES, async (_, serverId) => {
     return await mcpManager.listResources(serverId);
   });
 
   ipcMain.handle(IpcChannels.READ_RESOURCE, async (_, { serverId, uri }) => {
-    return await mcpManager.readResource(serverId, uri);
+    return await mcpManager.readResource(uri, serverId);
   });
 
+  ipcMain.handle(
+    IpcChannels.SUBSCRIBE_RESOURCE,
+    async (_, { serverId, uri }) => {
+      return await mcpManager.subscribeResource(serverId, uri);
+    }
+  );
+
+  ipcMain.handle(
+    IpcChannels.UNSUBSCRIBE_RESOURCE,
+    async (_, { serverId, uri }) => {
+      return await mcpManager.unsubscribeResource(serverId, uri);
+    }
+  );
+
+  ipcMain.handle(IpcChannels.LIST_RESOURCE_TEMPLATES, async (_, serverId) => {
+    return await mcpManager.listResourceTemplates(serverId);
+  });
+
+  ipcMain.handle(
+    IpcChannels.READ_RESOURCE_TEMPLATE,
+    async (_, { serverId, uriTemplate, variables }) => {
+      return await mcpManager.readResourceTemplate(
+        serverId,
+        uriTemplate,
+        variables
+      );
+    }
+  );
+
+  // Argument completion
+  ipcMain.handle(
+    IpcChannels.COMPLETE,
+    async (_, { serverId, ref, argument, context }) => {
+      return await mcpManager.complete(serverId, ref, argument, context);
+    }
+  );
+
   // Prompt operations
   ipcMain.handle(IpcChannels.LIST_PROMPTS, async (_, serverId) => {
     return await mcpManager.listPrompts(serverId);
@@ -840,204 +1542,7 @@ Help the user understand or work with this workflow. Use available MCP tools whe
 
   // OAuth2 operations
   ipcMain.handle("oauth2-open-url", async (_, url) => {
-    console.log("🔗 Opening OAuth2 URL in Electron window:", url);
-
-    // Create a new Electron window for OAuth2 instead of opening externally
-    const oauth2Window = new BrowserWindow({
-      width: 500,
-      height: 700,
-      webPreferences: {
-        nodeIntegration: false,
-        contextIsolation: true,
-        webSecurity: true,
-      },
-      modal: true,
-      parent: mainWindow || undefined,
-      show: false,
-      title: "OAuth2 Authentication",
-      autoHideMenuBar: true,
-    });
-
-    // Handle navigation to detect callback URL
-    oauth2Window.webContents.on("will-navigate", (event, navigationUrl) => {
-      console.log("🔗 OAuth2 window navigating to:", navigationUrl);
-
-      // Parse the URL to check for OAuth2 parameters
-      const urlObj = new URL(navigationUrl);
-      const hasCode = urlObj.searchParams.has("code");
-      const hasState = urlObj.searchParams.has("state");
-      const hasError = urlObj.searchParams.has("error");
-
-      // Also check URL fragment for authorization code (some providers use hash instead of query params)
-      const hasCodeInFragment = urlObj.hash.includes("code=");
-      const hasStateInFragment = urlObj.hash.includes("state=");
-      const hasErrorInFragment = urlObj.hash.includes("error=");
-
-      // Check if this is a callback URL - more comprehensive check
-      const isCallbackUrl =
-        navigationUrl.includes("localhost:3000") ||
-        navigationUrl.includes("127.0.0.1:3000") ||
-        navigationUrl.includes("code=") ||
-        navigationUrl.includes("oauth-callback") ||
-        navigationUrl.includes("oauth_callback") ||
-        hasCode ||
-        hasError ||
-        hasCodeInFragment ||
-        hasErrorInFragment ||
-        (navigationUrl.includes("?") && (hasState || hasError)) ||
-        (navigationUrl.includes("#") &&
-          (hasStateInFragment || hasErrorInFragment));
-
-      console.log("🔗 Is callback URL?", isCallbackUrl);
-      console.log("🔗 URL parameters:", {
-        hasCode,
-        hasState,
-        hasError,
-        hasCodeInFragment,
-        hasStateInFragment,
-        hasErrorInFragment,
-        searchParams: urlObj.search,
-        hash: urlObj.hash,
-        pathname: urlObj.pathname,
-        hostname: urlObj.hostname,
-        port: urlObj.port,
-      });
-
-      if (isCallbackUrl) {
-        event.preventDefault();
-
-        console.log(
-          "🔗 Detected OAuth2 callback, sending to main window:",
-          navigationUrl
-        );
-
-        // Special handling for IBM SSO OIDC base URL callback
-        if (
-          navigationUrl === "http://localhost:3000/" &&
-          !hasCode &&
-          !hasError
-        ) {
-          console.log(
-            "🔗 IBM SSO OIDC base URL detected, checking for authorization code delivery..."
-          );
-
-          // Try to execute JavaScript in the OAuth2 window to check for authorization code
-          // IBM SSO OIDC might be using localStorage, sessionStorage, or hidden form fields
-          oauth2Window.webContents
-            .executeJavaScript(
-              `
-            (function() {
-              console.log("🔗 Checking for authorization code in OAuth2 window...");
-              
-              // Check URL parameters again (sometimes they're set via JavaScript)
-              const urlParams = new URLSearchParams(window.location.search);
-              const hashParams = new URLSearchParams(window.location.hash.substring(1));
-              
-              // Check localStorage and sessionStorage
-              const localStorageCode = localStorage.getItem('oauth2_code') || localStorage.getItem('code');
-              const sessionStorageCode = sessionStorage.getItem('oauth2_code') || sessionStorage.getItem('code');
-              
-              // Check for any hidden form fields or data attributes
-              const codeInputs = document.querySelectorAll('input[name*="code"], input[id*="code"]');
-              const hiddenCodes = Array.from(codeInputs).map(input => input.value).filter(Boolean);
-              
-              // Check for any script tags or data that might contain the code
-              const scripts = Array.from(document.querySelectorAll('script')).map(script => script.textContent || script.innerHTML);
-              const codeInScripts = scripts.filter(script => script && script.includes('code=')).join('\\n');
-              
-              const result = {
-                url: window.location.href,
-                search: window.location.search,
-                hash: window.location.hash,
-                urlCode: urlParams.get('code'),
-                hashCode: hashParams.get('code'),
-                localStorageCode,
-                sessionStorageCode,
-                hiddenCodes,
-                codeInScripts: codeInScripts.substring(0, 500), // Limit to first 500 chars
-                documentTitle: document.title,
-                bodyHTML: document.body ? document.body.innerHTML.substring(0, 1000) : 'No body' // First 1000 chars
-              };
-              
-              console.log("🔗 OAuth2 window inspection result:", result);
-              return result;
-            })();
-          `
-            )
-            .then((result) => {
-              console.log("🔗 OAuth2 window inspection complete:", result);
-
-              // Check if we found an authorization code
-              const foundCode =
-                result.urlCode ||
-                result.hashCode ||
-                result.localStorageCode ||
-                result.sessionStorageCode ||
-                (result.hiddenCodes && result.hiddenCodes.length > 0
-                  ? result.hiddenCodes[0]
-                  : null);
-
-              if (foundCode) {
-                console.log(
-                  "🔗 Found authorization code in OAuth2 window:",
-                  foundCode
-                );
-                // Construct a proper callback URL with the found code
-                const callbackUrl = `http://localhost:3000/oauth-callback.html?code=${foundCode}&state=${
-                  result.urlCode
-                    ? new URLSearchParams(result.search).get("state")
-                    : ""
-                }`;
-
-                if (mainWindow) {
-                  mainWindow.webContents.send("oauth2-callback", callbackUrl);
-                }
-                oauth2Window.close();
-              } else {
-                console.log(
-                  "🔗 No authorization code found in OAuth2 window, sending original callback URL"
-                );
-                if (mainWindow) {
-                  mainWindow.webContents.send("oauth2-callback", navigationUrl);
-                }
-                oauth2Window.close();
-              }
-            })
-            .catch((error) => {
-              console.error("🔗 Error inspecting OAuth2 window:", error);
-              if (mainWindow) {
-                mainWindow.webContents.send("oauth2-callback", navigationUrl);
-              }
-              oauth2Window.close();
-            });
-
-          return; // Don't close immediately
-        }
-
-        // Send the callback URL to the main window
-        if (mainWindow) {
-          mainWindow.webContents.send("oauth2-callback", navigationUrl);
-        }
-
-        // Close the OAuth2 window
-        oauth2Window.close();
-      }
-    });
-
-    // Show window after it's ready to prevent white flash
-    oauth2Window.once("ready-to-show", () => {
-      oauth2Window.show();
-    });
-
-    // Clean up when window is closed
-    oauth2Window.on("closed", () => {
-      console.log("🔗 OAuth2 window closed");
-    });
-
-    // Load the OAuth2 URL
-    await oauth2Window.loadURL(url);
-
-    return true;
+    return await openOAuth2Window(url);
   });
 
   // OAuth2 token exchange (moved to main process to avoid CORS)
@@ -1790,9 +2295,53 @@ Please generate clean, executable ${format} code that represents this workflow.`
     });
   });
 
+  mcpManager.on("serverReconnecting", (status) => {
+    mainWindow?.webContents.send("server-reconnecting", status);
+  });
+
+  mcpManager.on("serverHealth", (event) => {
+    mainWindow?.webContents.send("server-health", event);
+  });
+
+  secretVault.on("statusChanged", (status) => {
+    mainWindow?.webContents.send("vault-status", status);
+  });
+
+  profileService.on("profileSwitched", (result) => {
+    mainWindow?.webContents.send("profile-switched", result);
+  });
+
+  mcpManager.on("listChanged", async (event: ServerListChangedEvent) => {
+    mainWindow?.webContents.send("server-list-changed", event);
+    // LangGraphAgent refreshes itself; the workflow agent needs a nudge
+    if (event.kind === "tools" && workflowAgent) {
+      await workflowAgent.refreshAgent();
+    }
+  });
+
+  mcpManager.on("resourceUpdated", (event) => {
+    mainWindow?.webContents.send("resource-updated", event);
+  });
+
+  mcpManager.on("toolProgress", (event: ToolProgressEvent) => {
+    mainWindow?.webContents.send("tool-progress", event);
+  });
+
   mcpManager.on("tool-executed", (result) => {
     mainWindow?.webContents.send("tool-executed", result);
   });
+
+  conversationService.on("conversationsChanged", () => {
+    mainWindow?.webContents.send("conversations-changed");
+  });
+
+  agent?.on("streamEvent", (event: AgentStreamEvent) => {
+    mainWindow?.webContents.send("agent-stream", event);
+  });
+
+  agent?.on("contextUsage", (usage: ContextUsage) => {
+    mainWindow?.webContents.send("context-usage", usage);
+  });
 }
 
 // Graceful shutdown handlers
@@ -1,25 +1,113 @@
 import { Client } from "@modelcontextprotocol/sdk/client/index.js";
-import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
 import { SSEClientTransport } from "@modelcontextprotocol/sdk/client/sse.js";
 import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import {
+  auth,
+  UnauthorizedError,
+} from "@modelcontextprotocol/sdk/client/auth.js";
+import {
+  CreateMessageRequestSchema,
+  ElicitRequestSchema,
+  ElicitResult,
+  ListRootsRequestSchema,
+  ToolListChangedNotificationSchema,
+  ResourceListChangedNotificationSchema,
+  PromptListChangedNotificationSchema,
+  ResourceUpdatedNotificationSchema,
+  LoggingMessageNotificationSchema,
+  CallToolResultSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import { RequestOptions } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import { UriTemplate } from "@modelcontextprotocol/sdk/shared/uriTemplate.js";
 import { EventEmitter } from "events";
+import * as path from "path";
+import { pathToFileURL } from "url";
 import Store from "electron-store";
 import { v4 as uuidv4 } from "uuid";
-import * as EventSourceModule from "eventsource";
-import fetch from "node-fetch";
 import {
   ServerConfig,
   ServerStatus,
+  ServerHealth,
   Tool,
+  ToolAnnotations,
+  ToolApprovalPolicy,
+  ToolCallResult,
   Resource,
   Prompt,
+  ServerListChangedEvent,
+  ResourceUpdatedEvent,
+  ResourceTemplate,
+  CompletionReference,
+  CompletionResult,
+  ToolProgressEvent,
+  ElicitationRecord,
+  ServerLogLevel,
+  LogEntry,
 } from "../../shared/types";
 import { LoggingService } from "../services/LoggingService";
+import { secretVault } from "../services/SecretVault";
+import {
+  SamplingRequestParams,
+  SamplingResult,
+} from "../services/SamplingService";
+import { ElicitationRequestParams } from "../services/ElicitationService";
+import {
+  AuthorizationHandler,
+  ServerOAuthProvider,
+} from "./ServerOAuthProvider";
+import { StdioProcessTransport } from "./StdioProcessTransport";
+import {
+  TOOL_NAMESPACE_SEPARATOR,
+  buildToolNamespaces,
+  qualifyToolName,
+} from "../../shared/toolNames";
+import { validateJsonSchema } from "../../shared/jsonSchema";
+
+// Handles sampling/createMessage requests on behalf of a server
+export type SamplingHandler = (
+  serverConfig: ServerConfig,
+  params: SamplingRequestParams,
+  signal?: AbortSignal
+) => Promise<SamplingResult>;
+
+// Handles elicitation/create requests by asking the user for input
+export type ElicitationHandler = (
+  serverConfig: ServerConfig,
+  params: ElicitationRequestParams
+) => Promise<ElicitResult>;
+
+// Tools as the SDK lists them, with input and output schemas
+type ServerToolList = Awaited<ReturnType<Client["listTools"]>>["tools"];
+
+const DEFAULT_SERVER_LOG_LEVEL: ServerLogLevel = "info";
+const MAX_STDERR_LINES = 200;
+const MAX_RECONNECT_ATTEMPTS = 10;
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 60000;
+const DEFAULT_HEALTH_CHECK_INTERVAL_S = 30;
+const HEALTH_CHECK_TIMEOUT_MS = 10000;
+const LATENCY_HISTORY_SIZE = 30;
+const DEGRADED_LATENCY_MS = 1000;
+const UNHEALTHY_FAILURE_COUNT = 3;
+const TOKEN_REFRESH_MARGIN_MS = 60000;
+// setTimeout fires at once for longer delays
+const MAX_TIMER_DELAY_MS = 2_147_483_647;
+
+// ServerConfig fields kept in the secret vault
+export const SERVER_SECRET_FIELDS = [
+  "password",
+  "token",
+  "apiKey",
+  "accessToken",
+  "refreshToken",
+  "oauthClientSecret",
+];
 
 // Define the store schema
 interface StoreSchema {
   servers: ServerConfig[];
   toolStates: Record<string, boolean>; // toolId -> enabled state
+  toolPolicies: Record<string, ToolApprovalPolicy>; // toolId -> approval policy
 }
 
 export class MCPManager extends EventEmitter {
@@ -28,6 +116,20 @@ export class MCPManager extends EventEmitter {
   private store: any; // Using any to avoid electron-store typing issues
   private uptimeTrackers: Map<string, NodeJS.Timeout> = new Map(); // Track uptime intervals
   private loggingService: LoggingService;
+  private samplingHandler: SamplingHandler | null = null;
+  private elicitationHandler: ElicitationHandler | null = null;
+  private resourceSubscriptions: Map<string, Set<string>> = new Map(); // serverId -> subscribed URIs
+  private toolLists: Map<string, ServerToolList> = new Map(); // serverId -> tools as listed by the server
+  private pendingToolCalls: Map<string, AbortController> = new Map(); // callId -> abort controller
+  private stdioTransports: Map<string, StdioProcessTransport> = new Map(); // serverId -> transport of the running process
+  private stderrBuffers: Map<string, string[]> = new Map(); // serverId -> recent stderr lines
+  private exitErrors: Map<string, string> = new Map(); // serverId -> how the process last died
+  private reconnectTimers: Map<string, NodeJS.Timeout> = new Map(); // serverId -> pending reconnect
+  private reconnectAttempts: Map<string, number> = new Map(); // serverId -> attempts since last success
+  private healthCheckTimers: Map<string, NodeJS.Timeout> = new Map(); // serverId -> ping interval
+  private healthChecksInFlight: Set<string> = new Set();
+  private authorizationHandler: AuthorizationHandler | null = null;
+  private tokenRefreshTimers: Map<string, NodeJS.Timeout> = new Map(); // serverId -> pending OAuth refresh
 
   constructor(store: Store<StoreSchema>, loggingService: LoggingService) {
     super();
@@ -39,6 +141,18 @@ export class MCPManager extends EventEmitter {
     this.ensureSequentialThinkingServer();
   }
 
+  setSamplingHandler(handler: SamplingHandler) {
+    this.samplingHandler = handler;
+  }
+
+  setElicitationHandler(handler: ElicitationHandler) {
+    this.elicitationHandler = handler;
+  }
+
+  setAuthorizationHandler(handler: AuthorizationHandler) {
+    this.authorizationHandler = handler;
+  }
+
   private async ensureSequentialThinkingServer() {
     const SEQUENTIAL_THINKING_SERVER_ID = "sequential-thinking-builtin";
 
@@ -129,7 +243,10 @@ export class MCPManager extends EventEmitter {
 
   async addServer(config: ServerConfig): Promise<ServerStatus> {
     const id = config.id || uuidv4();
-    const serverConfig = { ...config, id };
+    const serverConfig = secretVault.seal(
+      { ...config, id },
+      SERVER_SECRET_FIELDS
+    );
 
     const servers: ServerConfig[] = this.store.get("servers", []);
     servers.push(serverConfig);
@@ -152,6 +269,11 @@ export class MCPManager extends EventEmitter {
     const servers: ServerConfig[] = this.store.get("servers", []);
     const filtered = servers.filter((s: ServerConfig) => s.id !== id);
     this.store.set("servers", filtered);
+
+    const removed = servers.find((s: ServerConfig) => s.id === id);
+    if (removed) {
+      secretVault.purge(removed, SERVER_SECRET_FIELDS);
+    }
   }
 
   listServers(): ServerStatus[] {
@@ -170,7 +292,12 @@ export class MCPManager extends EventEmitter {
     return serverList;
   }
 
-  async connectServer(id: string): Promise<void> {
+  /**
+   * Connect a server. Background connects pass interactive false, so an
+   * OAuth server whose sign-in expired fails with UnauthorizedError instead
+   * of opening the browser.
+   */
+  async connectServer(id: string, interactive = true): Promise<void> {
     const servers: ServerConfig[] = this.store.get("servers", []);
     const config = servers.find((s: ServerConfig) => s.id === id);
 
@@ -178,6 +305,9 @@ export class MCPManager extends EventEmitter {
       throw new Error(`Server ${id} not found`);
     }
 
+    this.exitErrors.delete(id);
+    this.clearReconnectTimer(id);
+
     try {
       let transport;
 
@@ -237,14 +367,23 @@ export class MCPManager extends EventEmitter {
           }
         );
 
-        transport = new StdioClientTransport({
+        const stdioTransport = new StdioProcessTransport({
           command: config.command!,
           args: cleanArgs,
           env: env,
         });
+        this.stderrBuffers.set(id, []);
+        this.stdioTransports.set(id, stdioTransport);
+        this.watchStdioProcess(id, config.name, stdioTransport);
+        transport = stdioTransport;
       } else if (config.type === "sse") {
-        transport = new SSEClientTransport(new URL(config.url!));
-      } else if (config.type === "remote") {
+        transport = new SSEClientTransport(new URL(config.url!), {
+          requestInit: { headers: this.buildRemoteHeaders(config) },
+        });
+      } else if (
+        config.type === "remote" ||
+        config.type === "streamable-http"
+      ) {
         this.loggingService.addLog(
           "info",
           "MCPManager",
@@ -260,36 +399,34 @@ export class MCPManager extends EventEmitter {
             category: "server",
           }
         );
-
-        // Create authenticated SSE transport for remote servers
-        transport = await this.createRemoteTransport(config);
+        // The HTTP transport is picked while connecting, see connectHttpServer
       } else {
         throw new Error(`Unsupported server type: ${config.type}`);
       }
 
-      const client = new Client(
-        {
-          name: "MCP Desktop Client",
-          version: "1.0.0",
-        },
-        {
-          capabilities: {
-            tools: {},
-            sampling: {},
-          },
-        }
-      );
-      await client.connect(transport);
+      let client = this.createClient(id, config);
+      if (transport) {
+        await client.connect(transport);
+      } else {
+        client = await this.connectHttpServer(id, config, client, interactive);
+      }
       this.clients.set(id, client);
 
       const status = this.servers.get(id)!;
+      const wasReconnecting = !!status.reconnecting;
       status.connected = true;
+      status.error = undefined;
+      status.reconnecting = undefined;
+      this.reconnectAttempts.delete(id);
       status.connectionStartTime = new Date();
       status.uptime = 0;
       this.servers.set(id, status);
 
       // Start uptime tracking
       this.startUptimeTracking(id);
+      this.startHealthChecks(id, config.healthCheckInterval);
+
+      await this.applyServerLogLevel(id, client, config.logLevel);
 
       this.loggingService.addLog(
         "success",
@@ -309,6 +446,7 @@ export class MCPManager extends EventEmitter {
       // Try to list tools immediately after connection and populate the status
       try {
         const toolsResponse = await client.listTools();
+        this.toolLists.set(id, toolsResponse.tools || []);
         console.log(
           `MCPManager: Server ${id} tools:`,
           toolsResponse.tools?.length || 0
@@ -399,10 +537,15 @@ export class MCPManager extends EventEmitter {
       // Update the server status with the populated data
       this.servers.set(id, status);
 
+      if (wasReconnecting) {
+        this.reapplyToolStates(id, status);
+      }
+
       this.emit("serverConnected", status);
     } catch (error) {
       const status = this.servers.get(id)!;
       status.connected = false;
+      status.reconnecting = undefined;
 
       if (error instanceof Error) {
         if (
@@ -419,7 +562,9 @@ export class MCPManager extends EventEmitter {
         ) {
           status.error = `Invalid timezone. Try using 'America/New_York' or remove the timezone argument entirely.`;
         } else if (error.message.includes("Connection closed")) {
-          status.error = `Server failed to start. Check your command and arguments.`;
+          status.error =
+            this.exitErrors.get(id) ||
+            `Server failed to start. Check your command and arguments.`;
         } else {
           status.error = error.message;
         }
@@ -433,20 +578,145 @@ export class MCPManager extends EventEmitter {
     }
   }
 
+  /**
+   * Create a client for a server with our capabilities and the handlers for
+   * server-initiated requests and notifications
+   */
+  private createClient(id: string, config: ServerConfig): Client {
+    const client = new Client(
+      {
+        name: "MCP Desktop Client",
+        version: "1.0.0",
+      },
+      {
+        capabilities: {
+          tools: {},
+          sampling: {},
+          elicitation: {},
+          roots: { listChanged: true },
+        },
+      }
+    );
+
+    // Servers may ask the host to run an LLM completion on their behalf
+    client.setRequestHandler(
+      CreateMessageRequestSchema,
+      async (request, extra) => {
+        if (!this.samplingHandler) {
+          throw new Error("Sampling is not available in this client");
+        }
+        this.updateLastActivity(id);
+        return await this.samplingHandler(
+          config,
+          request.params as SamplingRequestParams,
+          extra.signal
+        );
+      }
+    );
+
+    // Servers may pause a tool call to ask the user for more input
+    client.setRequestHandler(ElicitRequestSchema, async (request) => {
+      if (!this.elicitationHandler) {
+        return { action: "cancel" as const };
+      }
+      this.updateLastActivity(id);
+      const params = request.params as ElicitationRequestParams;
+      const result = await this.elicitationHandler(config, params);
+
+      const record: ElicitationRecord = {
+        serverId: id,
+        serverName: config.name,
+        message: params.message,
+        action: result.action,
+        content: result.content as ElicitationRecord["content"],
+        timestamp: new Date(),
+      };
+      this.emit("elicitation", record);
+
+      return result;
+    });
+
+    // Answer roots/list from the folders configured for this server
+    client.setRequestHandler(ListRootsRequestSchema, async () => {
+      return { roots: this.getServerRoots(id) };
+    });
+
+    // Keep the cached surface in sync when the server announces changes
+    client.setNotificationHandler(ToolListChangedNotificationSchema, () =>
+      this.refreshServerList(id, "tools")
+    );
+    client.setNotificationHandler(ResourceListChangedNotificationSchema, () =>
+      this.refreshServerList(id, "resources")
+    );
+    client.setNotificationHandler(PromptListChangedNotificationSchema, () =>
+      this.refreshServerList(id, "prompts")
+    );
+
+    client.setNotificationHandler(
+      ResourceUpdatedNotificationSchema,
+      (notification) => this.handleResourceUpdated(id, notification.params.uri)
+    );
+
+    // Forward server-side logs into the logs console
+    client.setNotificationHandler(
+      LoggingMessageNotificationSchema,
+      (notification) =>
+        this.handleServerLogMessage(id, config.name, notification.params)
+    );
+
+    // Transport closed or failed underneath us; an intentional disconnect
+    // removes the client first so it never reaches here
+    client.onclose = () =>
+      this.handleConnectionLost(
+        id,
+        client,
+        this.exitErrors.get(id) || "Connection to server was lost"
+      );
+    client.onerror = (error) =>
+      this.loggingService.addLog(
+        "warning",
+        "MCPManager",
+        `Transport error on server "${config.name}": ${error.message}`,
+        undefined,
+        { serverId: id, serverName: config.name, category: "server" }
+      );
+
+    return client;
+  }
+
   async disconnectServer(id: string): Promise<void> {
     // Stop uptime tracking
     this.stopUptimeTracking(id);
+    this.stopHealthChecks(id);
+
+    // A manual disconnect also stops the supervisor
+    this.clearReconnectTimer(id);
+    this.reconnectAttempts.delete(id);
+    this.clearTokenRefresh(id);
+
+    // Forget the process and client first so closing them isn't reported
+    // as a crash
+    this.stdioTransports.delete(id);
 
     const client = this.clients.get(id);
     if (client) {
-      await client.close();
       this.clients.delete(id);
+      if (client.transport instanceof StreamableHTTPClientTransport) {
+        await this.endSession(id, client.transport);
+      }
+      await client.close();
     }
 
+    // Subscriptions die with the session
+    this.resourceSubscriptions.delete(id);
+    this.toolLists.delete(id);
+
     const status = this.servers.get(id);
     if (status) {
       status.connected = false;
       status.error = undefined;
+      status.reconnecting = undefined;
+      status.health = undefined;
       status.tools = [];
       status.resources = [];
       status.prompts = [];
@@ -459,6 +729,7 @@ export class MCPManager extends EventEmitter {
 
   async listTools(serverId?: string): Promise<Tool[]> {
     const tools: Tool[] = [];
+    const namespaces = this.getToolNamespaces();
 
     const clientsToQuery = serverId
       ? ([this.clients.get(serverId)].filter(Boolean) as Client[])
@@ -473,14 +744,24 @@ export class MCPManager extends EventEmitter {
             ([id, c]) => c === client
           )?.[0];
 
-        const response = await client.listTools();
-        if (response.tools) {
+        const serverTools = currentServerId
+          ? await this.getServerTools(currentServerId, client)
+          : (await client.listTools()).tools;
+        if (serverTools) {
           tools.push(
-            ...response.tools.map((tool) => ({
+            ...serverTools.map((tool) => ({
               name: tool.name,
               description: tool.description || "",
               inputSchema: tool.inputSchema,
+              ...(tool.annotations && {
+                annotations: tool.annotations as ToolAnnotations,
+              }),
+              ...(tool.outputSchema && { outputSchema: tool.outputSchema }),
               serverId: currentServerId, // Track which server this tool belongs to
+              qualifiedName:
+                currentServerId && namespaces[currentServerId]
+                  ? qualifyToolName(namespaces[currentServerId], tool.name)
+                  : undefined,
             }))
           );
         }
@@ -492,6 +773,55 @@ export class MCPManager extends EventEmitter {
     return tools;
   }
 
+  /**
+   * A server's tools, listed once per connection and again when the server
+   * announces a change, so tool calls don't each cost a round trip
+   */
+  private async getServerTools(
+    serverId: string,
+    client: Client
+  ): Promise<ServerToolList> {
+    let tools = this.toolLists.get(serverId);
+    if (!tools) {
+      tools = (await client.listTools()).tools || [];
+      this.toolLists.set(serverId, tools);
+    }
+    return tools;
+  }
+
+  /**
+   * Namespace of each server's tools in agent-facing names, keyed by server
+   * id
+   */
+  getToolNamespaces(): Record<string, string> {
+    return buildToolNamespaces(this.listServerConfigs());
+  }
+
+  /**
+   * Map a namespaced tool name back to its server and the tool's own name
+   */
+  async resolveToolName(
+    qualifiedName: string
+  ): Promise<{ serverId: string; name: string } | null> {
+    const separator = qualifiedName.indexOf(TOOL_NAMESPACE_SEPARATOR);
+    if (separator <= 0) {
+      return null;
+    }
+
+    const namespace = qualifiedName.slice(0, separator);
+    const serverId = Object.entries(this.getToolNamespaces()).find(
+      ([, ns]) => ns === namespace
+    )?.[0];
+    if (!serverId || !this.clients.has(serverId)) {
+      return null;
+    }
+
+    const tool = (await this.listTools(serverId)).find(
+      (t) => t.qualifiedName === qualifiedName
+    );
+    return tool ? { serverId, name: tool.name } : null;
+  }
+
   // Method for UI - shows all tools including sequential thinking (marked as system tool) with enabled states
   async listToolsForUI(serverId?: string): Promise<Tool[]> {
     const allTools = await this.listTools(serverId);
@@ -502,6 +832,9 @@ export class MCPManager extends EventEmitter {
       enabled: tool.serverId
         ? this.isToolEnabled(tool.name, tool.serverId)
         : true,
+      policy: tool.serverId
+        ? this.getToolPolicy(tool.name, tool.serverId, tool.annotations)
+        : "allow",
     }));
   }
 
@@ -541,6 +874,93 @@ export class MCPManager extends EventEmitter {
     return resources;
   }
 
+  async listResourceTemplates(serverId: string): Promise<ResourceTemplate[]> {
+    const client = this.clients.get(serverId);
+    if (!client) {
+      throw new Error(`Server ${serverId} not connected`);
+    }
+
+    try {
+      const response = await client.listResourceTemplates();
+      return (response.resourceTemplates || []).map((template) => {
+        let variables: string[] = [];
+        try {
+          variables = new UriTemplate(template.uriTemplate).variableNames;
+        } catch (error) {
+          console.warn(
+            `MCPManager: Invalid URI template "${template.uriTemplate}":`,
+            error
+          );
+        }
+        return {
+          uriTemplate: template.uriTemplate,
+          name: template.name || "",
+          description: template.description || "",
+          mimeType: template.mimeType,
+          variables,
+        };
+      });
+    } catch (error: any) {
+      // Resource templates are optional
+      if (error?.code !== -32601) {
+        console.error("Error listing resource templates:", error);
+      }
+      return [];
+    }
+  }
+
+  /**
+   * Expand an RFC 6570 resource template and read the resulting URI
+   */
+  async readResourceTemplate(
+    serverId: string,
+    uriTemplate: string,
+    variables: Record<string, string>
+  ): Promise<{ uri: string; contents: any[] }> {
+    const uri = new UriTemplate(uriTemplate).expand(variables);
+    const contents = await this.readResource(uri, serverId);
+    return { uri, contents };
+  }
+
+  /**
+   * Ask a server for completion/complete suggestions for a prompt argument
+   * or resource template variable
+   */
+  async complete(
+    serverId: string,
+    ref: CompletionReference,
+    argument: { name: string; value: string },
+    context?: Record<string, string>
+  ): Promise<CompletionResult> {
+    const client = this.clients.get(serverId);
+    if (!client) {
+      throw new Error(`Server ${serverId} not connected`);
+    }
+
+    if (!client.getServerCapabilities()?.completions) {
+      return { values: [], supported: false };
+    }
+
+    try {
+      const response = await client.complete({
+        ref,
+        argument,
+        ...(context && { context: { arguments: context } }),
+      });
+      return {
+        values: response.completion.values,
+        total: response.completion.total,
+        hasMore: response.completion.hasMore,
+        supported: true,
+      };
+    } catch (error: any) {
+      if (error?.code === -32601) {
+        return { values: [], supported: false };
+      }
+      throw error;
+    }
+  }
+
   async listPrompts(serverId?: string): Promise<Prompt[]> {
     const prompts: Prompt[] = [];
 
@@ -571,31 +991,106 @@ export class MCPManager extends EventEmitter {
     return prompts;
   }
 
-  async callTool(name: string, args: any, serverId?: string): Promise<any> {
-    // If serverId is specified, use that client
-    if (serverId) {
-      const client = this.clients.get(serverId);
-      if (!client) {
-        throw new Error(`Server ${serverId} not connected`);
+  async callTool(
+    name: string,
+    args: any,
+    serverId?: string,
+    callId: string = uuidv4()
+  ): Promise<ToolCallResult> {
+    // Without a server id the name has to be a namespaced one, so a tool
+    // never runs on a server that merely shares its name
+    if (!serverId) {
+      const route = await this.resolveToolName(name);
+      if (!route) {
+        throw new Error(
+          `Unknown tool "${name}". Pass a server id or use the namespaced name (<namespace>${TOOL_NAMESPACE_SEPARATOR}<tool>).`
+        );
       }
+      serverId = route.serverId;
+      name = route.name;
+    }
 
-      const serverStatus = this.servers.get(serverId);
-      const serverName = serverStatus?.name || serverId;
+    const client = this.clients.get(serverId);
+    if (!client) {
+      throw new Error(`Server ${serverId} not connected`);
+    }
 
-      // Auto-inject context parameters for this server
-      const enhancedArgs = this.enhanceArgsWithContext(serverId, args);
-      console.log(
-        `MCPManager: Calling tool ${name} on server ${serverId} with enhanced args:`,
-        enhancedArgs
+    const serverStatus = this.servers.get(serverId);
+    const serverName = serverStatus?.name || serverId;
+
+    // Auto-inject context parameters for this server
+    const enhancedArgs = this.enhanceArgsWithContext(serverId, args);
+    console.log(
+      `MCPManager: Calling tool ${name} on server ${serverId} with enhanced args:`,
+      enhancedArgs
+    );
+
+    this.loggingService.addLog(
+      "info",
+      "MCPManager",
+      `Executing tool "${name}" on server "${serverName}"`,
+      {
+        toolName: name,
+        arguments: enhancedArgs,
+        serverId,
+      },
+      {
+        serverId,
+        serverName,
+        toolName: name,
+        category: "tool",
+      }
+    );
+
+    // Debug: Let's also log the tool schema to understand what it expects
+    let outputSchema: any;
+    try {
+      const tool = (await this.getServerTools(serverId, client)).find(
+        (t) => t.name === name
+      );
+      if (tool) {
+        console.log(
+          `MCPManager: Tool ${name} schema:`,
+          JSON.stringify(tool.inputSchema, null, 2)
+        );
+        outputSchema = tool.outputSchema;
+      }
+    } catch (e) {
+      console.log(`MCPManager: Could not get tool schema for ${name}`);
+    }
+
+    // Update last activity before calling the tool
+    this.updateLastActivity(serverId);
+
+    const options = this.startToolCall(callId, serverId, name);
+    try {
+      const response = await client.callTool(
+        {
+          name,
+          arguments: enhancedArgs,
+        },
+        CallToolResultSchema,
+        options
       );
+      // console.log(`MCPManager: Raw response from tool ${name}:`, response);
+
+      const result = this.toToolCallResult(response, outputSchema);
 
       this.loggingService.addLog(
-        "info",
+        result.isError ? "error" : "success",
         "MCPManager",
-        `Executing tool "${name}" on server "${serverName}"`,
+        result.isError
+          ? `Tool "${name}" reported an error on server "${serverName}"`
+          : `Tool "${name}" executed successfully on server "${serverName}"`,
         {
           toolName: name,
-          arguments: enhancedArgs,
+          result: response.content,
+          ...(result.structuredContent && {
+            structuredContent: result.structuredContent,
+          }),
+          ...(result.validationErrors && {
+            validationErrors: result.validationErrors,
+          }),
           serverId,
         },
         {
@@ -606,91 +1101,136 @@ export class MCPManager extends EventEmitter {
         }
       );
 
-      // Debug: Let's also log the tool schema to understand what it expects
-      try {
-        const toolsResponse = await client.listTools();
-        const tool = toolsResponse.tools.find((t) => t.name === name);
-        if (tool) {
-          console.log(
-            `MCPManager: Tool ${name} schema:`,
-            JSON.stringify(tool.inputSchema, null, 2)
-          );
-        }
-      } catch (e) {
-        console.log(`MCPManager: Could not get tool schema for ${name}`);
-      }
+      this.finishToolCall(
+        callId,
+        serverId,
+        name,
+        result.isError ? "failed" : "completed"
+      );
+      return result;
+    } catch (error) {
+      const cancelled = options.signal?.aborted === true;
+      this.finishToolCall(
+        callId,
+        serverId,
+        name,
+        cancelled ? "cancelled" : "failed"
+      );
 
-      // Update last activity before calling the tool
-      this.updateLastActivity(serverId);
+      this.loggingService.addLog(
+        cancelled ? "warning" : "error",
+        "MCPManager",
+        cancelled
+          ? `Tool "${name}" was cancelled on server "${serverName}"`
+          : `Tool "${name}" failed on server "${serverName}"`,
+        {
+          toolName: name,
+          error: String(error),
+          serverId,
+        },
+        {
+          serverId,
+          serverName,
+          toolName: name,
+          category: "tool",
+        }
+      );
 
-      try {
-        const response = await client.callTool({
-          name,
-          arguments: enhancedArgs,
-        });
-        // console.log(`MCPManager: Raw response from tool ${name}:`, response);
+      if (cancelled) {
+        throw new Error(`Tool "${name}" was cancelled`);
+      }
+      throw error;
+    }
+  }
 
-        this.loggingService.addLog(
-          "success",
-          "MCPManager",
-          `Tool "${name}" executed successfully on server "${serverName}"`,
-          {
-            toolName: name,
-            result: response.content,
-            serverId,
-          },
-          {
-            serverId,
-            serverName,
-            toolName: name,
-            category: "tool",
-          }
-        );
+  // Check structured output against the tool's output schema. Error results
+  // don't have to match it.
+  private toToolCallResult(response: any, outputSchema?: any): ToolCallResult {
+    const result: ToolCallResult = {
+      content: Array.isArray(response.content) ? response.content : [],
+      ...(response.structuredContent && {
+        structuredContent: response.structuredContent,
+      }),
+      ...(response.isError && { isError: true }),
+    };
 
-        return response.content;
-      } catch (error) {
-        this.loggingService.addLog(
-          "error",
-          "MCPManager",
-          `Tool "${name}" failed on server "${serverName}"`,
-          {
-            toolName: name,
-            error: String(error),
-            serverId,
-          },
-          {
-            serverId,
-            serverName,
-            toolName: name,
-            category: "tool",
-          }
-        );
-        throw error;
+    if (outputSchema && !result.isError) {
+      const validationErrors = result.structuredContent
+        ? validateJsonSchema(result.structuredContent, outputSchema)
+        : [
+            "$: the tool declares an output schema but returned no structured content",
+          ];
+      if (validationErrors.length > 0) {
+        result.validationErrors = validationErrors;
       }
     }
 
-    // Otherwise, try all connected clients until one succeeds
-    const errors: string[] = [];
-    for (const [id, client] of this.clients.entries()) {
-      try {
-        const enhancedArgs = this.enhanceArgsWithContext(id, args);
+    return result;
+  }
 
-        // Update last activity for this server
-        this.updateLastActivity(id);
+  /**
+   * Abort an in-flight tool call. The SDK sends notifications/cancelled to
+   * the server and rejects the pending request.
+   */
+  cancelToolCall(callId: string): boolean {
+    const controller = this.pendingToolCalls.get(callId);
+    if (!controller) {
+      return false;
+    }
+    controller.abort("Cancelled by user");
+    return true;
+  }
 
-        const response = await client.callTool({
-          name,
-          arguments: enhancedArgs,
+  /**
+   * Register a pending tool call and build request options that attach a
+   * progress token, honour the server's configured timeout and allow
+   * cancellation
+   */
+  private startToolCall(
+    callId: string,
+    serverId: string,
+    toolName: string
+  ): RequestOptions {
+    const controller = new AbortController();
+    this.pendingToolCalls.set(callId, controller);
+
+    const emitProgress = (event: Partial<ToolProgressEvent>) =>
+      this.emit("toolProgress", {
+        callId,
+        serverId,
+        toolName,
+        status: "running",
+        ...event,
+      } as ToolProgressEvent);
+
+    emitProgress({});
+
+    const timeout = this.getServerConfig(serverId)?.timeout;
+    return {
+      signal: controller.signal,
+      timeout: timeout && timeout > 0 ? timeout : undefined,
+      // Servers that report progress are still working; don't time them out
+      resetTimeoutOnProgress: true,
+      onprogress: (progress) => {
+        this.updateLastActivity(serverId);
+        emitProgress({
+          progress: progress.progress,
+          total: progress.total,
+          message: progress.message,
         });
-        return response.content;
-      } catch (error) {
-        errors.push(
-          `${id}: ${error instanceof Error ? error.message : "Unknown error"}`
-        );
-      }
-    }
+      },
+    };
+  }
 
-    throw new Error(`Tool ${name} failed on all servers: ${errors.join(", ")}`);
+  private finishToolCall(
+    callId: string,
+    serverId: string,
+    toolName: string,
+    status: ToolProgressEvent["status"]
+  ): void {
+    this.pendingToolCalls.delete(callId);
+    const event: ToolProgressEvent = { callId, serverId, toolName, status };
+    this.emit("toolProgress", event);
   }
 
   private enhanceArgsWithContext(serverId: string, args: any): any {
@@ -748,18 +1288,101 @@ export class MCPManager extends EventEmitter {
     );
   }
 
-  async getPrompt(name: string, args?: any, serverId?: string): Promise<any> {
-    // If serverId is specified, use that client
-    if (serverId) {
-      const client = this.clients.get(serverId);
-      if (!client) {
-        throw new Error(`Server ${serverId} not connected`);
-      }
-      const response = await client.getPrompt({ name, arguments: args });
-      return response.messages;
-    }
-
-    // Otherwise, try all connected clients until one succeeds
+  /**
+   * Subscribe to updates for a resource and return its current contents
+   */
+  async subscribeResource(serverId: string, uri: string): Promise<any> {
+    const client = this.clients.get(serverId);
+    if (!client) {
+      throw new Error(`Server ${serverId} not connected`);
+    }
+
+    const capabilities = client.getServerCapabilities();
+    if (!capabilities?.resources?.subscribe) {
+      throw new Error("Server does not support resource subscriptions");
+    }
+
+    await client.subscribeResource({ uri });
+
+    const uris = this.resourceSubscriptions.get(serverId) || new Set<string>();
+    uris.add(uri);
+    this.resourceSubscriptions.set(serverId, uris);
+
+    const serverName = this.servers.get(serverId)?.name || serverId;
+    this.loggingService.addLog(
+      "info",
+      "MCPManager",
+      `Subscribed to resource "${uri}" on server "${serverName}"`,
+      { uri },
+      {
+        serverId,
+        serverName,
+        category: "server",
+      }
+    );
+
+    return await this.readResource(uri, serverId);
+  }
+
+  async unsubscribeResource(serverId: string, uri: string): Promise<void> {
+    const uris = this.resourceSubscriptions.get(serverId);
+    if (!uris?.delete(uri)) {
+      return;
+    }
+
+    const client = this.clients.get(serverId);
+    if (client) {
+      await client.unsubscribeResource({ uri });
+    }
+
+    const serverName = this.servers.get(serverId)?.name || serverId;
+    this.loggingService.addLog(
+      "info",
+      "MCPManager",
+      `Unsubscribed from resource "${uri}" on server "${serverName}"`,
+      { uri },
+      {
+        serverId,
+        serverName,
+        category: "server",
+      }
+    );
+  }
+
+  private async handleResourceUpdated(
+    serverId: string,
+    uri: string
+  ): Promise<void> {
+    if (!this.resourceSubscriptions.get(serverId)?.has(uri)) {
+      return;
+    }
+
+    const event: ResourceUpdatedEvent = {
+      serverId,
+      uri,
+      timestamp: new Date(),
+    };
+    try {
+      event.contents = await this.readResource(uri, serverId);
+    } catch (error) {
+      event.error = error instanceof Error ? error.message : String(error);
+    }
+
+    this.emit("resourceUpdated", event);
+  }
+
+  async getPrompt(name: string, args?: any, serverId?: string): Promise<any> {
+    // If serverId is specified, use that client
+    if (serverId) {
+      const client = this.clients.get(serverId);
+      if (!client) {
+        throw new Error(`Server ${serverId} not connected`);
+      }
+      const response = await client.getPrompt({ name, arguments: args });
+      return response.messages;
+    }
+
+    // Otherwise, try all connected clients until one succeeds
     const errors: string[] = [];
     for (const [id, client] of this.clients.entries()) {
       try {
@@ -777,11 +1400,58 @@ export class MCPManager extends EventEmitter {
     );
   }
 
+  /**
+   * Move plaintext credentials saved by earlier versions into the secret
+   * vault
+   */
+  migrateSecrets(): void {
+    const servers: ServerConfig[] = this.store.get("servers", []);
+    const migrated: string[] = [];
+
+    const sealed = servers.map((config) => {
+      const sealedConfig = secretVault.seal(config, SERVER_SECRET_FIELDS);
+      if (
+        SERVER_SECRET_FIELDS.some(
+          (field) => (sealedConfig as any)[field] !== (config as any)[field]
+        )
+      ) {
+        migrated.push(config.name);
+      }
+      return sealedConfig;
+    });
+
+    if (migrated.length > 0) {
+      this.store.set("servers", sealed);
+      this.loggingService.addLog(
+        "info",
+        "MCPManager",
+        `Moved credentials of ${migrated.length} server(s) into the secret vault`,
+        { servers: migrated },
+        { category: "system" }
+      );
+    }
+  }
+
   getServerConfig(id: string): ServerConfig | null {
     const servers: ServerConfig[] = this.store.get("servers", []);
     return servers.find((s: ServerConfig) => s.id === id) || null;
   }
 
+  listServerConfigs(): ServerConfig[] {
+    return this.store.get("servers", []);
+  }
+
+  /**
+   * Apply the per-server settings a workspace profile carries, without the
+   * reconnect a full updateServer does
+   */
+  applyServerSettings(
+    id: string,
+    settings: Pick<ServerConfig, "enabled" | "contextParams">
+  ): void {
+    this.patchServerConfig(id, settings);
+  }
+
   async updateServer(id: string, config: ServerConfig): Promise<ServerStatus> {
     // Disconnect the server if it's currently connected
     await this.disconnectServer(id);
@@ -795,7 +1465,11 @@ export class MCPManager extends EventEmitter {
     }
 
     // Ensure the ID remains the same
-    const updatedConfig = { ...config, id };
+    const updatedConfig = secretVault.seal(
+      { ...config, id },
+      SERVER_SECRET_FIELDS,
+      servers[serverIndex]
+    );
     servers[serverIndex] = updatedConfig;
     this.store.set("servers", servers);
 
@@ -815,6 +1489,568 @@ export class MCPManager extends EventEmitter {
     );
   }
 
+  /**
+   * Re-fetch one of a server's lists after a list_changed notification,
+   * update the cached status and emit "listChanged" with what was added
+   * and removed
+   */
+  private async refreshServerList(
+    serverId: string,
+    kind: ServerListChangedEvent["kind"]
+  ): Promise<void> {
+    const client = this.clients.get(serverId);
+    const status = this.servers.get(serverId);
+    if (!client || !status) {
+      return;
+    }
+
+    // Keys identifying the items before and after the refresh
+    let previousKeys: string[];
+    let currentKeys: string[];
+    try {
+      switch (kind) {
+        case "tools": {
+          const tools = (await client.listTools()).tools || [];
+          this.toolLists.set(serverId, tools);
+          previousKeys = (status.tools || []).map((tool) => tool.name);
+          currentKeys = tools.map((tool) => tool.name);
+          status.tools = tools;
+          break;
+        }
+        case "resources": {
+          const resources: Resource[] =
+            (await client.listResources()).resources || [];
+          previousKeys = (status.resources || []).map((r) => r.uri);
+          currentKeys = resources.map((r) => r.uri);
+          status.resources = resources;
+          break;
+        }
+        case "prompts": {
+          const prompts: Prompt[] = (await client.listPrompts()).prompts || [];
+          previousKeys = (status.prompts || []).map((prompt) => prompt.name);
+          currentKeys = prompts.map((prompt) => prompt.name);
+          status.prompts = prompts;
+          break;
+        }
+      }
+    } catch (error) {
+      this.loggingService.addLog(
+        "warning",
+        "MCPManager",
+        `Failed to refresh ${kind} for server "${status.name}"`,
+        { error: String(error) },
+        {
+          serverId,
+          serverName: status.name,
+          category: "server",
+        }
+      );
+      return;
+    }
+
+    const added = currentKeys.filter((key) => !previousKeys.includes(key));
+    const removed = previousKeys.filter((key) => !currentKeys.includes(key));
+    this.servers.set(serverId, status);
+
+    this.loggingService.addLog(
+      "info",
+      "MCPManager",
+      `Server "${status.name}" updated its ${kind}`,
+      { added, removed, total: currentKeys.length },
+      {
+        serverId,
+        serverName: status.name,
+        category: "server",
+      }
+    );
+
+    const event: ServerListChangedEvent = { serverId, kind, added, removed };
+    this.emit("listChanged", event);
+  }
+
+  /**
+   * Replace the workspace folders exposed to a server via roots/list and
+   * notify it if connected, without restarting the connection
+   */
+  async setServerRoots(id: string, roots: string[]): Promise<void> {
+    const servers: ServerConfig[] = this.store.get("servers", []);
+    const serverIndex = servers.findIndex((s: ServerConfig) => s.id === id);
+
+    if (serverIndex === -1) {
+      throw new Error(`Server ${id} not found`);
+    }
+
+    servers[serverIndex] = { ...servers[serverIndex], roots };
+    this.store.set("servers", servers);
+
+    const serverName = servers[serverIndex].name;
+    this.loggingService.addLog(
+      "info",
+      "MCPManager",
+      `Updated roots for server "${serverName}"`,
+      { roots },
+      {
+        serverId: id,
+        serverName,
+        category: "server",
+      }
+    );
+
+    const client = this.clients.get(id);
+    if (client) {
+      try {
+        await client.sendRootsListChanged();
+      } catch (error) {
+        console.error(
+          `MCPManager: Failed to send roots/list_changed to ${id}:`,
+          error
+        );
+      }
+    }
+  }
+
+  /**
+   * Mark a connected server as down after its transport closed on its own
+   * and hand it to the reconnect supervisor when autoRestart is set
+   */
+  private handleConnectionLost(id: string, client: Client, error: string) {
+    // Ignore stale clients and closes we initiated
+    if (this.clients.get(id) !== client) {
+      return;
+    }
+
+    this.clients.delete(id);
+    this.stopUptimeTracking(id);
+    this.stopHealthChecks(id);
+    this.resourceSubscriptions.delete(id);
+    this.toolLists.delete(id);
+
+    const status = this.servers.get(id);
+    if (!status) {
+      return;
+    }
+
+    status.connected = false;
+    status.error = error;
+    status.health = undefined;
+    status.uptime = 0;
+    status.connectionStartTime = undefined;
+    this.servers.set(id, status);
+
+    this.loggingService.addLog(
+      "error",
+      "MCPManager",
+      `Lost connection to server "${status.name}": ${error}`,
+      undefined,
+      { serverId: id, serverName: status.name, category: "server" }
+    );
+    this.emit("serverError", status);
+
+    const servers: ServerConfig[] = this.store.get("servers", []);
+    const config = servers.find((s) => s.id === id);
+    if (config?.autoRestart) {
+      this.scheduleReconnect(id);
+    }
+  }
+
+  private scheduleReconnect(id: string) {
+    const status = this.servers.get(id);
+    if (!status) {
+      return;
+    }
+
+    const attempt = (this.reconnectAttempts.get(id) || 0) + 1;
+    if (attempt > MAX_RECONNECT_ATTEMPTS) {
+      this.reconnectAttempts.delete(id);
+      status.reconnecting = undefined;
+      status.error = `${
+        status.error || "Connection lost"
+      } (gave up after ${MAX_RECONNECT_ATTEMPTS} reconnect attempts)`;
+      this.servers.set(id, status);
+
+      this.loggingService.addLog(
+        "error",
+        "MCPManager",
+        `Giving up on reconnecting to server "${status.name}"`,
+        { attempts: MAX_RECONNECT_ATTEMPTS },
+        { serverId: id, serverName: status.name, category: "server" }
+      );
+      this.emit("serverError", status);
+      return;
+    }
+    this.reconnectAttempts.set(id, attempt);
+
+    // Exponential backoff with equal jitter so servers that went down
+    // together don't all retry at the same moment
+    const backoff = Math.min(
+      RECONNECT_MAX_DELAY_MS,
+      RECONNECT_BASE_DELAY_MS * 2 ** (attempt - 1)
+    );
+    const delay = Math.round(backoff / 2 + Math.random() * (backoff / 2));
+
+    status.reconnecting = {
+      attempt,
+      maxAttempts: MAX_RECONNECT_ATTEMPTS,
+      nextAttemptAt: new Date(Date.now() + delay),
+    };
+    this.servers.set(id, status);
+
+    this.loggingService.addLog(
+      "warning",
+      "MCPManager",
+      `Reconnecting to server "${status.name}" in ${Math.round(
+        delay / 1000
+      )}s (attempt ${attempt}/${MAX_RECONNECT_ATTEMPTS})`,
+      { attempt, delay },
+      { serverId: id, serverName: status.name, category: "server" }
+    );
+    this.emit("serverReconnecting", status);
+
+    const timer = setTimeout(async () => {
+      this.reconnectTimers.delete(id);
+      try {
+        await this.connectServer(id, false);
+      } catch (error) {
+        // connectServer has already recorded the error on the status
+        if (error instanceof UnauthorizedError) {
+          // Retrying won't help until the user signs in again
+          this.reconnectAttempts.delete(id);
+          this.loggingService.addLog(
+            "warning",
+            "MCPManager",
+            `Stopped reconnecting to server "${status.name}" until the user signs in again`,
+            undefined,
+            { serverId: id, serverName: status.name, category: "server" }
+          );
+          return;
+        }
+        this.scheduleReconnect(id);
+      }
+    }, delay);
+    this.reconnectTimers.set(id, timer);
+  }
+
+  private clearReconnectTimer(id: string) {
+    const timer = this.reconnectTimers.get(id);
+    if (timer) {
+      clearTimeout(timer);
+      this.reconnectTimers.delete(id);
+    }
+  }
+
+  /**
+   * Tool enable states are keyed by server and tool name, so they survive a
+   * reconnect; tell listeners to rebuild from them once the tools are back
+   */
+  private reapplyToolStates(id: string, status: ServerStatus) {
+    const disabled = (status.tools || [])
+      .map((tool) => tool.name)
+      .filter((name) => !this.isToolEnabled(name, id));
+
+    this.loggingService.addLog(
+      "info",
+      "MCPManager",
+      `Re-applied tool states for server "${status.name}" after reconnect`,
+      { disabled },
+      { serverId: id, serverName: status.name, category: "server" }
+    );
+    this.emit("toolStatesReapplied", { serverId: id, disabled });
+  }
+
+  /**
+   * Change how often a server is pinged and restart its checks if it is
+   * connected. Zero turns health checks off.
+   */
+  async setServerHealthCheckInterval(
+    id: string,
+    seconds: number
+  ): Promise<void> {
+    const servers: ServerConfig[] = this.store.get("servers", []);
+    const serverIndex = servers.findIndex((s: ServerConfig) => s.id === id);
+
+    if (serverIndex === -1) {
+      throw new Error(`Server ${id} not found`);
+    }
+
+    servers[serverIndex] = {
+      ...servers[serverIndex],
+      healthCheckInterval: seconds,
+    };
+    this.store.set("servers", servers);
+
+    if (this.clients.has(id)) {
+      this.startHealthChecks(id, seconds);
+    }
+  }
+
+  private startHealthChecks(
+    id: string,
+    seconds: number = DEFAULT_HEALTH_CHECK_INTERVAL_S
+  ): void {
+    this.stopHealthChecks(id);
+
+    const status = this.servers.get(id);
+    if (!status) {
+      return;
+    }
+
+    if (seconds <= 0) {
+      status.health = undefined;
+      this.servers.set(id, status);
+      this.emit("serverHealth", { serverId: id, health: undefined });
+      return;
+    }
+
+    status.health = status.health || {
+      state: "healthy",
+      latencyHistory: [],
+      consecutiveFailures: 0,
+    };
+    this.servers.set(id, status);
+
+    const interval = setInterval(
+      () => this.checkServerHealth(id),
+      seconds * 1000
+    );
+    this.healthCheckTimers.set(id, interval);
+  }
+
+  private stopHealthChecks(id: string): void {
+    const interval = this.healthCheckTimers.get(id);
+    if (interval) {
+      clearInterval(interval);
+      this.healthCheckTimers.delete(id);
+    }
+  }
+
+  private async checkServerHealth(id: string): Promise<void> {
+    const client = this.clients.get(id);
+    const status = this.servers.get(id);
+    // Skip a tick rather than stacking pings on a slow server
+    if (!client || !status || this.healthChecksInFlight.has(id)) {
+      return;
+    }
+
+    this.healthChecksInFlight.add(id);
+    const previous: ServerHealth = status.health || {
+      state: "healthy",
+      latencyHistory: [],
+      consecutiveFailures: 0,
+    };
+    const health: ServerHealth = {
+      ...previous,
+      lastCheckedAt: new Date(),
+    };
+
+    const startedAt = Date.now();
+    try {
+      await client.ping({ timeout: HEALTH_CHECK_TIMEOUT_MS });
+      const latency = Date.now() - startedAt;
+      health.latencyHistory = [...previous.latencyHistory, latency].slice(
+        -LATENCY_HISTORY_SIZE
+      );
+      health.consecutiveFailures = 0;
+      health.lastError = undefined;
+      health.state = latency > DEGRADED_LATENCY_MS ? "degraded" : "healthy";
+    } catch (error) {
+      health.consecutiveFailures = previous.consecutiveFailures + 1;
+      health.lastError = error instanceof Error ? error.message : String(error);
+      health.state =
+        health.consecutiveFailures >= UNHEALTHY_FAILURE_COUNT
+          ? "unhealthy"
+          : "degraded";
+    } finally {
+      this.healthChecksInFlight.delete(id);
+    }
+
+    // The server may have gone away while the ping was in flight
+    if (this.clients.get(id) !== client) {
+      return;
+    }
+
+    if (health.state !== previous.state) {
+      this.loggingService.addLog(
+        health.state === "healthy"
+          ? "success"
+          : health.state === "degraded"
+          ? "warning"
+          : "error",
+        "MCPManager",
+        `Server "${status.name}" is ${health.state}`,
+        {
+          latency: health.latencyHistory.slice(-1)[0],
+          consecutiveFailures: health.consecutiveFailures,
+          error: health.lastError,
+        },
+        { serverId: id, serverName: status.name, category: "server" }
+      );
+    }
+
+    status.health = health;
+    this.servers.set(id, status);
+    this.emit("serverHealth", { serverId: id, health });
+  }
+
+  /**
+   * Most recent stderr lines of a stdio server's process
+   */
+  getServerStderr(id: string): string[] {
+    return [...(this.stderrBuffers.get(id) || [])];
+  }
+
+  private watchStdioProcess(
+    id: string,
+    serverName: string,
+    transport: StdioProcessTransport
+  ): void {
+    const logOptions = {
+      serverId: id,
+      serverName,
+      category: "server" as const,
+    };
+
+    let partialLine = "";
+    transport.stderr.on("data", (chunk: Buffer) => {
+      const text = partialLine + chunk.toString();
+      const lines = text.split(/\r?\n/);
+      partialLine = lines.pop() || "";
+
+      const buffer = this.stderrBuffers.get(id) || [];
+      for (const line of lines) {
+        if (!line.trim()) continue;
+        buffer.push(line);
+        // Servers log to stderr as a matter of course; only the exit says
+        // whether something went wrong
+        this.loggingService.addLog(
+          "info",
+          "stderr",
+          line,
+          undefined,
+          logOptions
+        );
+      }
+      this.stderrBuffers.set(id, buffer.slice(-MAX_STDERR_LINES));
+    });
+
+    transport.onExit = (code, signal) => {
+      const exitDescription = signal
+        ? `was killed by ${signal}`
+        : `exited with code ${code}`;
+      const lastLine = this.stderrBuffers.get(id)?.slice(-1)[0];
+
+      // Disconnecting removes the transport before the process is stopped
+      const unexpected = this.stdioTransports.get(id) === transport;
+
+      this.loggingService.addLog(
+        unexpected ? "error" : "info",
+        "MCPManager",
+        `Server process "${serverName}" ${exitDescription}`,
+        {
+          code,
+          signal,
+          stderr: this.stderrBuffers.get(id)?.slice(-10),
+        },
+        logOptions
+      );
+
+      if (!unexpected) {
+        return;
+      }
+
+      this.stdioTransports.delete(id);
+      const error = `Server process ${exitDescription}${
+        lastLine ? `: ${lastLine}` : ""
+      }`;
+      this.exitErrors.set(id, error);
+
+      // A crash after a successful connect leaves a dead client behind
+      const client = this.clients.get(id);
+      if (client) {
+        this.handleConnectionLost(id, client, error);
+      }
+    };
+  }
+
+  /**
+   * Change the minimum level a server sends via notifications/message and
+   * apply it to the running connection
+   */
+  async setServerLogLevel(id: string, level: ServerLogLevel): Promise<void> {
+    const servers: ServerConfig[] = this.store.get("servers", []);
+    const serverIndex = servers.findIndex((s: ServerConfig) => s.id === id);
+
+    if (serverIndex === -1) {
+      throw new Error(`Server ${id} not found`);
+    }
+
+    servers[serverIndex] = { ...servers[serverIndex], logLevel: level };
+    this.store.set("servers", servers);
+
+    const client = this.clients.get(id);
+    if (client) {
+      await this.applyServerLogLevel(id, client, level);
+    }
+  }
+
+  private async applyServerLogLevel(
+    id: string,
+    client: Client,
+    level: ServerLogLevel = DEFAULT_SERVER_LOG_LEVEL
+  ): Promise<void> {
+    // Servers without the logging capability reject logging/setLevel
+    if (!client.getServerCapabilities()?.logging) {
+      return;
+    }
+
+    try {
+      await client.setLoggingLevel(level);
+    } catch (error) {
+      console.error(`MCPManager: Failed to set log level for ${id}:`, error);
+    }
+  }
+
+  private handleServerLogMessage(
+    serverId: string,
+    serverName: string,
+    params: { level: ServerLogLevel; logger?: string; data?: unknown }
+  ): void {
+    const levelMap: Record<ServerLogLevel, LogEntry["level"]> = {
+      debug: "debug",
+      info: "info",
+      notice: "info",
+      warning: "warning",
+      error: "error",
+      critical: "error",
+      alert: "error",
+      emergency: "error",
+    };
+
+    const message =
+      typeof params.data === "string"
+        ? params.data
+        : JSON.stringify(params.data);
+
+    this.loggingService.addLog(
+      levelMap[params.level] || "info",
+      params.logger || serverName,
+      message,
+      { level: params.level, logger: params.logger, data: params.data },
+      {
+        serverId,
+        serverName,
+        category: "server",
+      }
+    );
+  }
+
+  private getServerRoots(id: string): Array<{ uri: string; name: string }> {
+    const config = this.getServerConfig(id);
+    return (config?.roots || []).map((folder) => ({
+      uri: pathToFileURL(folder).href,
+      name: path.basename(folder) || folder,
+    }));
+  }
+
   /**
    * Auto-discover context parameters by analyzing tool schemas
    */
@@ -827,12 +2063,11 @@ export class MCPManager extends EventEmitter {
     }
 
     try {
-      const toolsResponse = await client.listTools();
       const suggestedParams: Record<string, string> = {};
       const paramCounts: Record<string, number> = {};
 
       // Analyze all tool schemas to find common parameters
-      for (const tool of toolsResponse.tools) {
+      for (const tool of await this.getServerTools(serverId, client)) {
         if (tool.inputSchema?.properties) {
           for (const [paramName, paramSchema] of Object.entries(
             tool.inputSchema.properties
@@ -1021,6 +2256,12 @@ export class MCPManager extends EventEmitter {
     this.emit("toolStateChanged", { toolName, serverId, enabled });
   }
 
+  // Swap in a whole set of tool states, e.g. when switching profiles
+  public replaceToolStates(toolStates: Record<string, boolean>): void {
+    this.store.set("toolStates", { ...toolStates });
+    this.emit("toolStatesReplaced");
+  }
+
   public isToolEnabled(toolName: string, serverId: string): boolean {
     const toolId = this.getToolId(toolName, serverId);
     const toolStates = this.getToolStates();
@@ -1035,6 +2276,42 @@ export class MCPManager extends EventEmitter {
     return newState;
   }
 
+  // Approval policies, keyed like tool states. Tools without a saved policy
+  // run freely unless the server marks them destructive.
+  public getToolPolicies(): Record<string, ToolApprovalPolicy> {
+    return this.store.get("toolPolicies", {});
+  }
+
+  public getToolPolicy(
+    toolName: string,
+    serverId: string,
+    annotations?: ToolAnnotations
+  ): ToolApprovalPolicy {
+    const policy = this.getToolPolicies()[this.getToolId(toolName, serverId)];
+    if (policy) {
+      return policy;
+    }
+    return annotations?.destructiveHint ? "ask" : "allow";
+  }
+
+  public setToolPolicy(
+    toolName: string,
+    serverId: string,
+    policy: ToolApprovalPolicy
+  ): void {
+    const toolPolicies = this.getToolPolicies();
+    toolPolicies[this.getToolId(toolName, serverId)] = policy;
+    this.store.set("toolPolicies", toolPolicies);
+
+    this.loggingService.addLog(
+      "info",
+      "MCPManager",
+      `Tool "${toolName}" approval policy set to "${policy}" for server "${serverId}"`,
+      { toolName, serverId, policy },
+      { serverId, toolName, category: "tool" }
+    );
+  }
+
   // Enhanced method for agent - only returns enabled tools
   async listEnabledToolsForAgent(serverId?: string): Promise<Tool[]> {
     const allTools = await this.listTools(serverId);
@@ -1044,17 +2321,10 @@ export class MCPManager extends EventEmitter {
     });
   }
 
-  private async createRemoteTransport(config: ServerConfig): Promise<any> {
-    if (!config.url) {
-      throw new Error("Remote server URL is required");
-    }
-
-    // Create base URL
-    const url = new URL(config.url);
-
-    // Handle authentication
+  private buildRemoteHeaders(config: ServerConfig): Record<string, string> {
+    config = secretVault.reveal(config, SERVER_SECRET_FIELDS);
     const headers: Record<string, string> = {
-      "Content-Type": "application/json",
+      ...config.headers,
     };
 
     switch (config.authType) {
@@ -1087,10 +2357,7 @@ export class MCPManager extends EventEmitter {
         break;
 
       case "oauth":
-        if (!config.accessToken) {
-          throw new Error("Access token is required for OAuth authentication");
-        }
-        headers["Authorization"] = `Bearer ${config.accessToken}`;
+        // Tokens come from the OAuth provider, see createOAuthProvider
         break;
 
       case "none":
@@ -1099,173 +2366,290 @@ export class MCPManager extends EventEmitter {
         break;
     }
 
-    // Check if this is GitHub's official MCP server
-    if (
-      url.hostname === "api.githubcopilot.com" &&
-      url.pathname.startsWith("/mcp")
-    ) {
-      console.log(
-        `MCPManager: Using StreamableHTTPClientTransport for GitHub MCP server`
-      );
-      // GitHub's MCP server uses HTTP transport, not SSE
-      return new StreamableHTTPClientTransport(url, {
-        requestInit: {
-          headers,
-        },
-      });
-    }
-
-    // For other remote servers, use SSE transport with custom headers
-    console.log(
-      `MCPManager: Using SSE transport for remote server: ${url.toString()}`
-    );
-    const authenticatedTransport = new AuthenticatedSSETransport(url, headers);
-    return authenticatedTransport;
+    return headers;
   }
-}
 
-// Custom SSE Transport with authentication support
-class AuthenticatedSSETransport {
-  private url: URL;
-  private headers: Record<string, string>;
-  private eventSource?: EventSourceModule.EventSource;
-  private messageHandlers: Set<(message: any) => void> = new Set();
-  private errorHandlers: Set<(error: Error) => void> = new Set();
-  private closeHandlers: Set<() => void> = new Set();
-
-  constructor(url: URL, headers: Record<string, string> = {}) {
-    this.url = url;
-    this.headers = headers;
-  }
-
-  async start(): Promise<void> {
-    // Use Node.js EventSource with authentication headers
-    // Note: TypeScript definitions might not include headers option, but it's supported in Node.js EventSource
-    console.log(
-      `AuthenticatedSSETransport: Connecting to ${this.url.toString()}`
-    );
-    console.log(`AuthenticatedSSETransport: Headers:`, this.headers);
-
-    this.eventSource = new EventSourceModule.EventSource(this.url.toString(), {
-      headers: this.headers,
-    } as any);
-
-    this.eventSource.onopen = () => {
-      console.log(
-        `AuthenticatedSSETransport: Connection opened to ${this.url.toString()}`
-      );
-    };
+  /**
+   * Connect a "remote" or "streamable-http" server. Remote servers are tried
+   * over streamable HTTP first and fall back to the legacy HTTP+SSE
+   * transport when the server doesn't speak it.
+   */
+  private async connectHttpServer(
+    id: string,
+    config: ServerConfig,
+    client: Client,
+    interactive: boolean
+  ): Promise<Client> {
+    if (!config.url) {
+      throw new Error("Remote server URL is required");
+    }
 
-    this.eventSource.onmessage = (event) => {
-      console.log(`AuthenticatedSSETransport: Received message:`, event.data);
-      try {
-        const data = JSON.parse(event.data);
-        this.messageHandlers.forEach((handler) => handler(data));
-      } catch (error) {
-        console.error(
-          `AuthenticatedSSETransport: Error parsing message:`,
-          error
-        );
-        this.errorHandlers.forEach((handler) => handler(error as Error));
-      }
+    const url = new URL(config.url);
+    const headers = this.buildRemoteHeaders(config);
+    const authProvider =
+      config.authType === "oauth"
+        ? this.createOAuthProvider(id, interactive)
+        : undefined;
+    const logOptions = {
+      serverId: id,
+      serverName: config.name,
+      category: "server" as const,
     };
 
-    this.eventSource.onerror = (error) => {
-      console.error(`AuthenticatedSSETransport: Connection error:`, error);
-      console.error(
-        `AuthenticatedSSETransport: EventSource state:`,
-        this.eventSource?.readyState
+    let connected: Client;
+    try {
+      connected = await this.connectStreamableHttp(
+        id,
+        config,
+        client,
+        url,
+        headers,
+        authProvider
       );
+    } catch (error) {
+      if (
+        config.type === "streamable-http" ||
+        error instanceof UnauthorizedError
+      ) {
+        throw error;
+      }
 
-      // Get more detailed error information
-      const errorDetails = {
-        readyState: this.eventSource?.readyState,
-        url: this.url.toString(),
-        headers: this.headers,
-        error: error,
-      };
-      console.error(
-        `AuthenticatedSSETransport: Full error details:`,
-        errorDetails
+      this.loggingService.addLog(
+        "info",
+        "MCPManager",
+        `Server "${config.name}" did not accept streamable HTTP, falling back to SSE`,
+        { url: config.url, error: String(error) },
+        logOptions
       );
 
-      this.errorHandlers.forEach((handler) =>
-        handler(
-          new Error(
-            `SSE connection error to ${this.url.toString()}: ${JSON.stringify(
-              errorDetails
-            )}`
-          )
+      connected = (
+        await this.connectAuthorized(
+          id,
+          config,
+          this.createClient(id, config),
+          () =>
+            new SSEClientTransport(url, {
+              requestInit: { headers },
+              authProvider,
+            }),
+          authProvider
         )
+      ).client;
+    }
+
+    if (authProvider) {
+      this.scheduleTokenRefresh(id);
+    }
+    return connected;
+  }
+
+  private async connectStreamableHttp(
+    id: string,
+    config: ServerConfig,
+    client: Client,
+    url: URL,
+    headers: Record<string, string>,
+    authProvider?: ServerOAuthProvider
+  ): Promise<Client> {
+    // Every new Client starts a new session. Handing it a saved session id
+    // would skip initialize, leaving the client without the server's
+    // capabilities and protocol version. A session still saved wasn't ended
+    // cleanly (the app quit or the connection dropped), so end it first.
+    // Interrupted streams are resumed within the session by the transport.
+    if (config.sessionId) {
+      await this.endSession(
+        id,
+        new StreamableHTTPClientTransport(url, {
+          requestInit: { headers },
+          authProvider,
+          sessionId: config.sessionId,
+        })
       );
-    };
+    }
 
-    return new Promise((resolve, reject) => {
-      if (this.eventSource) {
-        const timeout = setTimeout(() => {
-          reject(
-            new Error(
-              `Connection timeout after 10 seconds to ${this.url.toString()}`
-            )
-          );
-        }, 10000);
+    const { client: connected, transport } = await this.connectAuthorized(
+      id,
+      config,
+      client,
+      () =>
+        new StreamableHTTPClientTransport(url, {
+          requestInit: { headers },
+          authProvider,
+        }),
+      authProvider
+    );
 
-        this.eventSource.onopen = () => {
-          clearTimeout(timeout);
-          console.log(
-            `AuthenticatedSSETransport: Successfully connected to ${this.url.toString()}`
-          );
-          resolve();
-        };
+    if (transport.sessionId) {
+      this.patchServerConfig(id, { sessionId: transport.sessionId });
+    }
+    return connected;
+  }
 
-        this.eventSource.onerror = (error) => {
-          clearTimeout(timeout);
-          console.error(`AuthenticatedSSETransport: Connection failed:`, error);
-          reject(
-            new Error(
-              `Failed to connect to SSE endpoint: ${this.url.toString()}`
-            )
-          );
-        };
-      } else {
-        reject(new Error("Failed to create EventSource"));
+  // Tell the server a Streamable HTTP session is over and forget its id.
+  // Servers that don't support ending sessions let them expire.
+  private async endSession(
+    id: string,
+    transport: StreamableHTTPClientTransport
+  ): Promise<void> {
+    try {
+      await transport.terminateSession();
+    } catch (error) {
+      console.log(`MCPManager: Could not end session of ${id}:`, error);
+    }
+    if (this.getServerConfig(id)?.sessionId) {
+      this.patchServerConfig(id, { sessionId: undefined });
+    }
+  }
+
+  /**
+   * Connect over an HTTP transport. When the server answers 401 the SDK
+   * discovers its authorization server and sends the user through the
+   * browser flow; once the code comes back we finish the exchange and
+   * connect again with a fresh client.
+   */
+  private async connectAuthorized<
+    T extends StreamableHTTPClientTransport | SSEClientTransport
+  >(
+    id: string,
+    config: ServerConfig,
+    client: Client,
+    createTransport: () => T,
+    authProvider?: ServerOAuthProvider
+  ): Promise<{ client: Client; transport: T }> {
+    const transport = createTransport();
+    try {
+      await client.connect(transport);
+      return { client, transport };
+    } catch (error) {
+      if (!authProvider?.interactive || !(error instanceof UnauthorizedError)) {
+        throw error;
       }
-    });
+    }
+
+    this.loggingService.addLog(
+      "info",
+      "MCPManager",
+      `Server "${config.name}" requires authorization, waiting for the user to sign in`,
+      { url: config.url },
+      { serverId: id, serverName: config.name, category: "server" }
+    );
+
+    const code = await authProvider.waitForAuthorizationCode();
+    await transport.finishAuth(code);
+
+    this.loggingService.addLog(
+      "success",
+      "MCPManager",
+      `Authorized with server "${config.name}"`,
+      undefined,
+      { serverId: id, serverName: config.name, category: "server" }
+    );
+
+    const retryClient = this.createClient(id, config);
+    const retryTransport = createTransport();
+    await retryClient.connect(retryTransport);
+    return { client: retryClient, transport: retryTransport };
   }
 
-  async send(message: any): Promise<void> {
-    // Send HTTP POST request with authentication headers
-    const response = await fetch(this.url.toString(), {
-      method: "POST",
-      headers: {
-        ...this.headers,
-        "Content-Type": "application/json",
+  private createOAuthProvider(
+    id: string,
+    interactive: boolean
+  ): ServerOAuthProvider {
+    return new ServerOAuthProvider({
+      loadConfig: () => {
+        const config = this.getServerConfig(id);
+        if (!config) {
+          throw new Error(`Server ${id} not found`);
+        }
+        return secretVault.reveal(config, SERVER_SECRET_FIELDS);
       },
-      body: JSON.stringify(message),
+      saveConfig: (patch) => this.patchServerConfig(id, patch),
+      handler: this.authorizationHandler,
+      interactive,
     });
+  }
+
+  /**
+   * Refresh an OAuth server's access token shortly before it expires so
+   * requests never go out with a stale token
+   */
+  private scheduleTokenRefresh(id: string): void {
+    this.clearTokenRefresh(id);
 
-    if (!response.ok) {
-      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    const config = this.getServerConfig(id);
+    if (!config?.tokenExpiry || !config.refreshToken) {
+      return;
     }
-  }
 
-  onMessage(handler: (message: any) => void): void {
-    this.messageHandlers.add(handler);
+    const delay = Math.max(
+      0,
+      new Date(config.tokenExpiry).getTime() -
+        Date.now() -
+        TOKEN_REFRESH_MARGIN_MS
+    );
+    const timer = setTimeout(() => {
+      this.tokenRefreshTimers.delete(id);
+      if (delay > MAX_TIMER_DELAY_MS) {
+        // Long-lived token; wait another round
+        this.scheduleTokenRefresh(id);
+      } else {
+        this.refreshServerToken(id);
+      }
+    }, Math.min(delay, MAX_TIMER_DELAY_MS));
+    this.tokenRefreshTimers.set(id, timer);
   }
 
-  onError(handler: (error: Error) => void): void {
-    this.errorHandlers.add(handler);
+  private clearTokenRefresh(id: string): void {
+    const timer = this.tokenRefreshTimers.get(id);
+    if (timer) {
+      clearTimeout(timer);
+      this.tokenRefreshTimers.delete(id);
+    }
   }
 
-  onClose(handler: () => void): void {
-    this.closeHandlers.add(handler);
+  private async refreshServerToken(id: string): Promise<void> {
+    const config = this.getServerConfig(id);
+    if (!config?.url || !this.clients.has(id)) {
+      return;
+    }
+
+    try {
+      // With a refresh token saved, auth() only runs the refresh grant
+      await auth(this.createOAuthProvider(id, false), {
+        serverUrl: config.url,
+      });
+      this.loggingService.addLog(
+        "info",
+        "MCPManager",
+        `Refreshed access token for server "${config.name}"`,
+        undefined,
+        { serverId: id, serverName: config.name, category: "server" }
+      );
+      this.scheduleTokenRefresh(id);
+    } catch (error) {
+      // The next request gets a 401 and goes through the full flow
+      this.loggingService.addLog(
+        "warning",
+        "MCPManager",
+        `Failed to refresh access token for server "${config.name}"`,
+        { error: String(error) },
+        { serverId: id, serverName: config.name, category: "server" }
+      );
+    }
   }
 
-  async close(): Promise<void> {
-    if (this.eventSource) {
-      this.eventSource.close();
-      this.eventSource = undefined;
+  private patchServerConfig(id: string, patch: Partial<ServerConfig>): void {
+    const servers: ServerConfig[] = this.store.get("servers", []);
+    const serverIndex = servers.findIndex((s: ServerConfig) => s.id === id);
+    if (serverIndex === -1) {
+      return;
     }
-    this.closeHandlers.forEach((handler) => handler());
+
+    servers[serverIndex] = secretVault.seal(
+      { ...servers[serverIndex], ...patch },
+      SERVER_SECRET_FIELDS,
+      servers[serverIndex]
+    );
+    this.store.set("servers", servers);
   }
 }
@@ -0,0 +1,183 @@
+import { v4 as uuidv4 } from "uuid";
+import { UnauthorizedError } from "@modelcontextprotocol/sdk/client/auth.js";
+import type { OAuthClientProvider } from "@modelcontextprotocol/sdk/client/auth.js";
+import type {
+  OAuthClientInformation,
+  OAuthClientInformationFull,
+  OAuthClientMetadata,
+  OAuthTokens,
+} from "@modelcontextprotocol/sdk/shared/auth.js";
+import { ServerConfig } from "../../shared/types";
+
+// Runs the browser part of an authorization code flow: opens the
+// authorization URL and resolves with the code from the redirect
+export interface AuthorizationHandler {
+  getRedirectUrl(): string;
+  authorize(authorizationUrl: URL): Promise<string>;
+}
+
+interface ServerOAuthProviderOptions {
+  loadConfig: () => ServerConfig;
+  saveConfig: (patch: Partial<ServerConfig>) => void;
+  handler: AuthorizationHandler | null;
+  // Background refreshes must never pop up a browser window
+  interactive: boolean;
+}
+
+/**
+ * OAuth client for one remote server, backed by its ServerConfig. The SDK
+ * transports call into this on a 401 to discover the authorization server,
+ * register a client, run PKCE and refresh tokens.
+ */
+export class ServerOAuthProvider implements OAuthClientProvider {
+  private options: ServerOAuthProviderOptions;
+  private pkceVerifier?: string;
+  private pendingCode?: Promise<string>;
+
+  constructor(options: ServerOAuthProviderOptions) {
+    this.options = options;
+  }
+
+  get interactive(): boolean {
+    return this.options.interactive && !!this.options.handler;
+  }
+
+  get redirectUrl(): string {
+    if (!this.options.handler) {
+      throw new Error("OAuth authorization is not available");
+    }
+    return this.options.handler.getRedirectUrl();
+  }
+
+  get clientMetadata(): OAuthClientMetadata {
+    const config = this.options.loadConfig();
+    return {
+      client_name: "MCP Studio",
+      redirect_uris: [this.redirectUrl],
+      grant_types: ["authorization_code", "refresh_token"],
+      response_types: ["code"],
+      token_endpoint_auth_method: config.oauthClientSecret
+        ? "client_secret_post"
+        : "none",
+      ...(config.oauthScopes?.length && {
+        scope: config.oauthScopes.join(" "),
+      }),
+    };
+  }
+
+  state(): string {
+    return uuidv4();
+  }
+
+  clientInformation(): OAuthClientInformation | undefined {
+    const config = this.options.loadConfig();
+    if (!config.oauthClientId) {
+      // Triggers dynamic client registration
+      return undefined;
+    }
+    if (
+      config.oauthRedirectUri &&
+      this.options.handler &&
+      config.oauthRedirectUri !== this.redirectUrl
+    ) {
+      // The callback server moved to another port since this client was
+      // registered, so the server would reject the redirect. Register again.
+      return undefined;
+    }
+    return {
+      client_id: config.oauthClientId,
+      ...(config.oauthClientSecret && {
+        client_secret: config.oauthClientSecret,
+      }),
+    };
+  }
+
+  saveClientInformation(information: OAuthClientInformationFull): void {
+    this.options.saveConfig({
+      oauthClientId: information.client_id,
+      oauthClientSecret: information.client_secret,
+      oauthRedirectUri: this.redirectUrl,
+    });
+  }
+
+  tokens(): OAuthTokens | undefined {
+    const config = this.options.loadConfig();
+    if (!config.accessToken) {
+      return undefined;
+    }
+    return {
+      access_token: config.accessToken,
+      token_type: "Bearer",
+      ...(config.refreshToken && { refresh_token: config.refreshToken }),
+    };
+  }
+
+  saveTokens(tokens: OAuthTokens): void {
+    const config = this.options.loadConfig();
+    this.options.saveConfig({
+      accessToken: tokens.access_token,
+      // Servers may omit the refresh token when it hasn't rotated
+      refreshToken: tokens.refresh_token || config.refreshToken,
+      tokenExpiry: tokens.expires_in
+        ? new Date(Date.now() + tokens.expires_in * 1000)
+        : undefined,
+    });
+  }
+
+  async redirectToAuthorization(authorizationUrl: URL): Promise<void> {
+    if (!this.interactive || !this.options.handler) {
+      // Connects in the background leave signing in to the user
+      throw new UnauthorizedError(
+        "Sign-in required. Connect the server to authorize it again."
+      );
+    }
+    this.pendingCode = this.options.handler.authorize(authorizationUrl);
+    // Surface an early failure (window closed, error in callback) without
+    // leaving an unhandled rejection if nobody waits for the code
+    this.pendingCode.catch(() => undefined);
+  }
+
+  saveCodeVerifier(codeVerifier: string): void {
+    this.pkceVerifier = codeVerifier;
+  }
+
+  codeVerifier(): string {
+    if (!this.pkceVerifier) {
+      throw new Error("No PKCE code verifier saved");
+    }
+    return this.pkceVerifier;
+  }
+
+  invalidateCredentials(scope: "all" | "client" | "tokens" | "verifier"): void {
+    if (scope === "all" || scope === "client") {
+      this.options.saveConfig({
+        oauthClientId: undefined,
+        oauthClientSecret: undefined,
+        oauthRedirectUri: undefined,
+      });
+    }
+    if (scope === "all" || scope === "tokens") {
+      this.options.saveConfig({
+        accessToken: undefined,
+        refreshToken: undefined,
+        tokenExpiry: undefined,
+      });
+    }
+    if (scope === "all" || scope === "verifier") {
+      this.pkceVerifier = undefined;
+    }
+  }
+
+  /**
+   * Authorization code from the browser flow started by the last
+   * redirectToAuthorization call
+   */
+  async waitForAuthorizationCode(): Promise<string> {
+    if (!this.pendingCode) {
+      throw new Error("No authorization in progress");
+    }
+    const code = await this.pendingCode;
+    this.pendingCode = undefined;
+    return code;
+  }
+}
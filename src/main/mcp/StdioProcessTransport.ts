@@ -0,0 +1,114 @@
+import { ChildProcess, spawn } from "child_process";
+import { PassThrough } from "stream";
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import {
+  ReadBuffer,
+  serializeMessage,
+} from "@modelcontextprotocol/sdk/shared/stdio.js";
+import { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js";
+
+interface StdioProcessOptions {
+  command: string;
+  args: string[];
+  env: Record<string, string>; // Added to the app's own environment
+}
+
+/**
+ * Client transport for stdio servers that spawns and owns the server
+ * process, so it can report how the process exited. The SDK's
+ * StdioClientTransport only signals onclose, which drops the exit code and
+ * signal.
+ */
+export class StdioProcessTransport implements Transport {
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: (message: JSONRPCMessage) => void;
+  onExit?: (code: number | null, signal: NodeJS.Signals | null) => void;
+
+  // Created up front so listeners attached before start() see the
+  // process's earliest output
+  readonly stderr = new PassThrough();
+
+  private options: StdioProcessOptions;
+  private process?: ChildProcess;
+  private readBuffer = new ReadBuffer();
+
+  constructor(options: StdioProcessOptions) {
+    this.options = options;
+  }
+
+  get pid(): number | null {
+    return this.process?.pid ?? null;
+  }
+
+  start(): Promise<void> {
+    if (this.process) {
+      throw new Error("StdioProcessTransport already started");
+    }
+
+    return new Promise((resolve, reject) => {
+      const child = spawn(this.options.command, this.options.args, {
+        env: { ...process.env, ...this.options.env },
+        stdio: ["pipe", "pipe", "pipe"],
+        shell: false,
+        windowsHide: true,
+      });
+      this.process = child;
+
+      child.once("spawn", () => resolve());
+      child.on("error", (error) => {
+        reject(error);
+        this.onerror?.(error);
+      });
+      child.once("exit", (code, signal) => this.onExit?.(code, signal));
+      child.once("close", () => {
+        this.process = undefined;
+        this.onclose?.();
+      });
+
+      child.stdin?.on("error", (error) => this.onerror?.(error));
+      child.stdout?.on("data", (chunk: Buffer) => {
+        this.readBuffer.append(chunk);
+        this.processReadBuffer();
+      });
+      child.stdout?.on("error", (error) => this.onerror?.(error));
+      child.stderr?.pipe(this.stderr);
+    });
+  }
+
+  async close(): Promise<void> {
+    const child = this.process;
+    this.process = undefined;
+    this.readBuffer.clear();
+    child?.kill();
+  }
+
+  send(message: JSONRPCMessage): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const stdin = this.process?.stdin;
+      if (!stdin) {
+        reject(new Error("Not connected"));
+        return;
+      }
+      if (stdin.write(serializeMessage(message))) {
+        resolve();
+      } else {
+        stdin.once("drain", resolve);
+      }
+    });
+  }
+
+  private processReadBuffer() {
+    while (true) {
+      try {
+        const message = this.readBuffer.readMessage();
+        if (message === null) {
+          break;
+        }
+        this.onmessage?.(message);
+      } catch (error) {
+        this.onerror?.(error as Error);
+      }
+    }
+  }
+}
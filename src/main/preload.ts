@@ -9,13 +9,22 @@ const IpcChannels = {
   UPDATE_SERVER: "update-server",
   CONNECT_SERVER: "connect-server",
   DISCONNECT_SERVER: "disconnect-server",
+  SET_SERVER_ROOTS: "set-server-roots",
+  SET_SERVER_LOG_LEVEL: "set-server-log-level",
+  GET_SERVER_STDERR: "get-server-stderr",
+  SET_SERVER_HEALTH_CHECK_INTERVAL: "set-server-health-check-interval",
   LIST_TOOLS: "list-tools",
   EXECUTE_TOOL: "execute-tool",
   TOGGLE_TOOL_STATE: "toggle-tool-state",
   GET_TOOL_STATES: "get-tool-states",
   SET_TOOL_ENABLED: "set-tool-enabled",
+  GET_TOOL_POLICIES: "get-tool-policies",
+  SET_TOOL_POLICY: "set-tool-policy",
+  CANCEL_TOOL: "cancel-tool",
   SEND_MESSAGE: "send-message",
   SEND_WORKFLOW_MESSAGE: "send-workflow-message",
+  RESPOND_TOOL_APPROVAL: "respond-tool-approval",
+  STOP_MESSAGE: "stop-message",
   CLEAR_CHAT: "clear-chat",
   GET_MODEL_CONFIGS: "get-model-configs",
   SAVE_MODEL_CONFIG: "save-model-config",
@@ -26,6 +35,11 @@ const IpcChannels = {
   GET_OLLAMA_MODELS: "get-ollama-models",
   LIST_RESOURCES: "list-resources",
   READ_RESOURCE: "read-resource",
+  SUBSCRIBE_RESOURCE: "subscribe-resource",
+  UNSUBSCRIBE_RESOURCE: "unsubscribe-resource",
+  LIST_RESOURCE_TEMPLATES: "list-resource-templates",
+  READ_RESOURCE_TEMPLATE: "read-resource-template",
+  COMPLETE: "complete",
   LIST_PROMPTS: "list-prompts",
   GET_PROMPT: "get-prompt",
   DISCOVER_CONTEXT_PARAMS: "discover-context-params",
@@ -42,6 +56,41 @@ const IpcChannels = {
   GENERATE_MCP_SERVER: "generate-mcp-server",
   FETCH_USER_INFO: "fetch-user-info",
   TEST_REMOTE_SERVER_CONNECTION: "test-remote-server-connection",
+  SAMPLING_REQUEST: "sampling-request",
+  SAMPLING_RESPONSE: "sampling-response",
+  SAMPLING_REQUEST_CANCELLED: "sampling-request-cancelled",
+  ELICITATION_REQUEST: "elicitation-request",
+  ELICITATION_RESPONSE: "elicitation-response",
+  GET_VAULT_STATUS: "get-vault-status",
+  UNLOCK_VAULT: "unlock-vault",
+  STORE_SECRET: "store-secret",
+  REVEAL_SECRET: "reveal-secret",
+  DELETE_SECRET: "delete-secret",
+  DETECT_SERVER_CONFIG_FILES: "detect-server-config-files",
+  OPEN_SERVER_CONFIG_FILE: "open-server-config-file",
+  EXPORT_SERVER_CONFIGS: "export-server-configs",
+  SAVE_SERVER_CONFIG_EXPORT: "save-server-config-export",
+  LIST_PROFILES: "list-profiles",
+  CREATE_PROFILE: "create-profile",
+  SAVE_PROFILE: "save-profile",
+  DELETE_PROFILE: "delete-profile",
+  SWITCH_PROFILE: "switch-profile",
+  EXPORT_PROFILE: "export-profile",
+  IMPORT_PROFILE: "import-profile",
+  LIST_CONVERSATIONS: "list-conversations",
+  OPEN_CONVERSATION: "open-conversation",
+  RENAME_CONVERSATION: "rename-conversation",
+  DELETE_CONVERSATION: "delete-conversation",
+  EXPORT_CONVERSATION: "export-conversation",
+  UPDATE_CONVERSATION_PROMPT: "update-conversation-prompt",
+  LIST_PERSONAS: "list-personas",
+  SAVE_PERSONA: "save-persona",
+  DELETE_PERSONA: "delete-persona",
+  GET_CONTEXT_USAGE: "get-context-usage",
+  GET_USAGE_SUMMARY: "get-usage-summary",
+  EXPORT_USAGE_CSV: "export-usage-csv",
+  GET_MODEL_PRICES: "get-model-prices",
+  SAVE_MODEL_PRICES: "save-model-prices",
 } as const;
 
 const api = {
@@ -59,12 +108,36 @@ const api = {
     ipcRenderer.invoke(IpcChannels.CONNECT_SERVER, id),
   disconnectServer: (id: string) =>
     ipcRenderer.invoke(IpcChannels.DISCONNECT_SERVER, id),
+  setServerRoots: (id: string, roots: string[]) =>
+    ipcRenderer.invoke(IpcChannels.SET_SERVER_ROOTS, id, roots),
+  setServerLogLevel: (id: string, level: string) =>
+    ipcRenderer.invoke(IpcChannels.SET_SERVER_LOG_LEVEL, id, level),
+  getServerStderr: (id: string) =>
+    ipcRenderer.invoke(IpcChannels.GET_SERVER_STDERR, id),
+  setServerHealthCheckInterval: (id: string, seconds: number) =>
+    ipcRenderer.invoke(
+      IpcChannels.SET_SERVER_HEALTH_CHECK_INTERVAL,
+      id,
+      seconds
+    ),
 
   // Tool operations
   listTools: (serverId?: string) =>
     ipcRenderer.invoke(IpcChannels.LIST_TOOLS, serverId),
-  executeTool: (serverId: string, toolName: string, args: any) =>
-    ipcRenderer.invoke(IpcChannels.EXECUTE_TOOL, { serverId, toolName, args }),
+  executeTool: (
+    serverId: string,
+    toolName: string,
+    args: any,
+    callId?: string
+  ) =>
+    ipcRenderer.invoke(IpcChannels.EXECUTE_TOOL, {
+      serverId,
+      toolName,
+      args,
+      callId,
+    }),
+  cancelTool: (callId: string) =>
+    ipcRenderer.invoke(IpcChannels.CANCEL_TOOL, callId),
 
   // Tool state management
   getToolStates: () => ipcRenderer.invoke(IpcChannels.GET_TOOL_STATES),
@@ -76,6 +149,13 @@ const api = {
     }),
   toggleToolState: (toolName: string, serverId: string) =>
     ipcRenderer.invoke(IpcChannels.TOGGLE_TOOL_STATE, { toolName, serverId }),
+  getToolPolicies: () => ipcRenderer.invoke(IpcChannels.GET_TOOL_POLICIES),
+  setToolPolicy: (toolName: string, serverId: string, policy: string) =>
+    ipcRenderer.invoke(IpcChannels.SET_TOOL_POLICY, {
+      toolName,
+      serverId,
+      policy,
+    }),
 
   // Agent operations
   sendMessage: ({ message, model }: { message: string; model?: string }) =>
@@ -97,6 +177,9 @@ const api = {
       node,
       model,
     }),
+  respondToolApproval: (decisions: any[]) =>
+    ipcRenderer.invoke(IpcChannels.RESPOND_TOOL_APPROVAL, decisions),
+  stopMessage: () => ipcRenderer.invoke(IpcChannels.STOP_MESSAGE),
   clearChat: () => ipcRenderer.invoke(IpcChannels.CLEAR_CHAT),
 
   // Model management operations
@@ -119,6 +202,36 @@ const api = {
     ipcRenderer.invoke(IpcChannels.LIST_RESOURCES, serverId),
   readResource: (serverId: string, uri: string) =>
     ipcRenderer.invoke(IpcChannels.READ_RESOURCE, { serverId, uri }),
+  subscribeResource: (serverId: string, uri: string) =>
+    ipcRenderer.invoke(IpcChannels.SUBSCRIBE_RESOURCE, { serverId, uri }),
+  unsubscribeResource: (serverId: string, uri: string) =>
+    ipcRenderer.invoke(IpcChannels.UNSUBSCRIBE_RESOURCE, { serverId, uri }),
+  listResourceTemplates: (serverId: string) =>
+    ipcRenderer.invoke(IpcChannels.LIST_RESOURCE_TEMPLATES, serverId),
+  readResourceTemplate: (
+    serverId: string,
+    uriTemplate: string,
+    variables: Record<string, string>
+  ) =>
+    ipcRenderer.invoke(IpcChannels.READ_RESOURCE_TEMPLATE, {
+      serverId,
+      uriTemplate,
+      variables,
+    }),
+
+  // Argument completion
+  complete: (
+    serverId: string,
+    ref: any,
+    argument: { name: string; value: string },
+    context?: Record<string, string>
+  ) =>
+    ipcRenderer.invoke(IpcChannels.COMPLETE, {
+      serverId,
+      ref,
+      argument,
+      context,
+    }),
 
   // Prompt operations
   listPrompts: (serverId: string) =>
@@ -126,6 +239,123 @@ const api = {
   getPrompt: (serverId: string, name: string, args: any) =>
     ipcRenderer.invoke(IpcChannels.GET_PROMPT, { serverId, name, args }),
 
+  // Sampling approvals
+  onSamplingRequest: (callback: Function) => {
+    const subscription = (_: any, request: any) => callback(request);
+    ipcRenderer.on(IpcChannels.SAMPLING_REQUEST, subscription);
+    return () => {
+      ipcRenderer.removeListener(IpcChannels.SAMPLING_REQUEST, subscription);
+    };
+  },
+  respondToSamplingRequest: (response: {
+    requestId: string;
+    approved: boolean;
+    editedCompletion?: string;
+  }) => ipcRenderer.invoke(IpcChannels.SAMPLING_RESPONSE, response),
+  onSamplingRequestCancelled: (callback: Function) => {
+    const subscription = (_: any, requestId: string) => callback(requestId);
+    ipcRenderer.on(IpcChannels.SAMPLING_REQUEST_CANCELLED, subscription);
+    return () => {
+      ipcRenderer.removeListener(
+        IpcChannels.SAMPLING_REQUEST_CANCELLED,
+        subscription
+      );
+    };
+  },
+
+  // Elicitation requests
+  onElicitationRequest: (callback: Function) => {
+    const subscription = (_: any, request: any) => callback(request);
+    ipcRenderer.on(IpcChannels.ELICITATION_REQUEST, subscription);
+    return () => {
+      ipcRenderer.removeListener(IpcChannels.ELICITATION_REQUEST, subscription);
+    };
+  },
+  respondToElicitationRequest: (response: {
+    requestId: string;
+    action: "accept" | "decline" | "cancel";
+    content?: Record<string, any>;
+  }) => ipcRenderer.invoke(IpcChannels.ELICITATION_RESPONSE, response),
+
+  // Secret vault
+  getVaultStatus: () => ipcRenderer.invoke(IpcChannels.GET_VAULT_STATUS),
+  unlockVault: (passphrase: string) =>
+    ipcRenderer.invoke(IpcChannels.UNLOCK_VAULT, passphrase),
+  storeSecret: (value: string) =>
+    ipcRenderer.invoke(IpcChannels.STORE_SECRET, value),
+  revealSecret: (ref: string) =>
+    ipcRenderer.invoke(IpcChannels.REVEAL_SECRET, ref),
+  deleteSecret: (ref: string) =>
+    ipcRenderer.invoke(IpcChannels.DELETE_SECRET, ref),
+
+  // Server config import/export
+  detectServerConfigFiles: () =>
+    ipcRenderer.invoke(IpcChannels.DETECT_SERVER_CONFIG_FILES),
+  openServerConfigFile: () =>
+    ipcRenderer.invoke(IpcChannels.OPEN_SERVER_CONFIG_FILE),
+  exportServerConfigs: (
+    serverIds: string[],
+    format: string,
+    options: { redactSecrets: boolean }
+  ) =>
+    ipcRenderer.invoke(IpcChannels.EXPORT_SERVER_CONFIGS, {
+      serverIds,
+      format,
+      options,
+    }),
+  saveServerConfigExport: (content: string, format: string) =>
+    ipcRenderer.invoke(IpcChannels.SAVE_SERVER_CONFIG_EXPORT, {
+      content,
+      format,
+    }),
+
+  // Workspace profiles
+  listProfiles: () => ipcRenderer.invoke(IpcChannels.LIST_PROFILES),
+  createProfile: (name: string, description?: string) =>
+    ipcRenderer.invoke(IpcChannels.CREATE_PROFILE, { name, description }),
+  saveProfile: (id: string) => ipcRenderer.invoke(IpcChannels.SAVE_PROFILE, id),
+  deleteProfile: (id: string) =>
+    ipcRenderer.invoke(IpcChannels.DELETE_PROFILE, id),
+  switchProfile: (id: string) =>
+    ipcRenderer.invoke(IpcChannels.SWITCH_PROFILE, id),
+  exportProfile: (id: string) =>
+    ipcRenderer.invoke(IpcChannels.EXPORT_PROFILE, id),
+  importProfile: () => ipcRenderer.invoke(IpcChannels.IMPORT_PROFILE),
+
+  // Chat conversations
+  listConversations: (search?: string) =>
+    ipcRenderer.invoke(IpcChannels.LIST_CONVERSATIONS, search),
+  openConversation: (id: string) =>
+    ipcRenderer.invoke(IpcChannels.OPEN_CONVERSATION, id),
+  renameConversation: (id: string, title: string) =>
+    ipcRenderer.invoke(IpcChannels.RENAME_CONVERSATION, { id, title }),
+  deleteConversation: (id: string) =>
+    ipcRenderer.invoke(IpcChannels.DELETE_CONVERSATION, id),
+  exportConversation: (id: string, format: string) =>
+    ipcRenderer.invoke(IpcChannels.EXPORT_CONVERSATION, { id, format }),
+  updateConversationPrompt: (update: any) =>
+    ipcRenderer.invoke(IpcChannels.UPDATE_CONVERSATION_PROMPT, update),
+
+  // Personas
+  listPersonas: () => ipcRenderer.invoke(IpcChannels.LIST_PERSONAS),
+  savePersona: (persona: any) =>
+    ipcRenderer.invoke(IpcChannels.SAVE_PERSONA, persona),
+  deletePersona: (id: string) =>
+    ipcRenderer.invoke(IpcChannels.DELETE_PERSONA, id),
+
+  // Context window
+  getContextUsage: (modelConfigId?: string) =>
+    ipcRenderer.invoke(IpcChannels.GET_CONTEXT_USAGE, modelConfigId),
+
+  // Token usage and cost
+  getUsageSummary: (query?: any) =>
+    ipcRenderer.invoke(IpcChannels.GET_USAGE_SUMMARY, query),
+  exportUsageCsv: (query?: any) =>
+    ipcRenderer.invoke(IpcChannels.EXPORT_USAGE_CSV, query),
+  getModelPrices: () => ipcRenderer.invoke(IpcChannels.GET_MODEL_PRICES),
+  saveModelPrices: (prices: any[]) =>
+    ipcRenderer.invoke(IpcChannels.SAVE_MODEL_PRICES, prices),
+
   // Context parameter discovery
   discoverContextParams: (serverId: string) =>
     ipcRenderer.invoke(IpcChannels.DISCOVER_CONTEXT_PARAMS, serverId),
@@ -6,6 +6,11 @@ import { APIServerConfig, APIServerStatus } from "../../shared/apiServerTypes";
 import { MCPManager } from "../mcp/MCPManager";
 import { RobustCodeGenerator } from "./RobustCodeGenerator";
 import { ServerStorageService } from "./ServerStorageService";
+import { secretVault } from "./SecretVault";
+
+// OAuth2 settings kept in the secret vault, next to every credential value
+const OAUTH2_SECRET_FIELDS = ["clientSecret", "accessToken", "refreshToken"];
+const PUBLIC_CREDENTIAL_FIELDS = ["username"];
 
 class APIServerService {
   private apiServers: Map<string, APIServerConfig> = new Map();
@@ -17,6 +22,7 @@ class APIServerService {
   private mcpManager: MCPManager | null = null;
   private codeGenerator: RobustCodeGenerator;
   private storageService: ServerStorageService;
+  private loaded: Promise<void>;
 
   constructor(mcpManager?: MCPManager) {
     this.configPath = path.join(process.cwd(), "api-servers.json");
@@ -25,7 +31,7 @@ class APIServerService {
     this.storageService = ServerStorageService.getInstance();
     this.setupIpcHandlers();
     this.setupDocumentationHandler();
-    this.loadSavedServers();
+    this.loaded = this.loadSavedServers();
   }
 
   private setupIpcHandlers() {
@@ -157,6 +163,89 @@ class APIServerService {
     }
   }
 
+  /**
+   * Move plaintext credentials saved by earlier versions into the secret
+   * vault
+   */
+  async migrateSecrets(): Promise<void> {
+    await this.loaded;
+
+    let migrated = 0;
+    for (const [id, server] of this.apiServers) {
+      const sealed = this.sealCredentials(server);
+      if (JSON.stringify(sealed) !== JSON.stringify(server)) {
+        this.apiServers.set(id, sealed);
+        migrated++;
+      }
+    }
+
+    if (migrated > 0) {
+      await this.saveConfig();
+      console.log(
+        `Moved credentials of ${migrated} API server(s) into the vault`
+      );
+    }
+  }
+
+  private sealCredentials(
+    config: APIServerConfig,
+    previous?: APIServerConfig
+  ): APIServerConfig {
+    const auth = config.authentication;
+    if (!auth) {
+      return config;
+    }
+    const previousAuth = previous?.authentication;
+
+    const credentialFields = Array.from(
+      new Set([
+        ...Object.keys(auth.credentials || {}),
+        ...Object.keys(previousAuth?.credentials || {}),
+      ])
+    ).filter((field) => !PUBLIC_CREDENTIAL_FIELDS.includes(field));
+
+    return {
+      ...config,
+      authentication: {
+        ...auth,
+        credentials: secretVault.seal(
+          auth.credentials || {},
+          credentialFields,
+          previousAuth?.credentials
+        ),
+        ...(auth.oauth2 && {
+          oauth2: secretVault.seal(
+            auth.oauth2,
+            OAUTH2_SECRET_FIELDS,
+            previousAuth?.oauth2
+          ),
+        }),
+      },
+    };
+  }
+
+  // Credentials are only decrypted for the generated server and test calls
+  private revealCredentials(config: APIServerConfig): APIServerConfig {
+    const auth = config.authentication;
+    if (!auth) {
+      return config;
+    }
+
+    return {
+      ...config,
+      authentication: {
+        ...auth,
+        credentials: secretVault.reveal(
+          auth.credentials || {},
+          Object.keys(auth.credentials || {})
+        ),
+        ...(auth.oauth2 && {
+          oauth2: secretVault.reveal(auth.oauth2, OAUTH2_SECRET_FIELDS),
+        }),
+      },
+    };
+  }
+
   async saveServer(config: APIServerConfig): Promise<void> {
     try {
       // Set timestamps
@@ -170,11 +259,15 @@ class APIServerService {
         config.id = `api-server-${Date.now()}`;
       }
 
-      // Store in memory
-      this.apiServers.set(config.id, config);
+      // Store in memory, with credentials moved into the vault
+      const sealed = this.sealCredentials(
+        config,
+        this.apiServers.get(config.id)
+      );
+      this.apiServers.set(config.id, sealed);
 
       // Generate MCP server
-      await this.generateMCPServer(config);
+      await this.generateMCPServer(this.revealCredentials(sealed));
 
       // Save to disk
       await this.saveConfig();
@@ -206,7 +299,20 @@ class APIServerService {
       }
 
       // Remove from memory
+      const removed = this.apiServers.get(serverId);
       this.apiServers.delete(serverId);
+      if (removed?.authentication) {
+        secretVault.purge(
+          removed.authentication.credentials || {},
+          Object.keys(removed.authentication.credentials || {})
+        );
+        if (removed.authentication.oauth2) {
+          secretVault.purge(
+            removed.authentication.oauth2,
+            OAUTH2_SECRET_FIELDS
+          );
+        }
+      }
 
       // Remove generated files
       const serverDir = this.storageService.getServerPath(serverId);
@@ -714,9 +820,15 @@ class APIServerService {
     });
 
     try {
+      // The renderer sends saved credentials as vault references
+      const headers: Record<string, string> = {};
+      for (const [name, value] of Object.entries(options.headers || {})) {
+        headers[name] = secretVault.resolveEmbedded(String(value));
+      }
+
       const response = await fetch(url, {
         method: options.method || "GET",
-        headers: options.headers || {},
+        headers,
         body: options.body ? JSON.stringify(options.body) : undefined,
         timeout: options.timeout || 10000,
         // Add HTTPS agent to ignore SSL certificate errors for development
@@ -751,10 +863,11 @@ class APIServerService {
     endpointId: string,
     params?: Record<string, any>
   ): Promise<any> {
-    const server = this.apiServers.get(serverId);
-    if (!server) {
+    const saved = this.apiServers.get(serverId);
+    if (!saved) {
       throw new Error("Server not found");
     }
+    const server = this.revealCredentials(saved);
 
     const endpoint = server.endpoints.find((e) => e.id === endpointId);
     if (!endpoint) {
@@ -919,7 +1032,8 @@ ${
   private async copyOAuth2TokenToFileSystem(serverId: string): Promise<void> {
     try {
       // Get the server config to access OAuth2 token data
-      const config = this.apiServers.get(serverId);
+      const saved = this.apiServers.get(serverId);
+      const config = saved && this.revealCredentials(saved);
       if (
         config?.authentication?.type === "oauth2" &&
         config.authentication.oauth2?.accessToken
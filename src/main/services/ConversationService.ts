@@ -0,0 +1,449 @@
+import { dialog } from "electron";
+import { EventEmitter } from "events";
+import * as fs from "fs/promises";
+import Store from "electron-store";
+import { v4 as uuidv4 } from "uuid";
+import { AIMessage, BaseMessage, ToolMessage } from "@langchain/core/messages";
+import { MCPManager } from "../mcp/MCPManager";
+import { FileCheckpointSaver } from "../agent/FileCheckpointSaver";
+import { LoggingService } from "./LoggingService";
+import { UsageService, combineUsage } from "./UsageService";
+import {
+  ChatMessage,
+  Conversation,
+  ConversationExportFormat,
+  ConversationList,
+  ConversationPromptUpdate,
+  TokenUsage,
+  ToolCall,
+} from "../../shared/types";
+
+const CONVERSATION_FILE_VERSION = 1;
+const DEFAULT_TITLE = "New chat";
+const MAX_TITLE_LENGTH = 60;
+
+/**
+ * Named chat conversations. The messages live in the agent's checkpointer,
+ * one LangGraph thread per conversation; this keeps the list of them, which
+ * one is open, and turns a thread back into chat messages.
+ */
+export class ConversationService extends EventEmitter {
+  private store: any; // Using any to avoid electron-store typing issues
+  private checkpointer: FileCheckpointSaver;
+  private mcpManager: MCPManager;
+  private usageService: UsageService;
+  private loggingService: LoggingService;
+
+  constructor(
+    store: Store,
+    checkpointer: FileCheckpointSaver,
+    mcpManager: MCPManager,
+    usageService: UsageService,
+    loggingService: LoggingService
+  ) {
+    super();
+    this.store = store;
+    this.checkpointer = checkpointer;
+    this.mcpManager = mcpManager;
+    this.usageService = usageService;
+    this.loggingService = loggingService;
+  }
+
+  /**
+   * Conversations whose title or messages contain the search text, or all of
+   * them without one
+   */
+  async listConversations(search?: string): Promise<ConversationList> {
+    let conversations = this.getConversations().sort((a, b) =>
+      b.updatedAt.localeCompare(a.updatedAt)
+    );
+
+    const query = search?.trim().toLowerCase();
+    if (query) {
+      const matches = await Promise.all(
+        conversations.map(async (conversation) => {
+          if (conversation.title.toLowerCase().includes(query)) {
+            return true;
+          }
+          const messages = await this.getMessages(conversation.id);
+          return messages.some((message) =>
+            message.content.toLowerCase().includes(query)
+          );
+        })
+      );
+      conversations = conversations.filter((_, index) => matches[index]);
+    }
+
+    return {
+      conversations,
+      activeConversationId: this.getActiveConversationId(),
+    };
+  }
+
+  /**
+   * Start a conversation and make it the open one. The title defaults to
+   * the start of the first message.
+   */
+  createConversation(firstMessage?: string): Conversation {
+    const now = new Date().toISOString();
+    const conversation: Conversation = {
+      id: uuidv4(),
+      title: firstMessage ? this.titleFrom(firstMessage) : DEFAULT_TITLE,
+      createdAt: now,
+      updatedAt: now,
+      messageCount: 0,
+    };
+
+    this.saveConversations([...this.getConversations(), conversation]);
+    this.setActiveConversation(conversation.id);
+    return conversation;
+  }
+
+  /**
+   * Note that a turn finished in a conversation: bump it to the top and
+   * refresh its message count. A conversation started before its first
+   * message is named after that message.
+   */
+  async recordTurn(id: string, message?: string): Promise<void> {
+    const conversation = this.getConversations().find((c) => c.id === id);
+    if (!conversation) {
+      return;
+    }
+
+    const messages = await this.getMessages(id);
+    this.updateConversation(id, {
+      updatedAt: new Date().toISOString(),
+      messageCount: messages.length,
+      ...(conversation.messageCount === 0 &&
+        conversation.title === DEFAULT_TITLE &&
+        message && { title: this.titleFrom(message) }),
+    });
+  }
+
+  /**
+   * Set the persona and extra instructions of the open conversation,
+   * starting one when there is none yet
+   */
+  updatePrompt(update: ConversationPromptUpdate): Conversation {
+    const id = this.getActiveConversationId() || this.createConversation().id;
+    const conversation = this.requireConversation(id);
+
+    const next: Conversation = { ...conversation };
+    if (update.personaId !== undefined) {
+      if (update.personaId) {
+        next.personaId = update.personaId;
+      } else {
+        delete next.personaId;
+      }
+    }
+    if (update.systemPrompt !== undefined) {
+      if (update.systemPrompt.trim()) {
+        next.systemPrompt = update.systemPrompt.trim();
+      } else {
+        delete next.systemPrompt;
+      }
+    }
+
+    this.saveConversations(
+      this.getConversations().map((c) => (c.id === id ? next : c))
+    );
+    this.emit("conversationsChanged");
+    return next;
+  }
+
+  renameConversation(id: string, title: string): Conversation {
+    const trimmed = title.trim();
+    if (!trimmed) {
+      throw new Error("Conversation title cannot be empty");
+    }
+    this.requireConversation(id);
+    return this.updateConversation(id, { title: trimmed });
+  }
+
+  async deleteConversation(id: string): Promise<void> {
+    const conversation = this.requireConversation(id);
+    this.saveConversations(this.getConversations().filter((c) => c.id !== id));
+    if (this.getActiveConversationId() === id) {
+      this.store.delete("activeConversationId");
+    }
+    await this.checkpointer.deleteThread(id);
+
+    this.log(`Deleted conversation "${conversation.title}"`, {
+      conversationId: id,
+    });
+    this.emit("conversationsChanged");
+  }
+
+  hasConversation(id: string): boolean {
+    return this.getConversations().some((c) => c.id === id);
+  }
+
+  getConversation(id: string): Conversation {
+    return this.requireConversation(id);
+  }
+
+  getActiveConversationId(): string | null {
+    const id = this.store.get("activeConversationId", null);
+    // The thread may have been removed while the app was closed
+    return id && this.getConversations().some((c) => c.id === id) ? id : null;
+  }
+
+  setActiveConversation(id: string | null): void {
+    if (id) {
+      this.store.set("activeConversationId", id);
+    } else {
+      this.store.delete("activeConversationId");
+    }
+    this.emit("conversationsChanged");
+  }
+
+  /**
+   * The conversation as chat messages: user messages, and assistant replies
+   * with the tool calls made for them, their results and token usage
+   */
+  async getMessages(id: string): Promise<ChatMessage[]> {
+    const tuple = await this.checkpointer.getTuple({
+      configurable: { thread_id: id },
+    });
+    if (!tuple) {
+      return [];
+    }
+
+    const timestamp = new Date(tuple.checkpoint.ts);
+    const threadMessages: BaseMessage[] =
+      (tuple.checkpoint.channel_values as any)?.messages || [];
+    const messages: ChatMessage[] = [];
+    // Tool calls and the usage of the model calls that made them wait
+    // here until the reply they led to
+    let toolCalls: ToolCall[] = [];
+    let usages: TokenUsage[] = [];
+    const toolCallsById = new Map<string, ToolCall>();
+    const usageByMessage = this.usageService.getMessageUsage(id);
+
+    for (const message of threadMessages) {
+      const type = message.getType();
+
+      if (type === "human") {
+        messages.push({
+          id: message.id || uuidv4(),
+          role: "user",
+          content: messageText(message),
+          timestamp,
+        });
+        toolCalls = [];
+        usages = [];
+      } else if (type === "ai") {
+        if (message.id && usageByMessage[message.id]) {
+          usages.push(usageByMessage[message.id]);
+        }
+        for (const toolCall of (message as AIMessage).tool_calls || []) {
+          const route = await this.mcpManager.resolveToolName(toolCall.name);
+          const call: ToolCall = {
+            id: toolCall.id || uuidv4(),
+            name: route?.name || toolCall.name,
+            args: toolCall.args,
+            serverId: route?.serverId || "mcp",
+          };
+          toolCalls.push(call);
+          toolCallsById.set(call.id, call);
+        }
+
+        const content = messageText(message);
+        if (content) {
+          messages.push({
+            id: message.id || uuidv4(),
+            role: "assistant",
+            content,
+            timestamp,
+            ...(toolCalls.length > 0 && { toolCalls }),
+            ...withUsage(usages),
+          });
+          toolCalls = [];
+          usages = [];
+        }
+      } else if (type === "tool") {
+        const toolMessage = message as ToolMessage;
+        const toolCall = toolCallsById.get(toolMessage.tool_call_id);
+        if (toolCall) {
+          // The agent tags tool results with the model that ran them
+          const [result, modelPart] =
+            messageText(toolMessage).split("|||MODEL_USED:");
+          toolCall.result = result;
+          const modelId = modelPart?.split("|||")[0];
+          if (modelId && modelId !== "unknown") {
+            toolCall.modelId = modelId;
+          }
+        }
+      }
+    }
+
+    // Tool calls of a turn that stopped or paused before the model replied
+    const answered = toolCalls.filter((call) => call.result !== undefined);
+    if (answered.length > 0) {
+      messages.push({
+        id: uuidv4(),
+        role: "assistant",
+        content: "",
+        timestamp,
+        toolCalls: answered,
+        ...withUsage(usages),
+      });
+    }
+
+    return messages;
+  }
+
+  /**
+   * Save a conversation as Markdown or JSON where the user picks
+   */
+  async exportConversation(
+    id: string,
+    format: ConversationExportFormat
+  ): Promise<string | null> {
+    const conversation = this.requireConversation(id);
+    const extension = format === "markdown" ? "md" : "json";
+
+    const result = await dialog.showSaveDialog({
+      title: `Export Conversation "${conversation.title}"`,
+      defaultPath: `${conversation.title.replace(
+        /[^\w.-]+/g,
+        "-"
+      )}.${extension}`,
+      filters:
+        format === "markdown"
+          ? [{ name: "Markdown", extensions: ["md"] }]
+          : [{ name: "JSON", extensions: ["json"] }],
+    });
+    if (result.canceled || !result.filePath) {
+      return null;
+    }
+
+    const messages = await this.getMessages(id);
+    const content =
+      format === "markdown"
+        ? this.toMarkdown(conversation, messages)
+        : JSON.stringify(
+            { version: CONVERSATION_FILE_VERSION, conversation, messages },
+            null,
+            2
+          );
+    await fs.writeFile(result.filePath, content);
+
+    this.log(`Exported conversation "${conversation.title}"`, {
+      conversationId: id,
+      format,
+    });
+    return result.filePath;
+  }
+
+  private toMarkdown(
+    conversation: Conversation,
+    messages: ChatMessage[]
+  ): string {
+    const lines = [
+      `# ${conversation.title}`,
+      "",
+      `_Exported from MCP Studio on ${new Date().toLocaleString()}_`,
+    ];
+
+    for (const message of messages) {
+      lines.push("", message.role === "user" ? "## You" : "## Assistant", "");
+
+      for (const toolCall of message.toolCalls || []) {
+        lines.push(
+          `**Tool call:** \`${toolCall.name}\``,
+          "",
+          "```json",
+          JSON.stringify(toolCall.args ?? {}, null, 2),
+          "```",
+          ""
+        );
+        if (toolCall.result !== undefined) {
+          lines.push(
+            "**Result:**",
+            "",
+            "```",
+            typeof toolCall.result === "string"
+              ? toolCall.result
+              : JSON.stringify(toolCall.result, null, 2),
+            "```",
+            ""
+          );
+        }
+      }
+
+      if (message.content) {
+        lines.push(message.content);
+      }
+    }
+
+    return lines.join("\n") + "\n";
+  }
+
+  private titleFrom(message: string): string {
+    const text = message.replace(/\s+/g, " ").trim();
+    if (!text) {
+      return DEFAULT_TITLE;
+    }
+    return text.length > MAX_TITLE_LENGTH
+      ? `${text.slice(0, MAX_TITLE_LENGTH - 1).trimEnd()}…`
+      : text;
+  }
+
+  private updateConversation(
+    id: string,
+    patch: Partial<Conversation>
+  ): Conversation {
+    let updated = this.requireConversation(id);
+    this.saveConversations(
+      this.getConversations().map((conversation) => {
+        if (conversation.id !== id) return conversation;
+        updated = { ...conversation, ...patch };
+        return updated;
+      })
+    );
+    this.emit("conversationsChanged");
+    return updated;
+  }
+
+  private getConversations(): Conversation[] {
+    return this.store.get("conversations", []);
+  }
+
+  private saveConversations(conversations: Conversation[]): void {
+    this.store.set("conversations", conversations);
+  }
+
+  private requireConversation(id: string): Conversation {
+    const conversation = this.getConversations().find((c) => c.id === id);
+    if (!conversation) {
+      throw new Error(`Conversation ${id} not found`);
+    }
+    return conversation;
+  }
+
+  private log(message: string, details: any): void {
+    this.loggingService.addLog(
+      "info",
+      "ConversationService",
+      message,
+      details,
+      { category: "system" }
+    );
+  }
+}
+
+function withUsage(usages: TokenUsage[]): { usage?: TokenUsage } {
+  const usage = combineUsage(usages);
+  return usage ? { usage } : {};
+}
+
+// Text of a message; some providers return content blocks
+function messageText(message: BaseMessage): string {
+  if (typeof message.content === "string") {
+    return message.content;
+  }
+  return message.content
+    .map((block: any) => (block?.type === "text" ? block.text : ""))
+    .join("");
+}
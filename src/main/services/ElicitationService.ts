@@ -0,0 +1,120 @@
+import { BrowserWindow } from "electron";
+import { v4 as uuidv4 } from "uuid";
+import type { ElicitResult } from "@modelcontextprotocol/sdk/types.js";
+import {
+  IpcChannels,
+  ServerConfig,
+  ElicitationRequest,
+  ElicitationResponse,
+} from "../../shared/types";
+import { LoggingService } from "./LoggingService";
+
+// Shape of the elicitation/create params we rely on
+export interface ElicitationRequestParams {
+  message: string;
+  requestedSchema: ElicitationRequest["requestedSchema"];
+}
+
+export class ElicitationService {
+  private loggingService: LoggingService;
+  private mainWindow: BrowserWindow | null = null;
+  private pendingRequests: Map<
+    string,
+    (response: ElicitationResponse) => void
+  > = new Map();
+
+  constructor(loggingService: LoggingService) {
+    this.loggingService = loggingService;
+  }
+
+  setMainWindow(mainWindow: BrowserWindow) {
+    this.mainWindow = mainWindow;
+  }
+
+  /**
+   * Handle an elicitation/create request from a connected server by showing
+   * the requested form to the user and returning their answer
+   */
+  async elicit(
+    serverConfig: ServerConfig,
+    params: ElicitationRequestParams
+  ): Promise<ElicitResult> {
+    const requestId = uuidv4();
+    const logOptions = {
+      serverId: serverConfig.id,
+      serverName: serverConfig.name,
+      category: "server" as const,
+    };
+
+    this.loggingService.addLog(
+      "info",
+      "Elicitation",
+      `Server "${serverConfig.name}" requested input: ${params.message}`,
+      {
+        requestId,
+        fields: Object.keys(params.requestedSchema?.properties || {}),
+      },
+      logOptions
+    );
+
+    const response = await this.requestInput({
+      requestId,
+      serverId: serverConfig.id,
+      serverName: serverConfig.name,
+      message: params.message,
+      requestedSchema: params.requestedSchema,
+    });
+
+    const content =
+      response.action === "accept" ? response.content || {} : undefined;
+
+    this.loggingService.addLog(
+      response.action === "accept" ? "success" : "warning",
+      "Elicitation",
+      `User ${
+        response.action === "accept"
+          ? "provided"
+          : response.action === "decline"
+          ? "declined"
+          : "cancelled"
+      } input for "${serverConfig.name}"`,
+      { requestId, action: response.action, content },
+      logOptions
+    );
+
+    return { action: response.action, ...(content && { content }) };
+  }
+
+  /**
+   * Resolve a pending request with the user's answer from the renderer
+   */
+  resolveRequest(response: ElicitationResponse): boolean {
+    const resolve = this.pendingRequests.get(response.requestId);
+    if (!resolve) {
+      return false;
+    }
+    this.pendingRequests.delete(response.requestId);
+    resolve(response);
+    return true;
+  }
+
+  private requestInput(
+    request: ElicitationRequest
+  ): Promise<ElicitationResponse> {
+    if (!this.mainWindow || this.mainWindow.isDestroyed()) {
+      // Nobody can answer without a window
+      return Promise.resolve({
+        requestId: request.requestId,
+        action: "cancel",
+      });
+    }
+
+    return new Promise((resolve) => {
+      this.pendingRequests.set(request.requestId, resolve);
+      this.mainWindow!.webContents.send(
+        IpcChannels.ELICITATION_REQUEST,
+        request
+      );
+    });
+  }
+}
@@ -21,6 +21,14 @@ import { ChatGroq } from "@langchain/groq";
 import { BaseChatModel } from "@langchain/core/language_models/chat_models";
 import Store from "electron-store";
 import { LoggingService } from "./LoggingService";
+import { secretVault } from "./SecretVault";
+
+// Provider config fields kept in the secret vault
+const MODEL_SECRET_FIELDS = ["apiKey"];
+
+// Limits assumed for models missing from the model list
+const DEFAULT_CONTEXT_WINDOW = 8192;
+const DEFAULT_MAX_OUTPUT_TOKENS = 4096;
 
 export class ModelService {
   private store: Store;
@@ -42,6 +50,15 @@ export class ModelService {
     const configs = this.getModelConfigs();
     const existingIndex = configs.findIndex((c) => c.id === config.id);
 
+    config = {
+      ...config,
+      config: secretVault.seal(
+        config.config,
+        MODEL_SECRET_FIELDS,
+        existingIndex >= 0 ? configs[existingIndex].config : undefined
+      ),
+    };
+
     if (existingIndex >= 0) {
       configs[existingIndex] = config;
     } else {
@@ -74,6 +91,11 @@ export class ModelService {
     const filteredConfigs = configs.filter((c) => c.id !== configId);
     (this.store as any).set("modelConfigs", filteredConfigs);
 
+    const deleted = configs.find((c) => c.id === configId);
+    if (deleted) {
+      secretVault.purge(deleted.config, MODEL_SECRET_FIELDS);
+    }
+
     // Clear cached instance
     this.modelInstances.delete(configId);
 
@@ -90,6 +112,32 @@ export class ModelService {
     this.loggingService.log("Default model set", { configId });
   }
 
+  // Move plaintext API keys saved by earlier versions into the vault
+  migrateSecrets(): void {
+    const configs = this.getModelConfigs();
+    let migrated = 0;
+
+    const sealed = configs.map((config) => {
+      const sealedConfig = secretVault.seal(config.config, MODEL_SECRET_FIELDS);
+      if (
+        MODEL_SECRET_FIELDS.some(
+          (field) =>
+            (sealedConfig as any)[field] !== (config.config as any)[field]
+        )
+      ) {
+        migrated++;
+      }
+      return { ...config, config: sealedConfig };
+    });
+
+    if (migrated > 0) {
+      (this.store as any).set("modelConfigs", sealed);
+      this.loggingService.log("Moved model API keys into the secret vault", {
+        count: migrated,
+      });
+    }
+  }
+
   // Get default model configuration
   getDefaultModel(): ModelConfig | null {
     const configs = this.getModelConfigs();
@@ -126,13 +174,27 @@ export class ModelService {
   }
 
   // Create model instance
-  createModelInstance(config: ModelConfig): BaseChatModel {
+  /**
+   * Model instance for a config. Parameters passed here override the
+   * configured ones for a single use, so that instance isn't cached.
+   */
+  createModelInstance(
+    config: ModelConfig,
+    parameters?: ModelConfig["parameters"]
+  ): BaseChatModel {
     // Check cache first
-    const cached = this.modelInstances.get(config.id);
+    const cached = !parameters && this.modelInstances.get(config.id);
     if (cached) {
       return cached;
     }
 
+    // API keys are stored as vault references
+    config = {
+      ...config,
+      config: secretVault.reveal(config.config, MODEL_SECRET_FIELDS),
+      parameters: { ...config.parameters, ...parameters },
+    };
+
     let model: BaseChatModel;
 
     switch (config.provider) {
@@ -162,7 +224,9 @@ export class ModelService {
     }
 
     // Cache the instance
-    this.modelInstances.set(config.id, model);
+    if (!parameters) {
+      this.modelInstances.set(config.id, model);
+    }
     return model;
   }
 
@@ -181,7 +245,7 @@ export class ModelService {
       maxTokens: params.maxTokens || 8000,
       temperature: params.temperature || 0.1,
       topP: params.topP || 0.9,
-      streaming: params.streaming || false,
+      streaming: params.streaming ?? true,
     });
   }
 
@@ -203,7 +267,7 @@ export class ModelService {
       maxTokens: params.maxTokens,
       temperature: params.temperature || 0.7,
       topP: params.topP,
-      streaming: params.streaming || false,
+      streaming: params.streaming ?? true,
     });
   }
 
@@ -222,7 +286,7 @@ export class ModelService {
       maxTokens: params.maxTokens || 4000,
       temperature: params.temperature || 0.7,
       topP: params.topP,
-      streaming: params.streaming || false,
+      streaming: params.streaming ?? true,
     });
   }
 
@@ -254,7 +318,7 @@ export class ModelService {
       maxTokens: params.maxTokens,
       temperature: params.temperature || 0.7,
       topP: params.topP,
-      streaming: params.streaming || false,
+      streaming: params.streaming ?? true,
     });
   }
 
@@ -279,7 +343,7 @@ export class ModelService {
       maxTokens: params.maxTokens,
       temperature: params.temperature || 0.7,
       topP: params.topP,
-      streaming: params.streaming || false,
+      streaming: params.streaming ?? true,
     });
   }
 
@@ -465,6 +529,36 @@ export class ModelService {
     }));
   }
 
+  // Context window of a configured model and the room to keep for its
+  // reply. A window set on the config wins over the model list, where the
+  // longest model id the config's model id starts with is used.
+  getContextLimits(config: ModelConfig): {
+    contextWindow: number;
+    maxOutputTokens: number;
+  } {
+    const listed = this.getAvailableModels()
+      .filter(
+        (model) =>
+          model.provider === config.provider &&
+          config.modelId.startsWith(model.id)
+      )
+      .sort((a, b) => b.id.length - a.id.length)[0];
+
+    const contextWindow =
+      config.parameters?.contextWindow ||
+      listed?.capabilities.contextWindow ||
+      DEFAULT_CONTEXT_WINDOW;
+    const maxOutputTokens =
+      config.parameters?.maxTokens ||
+      listed?.capabilities.maxOutputTokens ||
+      DEFAULT_MAX_OUTPUT_TOKENS;
+    // A reply can't take more than half the window
+    return {
+      contextWindow,
+      maxOutputTokens: Math.min(maxOutputTokens, Math.floor(contextWindow / 2)),
+    };
+  }
+
   // Get Ollama models
   async getOllamaModels(
     baseURL: string = "http://localhost:11434"
@@ -0,0 +1,91 @@
+import Store from "electron-store";
+import { v4 as uuidv4 } from "uuid";
+import { LoggingService } from "./LoggingService";
+import { Persona } from "../../shared/types";
+
+type PersonaInput = Omit<Persona, "id" | "createdAt" | "updatedAt"> & {
+  id?: string;
+};
+
+/**
+ * The persona library: named system prompts with the model they start with
+ * and the servers and tools they may use. Conversations pick one by id.
+ */
+export class PersonaService {
+  private store: any; // Using any to avoid electron-store typing issues
+  private loggingService: LoggingService;
+
+  constructor(store: Store, loggingService: LoggingService) {
+    this.store = store;
+    this.loggingService = loggingService;
+  }
+
+  listPersonas(): Persona[] {
+    return this.getPersonas();
+  }
+
+  getPersona(id: string): Persona | undefined {
+    return this.getPersonas().find((p) => p.id === id);
+  }
+
+  /**
+   * Create a persona, or update the one with the given id
+   */
+  savePersona(input: PersonaInput): Persona {
+    const name = input.name?.trim();
+    if (!name) {
+      throw new Error("Persona name cannot be empty");
+    }
+
+    const now = new Date().toISOString();
+    const existing = input.id ? this.getPersona(input.id) : undefined;
+    const persona: Persona = {
+      id: existing?.id || uuidv4(),
+      name,
+      ...(input.description?.trim() && {
+        description: input.description.trim(),
+      }),
+      systemPrompt: input.systemPrompt || "",
+      ...(input.defaultModelId && { defaultModelId: input.defaultModelId }),
+      ...(input.allowedServerIds && {
+        allowedServerIds: input.allowedServerIds,
+      }),
+      ...(input.allowedTools && { allowedTools: input.allowedTools }),
+      createdAt: existing?.createdAt || now,
+      updatedAt: now,
+    };
+
+    this.savePersonas(
+      existing
+        ? this.getPersonas().map((p) => (p.id === persona.id ? persona : p))
+        : [...this.getPersonas(), persona]
+    );
+    this.log(`${existing ? "Updated" : "Created"} persona "${name}"`, {
+      personaId: persona.id,
+    });
+    return persona;
+  }
+
+  deletePersona(id: string): void {
+    const persona = this.getPersona(id);
+    if (!persona) {
+      throw new Error(`Persona ${id} not found`);
+    }
+    this.savePersonas(this.getPersonas().filter((p) => p.id !== id));
+    this.log(`Deleted persona "${persona.name}"`, { personaId: id });
+  }
+
+  private getPersonas(): Persona[] {
+    return this.store.get("personas", []);
+  }
+
+  private savePersonas(personas: Persona[]): void {
+    this.store.set("personas", personas);
+  }
+
+  private log(message: string, details: any): void {
+    this.loggingService.addLog("info", "PersonaService", message, details, {
+      category: "system",
+    });
+  }
+}
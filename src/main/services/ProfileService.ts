@@ -0,0 +1,346 @@
+import { dialog } from "electron";
+import { EventEmitter } from "events";
+import * as fs from "fs/promises";
+import Store from "electron-store";
+import { v4 as uuidv4 } from "uuid";
+import { MCPManager, SERVER_SECRET_FIELDS } from "../mcp/MCPManager";
+import { ModelService } from "./ModelService";
+import { LoggingService } from "./LoggingService";
+import {
+  ProfileSwitchResult,
+  ServerConfig,
+  WorkspaceProfile,
+  WorkspaceProfileList,
+} from "../../shared/types";
+
+const PROFILE_FILE_VERSION = 1;
+
+// A profile exported to disk. It carries the servers it refers to, minus
+// their credentials, so it can be imported on another machine.
+interface WorkspaceProfileFile {
+  version: number;
+  profile: WorkspaceProfile;
+  servers: ServerConfig[];
+}
+
+/**
+ * Named workspace profiles. A profile snapshots which servers are enabled and
+ * connected, their context params, tool enable states and the default model,
+ * and switching to it connects and disconnects servers to match.
+ */
+export class ProfileService extends EventEmitter {
+  private store: any; // Using any to avoid electron-store typing issues
+  private mcpManager: MCPManager;
+  private modelService: ModelService;
+  private loggingService: LoggingService;
+
+  constructor(
+    store: Store,
+    mcpManager: MCPManager,
+    modelService: ModelService,
+    loggingService: LoggingService
+  ) {
+    super();
+    this.store = store;
+    this.mcpManager = mcpManager;
+    this.modelService = modelService;
+    this.loggingService = loggingService;
+  }
+
+  listProfiles(): WorkspaceProfileList {
+    return {
+      profiles: this.getProfiles(),
+      activeProfileId: this.store.get("activeProfileId", null),
+    };
+  }
+
+  /**
+   * Create a profile from the current setup and make it the active one
+   */
+  createProfile(name: string, description?: string): WorkspaceProfile {
+    const now = new Date().toISOString();
+    const profile: WorkspaceProfile = {
+      ...this.captureCurrentState(),
+      id: uuidv4(),
+      name,
+      ...(description && { description }),
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this.saveProfiles([...this.getProfiles(), profile]);
+    this.store.set("activeProfileId", profile.id);
+    this.log(`Created profile "${name}"`, { profileId: profile.id });
+    return profile;
+  }
+
+  /**
+   * Overwrite a profile with the current setup
+   */
+  saveProfile(id: string): WorkspaceProfile {
+    const existing = this.requireProfile(id);
+    const profile: WorkspaceProfile = {
+      ...existing,
+      ...this.captureCurrentState(),
+      updatedAt: new Date().toISOString(),
+    };
+
+    this.saveProfiles(
+      this.getProfiles().map((p) => (p.id === id ? profile : p))
+    );
+    this.log(`Saved profile "${profile.name}"`, { profileId: id });
+    return profile;
+  }
+
+  deleteProfile(id: string): void {
+    const profile = this.requireProfile(id);
+    this.saveProfiles(this.getProfiles().filter((p) => p.id !== id));
+    if (this.store.get("activeProfileId") === id) {
+      this.store.delete("activeProfileId");
+    }
+    this.log(`Deleted profile "${profile.name}"`, { profileId: id });
+  }
+
+  /**
+   * Make a profile active: apply its server settings, tool states and
+   * default model, then connect and disconnect only the servers whose
+   * connection state differs from the profile
+   */
+  async switchProfile(id: string): Promise<ProfileSwitchResult> {
+    const profile = this.requireProfile(id);
+    const configs = this.mcpManager.listServerConfigs();
+
+    for (const config of configs) {
+      const state = profile.servers[config.id];
+      if (state) {
+        this.mcpManager.applyServerSettings(config.id, {
+          enabled: state.enabled,
+          contextParams: state.contextParams,
+        });
+      }
+    }
+
+    this.mcpManager.replaceToolStates(profile.toolStates);
+
+    if (
+      profile.defaultModelId &&
+      this.modelService
+        .getModelConfigs()
+        .some((model) => model.id === profile.defaultModelId)
+    ) {
+      this.modelService.setDefaultModel(profile.defaultModelId);
+    }
+
+    this.store.set("activeProfileId", id);
+    const result = await this.syncConnections(profile);
+
+    this.log(`Switched to profile "${profile.name}"`, {
+      profileId: id,
+      connected: result.connected.length,
+      disconnected: result.disconnected.length,
+      failed: result.failed.length,
+    });
+    this.emit("profileSwitched", result);
+    return result;
+  }
+
+  /**
+   * Connect the active profile's servers on startup
+   */
+  async restoreActiveProfile(): Promise<void> {
+    const activeId = this.store.get("activeProfileId");
+    const profile = this.getProfiles().find((p) => p.id === activeId);
+    if (profile) {
+      // Servers that need the user to sign in again wait for them
+      await this.syncConnections(profile, false);
+    }
+  }
+
+  async exportProfile(id: string): Promise<string | null> {
+    const profile = this.requireProfile(id);
+
+    const result = await dialog.showSaveDialog({
+      title: `Export Profile "${profile.name}"`,
+      defaultPath: `${profile.name.replace(/[^\w.-]+/g, "-")}.mcp-profile.json`,
+      filters: [{ name: "MCP Studio Profile", extensions: ["json"] }],
+    });
+    if (result.canceled || !result.filePath) {
+      return null;
+    }
+
+    // Vault references mean nothing on another machine
+    const servers = this.mcpManager
+      .listServerConfigs()
+      .filter((config) => profile.servers[config.id])
+      .map((config) => {
+        const exported: Record<string, any> = { ...config };
+        SERVER_SECRET_FIELDS.forEach((field) => delete exported[field]);
+        return exported as ServerConfig;
+      });
+
+    const file: WorkspaceProfileFile = {
+      version: PROFILE_FILE_VERSION,
+      profile,
+      servers,
+    };
+    await fs.writeFile(result.filePath, JSON.stringify(file, null, 2));
+    return result.filePath;
+  }
+
+  /**
+   * Import a profile file. Servers it refers to are matched by id, then by
+   * name, and added when missing; the profile is remapped to the local ids.
+   */
+  async importProfile(): Promise<WorkspaceProfile | null> {
+    const result = await dialog.showOpenDialog({
+      title: "Import Profile",
+      properties: ["openFile"],
+      filters: [{ name: "MCP Studio Profile", extensions: ["json"] }],
+    });
+    if (result.canceled || result.filePaths.length === 0) {
+      return null;
+    }
+
+    const file: WorkspaceProfileFile = JSON.parse(
+      await fs.readFile(result.filePaths[0], "utf-8")
+    );
+    if (!file.profile || typeof file.profile.servers !== "object") {
+      throw new Error("Not an MCP Studio profile file");
+    }
+
+    const localConfigs = this.mcpManager.listServerConfigs();
+    const idMap = new Map<string, string>();
+    for (const server of file.servers || []) {
+      const local =
+        localConfigs.find((config) => config.id === server.id) ||
+        localConfigs.find((config) => config.name === server.name);
+      if (local) {
+        idMap.set(server.id, local.id);
+      } else {
+        const added = await this.mcpManager.addServer({
+          ...server,
+          id: uuidv4(),
+        });
+        idMap.set(server.id, added.id);
+      }
+    }
+
+    const remap = (serverId: string) => idMap.get(serverId) ?? serverId;
+    const toolStates: Record<string, boolean> = {};
+    for (const [toolId, enabled] of Object.entries(file.profile.toolStates)) {
+      const separator = toolId.indexOf(":");
+      toolStates[
+        `${remap(toolId.slice(0, separator))}${toolId.slice(separator)}`
+      ] = enabled;
+    }
+
+    const now = new Date().toISOString();
+    const profile: WorkspaceProfile = {
+      ...file.profile,
+      id: uuidv4(),
+      servers: Object.fromEntries(
+        Object.entries(file.profile.servers).map(([serverId, state]) => [
+          remap(serverId),
+          state,
+        ])
+      ),
+      toolStates,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this.saveProfiles([...this.getProfiles(), profile]);
+    this.log(`Imported profile "${profile.name}"`, {
+      profileId: profile.id,
+      path: result.filePaths[0],
+    });
+    return profile;
+  }
+
+  private captureCurrentState(): Pick<
+    WorkspaceProfile,
+    "servers" | "toolStates" | "defaultModelId"
+  > {
+    const connected = new Set(
+      this.mcpManager
+        .listServers()
+        .filter((status) => status.connected)
+        .map((status) => status.id)
+    );
+
+    const servers: WorkspaceProfile["servers"] = {};
+    for (const config of this.mcpManager.listServerConfigs()) {
+      servers[config.id] = {
+        enabled: config.enabled !== false,
+        autoConnect: connected.has(config.id),
+        ...(config.contextParams && { contextParams: config.contextParams }),
+      };
+    }
+
+    return {
+      servers,
+      toolStates: this.mcpManager.getToolStates(),
+      defaultModelId: this.modelService.getDefaultModel()?.id,
+    };
+  }
+
+  private async syncConnections(
+    profile: WorkspaceProfile,
+    interactive = true
+  ): Promise<ProfileSwitchResult> {
+    const result: ProfileSwitchResult = {
+      profile,
+      connected: [],
+      disconnected: [],
+      failed: [],
+    };
+
+    // Servers the profile doesn't know about are left as they are
+    for (const status of this.mcpManager.listServers()) {
+      const state = profile.servers[status.id];
+      if (!state) continue;
+
+      const wanted = state.enabled && state.autoConnect;
+      if (wanted === status.connected) continue;
+
+      try {
+        if (wanted) {
+          await this.mcpManager.connectServer(status.id, interactive);
+          result.connected.push(status.id);
+        } else {
+          await this.mcpManager.disconnectServer(status.id);
+          result.disconnected.push(status.id);
+        }
+      } catch (error) {
+        result.failed.push({
+          serverId: status.id,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    return result;
+  }
+
+  private getProfiles(): WorkspaceProfile[] {
+    return this.store.get("profiles", []);
+  }
+
+  private saveProfiles(profiles: WorkspaceProfile[]): void {
+    this.store.set("profiles", profiles);
+  }
+
+  private requireProfile(id: string): WorkspaceProfile {
+    const profile = this.getProfiles().find((p) => p.id === id);
+    if (!profile) {
+      throw new Error(`Profile ${id} not found`);
+    }
+    return profile;
+  }
+
+  private log(message: string, details: any): void {
+    this.loggingService.addLog("info", "ProfileService", message, details, {
+      category: "system",
+    });
+  }
+}
@@ -0,0 +1,409 @@
+import { BrowserWindow } from "electron";
+import { v4 as uuidv4 } from "uuid";
+import {
+  HumanMessage,
+  AIMessage,
+  SystemMessage,
+  BaseMessage,
+} from "@langchain/core/messages";
+import type {
+  CreateMessageResult,
+  SamplingMessage,
+} from "@modelcontextprotocol/sdk/types.js";
+import {
+  IpcChannels,
+  ModelConfig,
+  ServerConfig,
+  SamplingApprovalRequest,
+  SamplingApprovalResponse,
+} from "../../shared/types";
+import { ModelService } from "./ModelService";
+import { LoggingService } from "./LoggingService";
+import { UsageService } from "./UsageService";
+
+// Shape of the sampling/createMessage params we rely on. Only text reaches
+// the model; images and audio are shown to it as placeholders.
+export interface SamplingRequestParams {
+  messages: SamplingMessage[];
+  systemPrompt?: string;
+  maxTokens?: number;
+  temperature?: number;
+  stopSequences?: string[];
+  modelPreferences?: {
+    hints?: Array<{ name?: string }>;
+    costPriority?: number;
+    speedPriority?: number;
+    intelligencePriority?: number;
+  };
+}
+
+export type SamplingResult = CreateMessageResult;
+
+// How long a request may wait for the user before it is given up
+const APPROVAL_TIMEOUT_MS = 10 * 60 * 1000;
+
+interface PendingApproval {
+  resolve: (response: SamplingApprovalResponse) => void;
+  cancel: (reason: string) => void;
+}
+
+export class SamplingService {
+  private modelService: ModelService;
+  private usageService: UsageService;
+  private loggingService: LoggingService;
+  private mainWindow: BrowserWindow | null = null;
+  private pendingApprovals: Map<string, PendingApproval> = new Map();
+
+  constructor(
+    modelService: ModelService,
+    usageService: UsageService,
+    loggingService: LoggingService
+  ) {
+    this.modelService = modelService;
+    this.usageService = usageService;
+    this.loggingService = loggingService;
+  }
+
+  setMainWindow(mainWindow: BrowserWindow) {
+    if (this.mainWindow === mainWindow) return;
+    this.mainWindow = mainWindow;
+    // Nobody is left to answer the open dialogs
+    mainWindow.once("closed", () => {
+      for (const pending of Array.from(this.pendingApprovals.values())) {
+        pending.cancel("The window was closed");
+      }
+    });
+  }
+
+  /**
+   * Handle a sampling/createMessage request from a connected server.
+   * The user approves the prompt, the selected model produces a completion,
+   * and the user approves (or edits) the completion before it is returned.
+   * The request is given up when the server cancels it (signal) or the user
+   * doesn't answer in time.
+   */
+  async createMessage(
+    serverConfig: ServerConfig,
+    params: SamplingRequestParams,
+    signal?: AbortSignal
+  ): Promise<SamplingResult> {
+    const requestId = uuidv4();
+    const logOptions = {
+      serverId: serverConfig.id,
+      serverName: serverConfig.name,
+      category: "server" as const,
+    };
+
+    const modelConfig = this.selectModel(serverConfig, params);
+    if (!modelConfig) {
+      this.loggingService.addLog(
+        "error",
+        "Sampling",
+        `Sampling request from "${serverConfig.name}" rejected: no model configured`,
+        { requestId },
+        logOptions
+      );
+      throw new Error("No model is configured to handle sampling requests");
+    }
+
+    const messages = params.messages.map((message) => ({
+      role: message.role,
+      text: this.contentToText(message.content),
+    }));
+
+    this.loggingService.addLog(
+      "info",
+      "Sampling",
+      `Server "${serverConfig.name}" requested a completion`,
+      {
+        requestId,
+        modelConfigId: modelConfig.id,
+        modelPreferences: params.modelPreferences,
+        maxTokens: params.maxTokens,
+        messageCount: messages.length,
+      },
+      logOptions
+    );
+
+    const baseRequest = {
+      requestId,
+      serverId: serverConfig.id,
+      serverName: serverConfig.name,
+      modelConfigId: modelConfig.id,
+      modelName: modelConfig.name,
+      systemPrompt: params.systemPrompt,
+      messages,
+      maxTokens: params.maxTokens,
+    };
+
+    const promptApproval = await this.requestApproval(
+      { ...baseRequest, stage: "prompt" },
+      signal
+    );
+    if (!promptApproval.approved) {
+      this.loggingService.addLog(
+        "warning",
+        "Sampling",
+        `User declined sampling request from "${serverConfig.name}"`,
+        { requestId },
+        logOptions
+      );
+      throw new Error("User rejected sampling request");
+    }
+
+    // The server's limits apply to this completion only
+    const model = this.modelService.createModelInstance(modelConfig, {
+      ...(params.maxTokens !== undefined && { maxTokens: params.maxTokens }),
+      ...(params.temperature !== undefined && {
+        temperature: params.temperature,
+      }),
+    });
+    const langchainMessages: BaseMessage[] = [];
+    if (params.systemPrompt) {
+      langchainMessages.push(new SystemMessage(params.systemPrompt));
+    }
+    for (const message of messages) {
+      langchainMessages.push(
+        message.role === "assistant"
+          ? new AIMessage(message.text)
+          : new HumanMessage(message.text)
+      );
+    }
+
+    let completion: string;
+    try {
+      const response = await model.invoke(langchainMessages, {
+        stop: params.stopSequences,
+        signal,
+      });
+      completion = response.text;
+      this.usageService.record(
+        [
+          await this.usageService.measureCall(
+            model,
+            modelConfig,
+            langchainMessages,
+            response
+          ),
+        ],
+        { source: "sampling" }
+      );
+    } catch (error) {
+      this.loggingService.addLog(
+        "error",
+        "Sampling",
+        `Model "${modelConfig.name}" failed to complete sampling request from "${serverConfig.name}"`,
+        { requestId, error: String(error) },
+        logOptions
+      );
+      throw error;
+    }
+
+    const completionApproval = await this.requestApproval(
+      { ...baseRequest, stage: "completion", completion },
+      signal
+    );
+    if (!completionApproval.approved) {
+      this.loggingService.addLog(
+        "warning",
+        "Sampling",
+        `User withheld completion for "${serverConfig.name}"`,
+        { requestId },
+        logOptions
+      );
+      throw new Error("User rejected sampling completion");
+    }
+
+    const finalText = completionApproval.editedCompletion ?? completion;
+
+    this.loggingService.addLog(
+      "success",
+      "Sampling",
+      `Returned completion from "${modelConfig.name}" to "${serverConfig.name}"`,
+      {
+        requestId,
+        modelConfigId: modelConfig.id,
+        edited: completionApproval.editedCompletion !== undefined,
+        completionLength: finalText.length,
+      },
+      logOptions
+    );
+
+    return {
+      role: "assistant",
+      content: { type: "text", text: finalText },
+      model: modelConfig.modelId,
+      stopReason: "endTurn",
+    };
+  }
+
+  /**
+   * Resolve a pending approval with the user's decision from the renderer
+   */
+  resolveApproval(response: SamplingApprovalResponse): boolean {
+    const pending = this.pendingApprovals.get(response.requestId);
+    if (!pending) {
+      return false;
+    }
+    pending.resolve(response);
+    return true;
+  }
+
+  private requestApproval(
+    request: SamplingApprovalRequest,
+    signal?: AbortSignal
+  ): Promise<SamplingApprovalResponse> {
+    if (!this.mainWindow || this.mainWindow.isDestroyed()) {
+      // Without a window nobody can approve, so fail closed
+      return Promise.resolve({
+        requestId: request.requestId,
+        approved: false,
+      });
+    }
+    if (signal?.aborted) {
+      return Promise.reject(new Error("Sampling request was cancelled"));
+    }
+
+    return new Promise((resolve, reject) => {
+      const settle = () => {
+        clearTimeout(timeout);
+        signal?.removeEventListener("abort", onAbort);
+        this.pendingApprovals.delete(request.requestId);
+      };
+      const cancel = (reason: string) => {
+        settle();
+        this.loggingService.addLog(
+          "warning",
+          "Sampling",
+          `Sampling request from "${request.serverName}" given up: ${reason}`,
+          { requestId: request.requestId, stage: request.stage },
+          {
+            serverId: request.serverId,
+            serverName: request.serverName,
+            category: "server",
+          }
+        );
+        // Close the dialog if it's still showing
+        if (this.mainWindow && !this.mainWindow.isDestroyed()) {
+          this.mainWindow.webContents.send(
+            IpcChannels.SAMPLING_REQUEST_CANCELLED,
+            request.requestId
+          );
+        }
+        reject(new Error(`Sampling request was cancelled: ${reason}`));
+      };
+      const onAbort = () => cancel("The server cancelled the request");
+      const timeout = setTimeout(
+        () => cancel("No answer from the user in time"),
+        APPROVAL_TIMEOUT_MS
+      );
+      signal?.addEventListener("abort", onAbort, { once: true });
+
+      this.pendingApprovals.set(request.requestId, {
+        resolve: (response) => {
+          settle();
+          resolve(response);
+        },
+        cancel,
+      });
+      this.mainWindow!.webContents.send(IpcChannels.SAMPLING_REQUEST, request);
+    });
+  }
+
+  // Pick the model for a request: the server's preferred model wins, then the
+  // first enabled model matching a hint, then the model the priorities favour,
+  // then the default model.
+  private selectModel(
+    serverConfig: ServerConfig,
+    params: SamplingRequestParams
+  ): ModelConfig | null {
+    const configs = this.modelService
+      .getModelConfigs()
+      .filter((config) => config.enabled);
+
+    if (serverConfig.preferredModelId) {
+      const preferred = configs.find(
+        (config) => config.id === serverConfig.preferredModelId
+      );
+      if (preferred) {
+        return preferred;
+      }
+    }
+
+    for (const hint of params.modelPreferences?.hints || []) {
+      if (!hint.name) continue;
+      const hintName = hint.name.toLowerCase();
+      const match = configs.find(
+        (config) =>
+          config.modelId.toLowerCase().includes(hintName) ||
+          config.name.toLowerCase().includes(hintName)
+      );
+      if (match) {
+        return match;
+      }
+    }
+
+    const prioritized = this.selectByPriorities(
+      configs,
+      params.modelPreferences
+    );
+    if (prioritized) {
+      return prioritized;
+    }
+
+    const defaultModel = this.modelService.getDefaultModel();
+    return defaultModel && defaultModel.enabled ? defaultModel : null;
+  }
+
+  /**
+   * Weigh the server's priorities using model prices: cost and speed favour
+   * cheaper models, intelligence favours pricier (larger) ones. Models
+   * without a price are only picked when none has one.
+   */
+  private selectByPriorities(
+    configs: ModelConfig[],
+    preferences: SamplingRequestParams["modelPreferences"]
+  ): ModelConfig | null {
+    const cheapness =
+      (preferences?.costPriority ?? 0) + (preferences?.speedPriority ?? 0);
+    const intelligence = preferences?.intelligencePriority ?? 0;
+    if (cheapness === intelligence) {
+      return null; // No preference either way
+    }
+
+    const priced = configs
+      .map((config) => {
+        const price = this.usageService.getPrice(
+          config.provider,
+          config.modelId
+        );
+        return {
+          config,
+          price: price && price.inputPerMillion + price.outputPerMillion,
+        };
+      })
+      .filter(
+        (entry): entry is { config: ModelConfig; price: number } =>
+          entry.price !== undefined
+      );
+    if (priced.length === 0) {
+      return null;
+    }
+
+    priced.sort((a, b) =>
+      cheapness > intelligence ? a.price - b.price : b.price - a.price
+    );
+    return priced[0].config;
+  }
+
+  private contentToText(content: SamplingMessage["content"]): string {
+    switch (content.type) {
+      case "text":
+        return content.text;
+      case "image":
+        return `[image: ${content.mimeType}]`;
+      case "audio":
+        return `[audio: ${content.mimeType}]`;
+    }
+  }
+}
@@ -0,0 +1,265 @@
+import { app, safeStorage } from "electron";
+import { EventEmitter } from "events";
+import * as crypto from "crypto";
+import Store from "electron-store";
+import { v4 as uuidv4 } from "uuid";
+import { VaultStatus } from "../../shared/types";
+import { SECRET_REF_PREFIX, isSecretRef } from "../../shared/secrets";
+
+const PASSPHRASE_KEY_LENGTH = 32;
+const PASSPHRASE_IV_LENGTH = 12;
+const PASSPHRASE_TAG_LENGTH = 16;
+// Encrypted with the passphrase key so a wrong passphrase is detected on unlock
+const PASSPHRASE_CHECK_VALUE = "mcp-studio-vault";
+const EMBEDDED_REF_PATTERN = new RegExp(
+  `${SECRET_REF_PREFIX}[0-9a-f-]{36}`,
+  "g"
+);
+
+interface VaultSchema {
+  backend?: VaultStatus["backend"];
+  salt?: string; // base64 scrypt salt, passphrase backend only
+  check?: string; // PASSPHRASE_CHECK_VALUE encrypted with the passphrase key
+  secrets: Record<string, string>; // secret id -> base64 ciphertext
+}
+
+/**
+ * Encrypted storage for API keys, tokens and passwords. Configs only keep a
+ * "vault:<id>" reference to each secret; the ciphertext lives in its own
+ * store, encrypted with the OS keychain through safeStorage or, where that
+ * isn't available, with a key derived from a user passphrase.
+ */
+export class SecretVault extends EventEmitter {
+  private store: any; // Using any to avoid electron-store typing issues
+  private passphraseKey: Buffer | null = null;
+
+  constructor() {
+    super();
+    this.store = new Store<VaultSchema>({
+      name: "secrets",
+      defaults: { secrets: {} },
+    });
+  }
+
+  getStatus(): VaultStatus {
+    const backend = this.getBackend();
+    return {
+      backend,
+      unlocked: backend === "safeStorage" || this.passphraseKey !== null,
+      passphraseSet: !!this.store.get("check"),
+    };
+  }
+
+  isUnlocked(): boolean {
+    return this.getStatus().unlocked;
+  }
+
+  /**
+   * Unlock a passphrase-backed vault. The first passphrase given becomes the
+   * vault's passphrase.
+   */
+  unlock(passphrase: string): VaultStatus {
+    if (this.getBackend() !== "passphrase") {
+      return this.getStatus();
+    }
+    if (!passphrase) {
+      throw new Error("A passphrase is required to unlock the secret vault");
+    }
+
+    let salt: string | undefined = this.store.get("salt");
+    if (!salt) {
+      salt = crypto.randomBytes(16).toString("base64");
+      this.store.set("salt", salt);
+    }
+    const key = crypto.scryptSync(
+      passphrase,
+      Buffer.from(salt, "base64"),
+      PASSPHRASE_KEY_LENGTH
+    );
+
+    const check: string | undefined = this.store.get("check");
+    if (check) {
+      try {
+        if (this.decryptWithKey(key, check) !== PASSPHRASE_CHECK_VALUE) {
+          throw new Error("Check value mismatch");
+        }
+      } catch {
+        throw new Error("Incorrect vault passphrase");
+      }
+    } else {
+      this.store.set("check", this.encryptWithKey(key, PASSPHRASE_CHECK_VALUE));
+      this.store.set("backend", "passphrase");
+    }
+
+    this.passphraseKey = key;
+    const status = this.getStatus();
+    this.emit("statusChanged", status);
+    return status;
+  }
+
+  /**
+   * Encrypt a secret and return the reference to keep in its place
+   */
+  storeSecret(value: string): string {
+    const id = uuidv4();
+    const secrets = this.store.get("secrets", {});
+    secrets[id] = this.encrypt(value);
+    this.store.set("secrets", secrets);
+    return `${SECRET_REF_PREFIX}${id}`;
+  }
+
+  /**
+   * Decrypt a reference. Anything that isn't a reference is returned as is,
+   * so callers can pass config values without checking them first.
+   */
+  resolve(value: string): string;
+  resolve(value: string | undefined): string | undefined;
+  resolve(value: string | undefined): string | undefined {
+    if (value === undefined || !isSecretRef(value)) {
+      return value;
+    }
+
+    const secrets = this.store.get("secrets", {});
+    const ciphertext = secrets[value.slice(SECRET_REF_PREFIX.length)];
+    if (ciphertext === undefined) {
+      throw new Error(`Secret ${value} not found in the vault`);
+    }
+    return this.decrypt(ciphertext);
+  }
+
+  /**
+   * Resolve references inside a larger string, such as an Authorization
+   * header the renderer built from a saved config
+   */
+  resolveEmbedded(text: string): string {
+    return text.replace(EMBEDDED_REF_PATTERN, (ref) => this.resolve(ref));
+  }
+
+  deleteSecret(ref: string): void {
+    if (!isSecretRef(ref)) {
+      return;
+    }
+    const secrets = this.store.get("secrets", {});
+    delete secrets[ref.slice(SECRET_REF_PREFIX.length)];
+    this.store.set("secrets", secrets);
+  }
+
+  /**
+   * Copy of an object with the given fields moved into the vault. Plaintext
+   * values become new references, and references the previous version held
+   * that are no longer used are deleted.
+   */
+  seal<T extends object>(obj: T, fields: readonly string[], previous?: T): T {
+    const sealed: Record<string, any> = { ...obj };
+    const old: Record<string, any> = previous || {};
+
+    for (const field of fields) {
+      const value = sealed[field];
+      if (typeof value === "string" && value && !isSecretRef(value)) {
+        sealed[field] = this.storeSecret(value);
+      }
+      if (isSecretRef(old[field]) && old[field] !== sealed[field]) {
+        this.deleteSecret(old[field]);
+      }
+    }
+
+    return sealed as T;
+  }
+
+  /**
+   * Copy of an object with the given fields decrypted, for use in the main
+   * process only
+   */
+  reveal<T extends object>(obj: T, fields: readonly string[]): T {
+    const revealed: Record<string, any> = { ...obj };
+    for (const field of fields) {
+      if (typeof revealed[field] === "string") {
+        revealed[field] = this.resolve(revealed[field]);
+      }
+    }
+    return revealed as T;
+  }
+
+  /**
+   * Delete every reference an object holds in the given fields
+   */
+  purge<T extends object>(obj: T, fields: readonly string[]): void {
+    for (const field of fields) {
+      this.deleteSecret((obj as Record<string, any>)[field]);
+    }
+  }
+
+  // The backend is fixed on first use so secrets stay readable even if
+  // safeStorage later becomes available. The passphrase backend is only
+  // fixed once a passphrase is set: the keychain may just not be reachable
+  // yet, as on Linux while the keyring starts.
+  private getBackend(): VaultStatus["backend"] {
+    const backend: VaultStatus["backend"] | undefined =
+      this.store.get("backend");
+    if (backend) {
+      return backend;
+    }
+    // safeStorage can't tell whether encryption is available before then
+    if (!app.isReady()) {
+      throw new Error("The secret vault can't be used before the app is ready");
+    }
+    if (safeStorage.isEncryptionAvailable()) {
+      this.store.set("backend", "safeStorage");
+      return "safeStorage";
+    }
+    return "passphrase";
+  }
+
+  private encrypt(value: string): string {
+    if (this.getBackend() === "safeStorage") {
+      return safeStorage.encryptString(value).toString("base64");
+    }
+    return this.encryptWithKey(this.requireKey(), value);
+  }
+
+  private decrypt(ciphertext: string): string {
+    if (this.getBackend() === "safeStorage") {
+      return safeStorage.decryptString(Buffer.from(ciphertext, "base64"));
+    }
+    return this.decryptWithKey(this.requireKey(), ciphertext);
+  }
+
+  private requireKey(): Buffer {
+    if (!this.passphraseKey) {
+      throw new Error("The secret vault is locked");
+    }
+    return this.passphraseKey;
+  }
+
+  // AES-256-GCM, stored as base64(iv | auth tag | ciphertext)
+  private encryptWithKey(key: Buffer, value: string): string {
+    const iv = crypto.randomBytes(PASSPHRASE_IV_LENGTH);
+    const cipher = crypto.createCipheriv("aes-256-gcm", key, iv);
+    const encrypted = Buffer.concat([
+      cipher.update(value, "utf8"),
+      cipher.final(),
+    ]);
+    return Buffer.concat([iv, cipher.getAuthTag(), encrypted]).toString(
+      "base64"
+    );
+  }
+
+  private decryptWithKey(key: Buffer, ciphertext: string): string {
+    const data = Buffer.from(ciphertext, "base64");
+    const iv = data.subarray(0, PASSPHRASE_IV_LENGTH);
+    const tag = data.subarray(
+      PASSPHRASE_IV_LENGTH,
+      PASSPHRASE_IV_LENGTH + PASSPHRASE_TAG_LENGTH
+    );
+    const decipher = crypto.createDecipheriv("aes-256-gcm", key, iv);
+    decipher.setAuthTag(tag);
+    return Buffer.concat([
+      decipher.update(
+        data.subarray(PASSPHRASE_IV_LENGTH + PASSPHRASE_TAG_LENGTH)
+      ),
+      decipher.final(),
+    ]).toString("utf8");
+  }
+}
+
+export const secretVault = new SecretVault();
@@ -0,0 +1,149 @@
+import { app, dialog } from "electron";
+import * as fs from "fs/promises";
+import * as os from "os";
+import * as path from "path";
+import { MCPManager, SERVER_SECRET_FIELDS } from "../mcp/MCPManager";
+import { ServerConfig } from "../../shared/types";
+import {
+  ServerConfigFileSource,
+  ServerConfigFormat,
+  ServerConfigExportOptions,
+  SERVER_CONFIG_FORMATS,
+  formatServerConfigs,
+  parseServerConfigFile,
+} from "../../shared/serverConfigFormats";
+import { secretVault } from "./SecretVault";
+
+/**
+ * Moves server configurations between MCP Studio and the config files of
+ * Claude Desktop, Cursor and VS Code
+ */
+export class ServerTransferService {
+  private mcpManager: MCPManager;
+
+  constructor(mcpManager: MCPManager) {
+    this.mcpManager = mcpManager;
+  }
+
+  /**
+   * Read the user-level config file of every supported client that has one
+   */
+  async detectConfigFiles(): Promise<ServerConfigFileSource[]> {
+    const appData = app.getPath("appData");
+    const candidates: Array<{ path: string; format: ServerConfigFormat }> = [
+      {
+        path: path.join(appData, "Claude", "claude_desktop_config.json"),
+        format: "claude-desktop",
+      },
+      {
+        path: path.join(os.homedir(), ".cursor", "mcp.json"),
+        format: "cursor",
+      },
+      {
+        path: path.join(appData, "Code", "User", "mcp.json"),
+        format: "vscode",
+      },
+    ];
+
+    const found: ServerConfigFileSource[] = [];
+    for (const candidate of candidates) {
+      const exists = await fs
+        .access(candidate.path)
+        .then(() => true)
+        .catch(() => false);
+      if (exists) {
+        found.push(await this.readConfigFile(candidate.path, candidate.format));
+      }
+    }
+    return found;
+  }
+
+  /**
+   * Let the user pick a config file, such as a project's .cursor/mcp.json
+   * or .vscode/mcp.json
+   */
+  async openConfigFile(): Promise<ServerConfigFileSource | null> {
+    const result = await dialog.showOpenDialog({
+      title: "Import MCP Servers",
+      properties: ["openFile", "showHiddenFiles"],
+      filters: [{ name: "JSON", extensions: ["json", "jsonc"] }],
+    });
+
+    if (result.canceled || result.filePaths.length === 0) {
+      return null;
+    }
+    return this.readConfigFile(result.filePaths[0]);
+  }
+
+  async readConfigFile(
+    filePath: string,
+    format?: ServerConfigFormat
+  ): Promise<ServerConfigFileSource> {
+    const formatHint = format ?? this.formatFromPath(filePath);
+
+    try {
+      const text = await fs.readFile(filePath, "utf-8");
+      const parsed = parseServerConfigFile(text, formatHint);
+      return { path: filePath, ...parsed };
+    } catch (error) {
+      return {
+        path: filePath,
+        format: formatHint ?? "claude-desktop",
+        servers: [],
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  /**
+   * Render saved servers in another client's format. Credentials are read
+   * from the secret vault unless they are redacted.
+   */
+  exportServers(
+    serverIds: string[],
+    format: ServerConfigFormat,
+    options: ServerConfigExportOptions
+  ): string {
+    const configs = serverIds
+      .map((id) => this.mcpManager.getServerConfig(id))
+      .filter((config): config is ServerConfig => config !== null)
+      .map((config) =>
+        options.redactSecrets
+          ? config
+          : secretVault.reveal(config, SERVER_SECRET_FIELDS)
+      );
+
+    return formatServerConfigs(configs, format, options);
+  }
+
+  async saveExport(
+    content: string,
+    format: ServerConfigFormat
+  ): Promise<string | null> {
+    const result = await dialog.showSaveDialog({
+      title: `Export for ${SERVER_CONFIG_FORMATS[format].label}`,
+      defaultPath: SERVER_CONFIG_FORMATS[format].fileName,
+      filters: [{ name: "JSON", extensions: ["json"] }],
+    });
+
+    if (result.canceled || !result.filePath) {
+      return null;
+    }
+    await fs.writeFile(result.filePath, content);
+    return result.filePath;
+  }
+
+  private formatFromPath(filePath: string): ServerConfigFormat | undefined {
+    const segments = filePath.split(/[\\/]/);
+    if (segments.includes(".cursor")) {
+      return "cursor";
+    }
+    if (segments.includes(".vscode") || segments.includes("Code")) {
+      return "vscode";
+    }
+    if (path.basename(filePath) === "claude_desktop_config.json") {
+      return "claude-desktop";
+    }
+    return undefined;
+  }
+}
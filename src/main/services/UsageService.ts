@@ -0,0 +1,478 @@
+import { dialog } from "electron";
+import * as fs from "fs/promises";
+import Store from "electron-store";
+import { v4 as uuidv4 } from "uuid";
+import { AIMessage, BaseMessage } from "@langchain/core/messages";
+import { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import { LoggingService } from "./LoggingService";
+import {
+  LLMProvider,
+  ModelConfig,
+  ModelPrice,
+  TokenUsage,
+  UsageQuery,
+  UsageRecord,
+  UsageSummary,
+  UsageSummaryRow,
+} from "../../shared/types";
+
+// The oldest records are dropped beyond this, so the usage file stays small
+const MAX_USAGE_RECORDS = 20000;
+
+// List prices at the time of writing; users adjust them in settings
+const DEFAULT_MODEL_PRICES: ModelPrice[] = [
+  {
+    provider: "openai",
+    modelId: "gpt-4o",
+    inputPerMillion: 2.5,
+    outputPerMillion: 10,
+  },
+  {
+    provider: "openai",
+    modelId: "gpt-4o-mini",
+    inputPerMillion: 0.15,
+    outputPerMillion: 0.6,
+  },
+  {
+    provider: "openai",
+    modelId: "gpt-3.5-turbo",
+    inputPerMillion: 0.5,
+    outputPerMillion: 1.5,
+  },
+  {
+    provider: "anthropic",
+    modelId: "claude-3-5-sonnet",
+    inputPerMillion: 3,
+    outputPerMillion: 15,
+  },
+  {
+    provider: "anthropic",
+    modelId: "claude-3-5-haiku",
+    inputPerMillion: 0.8,
+    outputPerMillion: 4,
+  },
+  {
+    provider: "groq",
+    modelId: "llama-3.1-70b-versatile",
+    inputPerMillion: 0.59,
+    outputPerMillion: 0.79,
+  },
+  {
+    provider: "groq",
+    modelId: "llama-3.1-8b-instant",
+    inputPerMillion: 0.05,
+    outputPerMillion: 0.08,
+  },
+  {
+    provider: "cohere",
+    modelId: "command-r-plus",
+    inputPerMillion: 2.5,
+    outputPerMillion: 10,
+  },
+  {
+    provider: "cohere",
+    modelId: "command-r",
+    inputPerMillion: 0.15,
+    outputPerMillion: 0.6,
+  },
+  // Local models cost nothing to run
+  { provider: "ollama", modelId: "", inputPerMillion: 0, outputPerMillion: 0 },
+];
+
+// Token counts of one model call, before it is recorded
+export interface ModelCallUsage {
+  modelConfig: ModelConfig;
+  inputTokens: number;
+  outputTokens: number;
+  estimated?: boolean;
+}
+
+/**
+ * Token usage of every model call, and what it cost. Costs are worked out
+ * from the current price table whenever usage is read, so editing a price
+ * reprices past usage too.
+ */
+export class UsageService {
+  private store: any; // Using any to avoid electron-store typing issues
+  // Records are kept in a file of their own, so recording a model call
+  // doesn't rewrite the app's settings
+  private recordStore: any;
+  private records: UsageRecord[];
+  private loggingService: LoggingService;
+
+  constructor(
+    store: Store,
+    recordStore: Store,
+    loggingService: LoggingService
+  ) {
+    this.store = store;
+    this.recordStore = recordStore;
+    this.records = this.recordStore.get("records", []);
+    this.loggingService = loggingService;
+  }
+
+  /**
+   * Token counts of a model call: what the provider reported, or a
+   * tokenizer estimate when it reported nothing
+   */
+  async measureCall(
+    model: BaseChatModel,
+    modelConfig: ModelConfig,
+    input: BaseMessage[],
+    output: AIMessage
+  ): Promise<ModelCallUsage> {
+    const reported = output.usage_metadata;
+    if (reported && (reported.input_tokens || reported.output_tokens)) {
+      return {
+        modelConfig,
+        inputTokens: reported.input_tokens || 0,
+        outputTokens: reported.output_tokens || 0,
+      };
+    }
+
+    const count = async (messages: BaseMessage[]) => {
+      let tokens = 0;
+      for (const message of messages) {
+        tokens += await model.getNumTokens(messageText(message));
+      }
+      return tokens;
+    };
+    return {
+      modelConfig,
+      inputTokens: await count(input),
+      outputTokens: await count([output]),
+      estimated: true,
+    };
+  }
+
+  /**
+   * Record the model calls behind one assistant message, or one sampling
+   * request, and return their combined usage
+   */
+  record(
+    calls: ModelCallUsage[],
+    context: Pick<UsageRecord, "source" | "conversationId" | "messageId">
+  ): TokenUsage | undefined {
+    if (calls.length === 0) {
+      return undefined;
+    }
+
+    const timestamp = new Date().toISOString();
+    const records: UsageRecord[] = calls.map((call) => ({
+      id: uuidv4(),
+      timestamp,
+      ...context,
+      modelConfigId: call.modelConfig.id,
+      provider: call.modelConfig.provider,
+      modelId: call.modelConfig.modelId,
+      modelName: call.modelConfig.name,
+      inputTokens: call.inputTokens,
+      outputTokens: call.outputTokens,
+      ...(call.estimated && { estimated: true }),
+    }));
+    this.saveRecords([...this.getRecords(), ...records]);
+
+    return this.totalUsage(records);
+  }
+
+  /**
+   * Usage of each assistant message of a conversation, by message id
+   */
+  getMessageUsage(conversationId: string): Record<string, TokenUsage> {
+    const byMessage: Record<string, UsageRecord[]> = {};
+    for (const record of this.getRecords()) {
+      if (record.conversationId === conversationId && record.messageId) {
+        (byMessage[record.messageId] ||= []).push(record);
+      }
+    }
+
+    const usage: Record<string, TokenUsage> = {};
+    for (const [messageId, records] of Object.entries(byMessage)) {
+      usage[messageId] = this.totalUsage(records)!;
+    }
+    return usage;
+  }
+
+  /**
+   * Usage totals by day, model and conversation. Conversation rows are
+   * labelled with the given titles.
+   */
+  getSummary(
+    query: UsageQuery,
+    conversationTitle: (id: string) => string | undefined
+  ): UsageSummary {
+    const records = this.queryRecords(query);
+    const prices = this.getPrices();
+
+    const group = (
+      keyOf: (record: UsageRecord) => string,
+      labelOf: (record: UsageRecord) => string
+    ) => {
+      const rows = new Map<string, UsageSummaryRow>();
+      for (const record of records) {
+        const key = keyOf(record);
+        const row = rows.get(key) || emptyRow(key, labelOf(record));
+        addToRow(row, record, this.costOf(record, prices));
+        rows.set(key, row);
+      }
+      return Array.from(rows.values());
+    };
+
+    const byCost = (a: UsageSummaryRow, b: UsageSummaryRow) =>
+      b.cost - a.cost ||
+      b.inputTokens + b.outputTokens - (a.inputTokens + a.outputTokens);
+
+    const [total] = group(
+      () => "total",
+      () => "Total"
+    );
+    return {
+      total: total || emptyRow("total", "Total"),
+      byDay: group(
+        (record) => localDay(record.timestamp),
+        (record) => localDay(record.timestamp)
+      ).sort((a, b) => a.key.localeCompare(b.key)),
+      byModel: group(
+        (record) => record.modelConfigId || record.modelId,
+        (record) => record.modelName
+      ).sort(byCost),
+      byConversation: group(
+        (record) => record.conversationId || record.source,
+        (record) =>
+          record.conversationId
+            ? conversationTitle(record.conversationId) || "Deleted conversation"
+            : "Server sampling requests"
+      ).sort(byCost),
+    };
+  }
+
+  /**
+   * Save the model calls in the query as CSV where the user picks
+   */
+  async exportCsv(
+    query: UsageQuery,
+    conversationTitle: (id: string) => string | undefined
+  ): Promise<string | null> {
+    const result = await dialog.showSaveDialog({
+      title: "Export Token Usage",
+      defaultPath: `token-usage-${localDay(new Date().toISOString())}.csv`,
+      filters: [{ name: "CSV", extensions: ["csv"] }],
+    });
+    if (result.canceled || !result.filePath) {
+      return null;
+    }
+
+    const prices = this.getPrices();
+    const records = this.queryRecords(query);
+    const rows = [
+      [
+        "timestamp",
+        "source",
+        "conversation",
+        "model",
+        "provider",
+        "model_id",
+        "input_tokens",
+        "output_tokens",
+        "estimated",
+        "cost_usd",
+      ],
+      ...records.map((record) => {
+        const cost = this.costOf(record, prices);
+        return [
+          record.timestamp,
+          record.source,
+          record.conversationId
+            ? conversationTitle(record.conversationId) || record.conversationId
+            : "",
+          record.modelName,
+          record.provider,
+          record.modelId,
+          String(record.inputTokens),
+          String(record.outputTokens),
+          record.estimated ? "yes" : "no",
+          cost === undefined ? "" : cost.toFixed(6),
+        ];
+      }),
+    ];
+    await fs.writeFile(
+      result.filePath,
+      rows.map((row) => row.map(csvField).join(",")).join("\n") + "\n"
+    );
+
+    this.log("Exported token usage", { records: records.length });
+    return result.filePath;
+  }
+
+  getPrices(): ModelPrice[] {
+    return this.store.get("modelPrices", DEFAULT_MODEL_PRICES);
+  }
+
+  savePrices(prices: ModelPrice[]): ModelPrice[] {
+    for (const price of prices) {
+      if (!(price.inputPerMillion >= 0) || !(price.outputPerMillion >= 0)) {
+        throw new Error(
+          `Prices for ${price.modelId || price.provider} must be zero or more`
+        );
+      }
+    }
+
+    const cleaned = prices.map((price) => ({
+      ...price,
+      modelId: price.modelId.trim(),
+    }));
+    this.store.set("modelPrices", cleaned);
+    this.log("Updated model prices", { prices: cleaned.length });
+    return cleaned;
+  }
+
+  private totalUsage(records: UsageRecord[]): TokenUsage | undefined {
+    if (records.length === 0) {
+      return undefined;
+    }
+
+    const prices = this.getPrices();
+    const usage: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+    let priced = true;
+    let cost = 0;
+    for (const record of records) {
+      usage.inputTokens += record.inputTokens;
+      usage.outputTokens += record.outputTokens;
+      if (record.estimated) {
+        usage.estimated = true;
+      }
+      const recordCost = this.costOf(record, prices);
+      if (recordCost === undefined) {
+        priced = false;
+      } else {
+        cost += recordCost;
+      }
+    }
+    return priced ? { ...usage, cost } : usage;
+  }
+
+  // The most specific price covering a model
+  getPrice(
+    provider: LLMProvider,
+    modelId: string,
+    prices: ModelPrice[] = this.getPrices()
+  ): ModelPrice | undefined {
+    return prices
+      .filter((p) => p.provider === provider && modelId.startsWith(p.modelId))
+      .sort((a, b) => b.modelId.length - a.modelId.length)[0];
+  }
+
+  // Cost of a call in USD, or undefined when no price covers its model
+  private costOf(
+    record: UsageRecord,
+    prices: ModelPrice[]
+  ): number | undefined {
+    const price = this.getPrice(record.provider, record.modelId, prices);
+    if (!price) {
+      return undefined;
+    }
+    return (
+      (record.inputTokens * price.inputPerMillion +
+        record.outputTokens * price.outputPerMillion) /
+      1_000_000
+    );
+  }
+
+  private queryRecords(query: UsageQuery): UsageRecord[] {
+    const records = this.getRecords();
+    return query.since
+      ? records.filter((record) => record.timestamp >= query.since!)
+      : records;
+  }
+
+  private getRecords(): UsageRecord[] {
+    return this.records;
+  }
+
+  private saveRecords(records: UsageRecord[]): void {
+    this.records = records.slice(-MAX_USAGE_RECORDS);
+    this.recordStore.set("records", this.records);
+  }
+
+  private log(message: string, details: any): void {
+    this.loggingService.addLog("info", "UsageService", message, details, {
+      category: "system",
+    });
+  }
+}
+
+/**
+ * Usage of several messages together. The cost is only known when it is
+ * known for each of them.
+ */
+export function combineUsage(usages: TokenUsage[]): TokenUsage | undefined {
+  if (usages.length === 0) {
+    return undefined;
+  }
+  const combined: TokenUsage = {
+    inputTokens: usages.reduce((sum, usage) => sum + usage.inputTokens, 0),
+    outputTokens: usages.reduce((sum, usage) => sum + usage.outputTokens, 0),
+  };
+  if (usages.some((usage) => usage.estimated)) {
+    combined.estimated = true;
+  }
+  if (usages.every((usage) => usage.cost !== undefined)) {
+    combined.cost = usages.reduce((sum, usage) => sum + usage.cost!, 0);
+  }
+  return combined;
+}
+
+function emptyRow(key: string, label: string): UsageSummaryRow {
+  return {
+    key,
+    label,
+    calls: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    cost: 0,
+    unpricedCalls: 0,
+    estimatedCalls: 0,
+  };
+}
+
+function addToRow(
+  row: UsageSummaryRow,
+  record: UsageRecord,
+  cost: number | undefined
+) {
+  row.calls++;
+  row.inputTokens += record.inputTokens;
+  row.outputTokens += record.outputTokens;
+  if (cost === undefined) {
+    row.unpricedCalls++;
+  } else {
+    row.cost += cost;
+  }
+  if (record.estimated) {
+    row.estimatedCalls++;
+  }
+}
+
+// The day of a timestamp in the user's time zone, as YYYY-MM-DD
+function localDay(timestamp: string): string {
+  const date = new Date(timestamp);
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function csvField(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+// Text of a message for counting tokens, including the tool calls it makes
+function messageText(message: BaseMessage): string {
+  const content =
+    typeof message.content === "string"
+      ? message.content
+      : message.content
+          .map((block: any) => (block?.type === "text" ? block.text : ""))
+          .join("");
+  const toolCalls = (message as AIMessage).tool_calls;
+  return toolCalls?.length ? content + JSON.stringify(toolCalls) : content;
+}
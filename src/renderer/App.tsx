@@ -17,6 +17,8 @@ import {
   CodeBracketIcon,
   ChevronLeftIcon,
   ChevronRightIcon,
+  ArrowDownTrayIcon,
+  ArrowUpTrayIcon,
 } from "@heroicons/react/24/outline";
 
 // Components
@@ -26,12 +28,19 @@ import SettingsModal from "./components/SettingsModal";
 import ToolExecution from "./components/ToolExecution";
 import KeyboardShortcuts from "./components/KeyboardShortcuts";
 import ChatInterface from "./components/ChatInterface";
+import ConversationSidebar from "./components/ConversationSidebar";
 import AddServerDialog from "./components/AddServerDialog";
 import AddRemoteServerDialog from "./components/AddRemoteServerDialog";
+import ImportServersDialog from "./components/ImportServersDialog";
+import ExportServersDialog from "./components/ExportServersDialog";
+import ProfileSwitcher from "./components/ProfileSwitcher";
 import MCPServerGeneratorDialog from "./components/MCPServerGeneratorDialog";
 import ServerConfigModal from "./components/ServerConfigModal";
 import ServerCard from "./components/ServerCard";
 import ConfirmDialog from "./components/ConfirmDialog";
+import SamplingApprovalDialog from "./components/SamplingApprovalDialog";
+import ElicitationDialog from "./components/ElicitationDialog";
+import VaultUnlockDialog from "./components/VaultUnlockDialog";
 import APIServerManager from "./components/APIServerManager";
 import { ServerCodeEditor } from "./components/ServerCodeEditor";
 import PublicAPIExplorer from "./components/PublicAPIExplorer";
@@ -57,6 +66,14 @@ import {
   ServerStatus as SharedServerStatus,
   Tool,
   ModelConfig,
+  ServerListChangedEvent,
+  ElicitationRecord,
+  ServerReconnectState,
+  ServerHealth,
+  ToolApprovalDecision,
+  ToolApprovalRequest,
+  TokenUsage,
+  OpenConversationResult,
 } from "../shared/types";
 import { APIServerConfig } from "../shared/apiServerTypes";
 import { PublicAPISpec } from "../shared/publicApiTypes";
@@ -70,6 +87,8 @@ interface ServerStatus {
   uptime?: number;
   lastActivity?: Date;
   connectionStartTime?: Date;
+  reconnecting?: ServerReconnectState;
+  health?: ServerHealth;
 }
 
 interface BaseChatMessage {
@@ -94,6 +113,7 @@ interface AssistantMessage extends BaseChatMessage {
   }>;
   error?: string;
   isExecutingTools?: boolean;
+  usage?: TokenUsage; // Tokens and cost of the model calls behind it
 }
 
 interface ToolExecutionMessage extends BaseChatMessage {
@@ -112,6 +132,112 @@ interface ToolExecutionMessage extends BaseChatMessage {
 
 type ChatMessage = UserMessage | AssistantMessage | ToolExecutionMessage;
 
+// Chat entries for one agent response: its plan, the tools it ran, input
+// servers asked the user for, and the reply itself
+const agentResponseMessages = (
+  response: any,
+  baseId: number
+): ChatMessage[] => {
+  const messages: ChatMessage[] = [];
+  const timestamp = response.timestamp
+    ? new Date(response.timestamp)
+    : new Date();
+
+  // Extract the thought section from the response content (if it starts with 💭)
+  let thoughtContent = "";
+  let cleanContent = response.content;
+
+  if (response.content.startsWith("💭")) {
+    const thoughtMatch = response.content.match(
+      /💭 \*\*My Plan\*\*: (.*?)(?:\n\n)([\s\S]*)/
+    );
+    if (thoughtMatch) {
+      thoughtContent = thoughtMatch[1];
+      cleanContent = thoughtMatch[2];
+    }
+  }
+
+  // If we have a thought, show it first
+  if (thoughtContent) {
+    messages.push({
+      id: (baseId + 1).toString(),
+      role: "assistant",
+      content: thoughtContent,
+      timestamp,
+    });
+  }
+
+  // Create separate tool execution messages for each tool
+  if (response.toolCalls && response.toolCalls.length > 0) {
+    response.toolCalls.forEach((tool: any, index: number) => {
+      messages.push({
+        id: (baseId + 2 + index).toString(),
+        role: "tool-execution",
+        content: `Executing ${tool.name}...`,
+        timestamp,
+        tools: [
+          {
+            name: tool.name,
+            args: tool.args,
+            result: tool.result,
+            status: "completed",
+            duration: tool.duration,
+            modelId: tool.modelId, // Include model information
+          },
+        ],
+      });
+    });
+  }
+
+  // Record any input servers asked the user for during this turn
+  if (response.elicitations && response.elicitations.length > 0) {
+    response.elicitations.forEach(
+      (record: ElicitationRecord, index: number) => {
+        messages.push({
+          id: (baseId + 50 + index).toString(),
+          role: "assistant",
+          content: formatElicitationRecord(record),
+          timestamp: new Date(record.timestamp),
+        });
+      }
+    );
+  }
+
+  // A turn that paused for approval, or stopped after running tools, may
+  // not have said anything yet
+  if (
+    (response.pendingApproval || response.toolCalls?.length) &&
+    !cleanContent
+  ) {
+    return messages;
+  }
+
+  // Then add the assistant's clean response (without the thought section)
+  messages.push({
+    id: (baseId + 100).toString(),
+    role: "assistant",
+    content: cleanContent,
+    timestamp,
+    toolCalls: response.toolCalls,
+    usage: response.usage,
+  });
+  return messages;
+};
+
+// Transcript entry for input a server asked the user for mid-call
+const formatElicitationRecord = (record: ElicitationRecord): string => {
+  const header = `📝 **${record.serverName}** asked: ${record.message}`;
+  if (record.action !== "accept") {
+    return `${header}\n\n_You ${
+      record.action === "decline" ? "declined" : "cancelled"
+    } the request._`;
+  }
+  const answers = Object.entries(record.content || {})
+    .map(([name, value]) => `- **${name}**: ${String(value)}`)
+    .join("\n");
+  return `${header}\n\n${answers || "_Submitted with no values._"}`;
+};
+
 function App() {
   // Check if running in browser mode (e.g., after OAuth2 callback)
   const [isBrowserMode, setIsBrowserMode] = useState(() => {
@@ -144,10 +270,14 @@ function App() {
   const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
   const [messageInput, setMessageInput] = useState("");
   const [isSending, setIsSending] = useState(false);
+  const [pendingApproval, setPendingApproval] =
+    useState<ToolApprovalRequest | null>(null);
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
   const [isSidebarCollapsed, setIsSidebarCollapsed] = useState(false);
   const [isAddServerOpen, setIsAddServerOpen] = useState(false);
   const [isAddRemoteServerOpen, setIsAddRemoteServerOpen] = useState(false);
+  const [isImportServersOpen, setIsImportServersOpen] = useState(false);
+  const [isExportServersOpen, setIsExportServersOpen] = useState(false);
   const [isGenerateServerOpen, setIsGenerateServerOpen] = useState(false);
   const [isServerConfigOpen, setIsServerConfigOpen] = useState(false);
   const [selectedServerConfig, setSelectedServerConfig] =
@@ -187,6 +317,19 @@ function App() {
     return unsubscribe;
   }, []);
 
+  // Reopen the conversation that was open when the app closed
+  useEffect(() => {
+    if (!isAuthenticated || !window.electronAPI?.listConversations) return;
+    window.electronAPI
+      .listConversations()
+      .then(({ activeConversationId }) => {
+        if (activeConversationId) {
+          openConversation(activeConversationId);
+        }
+      })
+      .catch((error) => console.error("Error loading conversations:", error));
+  }, [isAuthenticated]);
+
   // Load data when authenticated
   useEffect(() => {
     console.log("🔐 Authentication state changed:", {
@@ -213,6 +356,8 @@ function App() {
                 ? {
                     ...server,
                     connected: true,
+                    error: undefined,
+                    reconnecting: undefined,
                     connectionStartTime: new Date(),
                     uptime: 0,
                   }
@@ -272,10 +417,67 @@ function App() {
           setServers((prevServers) =>
             prevServers.map((server) =>
               server.id === serverId
-                ? { ...server, connected: false, error }
+                ? {
+                    ...server,
+                    connected: false,
+                    error,
+                    reconnecting: undefined,
+                  }
                 : server
             )
           );
+          // A server that dropped mid-session takes its tools with it
+          setTools((prevTools) =>
+            prevTools.filter((tool) => tool.serverId !== serverId)
+          );
+        }
+      );
+
+      const unsubscribeReconnecting = window.electronAPI.on(
+        "server-reconnecting",
+        (status: ServerStatus) => {
+          console.log("📡 Server reconnecting event received:", status.id);
+          setServers((prevServers) =>
+            prevServers.map((server) =>
+              server.id === status.id
+                ? { ...server, reconnecting: status.reconnecting }
+                : server
+            )
+          );
+        }
+      );
+
+      const unsubscribeHealth = window.electronAPI.on(
+        "server-health",
+        ({ serverId, health }: { serverId: string; health?: ServerHealth }) => {
+          setServers((prevServers) =>
+            prevServers.map((server) =>
+              server.id === serverId ? { ...server, health } : server
+            )
+          );
+        }
+      );
+
+      const unsubscribeListChanged = window.electronAPI.on(
+        "server-list-changed",
+        (event: ServerListChangedEvent) => {
+          console.log("📡 Server list changed event received:", event);
+          // Resources and prompts are picked up by the periodic server refresh
+          if (event.kind !== "tools" || !window.electronAPI) return;
+          window.electronAPI
+            .listTools()
+            .then((toolList) => setTools(toolList))
+            .catch((error) => {
+              console.error("Error refreshing tools after list change:", error);
+            });
+        }
+      );
+
+      // A profile switch changes servers, tool states and the default model
+      const unsubscribeProfileSwitched = window.electronAPI.on(
+        "profile-switched",
+        () => {
+          loadData();
         }
       );
 
@@ -285,6 +487,10 @@ function App() {
           unsubscribeConnected();
           unsubscribeDisconnected();
           unsubscribeError();
+          unsubscribeReconnecting();
+          unsubscribeHealth();
+          unsubscribeListChanged();
+          unsubscribeProfileSwitched();
         }
       };
     } else if (isAuthenticated && !window.electronAPI) {
@@ -641,84 +847,88 @@ function App() {
 
     try {
       const response = await window.electronAPI.sendMessage({ message, model });
+      showAgentResponse(response);
+    } catch (error) {
+      showAgentError(error);
+    } finally {
+      setIsSending(false);
+    }
+  };
 
-      // Extract the thought section from the response content (if it starts with 💭)
-      let thoughtContent = "";
-      let cleanContent = response.content;
+  // Resume a turn that paused for tool approval with the user's decisions
+  const respondToToolApproval = async (decisions: ToolApprovalDecision[]) => {
+    setPendingApproval(null);
+    setIsSending(true);
 
-      if (response.content.startsWith("💭")) {
-        const thoughtMatch = response.content.match(
-          /💭 \*\*My Plan\*\*: (.*?)(?:\n\n)([\s\S]*)/
-        );
-        if (thoughtMatch) {
-          thoughtContent = thoughtMatch[1];
-          cleanContent = thoughtMatch[2];
-        }
-      }
+    try {
+      showAgentResponse(
+        await window.electronAPI.respondToolApproval(decisions)
+      );
+    } catch (error) {
+      showAgentError(error);
+    } finally {
+      setIsSending(false);
+    }
+  };
 
-      // If we have a thought, show it first
-      if (thoughtContent) {
-        const thoughtMessage: AssistantMessage = {
-          id: (Date.now() + 1).toString(),
-          role: "assistant",
-          content: thoughtContent,
-          timestamp: new Date(),
-        };
-        setChatMessages((prev) => [...prev, thoughtMessage]);
-      }
+  const stopMessage = async () => {
+    try {
+      await window.electronAPI.stopMessage();
+    } catch (error) {
+      console.error("Failed to stop the agent:", error);
+    }
+  };
 
-      // Check if the response contains tool calls information
-      if (response.toolCalls && response.toolCalls.length > 0) {
-        // Create separate tool execution messages for each tool
-        const toolExecutionMessages: ToolExecutionMessage[] =
-          response.toolCalls.map((tool: any, index: number) => ({
-            id: (Date.now() + 2 + index).toString(),
-            role: "tool-execution" as const,
-            content: `Executing ${tool.name}...`,
-            timestamp: new Date(),
-            tools: [
-              {
-                name: tool.name,
-                args: tool.args,
-                result: tool.result,
-                status: "completed" as const,
-                duration: tool.duration,
-                modelId: tool.modelId, // Include model information
-              },
-            ],
-          }));
-
-        // Add all tool execution messages at once
-        setChatMessages((prev) => [...prev, ...toolExecutionMessages]);
-      }
+  const showAgentResponse = (response: any) => {
+    // The turn paused on tool calls that need approval
+    if (response.pendingApproval) {
+      setPendingApproval(response.pendingApproval);
+    }
+    const messages = agentResponseMessages(response, Date.now());
+    setChatMessages((prev) => [...prev, ...messages]);
+  };
 
-      // Then add the assistant's clean response (without the thought section)
-      const assistantMessage: AssistantMessage = {
-        id: (Date.now() + 100).toString(),
-        role: "assistant",
-        content: cleanContent,
-        timestamp: new Date(),
-        toolCalls: response.toolCalls,
-      };
-      setChatMessages((prev) => [...prev, assistantMessage]);
+  // Show a saved conversation and continue it
+  const openConversation = async (id: string) => {
+    try {
+      const result: OpenConversationResult =
+        await window.electronAPI.openConversation(id);
+      setPendingApproval(result.pendingApproval || null);
+      setChatMessages(
+        result.messages.flatMap((message, index) =>
+          message.role === "user"
+            ? [
+                {
+                  id: message.id,
+                  role: "user" as const,
+                  content: message.content,
+                  timestamp: new Date(message.timestamp),
+                },
+              ]
+            : agentResponseMessages(message, index * 1000)
+        )
+      );
     } catch (error) {
-      console.error("Error sending message:", error);
-      const errorMessage: AssistantMessage = {
-        id: (Date.now() + 1).toString(),
-        role: "assistant",
-        content:
-          "Sorry, I encountered an error while processing your message. Please try again.",
-        timestamp: new Date(),
-        error: error instanceof Error ? error.message : "Unknown error",
-      };
-      setChatMessages((prev) => [...prev, errorMessage]);
-    } finally {
-      setIsSending(false);
+      console.error("Error opening conversation:", error);
     }
   };
 
+  const showAgentError = (error: unknown) => {
+    console.error("Error sending message:", error);
+    const errorMessage: AssistantMessage = {
+      id: (Date.now() + 1).toString(),
+      role: "assistant",
+      content:
+        "Sorry, I encountered an error while processing your message. Please try again.",
+      timestamp: new Date(),
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+    setChatMessages((prev) => [...prev, errorMessage]);
+  };
+
   const clearChat = async () => {
     setChatMessages([]);
+    setPendingApproval(null);
     // Also clear the agent's conversation state
     try {
       await window.electronAPI.clearChat();
@@ -775,7 +985,8 @@ function App() {
   const handleExecuteTool = async (
     toolName: string,
     args: any,
-    serverId?: string
+    serverId?: string,
+    callId?: string
   ) => {
     try {
       console.log(
@@ -791,7 +1002,8 @@ function App() {
       const result = await window.electronAPI.executeTool(
         serverId,
         toolName,
-        args
+        args,
+        callId
       );
 
       console.log(`✅ Tool ${toolName} executed successfully:`, result);
@@ -1011,6 +1223,19 @@ function App() {
                   onAdd={handleAddServer}
                 />
 
+                {/* Bulk Import/Export Dialogs */}
+                <ImportServersDialog
+                  open={isImportServersOpen}
+                  onClose={() => setIsImportServersOpen(false)}
+                  existingServers={serverConfigs}
+                  onImported={loadData}
+                />
+                <ExportServersDialog
+                  open={isExportServersOpen}
+                  onClose={() => setIsExportServersOpen(false)}
+                  servers={serverConfigs}
+                />
+
                 {/* MCP Server Generator Dialog */}
                 <MCPServerGeneratorDialog
                   open={isGenerateServerOpen}
@@ -1041,6 +1266,15 @@ function App() {
                   destructive={true}
                 />
 
+                {/* Sampling Approval Dialog */}
+                <SamplingApprovalDialog />
+
+                {/* Elicitation Dialog */}
+                <ElicitationDialog />
+
+                {/* Vault passphrase prompt */}
+                <VaultUnlockDialog />
+
                 {/* Server Code Editor */}
                 {showCodeEditor && codeEditorServerId && (
                   <ServerCodeEditor
@@ -1126,6 +1360,23 @@ function App() {
                         </span>
                       </button>
 
+                      <button
+                        onClick={() => setIsImportServersOpen(true)}
+                        className="p-1.5 rounded-lg text-slate-300 hover:text-white hover:bg-slate-700/50 transition-colors duration-200"
+                        title="Import servers"
+                      >
+                        <ArrowDownTrayIcon className="w-4 h-4" />
+                      </button>
+
+                      <button
+                        onClick={() => setIsExportServersOpen(true)}
+                        disabled={serverConfigs.length === 0}
+                        className="p-1.5 rounded-lg text-slate-300 hover:text-white hover:bg-slate-700/50 transition-colors duration-200 disabled:opacity-40"
+                        title="Export servers"
+                      >
+                        <ArrowUpTrayIcon className="w-4 h-4" />
+                      </button>
+
                       <UserMenu
                         user={currentUser || undefined}
                         onLogout={handleLogout}
@@ -1176,6 +1427,13 @@ function App() {
                       </div>
                     </div>
 
+                    {/* Workspace profile */}
+                    <div
+                      className={`${isSidebarCollapsed ? "px-2" : "px-4"} pt-4`}
+                    >
+                      <ProfileSwitcher collapsed={isSidebarCollapsed} />
+                    </div>
+
                     {/* Navigation */}
                     <nav
                       className={`${isSidebarCollapsed ? "p-2" : "p-4"} flex-1`}
@@ -1567,15 +1825,27 @@ function App() {
 
                     {/* Chat Tab */}
                     {selectedTab === "chat" && (
-                      <ChatInterface
-                        messages={chatMessages}
-                        onSendMessage={sendMessage}
-                        onClearChat={clearChat}
-                        isLoading={isSending}
-                        connectedServers={
-                          servers.filter((s) => s.connected).length
-                        }
-                      />
+                      <div className="flex h-full">
+                        <ConversationSidebar
+                          onOpenConversation={openConversation}
+                          onNewConversation={clearChat}
+                          disabled={isSending}
+                        />
+                        <div className="flex-1 min-w-0 h-full">
+                          <ChatInterface
+                            messages={chatMessages}
+                            onSendMessage={sendMessage}
+                            onClearChat={clearChat}
+                            isLoading={isSending}
+                            pendingApproval={pendingApproval}
+                            onRespondToApproval={respondToToolApproval}
+                            onStopMessage={stopMessage}
+                            connectedServers={
+                              servers.filter((s) => s.connected).length
+                            }
+                          />
+                        </div>
+                      </div>
                     )}
 
                     {/* Workflows Tab */}
@@ -1623,6 +1893,25 @@ function App() {
                   toolCount={tools.length}
                   lastUpdate={lastUpdate}
                   isOnline={true}
+                  reconnectingServers={servers
+                    .filter((s) => s.reconnecting)
+                    .map((s) => ({
+                      id: s.id,
+                      name: s.name,
+                      attempt: s.reconnecting!.attempt,
+                      maxAttempts: s.reconnecting!.maxAttempts,
+                    }))}
+                  healthSummary={{
+                    healthy: servers.filter(
+                      (s) => s.connected && s.health?.state === "healthy"
+                    ).length,
+                    degraded: servers.filter(
+                      (s) => s.connected && s.health?.state === "degraded"
+                    ).length,
+                    unhealthy: servers.filter(
+                      (s) => s.connected && s.health?.state === "unhealthy"
+                    ).length,
+                  }}
                 />
               </div>
             )}
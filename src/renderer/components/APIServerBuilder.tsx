@@ -30,6 +30,8 @@ import PrivateAPIService from "../services/PrivateAPIService";
 import APIDiscoveryService from "../services/APIDiscoveryService";
 import PostmanCollectionService from "../services/PostmanCollectionService";
 import { OAuth2FlowComponent } from "./OAuth2FlowComponent";
+import { SecretInput } from "./SecretInput";
+import { SECRET_REF_PREFIX } from "../../shared/secrets";
 
 interface APIServerBuilderProps {
   isOpen: boolean;
@@ -549,6 +551,36 @@ const APIServerBuilder: React.FC<APIServerBuilderProps> = ({
         requestOptions.body = JSON.stringify(params);
       }
 
+      // Saved credentials are vault references, so the request has to go
+      // through the main process, which fills them in
+      const usesSavedSecret = Object.values(headers).some((value) =>
+        value.includes(SECRET_REF_PREFIX)
+      );
+      if (usesSavedSecret) {
+        const result = await window.electronAPI.invoke(
+          "api-server:test-call",
+          fullUrl,
+          {
+            method: endpoint.method,
+            headers,
+            body: requestOptions.body ? params : undefined,
+          }
+        );
+
+        setTestResults((prev) => ({
+          ...prev,
+          [endpoint.id]: {
+            success: result.status >= 200 && result.status < 300,
+            status: result.status,
+            statusText: result.statusText,
+            data: result.data,
+            responseTime: Date.now() - startTime,
+            timestamp: new Date(),
+          },
+        }));
+        return;
+      }
+
       const response = await fetch(fullUrl, requestOptions);
       const responseTime = Date.now() - startTime;
 
@@ -1876,19 +1908,18 @@ const APIServerBuilder: React.FC<APIServerBuilderProps> = ({
                       <label className="block text-sm font-medium text-slate-300 mb-2">
                         API Key
                       </label>
-                      <input
-                        type="password"
+                      <SecretInput
                         value={
                           serverConfig.authentication.credentials?.apikey || ""
                         }
-                        onChange={(e) =>
+                        onChange={(value) =>
                           setServerConfig({
                             ...serverConfig,
                             authentication: {
                               ...serverConfig.authentication!,
                               credentials: {
                                 ...serverConfig.authentication!.credentials,
-                                apikey: e.target.value,
+                                apikey: value,
                               },
                             },
                           })
@@ -1927,19 +1958,18 @@ const APIServerBuilder: React.FC<APIServerBuilderProps> = ({
                     <label className="block text-sm font-medium text-slate-300 mb-2">
                       Bearer Token
                     </label>
-                    <input
-                      type="password"
+                    <SecretInput
                       value={
                         serverConfig.authentication.credentials?.token || ""
                       }
-                      onChange={(e) =>
+                      onChange={(value) =>
                         setServerConfig({
                           ...serverConfig,
                           authentication: {
                             ...serverConfig.authentication!,
                             credentials: {
                               ...serverConfig.authentication!.credentials,
-                              token: e.target.value,
+                              token: value,
                             },
                           },
                         })
@@ -1982,20 +2012,19 @@ const APIServerBuilder: React.FC<APIServerBuilderProps> = ({
                       <label className="block text-sm font-medium text-slate-300 mb-2">
                         Password
                       </label>
-                      <input
-                        type="password"
+                      <SecretInput
                         value={
                           serverConfig.authentication.credentials?.password ||
                           ""
                         }
-                        onChange={(e) =>
+                        onChange={(value) =>
                           setServerConfig({
                             ...serverConfig,
                             authentication: {
                               ...serverConfig.authentication!,
                               credentials: {
                                 ...serverConfig.authentication!.credentials,
-                                password: e.target.value,
+                                password: value,
                               },
                             },
                           })
@@ -327,7 +327,7 @@ export function AddRemoteServerDialog({
     const config: ServerConfig = {
       id: Date.now().toString(),
       name: formData.name,
-      type: "remote",
+      type: formData.type || "remote",
       url: formData.url,
       enabled: formData.enabled ?? true,
       autoRestart: formData.autoRestart ?? true,
@@ -581,6 +581,29 @@ export function AddRemoteServerDialog({
                     </p>
                   </div>
 
+                  <div className="space-y-2">
+                    <label className="block text-sm font-medium text-slate-300">
+                      Transport
+                    </label>
+                    <select
+                      value={formData.type}
+                      onChange={(e) =>
+                        setFormData({
+                          ...formData,
+                          type: e.target.value as ServerConfig["type"],
+                        })
+                      }
+                      title="Select transport"
+                      className="w-full px-3 py-2 bg-slate-800/50 border border-slate-600/50 rounded-md shadow-sm focus:ring-2 focus:ring-emerald-500/50 focus:border-emerald-500/50 text-slate-100"
+                    >
+                      <option value="remote">
+                        Automatic (Streamable HTTP, falling back to SSE)
+                      </option>
+                      <option value="streamable-http">Streamable HTTP</option>
+                      <option value="sse">Server-Sent Events (legacy)</option>
+                    </select>
+                  </div>
+
                   <div className="space-y-2">
                     <label className="block text-sm font-medium text-slate-300">
                       Description (Optional)
@@ -752,12 +775,13 @@ export function AddRemoteServerDialog({
                           <ExclamationTriangleIcon className="h-5 w-5 text-amber-400 flex-shrink-0 mt-0.5" />
                           <div>
                             <p className="text-sm text-amber-300 font-medium">
-                              OAuth 2.0 Setup Required
+                              Sign-in on first connect
                             </p>
                             <p className="text-xs text-amber-400/80 mt-1">
-                              You'll need to complete OAuth authentication after
-                              adding the server. Make sure you have the correct
-                              client credentials.
+                              A sign-in window opens the first time you connect.
+                              Leave the client ID empty to register
+                              automatically with servers that support dynamic
+                              client registration.
                             </p>
                           </div>
                         </div>
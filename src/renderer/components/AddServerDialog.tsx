@@ -17,6 +17,7 @@ import {
   ArrowPathIcon,
 } from "@heroicons/react/24/outline";
 import { ServerConfig, Tool, ModelConfig } from "../../shared/types";
+import { parseServerConfigFile } from "../../shared/serverConfigFormats";
 
 interface AddServerDialogProps {
   open: boolean;
@@ -67,6 +68,7 @@ const AddServerDialog: React.FC<AddServerDialogProps> = ({
   const [importJson, setImportJson] = useState("");
   const [parsedConfig, setParsedConfig] = useState<ServerConfig | null>(null);
   const [importError, setImportError] = useState("");
+  const [importNotice, setImportNotice] = useState("");
 
   // Tool discovery state
   const [discoveredTools, setDiscoveredTools] = useState<Tool[]>([]);
@@ -79,52 +81,25 @@ const AddServerDialog: React.FC<AddServerDialogProps> = ({
   const [errors, setErrors] = useState<Record<string, string>>({});
 
   const parseImportedJson = (jsonString: string): ServerConfig | null => {
-    try {
-      const parsed = JSON.parse(jsonString);
-
-      // Handle standard MCP server config format
-      if (parsed.mcpServers) {
-        const serverKeys = Object.keys(parsed.mcpServers);
-        if (serverKeys.length === 0) {
-          throw new Error("No servers found in mcpServers configuration");
-        }
-
-        // Use the first server (or let user choose if multiple)
-        const serverKey = serverKeys[0];
-        const serverData = parsed.mcpServers[serverKey];
-
-        return {
-          name: serverKey,
-          type: "stdio",
-          command: serverData.command,
-          args: serverData.args || [],
-          env: serverData.env || {},
-          ...(serverData.cwd && { cwd: serverData.cwd }),
-        };
-      }
-
-      // Handle direct server configuration format
-      if (parsed.command) {
-        return {
-          name: parsed.name || "Imported Server",
-          type: "stdio",
-          command: parsed.command,
-          args: parsed.args || [],
-          env: parsed.env || {},
-          ...(parsed.cwd && { cwd: parsed.cwd }),
-        };
-      }
-
-      throw new Error(
-        "Invalid configuration format. Expected 'mcpServers' object or direct server configuration."
-      );
-    } catch (error) {
+    const { servers } = parseServerConfigFile(jsonString);
+
+    // This form only sets up local servers; the rest go through the bulk
+    // import dialog
+    const stdioServers = servers.filter(
+      (server) => server.config.type === "stdio"
+    );
+    if (stdioServers.length === 0) {
       throw new Error(
-        `Failed to parse JSON: ${
-          error instanceof Error ? error.message : "Unknown error"
-        }`
+        "No local (command) servers found. Use Import Servers for remote servers."
       );
     }
+    setImportNotice(
+      servers.length > 1
+        ? `Found ${servers.length} servers; filled in "${stdioServers[0].config.name}". Use Import Servers to add them all at once.`
+        : ""
+    );
+
+    return stdioServers[0].config as ServerConfig;
   };
 
   const handleImportJson = () => {
@@ -404,6 +379,7 @@ const AddServerDialog: React.FC<AddServerDialogProps> = ({
     setImportJson("");
     setParsedConfig(null);
     setImportError("");
+    setImportNotice("");
     setDiscoveredTools([]);
     setToolConfigs({});
     setActiveTab("manual");
@@ -704,6 +680,11 @@ const AddServerDialog: React.FC<AddServerDialogProps> = ({
                             Configuration has been parsed and populated in the
                             Manual Setup tab.
                           </p>
+                          {importNotice && (
+                            <p className="mt-2 text-sm text-green-200">
+                              {importNotice}
+                            </p>
+                          )}
                         </div>
                       )}
                     </div>
@@ -20,8 +20,22 @@ import {
   CpuChipIcon as CpuChipIconSolid,
   SparklesIcon as SparklesIconSolid,
 } from "@heroicons/react/24/solid";
-import { ModelConfig } from "../../shared/types";
+import {
+  ModelConfig,
+  Persona,
+  TokenUsage,
+  ToolApprovalDecision,
+  ToolApprovalRequest,
+} from "../../shared/types";
 import { ModelConfigModal } from "./ModelConfigModal";
+import ToolProgressBar from "./ToolProgressBar";
+import ToolApprovalCard from "./ToolApprovalCard";
+import PersonaPicker from "./PersonaPicker";
+import ContextMeter from "./ContextMeter";
+import ToolResultText from "./ToolResultText";
+import { useToolProgress } from "../hooks/useToolProgress";
+import { useAgentStream } from "../hooks/useAgentStream";
+import { formatUsage } from "../../shared/usage";
 
 interface BaseChatMessage {
   id: string;
@@ -45,6 +59,7 @@ interface AssistantMessage extends BaseChatMessage {
   }>;
   error?: string;
   isExecutingTools?: boolean;
+  usage?: TokenUsage; // Tokens and cost of the model calls behind it
 }
 
 interface ToolExecutionMessage extends BaseChatMessage {
@@ -69,6 +84,9 @@ interface ChatInterfaceProps {
   onClearChat?: () => void;
   isLoading?: boolean;
   connectedServers: number;
+  pendingApproval?: ToolApprovalRequest | null; // Tool calls waiting on the user
+  onRespondToApproval?: (decisions: ToolApprovalDecision[]) => void;
+  onStopMessage?: () => void; // Aborts the run in progress
 }
 
 const ChatInterface: React.FC<ChatInterfaceProps> = ({
@@ -77,6 +95,9 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
   onClearChat,
   isLoading = false,
   connectedServers,
+  pendingApproval,
+  onRespondToApproval,
+  onStopMessage,
 }) => {
   const [input, setInput] = useState("");
   const [selectedModel, setSelectedModel] = useState<string>("");
@@ -91,6 +112,9 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
   const [expandedToolExecution, setExpandedToolExecution] = useState<
     Record<string, boolean>
   >({});
+  const toolProgress = useToolProgress();
+  const runningToolCalls = Object.values(toolProgress.running);
+  const agentStream = useAgentStream();
 
   // Load configured models on component mount
   useEffect(() => {
@@ -128,13 +152,23 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
     }
   };
 
+  // A persona may start the chat on its own model
+  const handlePersonaChange = (persona: Persona | null) => {
+    const model = configuredModels.find(
+      (m) => m.id === persona?.defaultModelId && m.enabled
+    );
+    if (model) {
+      setSelectedModel(model.id);
+    }
+  };
+
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
-  }, [messages]);
+  }, [messages, pendingApproval, agentStream.steps]);
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (!input.trim() || isLoading) return;
+    if (!input.trim() || isLoading || pendingApproval) return;
     
     // Check if a model is selected
     if (!selectedModel || configuredModels.length === 0) {
@@ -370,11 +404,10 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
                             <div className="text-emerald-400 mb-1 font-medium">
                               Result:
                             </div>
-                            <div className="text-slate-300 font-mono text-xs max-h-32 overflow-y-auto">
-                              {typeof tool.result === "string"
-                                ? tool.result
-                                : JSON.stringify(tool.result, null, 2)}
-                            </div>
+                            <ToolResultText
+                              result={tool.result}
+                              className="text-slate-300 font-mono text-xs max-h-32 overflow-y-auto"
+                            />
                           </motion.div>
                         )}
                       </motion.div>
@@ -478,6 +511,18 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
               }`}
             >
               {formatTime(message.timestamp)}
+              {message.role === "assistant" && message.usage && (
+                <span
+                  title={
+                    message.usage.estimated
+                      ? "Estimated; the provider didn't report token usage"
+                      : "Tokens the model read and wrote for this reply"
+                  }
+                >
+                  {" · "}
+                  {formatUsage(message.usage)}
+                </span>
+              )}
             </div>
           </div>
         </div>
@@ -630,11 +675,10 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
                             <div className="text-emerald-400 mb-1 font-medium">
                               Result:
                             </div>
-                            <div className="text-slate-300 font-mono">
-                              {typeof tool.result === "string"
-                                ? tool.result
-                                : JSON.stringify(tool.result, null, 2)}
-                            </div>
+                            <ToolResultText
+                              result={tool.result}
+                              className="text-slate-300 font-mono"
+                            />
                           </div>
                         )}
                       </motion.div>
@@ -674,6 +718,16 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
           </div>
 
           <div className="flex items-center gap-3">
+            <ContextMeter
+              modelConfigId={selectedModel || undefined}
+              messageCount={messages.length}
+            />
+
+            <PersonaPicker
+              onPersonaChange={handlePersonaChange}
+              disabled={isLoading}
+            />
+
             {/* Start New Chat Button */}
             {messages.length > 0 && onClearChat && (
               <motion.button
@@ -837,6 +891,60 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
                           Assistant is thinking...
                         </span>
                       </div>
+                      {agentStream.steps.length > 0 && (
+                        <div className="mt-3 space-y-2">
+                          {agentStream.steps.map((step, index) =>
+                            step.kind === "text" ? (
+                              <p
+                                key={index}
+                                className="whitespace-pre-wrap break-words leading-relaxed m-0 text-slate-100"
+                              >
+                                {step.text}
+                              </p>
+                            ) : (
+                              <div
+                                key={step.callId}
+                                className="text-xs font-mono bg-slate-900/60 border border-slate-700/50 rounded-lg px-3 py-2"
+                              >
+                                <div className="flex items-center gap-2 text-slate-300">
+                                  {step.status === "running" ? (
+                                    <WrenchScrewdriverIcon className="w-3.5 h-3.5 text-amber-400" />
+                                  ) : (
+                                    <CheckCircleIcon className="w-3.5 h-3.5 text-emerald-400" />
+                                  )}
+                                  <span>
+                                    {step.status === "running"
+                                      ? "Calling"
+                                      : "Called"}{" "}
+                                    <span className="text-emerald-300">
+                                      {step.name}
+                                    </span>
+                                  </span>
+                                </div>
+                                <div className="mt-1 text-slate-400 truncate">
+                                  {JSON.stringify(step.args ?? {})}
+                                </div>
+                                {step.result && (
+                                  <div className="mt-1 text-slate-500 line-clamp-3 whitespace-pre-wrap break-words">
+                                    {step.result}
+                                  </div>
+                                )}
+                              </div>
+                            )
+                          )}
+                        </div>
+                      )}
+                      {runningToolCalls.length > 0 && (
+                        <div className="mt-3 space-y-2 min-w-[280px]">
+                          {runningToolCalls.map((event) => (
+                            <ToolProgressBar
+                              key={event.callId}
+                              event={event}
+                              onCancel={toolProgress.cancel}
+                            />
+                          ))}
+                        </div>
+                      )}
                     </div>
                   </div>
                 </motion.div>
@@ -844,6 +952,13 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
             </div>
           )}
         </AnimatePresence>
+        {pendingApproval && onRespondToApproval && (
+          <ToolApprovalCard
+            request={pendingApproval}
+            onRespond={onRespondToApproval}
+            disabled={isLoading}
+          />
+        )}
         <div ref={messagesEndRef} />
       </div>
 
@@ -863,11 +978,15 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
               placeholder={
                 configuredModels.length === 0
                   ? "Configure an AI model to start chatting..."
+                  : pendingApproval
+                  ? "Approve or reject the tool calls above to continue..."
                   : connectedServers > 0
                   ? "Ask me anything about your MCP servers..."
                   : "Ask me anything... (no MCP tools available)"
               }
-              disabled={isLoading || configuredModels.length === 0}
+              disabled={
+                isLoading || configuredModels.length === 0 || !!pendingApproval
+              }
               className="w-full bg-slate-800/90 backdrop-blur-sm border border-slate-700/50 rounded-xl px-5 py-4 pr-32 pb-12 text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500/50 resize-none min-h-[60px] max-h-[120px] disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 shadow-lg group-hover:shadow-emerald-500/10 focus:shadow-emerald-500/20"
               rows={1}
             />
@@ -1005,29 +1124,43 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
             </div>
           </div>
 
-          <motion.button
-            type="submit"
-            disabled={
-              !input.trim() ||
-              isLoading ||
-              input.length > 2000 ||
-              connectedServers === 0
-            }
-            className="flex-shrink-0 w-16 h-16 bg-gradient-to-br from-emerald-500 to-teal-600 hover:from-emerald-600 hover:to-teal-700 disabled:from-slate-700 disabled:to-slate-600 disabled:text-slate-500 text-white rounded-xl flex items-center justify-center transition-all duration-200 shadow-lg hover:shadow-emerald-500/30 disabled:shadow-none disabled:cursor-not-allowed"
-            whileHover={{ scale: 1.05 }}
-            whileTap={{ scale: 0.95 }}
-          >
-            {isLoading ? (
-              <motion.div
-                animate={{ rotate: 360 }}
-                transition={{ duration: 1, repeat: Infinity, ease: "linear" }}
-              >
-                <SparklesIconSolid className="w-6 h-6" />
-              </motion.div>
-            ) : (
-              <PaperAirplaneIcon className="w-6 h-6" />
-            )}
-          </motion.button>
+          {isLoading && onStopMessage ? (
+            <motion.button
+              type="button"
+              onClick={onStopMessage}
+              title="Stop"
+              className="flex-shrink-0 w-16 h-16 bg-gradient-to-br from-red-500 to-rose-600 hover:from-red-600 hover:to-rose-700 text-white rounded-xl flex items-center justify-center transition-all duration-200 shadow-lg hover:shadow-red-500/30"
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+            >
+              <StopIcon className="w-6 h-6" />
+            </motion.button>
+          ) : (
+            <motion.button
+              type="submit"
+              disabled={
+                !input.trim() ||
+                isLoading ||
+                !!pendingApproval ||
+                input.length > 2000 ||
+                connectedServers === 0
+              }
+              className="flex-shrink-0 w-16 h-16 bg-gradient-to-br from-emerald-500 to-teal-600 hover:from-emerald-600 hover:to-teal-700 disabled:from-slate-700 disabled:to-slate-600 disabled:text-slate-500 text-white rounded-xl flex items-center justify-center transition-all duration-200 shadow-lg hover:shadow-emerald-500/30 disabled:shadow-none disabled:cursor-not-allowed"
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+            >
+              {isLoading ? (
+                <motion.div
+                  animate={{ rotate: 360 }}
+                  transition={{ duration: 1, repeat: Infinity, ease: "linear" }}
+                >
+                  <SparklesIconSolid className="w-6 h-6" />
+                </motion.div>
+              ) : (
+                <PaperAirplaneIcon className="w-6 h-6" />
+              )}
+            </motion.button>
+          )}
         </form>
       </motion.div>
 
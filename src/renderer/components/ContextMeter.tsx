@@ -0,0 +1,90 @@
+import React, { useEffect, useState } from "react";
+import { ContextUsage } from "../../shared/types";
+import { formatTokenCount } from "../../shared/usage";
+
+interface ContextMeterProps {
+  modelConfigId?: string;
+  messageCount: number; // Re-measures as the chat grows
+}
+
+// How much of the model's context window the open chat takes up
+const ContextMeter: React.FC<ContextMeterProps> = ({
+  modelConfigId,
+  messageCount,
+}) => {
+  const [usage, setUsage] = useState<ContextUsage | null>(null);
+
+  const loadUsage = async () => {
+    try {
+      setUsage(await window.electronAPI.getContextUsage(modelConfigId));
+    } catch (error) {
+      console.error("Failed to load context usage:", error);
+    }
+  };
+
+  useEffect(() => {
+    if (!window.electronAPI?.getContextUsage) return;
+    loadUsage();
+  }, [modelConfigId, messageCount]);
+
+  useEffect(() => {
+    if (!window.electronAPI?.getContextUsage) return;
+    const unsubscribeConversations = window.electronAPI.on(
+      "conversations-changed",
+      loadUsage
+    );
+    // Sent before every model call while a reply is generated
+    const unsubscribeUsage = window.electronAPI.on("context-usage", setUsage);
+    return () => {
+      unsubscribeConversations();
+      unsubscribeUsage();
+    };
+  }, [modelConfigId]);
+
+  if (!usage || !isFinite(usage.contextWindow)) {
+    return null;
+  }
+
+  const share = Math.min(1, usage.usedTokens / usage.contextWindow);
+  const barColor =
+    share >= 0.8
+      ? "bg-red-500"
+      : share >= 0.5
+      ? "bg-amber-400"
+      : "bg-emerald-500";
+  const details = [
+    `About ${formatTokenCount(usage.usedTokens)} of ${formatTokenCount(
+      usage.contextWindow
+    )} tokens in the context window`,
+    usage.summarized && "Older turns are summarised",
+    usage.droppedTurns > 0 &&
+      `${usage.droppedTurns} oldest turn${
+        usage.droppedTurns !== 1 ? "s" : ""
+      } left out`,
+    usage.truncatedResults > 0 &&
+      `${usage.truncatedResults} tool result${
+        usage.truncatedResults !== 1 ? "s" : ""
+      } shortened`,
+  ].filter((line) => line);
+
+  return (
+    <div
+      className="flex items-center gap-2 px-3 py-2 bg-slate-800/50 border border-slate-700/50 rounded-lg text-xs text-slate-400"
+      title={details.join("\n")}
+    >
+      <span>Context</span>
+      <div className="w-16 h-1.5 bg-slate-700 rounded-full overflow-hidden">
+        <div
+          className={`h-full ${barColor} transition-all duration-300`}
+          style={{ width: `${share * 100}%` }}
+        />
+      </div>
+      <span className="text-slate-300">{Math.round(share * 100)}%</span>
+      {(usage.summarized || usage.droppedTurns > 0) && (
+        <span className="w-1.5 h-1.5 rounded-full bg-amber-400" />
+      )}
+    </div>
+  );
+};
+
+export default ContextMeter;
@@ -0,0 +1,270 @@
+import React, { useEffect, useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import {
+  ArrowUpTrayIcon,
+  ChatBubbleLeftIcon,
+  MagnifyingGlassIcon,
+  PencilIcon,
+  PlusIcon,
+  TrashIcon,
+} from "@heroicons/react/24/outline";
+import {
+  Conversation,
+  ConversationExportFormat,
+  ConversationList,
+} from "../../shared/types";
+import ConfirmDialog from "./ConfirmDialog";
+
+interface ConversationSidebarProps {
+  onOpenConversation: (id: string) => void;
+  onNewConversation: () => void;
+  disabled?: boolean; // While a message is being answered
+}
+
+// Saved chats: open, start, rename, delete, search and export them
+const ConversationSidebar: React.FC<ConversationSidebarProps> = ({
+  onOpenConversation,
+  onNewConversation,
+  disabled = false,
+}) => {
+  const [list, setList] = useState<ConversationList>({
+    conversations: [],
+    activeConversationId: null,
+  });
+  const [search, setSearch] = useState("");
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameText, setRenameText] = useState("");
+  const [exportingId, setExportingId] = useState<string | null>(null);
+  const [toDelete, setToDelete] = useState<Conversation | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const loadConversations = async (query = search) => {
+    try {
+      setList(await window.electronAPI.listConversations(query));
+    } catch (error) {
+      console.error("Failed to load conversations:", error);
+    }
+  };
+
+  // Searching reads every transcript, so wait for a pause in typing
+  useEffect(() => {
+    if (!window.electronAPI?.listConversations) return;
+    const timer = setTimeout(() => loadConversations(search), 250);
+    return () => clearTimeout(timer);
+  }, [search]);
+
+  useEffect(() => {
+    if (!window.electronAPI) return;
+    return window.electronAPI.on("conversations-changed", () =>
+      loadConversations()
+    );
+  }, [search]);
+
+  const run = async (action: () => Promise<unknown>) => {
+    setMessage(null);
+    try {
+      await action();
+      await loadConversations();
+    } catch (error) {
+      console.error("Conversation action failed:", error);
+      setMessage(error instanceof Error ? error.message : "Action failed");
+    }
+  };
+
+  const startRename = (conversation: Conversation) => {
+    setRenamingId(conversation.id);
+    setRenameText(conversation.title);
+    setExportingId(null);
+  };
+
+  const rename = (id: string) =>
+    run(async () => {
+      if (renameText.trim()) {
+        await window.electronAPI.renameConversation(id, renameText.trim());
+      }
+      setRenamingId(null);
+    });
+
+  const exportAs = (id: string, format: ConversationExportFormat) =>
+    run(async () => {
+      const filePath = await window.electronAPI.exportConversation(id, format);
+      setExportingId(null);
+      if (filePath) {
+        setMessage(`Exported to ${filePath}`);
+      }
+    });
+
+  const confirmDelete = () => {
+    const conversation = toDelete;
+    setToDelete(null);
+    if (!conversation) return;
+
+    run(async () => {
+      await window.electronAPI.deleteConversation(conversation.id);
+      if (conversation.id === list.activeConversationId) {
+        onNewConversation();
+      }
+    });
+  };
+
+  const actionClasses =
+    "p-1 rounded text-slate-500 hover:text-white hover:bg-slate-700/60";
+
+  return (
+    <div className="w-64 flex-shrink-0 h-full flex flex-col border-r border-slate-800/50 bg-slate-900/60">
+      <div className="p-3 space-y-2 border-b border-slate-800/50">
+        <button
+          onClick={onNewConversation}
+          disabled={disabled}
+          className="w-full flex items-center justify-center gap-2 px-3 py-2 text-sm font-medium text-white bg-emerald-600 hover:bg-emerald-700 rounded-lg disabled:opacity-50"
+        >
+          <PlusIcon className="w-4 h-4" />
+          <span>New chat</span>
+        </button>
+        <div className="relative">
+          <MagnifyingGlassIcon className="w-4 h-4 text-slate-500 absolute left-2.5 top-1/2 -translate-y-1/2" />
+          <input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search conversations"
+            className="w-full text-xs text-slate-200 bg-slate-800 border border-slate-700 rounded-md pl-8 pr-2 py-1.5 focus:outline-none focus:border-emerald-500/60"
+          />
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-2 space-y-1">
+        {list.conversations.length === 0 && (
+          <p className="px-2 py-3 text-xs text-slate-500">
+            {search.trim()
+              ? "No conversations match your search."
+              : "Your conversations will appear here."}
+          </p>
+        )}
+
+        {list.conversations.map((conversation) => {
+          const active = conversation.id === list.activeConversationId;
+
+          if (renamingId === conversation.id) {
+            return (
+              <form
+                key={conversation.id}
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  rename(conversation.id);
+                }}
+                className="px-1"
+              >
+                <input
+                  value={renameText}
+                  onChange={(e) => setRenameText(e.target.value)}
+                  onBlur={() => setRenamingId(null)}
+                  onKeyDown={(e) => e.key === "Escape" && setRenamingId(null)}
+                  autoFocus
+                  className="w-full text-sm text-slate-200 bg-slate-800 border border-emerald-500/60 rounded-md px-2 py-1.5 focus:outline-none"
+                />
+              </form>
+            );
+          }
+
+          return (
+            <div key={conversation.id}>
+              <div
+                className={`group flex items-start gap-2 px-2 py-2 rounded-lg cursor-pointer ${
+                  active
+                    ? "bg-emerald-500/10 border border-emerald-500/30"
+                    : "border border-transparent hover:bg-slate-800/60"
+                } ${disabled ? "opacity-60 pointer-events-none" : ""}`}
+                onClick={() => !active && onOpenConversation(conversation.id)}
+              >
+                <ChatBubbleLeftIcon
+                  className={`w-4 h-4 mt-0.5 flex-shrink-0 ${
+                    active ? "text-emerald-400" : "text-slate-500"
+                  }`}
+                />
+                <div className="flex-1 min-w-0">
+                  <div className="text-sm text-slate-200 truncate">
+                    {conversation.title}
+                  </div>
+                  <div className="text-xs text-slate-500">
+                    {formatDistanceToNow(new Date(conversation.updatedAt), {
+                      addSuffix: true,
+                    })}
+                    {" · "}
+                    {conversation.messageCount} message
+                    {conversation.messageCount !== 1 ? "s" : ""}
+                  </div>
+                </div>
+                <div
+                  className="flex items-center opacity-0 group-hover:opacity-100"
+                  onClick={(e) => e.stopPropagation()}
+                >
+                  <button
+                    onClick={() => startRename(conversation)}
+                    className={actionClasses}
+                    title="Rename"
+                  >
+                    <PencilIcon className="w-3.5 h-3.5" />
+                  </button>
+                  <button
+                    onClick={() =>
+                      setExportingId(
+                        exportingId === conversation.id ? null : conversation.id
+                      )
+                    }
+                    className={actionClasses}
+                    title="Export"
+                  >
+                    <ArrowUpTrayIcon className="w-3.5 h-3.5" />
+                  </button>
+                  <button
+                    onClick={() => setToDelete(conversation)}
+                    className="p-1 rounded text-slate-500 hover:text-red-400 hover:bg-slate-700/60"
+                    title="Delete"
+                  >
+                    <TrashIcon className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+              </div>
+
+              {exportingId === conversation.id && (
+                <div className="flex items-center gap-1 pl-8 pr-2 py-1 text-xs">
+                  <span className="text-slate-500">Export as</span>
+                  <button
+                    onClick={() => exportAs(conversation.id, "markdown")}
+                    className="px-2 py-0.5 rounded-md text-slate-300 bg-slate-800 hover:bg-slate-700"
+                  >
+                    Markdown
+                  </button>
+                  <button
+                    onClick={() => exportAs(conversation.id, "json")}
+                    className="px-2 py-0.5 rounded-md text-slate-300 bg-slate-800 hover:bg-slate-700"
+                  >
+                    JSON
+                  </button>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {message && (
+        <p className="px-3 py-2 text-xs text-amber-400 border-t border-slate-800/50 break-words">
+          {message}
+        </p>
+      )}
+
+      <ConfirmDialog
+        open={!!toDelete}
+        title="Delete conversation"
+        message={`Delete "${toDelete?.title}"? Its messages and tool history will be removed.`}
+        confirmText="Delete"
+        onConfirm={confirmDelete}
+        onCancel={() => setToDelete(null)}
+        destructive
+      />
+    </div>
+  );
+};
+
+export default ConversationSidebar;
@@ -0,0 +1,333 @@
+import React, { useEffect, useState } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import {
+  ChatBubbleLeftEllipsisIcon,
+  XMarkIcon,
+  CheckIcon,
+} from "@heroicons/react/24/outline";
+import {
+  ElicitationAction,
+  ElicitationField,
+  ElicitationRequest,
+} from "../../shared/types";
+
+type FieldValue = string | number | boolean;
+
+const initialValues = (
+  request: ElicitationRequest
+): Record<string, FieldValue | ""> => {
+  const values: Record<string, FieldValue | ""> = {};
+  Object.entries(request.requestedSchema.properties).forEach(
+    ([name, field]) => {
+      if (field.default !== undefined) {
+        values[name] = field.default;
+      } else {
+        values[name] = field.type === "boolean" ? false : "";
+      }
+    }
+  );
+  return values;
+};
+
+// Returns an error message for a field, or null when the value is acceptable
+const validateField = (
+  field: ElicitationField,
+  value: FieldValue | "",
+  required: boolean
+): string | null => {
+  if (value === "" || value === undefined) {
+    return required ? "Required" : null;
+  }
+
+  if (field.type === "number" || field.type === "integer") {
+    const num = Number(value);
+    if (Number.isNaN(num)) return "Must be a number";
+    if (field.type === "integer" && !Number.isInteger(num)) {
+      return "Must be a whole number";
+    }
+    if (field.minimum !== undefined && num < field.minimum) {
+      return `Must be at least ${field.minimum}`;
+    }
+    if (field.maximum !== undefined && num > field.maximum) {
+      return `Must be at most ${field.maximum}`;
+    }
+  }
+
+  if (field.type === "string" && typeof value === "string") {
+    if (field.minLength !== undefined && value.length < field.minLength) {
+      return `Must be at least ${field.minLength} characters`;
+    }
+    if (field.maxLength !== undefined && value.length > field.maxLength) {
+      return `Must be at most ${field.maxLength} characters`;
+    }
+    if (field.format === "email" && !/^[^@\s]+@[^@\s]+$/.test(value)) {
+      return "Must be an email address";
+    }
+    if (field.format === "uri") {
+      try {
+        new URL(value);
+      } catch {
+        return "Must be a valid URI";
+      }
+    }
+  }
+
+  return null;
+};
+
+// Shows server-initiated elicitation requests one at a time as a form built
+// from the requested schema. The answer is sent back as accept, decline or
+// cancel.
+const ElicitationDialog: React.FC = () => {
+  const [queue, setQueue] = useState<ElicitationRequest[]>([]);
+  const [values, setValues] = useState<Record<string, FieldValue | "">>({});
+  const [submitted, setSubmitted] = useState(false);
+
+  useEffect(() => {
+    if (!window.electronAPI?.onElicitationRequest) return;
+
+    const unsubscribe = window.electronAPI.onElicitationRequest(
+      (request: ElicitationRequest) => {
+        setQueue((prev) => [...prev, request]);
+      }
+    );
+
+    return unsubscribe;
+  }, []);
+
+  const current = queue[0];
+  const fields = current
+    ? Object.entries(current.requestedSchema.properties || {})
+    : [];
+  const required = new Set(current?.requestedSchema.required || []);
+
+  useEffect(() => {
+    setValues(current ? initialValues(current) : {});
+    setSubmitted(false);
+  }, [current?.requestId]);
+
+  const errors: Record<string, string | null> = {};
+  fields.forEach(([name, field]) => {
+    errors[name] = validateField(field, values[name], required.has(name));
+  });
+  const hasErrors = Object.values(errors).some(Boolean);
+
+  const respond = async (action: ElicitationAction) => {
+    if (!current) return;
+
+    if (action === "accept") {
+      setSubmitted(true);
+      if (hasErrors) return;
+    }
+
+    const content: Record<string, FieldValue> = {};
+    if (action === "accept") {
+      fields.forEach(([name, field]) => {
+        const value = values[name];
+        if (value === "") return;
+        content[name] =
+          field.type === "number" || field.type === "integer"
+            ? Number(value)
+            : value;
+      });
+    }
+
+    try {
+      await window.electronAPI.respondToElicitationRequest({
+        requestId: current.requestId,
+        action,
+        content: action === "accept" ? content : undefined,
+      });
+    } catch (error) {
+      console.error("Failed to respond to elicitation request:", error);
+    } finally {
+      setQueue((prev) => prev.slice(1));
+    }
+  };
+
+  const setValue = (name: string, value: FieldValue | "") => {
+    setValues((prev) => ({ ...prev, [name]: value }));
+  };
+
+  const inputClassName =
+    "w-full text-sm text-zinc-200 bg-zinc-800 border border-zinc-700 rounded-lg px-3 py-2 focus:outline-none focus:border-indigo-500";
+
+  const renderField = (name: string, field: ElicitationField) => {
+    const value = values[name];
+
+    if (field.type === "boolean") {
+      return (
+        <label className="flex items-center space-x-2 text-sm text-zinc-200">
+          <input
+            type="checkbox"
+            checked={value === true}
+            onChange={(e) => setValue(name, e.target.checked)}
+            className="rounded border-zinc-600 bg-zinc-800"
+          />
+          <span>{field.title || name}</span>
+        </label>
+      );
+    }
+
+    if (field.enum) {
+      return (
+        <select
+          value={String(value ?? "")}
+          onChange={(e) => setValue(name, e.target.value)}
+          className={inputClassName}
+          title={field.title || name}
+        >
+          <option value="">Select...</option>
+          {field.enum.map((option, index) => (
+            <option key={option} value={option}>
+              {field.enumNames?.[index] || option}
+            </option>
+          ))}
+        </select>
+      );
+    }
+
+    if (field.type === "number" || field.type === "integer") {
+      return (
+        <input
+          type="number"
+          value={value === "" ? "" : String(value)}
+          min={field.minimum}
+          max={field.maximum}
+          step={field.type === "integer" ? 1 : "any"}
+          onChange={(e) => setValue(name, e.target.value)}
+          className={inputClassName}
+        />
+      );
+    }
+
+    const inputType =
+      field.format === "email"
+        ? "email"
+        : field.format === "uri"
+        ? "url"
+        : field.format === "date"
+        ? "date"
+        : field.format === "date-time"
+        ? "datetime-local"
+        : "text";
+
+    return (
+      <input
+        type={inputType}
+        value={String(value ?? "")}
+        onChange={(e) => setValue(name, e.target.value)}
+        className={inputClassName}
+      />
+    );
+  };
+
+  return (
+    <AnimatePresence>
+      {current && (
+        <>
+          {/* Backdrop */}
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50"
+          />
+
+          {/* Dialog */}
+          <motion.div
+            key={current.requestId}
+            initial={{ opacity: 0, scale: 0.95, y: 20 }}
+            animate={{ opacity: 1, scale: 1, y: 0 }}
+            exit={{ opacity: 0, scale: 0.95, y: 20 }}
+            transition={{ type: "spring", duration: 0.3 }}
+            className="fixed inset-0 z-50 flex items-center justify-center p-4"
+          >
+            <div className="bg-zinc-900 border border-zinc-700 rounded-xl shadow-2xl w-full max-w-xl max-h-[85vh] flex flex-col overflow-hidden">
+              {/* Header */}
+              <div className="flex items-center justify-between p-6 border-b border-zinc-700">
+                <div className="flex items-center space-x-3">
+                  <div className="p-2 rounded-lg bg-indigo-500/20">
+                    <ChatBubbleLeftEllipsisIcon className="w-6 h-6 text-indigo-400" />
+                  </div>
+                  <div>
+                    <h2 className="text-xl font-semibold text-zinc-100">
+                      Server needs your input
+                    </h2>
+                    <p className="text-sm text-zinc-400">
+                      {current.serverName}
+                    </p>
+                  </div>
+                </div>
+                <button
+                  onClick={() => respond("cancel")}
+                  className="p-2 hover:bg-zinc-800 rounded-lg transition-colors duration-200"
+                  aria-label="Cancel request"
+                >
+                  <XMarkIcon className="w-5 h-5 text-zinc-400" />
+                </button>
+              </div>
+
+              {/* Content */}
+              <div className="p-6 space-y-4 overflow-y-auto">
+                <p className="text-sm text-zinc-200 whitespace-pre-wrap">
+                  {current.message}
+                </p>
+
+                {fields.map(([name, field]) => (
+                  <div key={name}>
+                    {field.type !== "boolean" && (
+                      <div className="text-xs font-medium uppercase tracking-wide text-zinc-500 mb-1">
+                        {field.title || name}
+                        {required.has(name) && (
+                          <span className="text-red-400"> *</span>
+                        )}
+                      </div>
+                    )}
+                    {renderField(name, field)}
+                    {field.description && (
+                      <p className="text-xs text-zinc-500 mt-1">
+                        {field.description}
+                      </p>
+                    )}
+                    {submitted && errors[name] && (
+                      <p className="text-xs text-red-400 mt-1">
+                        {errors[name]}
+                      </p>
+                    )}
+                  </div>
+                ))}
+              </div>
+
+              {/* Footer */}
+              <div className="flex items-center justify-between p-6 border-t border-zinc-700 bg-zinc-900/50">
+                <span className="text-xs text-zinc-500">
+                  {queue.length > 1 ? `${queue.length - 1} more pending` : ""}
+                </span>
+                <div className="flex items-center space-x-3">
+                  <button
+                    onClick={() => respond("decline")}
+                    className="px-4 py-2 text-sm font-medium text-zinc-400 hover:text-zinc-300
+                             hover:bg-zinc-800 rounded-lg transition-all duration-200"
+                  >
+                    Decline
+                  </button>
+                  <button
+                    onClick={() => respond("accept")}
+                    className="px-6 py-2 text-sm font-medium rounded-lg transition-all duration-200
+                             flex items-center space-x-2 bg-blue-500 text-white hover:bg-blue-600"
+                  >
+                    <CheckIcon className="w-4 h-4" />
+                    <span>Submit</span>
+                  </button>
+                </div>
+              </div>
+            </div>
+          </motion.div>
+        </>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default ElicitationDialog;
@@ -0,0 +1,260 @@
+import React, { useEffect, useState } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import {
+  ArrowUpTrayIcon,
+  CheckIcon,
+  ClipboardDocumentIcon,
+  XMarkIcon,
+} from "@heroicons/react/24/outline";
+import { ServerConfig } from "../../shared/types";
+import {
+  ServerConfigFormat,
+  SERVER_CONFIG_FORMATS,
+} from "../../shared/serverConfigFormats";
+
+interface ExportServersDialogProps {
+  open: boolean;
+  onClose: () => void;
+  servers: ServerConfig[];
+}
+
+// Writes any selection of servers as a config file for Claude Desktop, Cursor
+// or VS Code. The file is rendered in the main process, which is the only
+// place unredacted credentials can be read.
+const ExportServersDialog: React.FC<ExportServersDialogProps> = ({
+  open,
+  onClose,
+  servers,
+}) => {
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [format, setFormat] = useState<ServerConfigFormat>("claude-desktop");
+  const [redactSecrets, setRedactSecrets] = useState(true);
+  const [preview, setPreview] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [savedPath, setSavedPath] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (open) {
+      setSelectedIds(new Set(servers.map((server) => server.id)));
+      setSavedPath(null);
+    }
+  }, [open]);
+
+  useEffect(() => {
+    if (!open) return;
+
+    window.electronAPI
+      .exportServerConfigs(Array.from(selectedIds), format, { redactSecrets })
+      .then((content) => {
+        setPreview(content);
+        setError(null);
+      })
+      .catch((err: any) => {
+        console.error("Failed to export servers:", err);
+        setPreview("");
+        setError(
+          err instanceof Error && err.message.includes("locked")
+            ? "Unlock the secret vault or redact secrets to export"
+            : "Failed to export servers"
+        );
+      });
+  }, [open, selectedIds, format, redactSecrets]);
+
+  const toggleServer = (id: string) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const copyToClipboard = async () => {
+    await navigator.clipboard.writeText(preview);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const saveToFile = async () => {
+    try {
+      const path = await window.electronAPI.saveServerConfigExport(
+        preview,
+        format
+      );
+      if (path) {
+        setSavedPath(path);
+      }
+    } catch (err) {
+      console.error("Failed to save server export:", err);
+      setError("Failed to save the file");
+    }
+  };
+
+  return (
+    <AnimatePresence>
+      {open && (
+        <>
+          {/* Backdrop */}
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50"
+            onClick={onClose}
+          />
+
+          {/* Dialog */}
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95, y: 20 }}
+            animate={{ opacity: 1, scale: 1, y: 0 }}
+            exit={{ opacity: 0, scale: 0.95, y: 20 }}
+            transition={{ type: "spring", duration: 0.3 }}
+            className="fixed inset-0 z-50 flex items-center justify-center p-4 pointer-events-none"
+          >
+            <div className="bg-zinc-900 border border-zinc-700 rounded-xl shadow-2xl w-full max-w-4xl max-h-[85vh] flex flex-col overflow-hidden pointer-events-auto">
+              {/* Header */}
+              <div className="flex items-center justify-between p-6 border-b border-zinc-700">
+                <div className="flex items-center space-x-3">
+                  <div className="p-2 rounded-lg bg-indigo-500/20">
+                    <ArrowUpTrayIcon className="w-6 h-6 text-indigo-400" />
+                  </div>
+                  <div>
+                    <h2 className="text-xl font-semibold text-zinc-100">
+                      Export Servers
+                    </h2>
+                    <p className="text-sm text-zinc-400">
+                      For Claude Desktop, Cursor or VS Code
+                    </p>
+                  </div>
+                </div>
+                <button
+                  onClick={onClose}
+                  className="p-2 hover:bg-zinc-800 rounded-lg transition-colors duration-200"
+                  aria-label="Close"
+                >
+                  <XMarkIcon className="w-5 h-5 text-zinc-400" />
+                </button>
+              </div>
+
+              {/* Content */}
+              <div className="flex-1 flex min-h-0">
+                {/* Server selection */}
+                <div className="w-64 border-r border-zinc-700 overflow-y-auto p-4 space-y-4">
+                  <div className="space-y-2">
+                    <label className="block text-xs font-medium text-zinc-400">
+                      Format
+                    </label>
+                    <select
+                      value={format}
+                      onChange={(e) =>
+                        setFormat(e.target.value as ServerConfigFormat)
+                      }
+                      className="w-full text-sm text-zinc-200 bg-zinc-800 border border-zinc-700 rounded-lg px-3 py-2 focus:outline-none focus:border-indigo-500"
+                    >
+                      {Object.entries(SERVER_CONFIG_FORMATS).map(
+                        ([value, { label }]) => (
+                          <option key={value} value={value}>
+                            {label}
+                          </option>
+                        )
+                      )}
+                    </select>
+                    <label className="flex items-center space-x-2 text-sm text-zinc-300">
+                      <input
+                        type="checkbox"
+                        checked={redactSecrets}
+                        onChange={(e) => setRedactSecrets(e.target.checked)}
+                      />
+                      <span>Redact secrets</span>
+                    </label>
+                  </div>
+
+                  <div className="space-y-1">
+                    <div className="flex items-center justify-between">
+                      <span className="text-xs font-medium text-zinc-400">
+                        Servers
+                      </span>
+                      <button
+                        onClick={() =>
+                          setSelectedIds(
+                            selectedIds.size === servers.length
+                              ? new Set()
+                              : new Set(servers.map((server) => server.id))
+                          )
+                        }
+                        className="text-xs text-indigo-400 hover:text-indigo-300"
+                      >
+                        {selectedIds.size === servers.length ? "None" : "All"}
+                      </button>
+                    </div>
+                    {servers.map((server) => (
+                      <label
+                        key={server.id}
+                        className="flex items-center space-x-2 text-sm text-zinc-200 py-1"
+                      >
+                        <input
+                          type="checkbox"
+                          checked={selectedIds.has(server.id)}
+                          onChange={() => toggleServer(server.id)}
+                        />
+                        <span className="truncate">{server.name}</span>
+                      </label>
+                    ))}
+                  </div>
+                </div>
+
+                {/* Preview */}
+                <div className="flex-1 overflow-auto p-4">
+                  {error ? (
+                    <p className="text-sm text-red-400">{error}</p>
+                  ) : (
+                    <pre className="text-xs font-mono text-zinc-300 whitespace-pre">
+                      {preview}
+                    </pre>
+                  )}
+                </div>
+              </div>
+
+              {/* Footer */}
+              <div className="flex items-center justify-between p-6 border-t border-zinc-700">
+                <p className="text-xs text-zinc-500 truncate">
+                  {savedPath
+                    ? `Saved to ${savedPath}`
+                    : !redactSecrets &&
+                      "The exported file will contain your credentials in plain text"}
+                </p>
+                <div className="flex items-center space-x-3">
+                  <button
+                    onClick={copyToClipboard}
+                    disabled={!preview || selectedIds.size === 0}
+                    className="px-4 py-2 text-sm font-medium text-zinc-300 bg-zinc-700 hover:bg-zinc-600 rounded-lg flex items-center space-x-2 transition-all duration-200 disabled:opacity-50"
+                  >
+                    {copied ? (
+                      <CheckIcon className="w-4 h-4" />
+                    ) : (
+                      <ClipboardDocumentIcon className="w-4 h-4" />
+                    )}
+                    <span>{copied ? "Copied" : "Copy"}</span>
+                  </button>
+                  <button
+                    onClick={saveToFile}
+                    disabled={!preview || selectedIds.size === 0}
+                    className="px-6 py-2 text-sm font-medium rounded-lg transition-all duration-200 bg-blue-500 text-white hover:bg-blue-600 disabled:opacity-50"
+                  >
+                    Save...
+                  </button>
+                </div>
+              </div>
+            </div>
+          </motion.div>
+        </>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default ExportServersDialog;
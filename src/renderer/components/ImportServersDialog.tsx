@@ -0,0 +1,423 @@
+import React, { useEffect, useState } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import {
+  ArrowDownTrayIcon,
+  DocumentTextIcon,
+  ExclamationTriangleIcon,
+  FolderOpenIcon,
+  XMarkIcon,
+} from "@heroicons/react/24/outline";
+import { ServerConfig } from "../../shared/types";
+import {
+  ImportedServer,
+  ServerConfigFileSource,
+  SERVER_CONFIG_FORMATS,
+  parseServerConfigFile,
+} from "../../shared/serverConfigFormats";
+
+interface ImportServersDialogProps {
+  open: boolean;
+  onClose: () => void;
+  existingServers: ServerConfig[];
+  onImported: () => void;
+}
+
+// What to do with an imported server whose name is already taken
+type ConflictResolution = "skip" | "rename" | "replace";
+
+interface ImportSelection {
+  selected: boolean;
+  resolution: ConflictResolution;
+}
+
+const PASTE_SOURCE = "paste";
+
+// Imports every server from a Claude Desktop, Cursor or VS Code config file.
+// The client's own config files are found automatically; project files such
+// as .vscode/mcp.json can be opened or pasted.
+const ImportServersDialog: React.FC<ImportServersDialogProps> = ({
+  open,
+  onClose,
+  existingServers,
+  onImported,
+}) => {
+  const [sources, setSources] = useState<ServerConfigFileSource[]>([]);
+  const [activeSource, setActiveSource] = useState<string | null>(null);
+  const [pastedJson, setPastedJson] = useState("");
+  const [pasteError, setPasteError] = useState<string | null>(null);
+  const [pastedServers, setPastedServers] = useState<ImportedServer[]>([]);
+  const [selections, setSelections] = useState<ImportSelection[]>([]);
+  const [importing, setImporting] = useState(false);
+  const [importError, setImportError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+
+    window.electronAPI
+      .detectServerConfigFiles()
+      .then((found) => {
+        setSources(found);
+        setActiveSource(found.length > 0 ? found[0].path : PASTE_SOURCE);
+      })
+      .catch((error: any) => {
+        console.error("Failed to detect server config files:", error);
+        setActiveSource(PASTE_SOURCE);
+      });
+  }, [open]);
+
+  const source = sources.find((s) => s.path === activeSource);
+  const servers =
+    activeSource === PASTE_SOURCE ? pastedServers : source?.servers || [];
+
+  const existingByName = (name: string) =>
+    existingServers.find((server) => server.name === name);
+
+  // Reset the preview whenever another set of servers is shown
+  useEffect(() => {
+    setSelections(
+      servers.map((server) => ({
+        selected: !existingByName(server.config.name),
+        resolution: "skip",
+      }))
+    );
+    setImportError(null);
+  }, [activeSource, pastedServers, sources]);
+
+  const openFile = async () => {
+    try {
+      const opened = await window.electronAPI.openServerConfigFile();
+      if (!opened) return;
+      setSources((prev) => [
+        ...prev.filter((s) => s.path !== opened.path),
+        opened,
+      ]);
+      setActiveSource(opened.path);
+    } catch (error) {
+      console.error("Failed to open server config file:", error);
+    }
+  };
+
+  const parsePasted = () => {
+    try {
+      setPastedServers(parseServerConfigFile(pastedJson).servers);
+      setPasteError(null);
+    } catch (error) {
+      setPastedServers([]);
+      setPasteError(
+        error instanceof Error ? error.message : "Invalid configuration"
+      );
+    }
+  };
+
+  const updateSelection = (index: number, update: Partial<ImportSelection>) => {
+    setSelections((prev) =>
+      prev.map((selection, i) =>
+        i === index ? { ...selection, ...update } : selection
+      )
+    );
+  };
+
+  const uniqueName = (name: string, taken: Set<string>) => {
+    let candidate = `${name} (imported)`;
+    for (let n = 2; taken.has(candidate); n++) {
+      candidate = `${name} (imported ${n})`;
+    }
+    return candidate;
+  };
+
+  const handleImport = async () => {
+    setImporting(true);
+    setImportError(null);
+    const taken = new Set(existingServers.map((server) => server.name));
+    const failed: string[] = [];
+
+    for (const [index, server] of servers.entries()) {
+      const selection = selections[index];
+      if (!selection?.selected) continue;
+
+      const existing = existingByName(server.config.name);
+      try {
+        if (existing && selection.resolution === "replace") {
+          await window.electronAPI.updateServer(existing.id, {
+            ...server.config,
+            id: existing.id,
+          });
+        } else if (existing && selection.resolution === "skip") {
+          continue;
+        } else {
+          const name = existing
+            ? uniqueName(server.config.name, taken)
+            : server.config.name;
+          taken.add(name);
+          await window.electronAPI.addServer({ ...server.config, name });
+        }
+      } catch (error) {
+        console.error(`Failed to import server ${server.config.name}:`, error);
+        failed.push(server.config.name);
+      }
+    }
+
+    setImporting(false);
+    onImported();
+    if (failed.length > 0) {
+      setImportError(`Failed to import ${failed.join(", ")}`);
+    } else {
+      handleClose();
+    }
+  };
+
+  const handleClose = () => {
+    setPastedJson("");
+    setPastedServers([]);
+    setPasteError(null);
+    setImportError(null);
+    onClose();
+  };
+
+  const importCount = servers.filter((server, index) => {
+    const selection = selections[index];
+    return (
+      selection?.selected &&
+      !(existingByName(server.config.name) && selection.resolution === "skip")
+    );
+  }).length;
+
+  const describe = (server: ImportedServer) =>
+    server.config.type === "stdio"
+      ? [server.config.command, ...(server.config.args || [])].join(" ")
+      : server.config.url;
+
+  return (
+    <AnimatePresence>
+      {open && (
+        <>
+          {/* Backdrop */}
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50"
+            onClick={handleClose}
+          />
+
+          {/* Dialog */}
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95, y: 20 }}
+            animate={{ opacity: 1, scale: 1, y: 0 }}
+            exit={{ opacity: 0, scale: 0.95, y: 20 }}
+            transition={{ type: "spring", duration: 0.3 }}
+            className="fixed inset-0 z-50 flex items-center justify-center p-4 pointer-events-none"
+          >
+            <div className="bg-zinc-900 border border-zinc-700 rounded-xl shadow-2xl w-full max-w-3xl max-h-[85vh] flex flex-col overflow-hidden pointer-events-auto">
+              {/* Header */}
+              <div className="flex items-center justify-between p-6 border-b border-zinc-700">
+                <div className="flex items-center space-x-3">
+                  <div className="p-2 rounded-lg bg-indigo-500/20">
+                    <ArrowDownTrayIcon className="w-6 h-6 text-indigo-400" />
+                  </div>
+                  <div>
+                    <h2 className="text-xl font-semibold text-zinc-100">
+                      Import Servers
+                    </h2>
+                    <p className="text-sm text-zinc-400">
+                      From Claude Desktop, Cursor or VS Code
+                    </p>
+                  </div>
+                </div>
+                <button
+                  onClick={handleClose}
+                  className="p-2 hover:bg-zinc-800 rounded-lg transition-colors duration-200"
+                  aria-label="Close"
+                >
+                  <XMarkIcon className="w-5 h-5 text-zinc-400" />
+                </button>
+              </div>
+
+              {/* Sources */}
+              <div className="flex flex-wrap gap-2 px-6 pt-4">
+                {sources.map((s) => (
+                  <button
+                    key={s.path}
+                    onClick={() => setActiveSource(s.path)}
+                    title={s.path}
+                    className={`px-3 py-1.5 text-sm rounded-lg border transition-colors duration-200 ${
+                      activeSource === s.path
+                        ? "border-indigo-500 bg-indigo-500/20 text-indigo-200"
+                        : "border-zinc-700 text-zinc-300 hover:bg-zinc-800"
+                    }`}
+                  >
+                    {SERVER_CONFIG_FORMATS[s.format].label}
+                    <span className="ml-1 text-zinc-500">
+                      ({s.error ? "error" : s.servers.length})
+                    </span>
+                  </button>
+                ))}
+                <button
+                  onClick={() => setActiveSource(PASTE_SOURCE)}
+                  className={`px-3 py-1.5 text-sm rounded-lg border flex items-center space-x-1 transition-colors duration-200 ${
+                    activeSource === PASTE_SOURCE
+                      ? "border-indigo-500 bg-indigo-500/20 text-indigo-200"
+                      : "border-zinc-700 text-zinc-300 hover:bg-zinc-800"
+                  }`}
+                >
+                  <DocumentTextIcon className="w-4 h-4" />
+                  <span>Paste JSON</span>
+                </button>
+                <button
+                  onClick={openFile}
+                  className="px-3 py-1.5 text-sm rounded-lg border border-zinc-700 text-zinc-300 hover:bg-zinc-800 flex items-center space-x-1 transition-colors duration-200"
+                >
+                  <FolderOpenIcon className="w-4 h-4" />
+                  <span>Open File...</span>
+                </button>
+              </div>
+
+              {/* Content */}
+              <div className="flex-1 overflow-y-auto p-6 space-y-4">
+                {source && (
+                  <p className="text-xs text-zinc-500 font-mono break-all">
+                    {source.path}
+                  </p>
+                )}
+                {source?.error && (
+                  <p className="text-sm text-red-400 flex items-center">
+                    <ExclamationTriangleIcon className="w-4 h-4 mr-1" />
+                    {source.error}
+                  </p>
+                )}
+
+                {activeSource === PASTE_SOURCE && (
+                  <div className="space-y-2">
+                    <textarea
+                      value={pastedJson}
+                      onChange={(e) => setPastedJson(e.target.value)}
+                      placeholder={`{\n  "mcpServers": { ... }\n}`}
+                      rows={8}
+                      className="w-full text-sm font-mono text-zinc-200 bg-zinc-800 border border-zinc-700 rounded-lg px-3 py-2 focus:outline-none focus:border-indigo-500"
+                    />
+                    {pasteError && (
+                      <p className="text-sm text-red-400 flex items-center">
+                        <ExclamationTriangleIcon className="w-4 h-4 mr-1" />
+                        {pasteError}
+                      </p>
+                    )}
+                    <button
+                      onClick={parsePasted}
+                      disabled={!pastedJson.trim()}
+                      className="px-4 py-2 text-sm bg-zinc-700 text-zinc-300 rounded-lg hover:bg-zinc-600 transition-colors duration-200 disabled:opacity-50"
+                    >
+                      Preview
+                    </button>
+                  </div>
+                )}
+
+                {/* Per-server preview */}
+                {servers.map((server, index) => {
+                  const existing = existingByName(server.config.name);
+                  const selection = selections[index];
+                  return (
+                    <div
+                      key={`${server.config.name}-${index}`}
+                      className="border border-zinc-700 rounded-lg p-3 space-y-2"
+                    >
+                      <div className="flex items-start justify-between gap-3">
+                        <label className="flex items-start space-x-3 min-w-0">
+                          <input
+                            type="checkbox"
+                            checked={selection?.selected || false}
+                            onChange={(e) =>
+                              updateSelection(index, {
+                                selected: e.target.checked,
+                              })
+                            }
+                            className="mt-1"
+                          />
+                          <div className="min-w-0">
+                            <div className="text-sm font-medium text-zinc-100">
+                              {server.config.name}
+                              <span className="ml-2 text-xs text-zinc-500">
+                                {server.config.type}
+                              </span>
+                            </div>
+                            <div className="text-xs text-zinc-400 font-mono truncate">
+                              {describe(server)}
+                            </div>
+                          </div>
+                        </label>
+
+                        {existing && (
+                          <select
+                            value={selection?.resolution || "skip"}
+                            onChange={(e) =>
+                              updateSelection(index, {
+                                resolution: e.target
+                                  .value as ConflictResolution,
+                              })
+                            }
+                            disabled={!selection?.selected}
+                            className="text-xs text-zinc-200 bg-zinc-800 border border-zinc-700 rounded-lg px-2 py-1 disabled:opacity-50"
+                          >
+                            <option value="skip">Keep existing</option>
+                            <option value="rename">Import as copy</option>
+                            <option value="replace">Replace existing</option>
+                          </select>
+                        )}
+                      </div>
+
+                      {existing && (
+                        <p className="text-xs text-amber-400">
+                          A server named "{server.config.name}" already exists
+                        </p>
+                      )}
+                      {server.warnings.map((warning) => (
+                        <p
+                          key={warning}
+                          className="text-xs text-amber-400 flex items-center"
+                        >
+                          <ExclamationTriangleIcon className="w-3.5 h-3.5 mr-1" />
+                          {warning}
+                        </p>
+                      ))}
+                    </div>
+                  );
+                })}
+
+                {source && !source.error && servers.length === 0 && (
+                  <p className="text-sm text-zinc-400">
+                    No servers in this file
+                  </p>
+                )}
+              </div>
+
+              {/* Footer */}
+              <div className="flex items-center justify-between p-6 border-t border-zinc-700">
+                <p className="text-xs text-red-400">{importError}</p>
+                <div className="flex items-center space-x-3">
+                  <button
+                    onClick={handleClose}
+                    className="px-4 py-2 text-sm font-medium text-zinc-400 hover:text-zinc-300 hover:bg-zinc-800 rounded-lg transition-all duration-200"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    onClick={handleImport}
+                    disabled={importCount === 0 || importing}
+                    className="px-6 py-2 text-sm font-medium rounded-lg transition-all duration-200 bg-blue-500 text-white hover:bg-blue-600 disabled:opacity-50"
+                  >
+                    {importing
+                      ? "Importing..."
+                      : `Import ${importCount} server${
+                          importCount === 1 ? "" : "s"
+                        }`}
+                  </button>
+                </div>
+              </div>
+            </div>
+          </motion.div>
+        </>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default ImportServersDialog;
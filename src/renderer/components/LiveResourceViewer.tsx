@@ -0,0 +1,203 @@
+import React, { useEffect, useState } from "react";
+import {
+  Paper,
+  Typography,
+  Box,
+  Button,
+  Chip,
+  Alert,
+  Stack,
+} from "@mui/material";
+import { NotificationsOff as UnsubscribeIcon } from "@mui/icons-material";
+import { Resource, ResourceUpdatedEvent } from "../../shared/types";
+
+interface LiveResourceViewerProps {
+  serverId: string;
+  resource: Resource;
+  initialContents: any[];
+  onUnsubscribe: () => void;
+}
+
+interface DiffLine {
+  type: "same" | "added" | "removed";
+  text: string;
+}
+
+// Beyond this many line pairs the LCS table gets too large to build
+const MAX_DIFF_CELLS = 1_000_000;
+
+const contentsToText = (contents: any[] | undefined): string =>
+  (contents || [])
+    .map((content) =>
+      typeof content.text === "string"
+        ? content.text
+        : content.blob
+        ? `[binary ${content.mimeType || "data"}, ${content.blob.length} bytes base64]`
+        : JSON.stringify(content, null, 2)
+    )
+    .join("\n");
+
+// Line diff based on the longest common subsequence
+const diffLines = (before: string, after: string): DiffLine[] => {
+  const a = before.split("\n");
+  const b = after.split("\n");
+
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    return [
+      ...a.map((text) => ({ type: "removed" as const, text })),
+      ...b.map((text) => ({ type: "added" as const, text })),
+    ];
+  }
+
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () =>
+    new Array(b.length + 1).fill(0)
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] =
+        a[i] === b[j]
+          ? lcs[i + 1][j + 1] + 1
+          : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ type: "same", text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      lines.push({ type: "removed", text: a[i++] });
+    } else {
+      lines.push({ type: "added", text: b[j++] });
+    }
+  }
+  while (i < a.length) lines.push({ type: "removed", text: a[i++] });
+  while (j < b.length) lines.push({ type: "added", text: b[j++] });
+
+  return lines;
+};
+
+const lineStyles: Record<DiffLine["type"], React.CSSProperties> = {
+  same: { color: "inherit" },
+  added: { color: "#4ade80", backgroundColor: "rgba(74, 222, 128, 0.1)" },
+  removed: { color: "#f87171", backgroundColor: "rgba(248, 113, 113, 0.1)" },
+};
+
+const linePrefix: Record<DiffLine["type"], string> = {
+  same: "  ",
+  added: "+ ",
+  removed: "- ",
+};
+
+const LiveResourceViewer: React.FC<LiveResourceViewerProps> = ({
+  serverId,
+  resource,
+  initialContents,
+  onUnsubscribe,
+}) => {
+  const [texts, setTexts] = useState<{
+    previous: string | null;
+    current: string;
+  }>({ previous: null, current: contentsToText(initialContents) });
+  const [lastUpdated, setLastUpdated] = useState<Date>(new Date());
+  const [updateCount, setUpdateCount] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const [showDiff, setShowDiff] = useState(true);
+
+  useEffect(() => {
+    if (!window.electronAPI) return;
+
+    const unsubscribe = window.electronAPI.on(
+      "resource-updated",
+      (event: ResourceUpdatedEvent) => {
+        if (event.serverId !== serverId || event.uri !== resource.uri) return;
+
+        if (event.error) {
+          setError(event.error);
+          return;
+        }
+
+        const nextText = contentsToText(event.contents);
+        setError(null);
+        setTexts((prev) => ({ previous: prev.current, current: nextText }));
+        setLastUpdated(new Date(event.timestamp));
+        setUpdateCount((count) => count + 1);
+      }
+    );
+
+    return unsubscribe;
+  }, [serverId, resource.uri]);
+
+  const { previous: previousText, current: currentText } = texts;
+  const lines: DiffLine[] =
+    showDiff && previousText !== null
+      ? diffLines(previousText, currentText)
+      : currentText.split("\n").map((text) => ({ type: "same", text }));
+
+  return (
+    <Paper
+      variant="outlined"
+      sx={{ p: 2, borderColor: "primary.main", borderStyle: "dashed" }}
+    >
+      <Box sx={{ display: "flex", alignItems: "center", mb: 1, gap: 1 }}>
+        <Typography variant="subtitle1" sx={{ flexGrow: 1 }}>
+          {resource.name || resource.uri}
+        </Typography>
+        <Chip label="Live" size="small" color="success" />
+        <Chip
+          label={`${updateCount} update${updateCount === 1 ? "" : "s"}`}
+          size="small"
+        />
+        <Button
+          size="small"
+          onClick={() => setShowDiff(!showDiff)}
+          disabled={previousText === null}
+        >
+          {showDiff ? "Show Latest" : "Show Diff"}
+        </Button>
+        <Button
+          size="small"
+          color="warning"
+          startIcon={<UnsubscribeIcon />}
+          onClick={onUnsubscribe}
+        >
+          Unsubscribe
+        </Button>
+      </Box>
+
+      <Typography variant="caption" color="text.secondary">
+        {resource.uri} · last updated {lastUpdated.toLocaleTimeString()}
+      </Typography>
+
+      <Stack spacing={1} sx={{ mt: 1 }}>
+        {error && <Alert severity="error">{error}</Alert>}
+        <Box
+          component="pre"
+          sx={{
+            m: 0,
+            p: 1.5,
+            fontSize: "12px",
+            maxHeight: 320,
+            overflow: "auto",
+            backgroundColor: "rgba(255, 255, 255, 0.05)",
+            border: "1px solid rgba(255, 255, 255, 0.1)",
+            borderRadius: 1,
+          }}
+        >
+          {lines.map((line, index) => (
+            <div key={index} style={lineStyles[line.type]}>
+              {previousText !== null && showDiff ? linePrefix[line.type] : ""}
+              {line.text}
+            </div>
+          ))}
+        </Box>
+      </Stack>
+    </Paper>
+  );
+};
+
+export default LiveResourceViewer;
@@ -6,8 +6,6 @@ import {
   ServerIcon,
   CpuChipIcon,
   SparklesIcon,
-  EyeIcon,
-  EyeSlashIcon,
   CheckCircleIcon,
   ExclamationTriangleIcon,
   TrashIcon,
@@ -16,6 +14,7 @@ import {
   GlobeAltIcon,
 } from "@heroicons/react/24/outline";
 import { ModelConfig, LLMProvider, AvailableModel } from "../../shared/types";
+import { SecretInput } from "./SecretInput";
 
 interface ModelConfigModalProps {
   isOpen: boolean;
@@ -110,12 +109,12 @@ export const ModelConfigModal: React.FC<ModelConfigModalProps> = ({
     modelId: config?.modelId || "",
     enabled: config?.enabled ?? true,
     isDefault: config?.isDefault || false,
+    systemPrompt: config?.systemPrompt || "",
     config: config?.config || undefined,
     parameters: config?.parameters || {},
   });
 
   const [availableModels, setAvailableModels] = useState<AvailableModel[]>([]);
-  const [showApiKey, setShowApiKey] = useState(false);
   const [testingConnection, setTestingConnection] = useState(false);
   const [testResult, setTestResult] = useState<{ success: boolean; error?: string } | null>(null);
 
@@ -211,6 +210,7 @@ export const ModelConfigModal: React.FC<ModelConfigModalProps> = ({
       modelId: formData.modelId,
       enabled: formData.enabled!,
       isDefault: formData.isDefault,
+      ...(formData.systemPrompt?.trim() && { systemPrompt: formData.systemPrompt.trim() }),
       config: formData.config as any,
       parameters: formData.parameters,
     };
@@ -355,26 +355,12 @@ export const ModelConfigModal: React.FC<ModelConfigModalProps> = ({
                           <label className="block text-xs font-medium text-gray-400 mb-1">
                             API Key
                           </label>
-                          <div className="relative">
-                            <input
-                              type={showApiKey ? "text" : "password"}
-                              value={(formData.config as any)?.apiKey || ""}
-                              onChange={(e) => handleConfigChange("apiKey", e.target.value)}
-                              className="w-full px-3 py-2 pr-10 bg-gray-800 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                              placeholder="Your Watsonx API key"
-                            />
-                            <button
-                              type="button"
-                              onClick={() => setShowApiKey(!showApiKey)}
-                              className="absolute right-2 top-1/2 -translate-y-1/2 p-1 hover:bg-gray-700 rounded"
-                            >
-                              {showApiKey ? (
-                                <EyeSlashIcon className="w-4 h-4 text-gray-400" />
-                              ) : (
-                                <EyeIcon className="w-4 h-4 text-gray-400" />
-                              )}
-                            </button>
-                          </div>
+                          <SecretInput
+                            value={(formData.config as any)?.apiKey || ""}
+                            onChange={(value) => handleConfigChange("apiKey", value)}
+                            className="w-full px-3 py-2 bg-gray-800 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                            placeholder="Your Watsonx API key"
+                          />
                         </div>
                         <div>
                           <label className="block text-xs font-medium text-gray-400 mb-1">
@@ -412,26 +398,12 @@ export const ModelConfigModal: React.FC<ModelConfigModalProps> = ({
                           <label className="block text-xs font-medium text-gray-400 mb-1">
                             API Key
                           </label>
-                          <div className="relative">
-                            <input
-                              type={showApiKey ? "text" : "password"}
-                              value={(formData.config as any)?.apiKey || ""}
-                              onChange={(e) => handleConfigChange("apiKey", e.target.value)}
-                              className="w-full px-3 py-2 pr-10 bg-gray-800 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                              placeholder="sk-..."
-                            />
-                            <button
-                              type="button"
-                              onClick={() => setShowApiKey(!showApiKey)}
-                              className="absolute right-2 top-1/2 -translate-y-1/2 p-1 hover:bg-gray-700 rounded"
-                            >
-                              {showApiKey ? (
-                                <EyeSlashIcon className="w-4 h-4 text-gray-400" />
-                              ) : (
-                                <EyeIcon className="w-4 h-4 text-gray-400" />
-                              )}
-                            </button>
-                          </div>
+                          <SecretInput
+                            value={(formData.config as any)?.apiKey || ""}
+                            onChange={(value) => handleConfigChange("apiKey", value)}
+                            className="w-full px-3 py-2 bg-gray-800 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                            placeholder="sk-..."
+                          />
                         </div>
                         <div>
                           <label className="block text-xs font-medium text-gray-400 mb-1">
@@ -456,26 +428,12 @@ export const ModelConfigModal: React.FC<ModelConfigModalProps> = ({
                         <label className="block text-xs font-medium text-gray-400 mb-1">
                           API Key
                         </label>
-                        <div className="relative">
-                          <input
-                            type={showApiKey ? "text" : "password"}
-                            value={(formData.config as any)?.apiKey || ""}
-                            onChange={(e) => handleConfigChange("apiKey", e.target.value)}
-                            className="w-full px-3 py-2 pr-10 bg-gray-800 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                            placeholder="sk-ant-..."
-                          />
-                          <button
-                            type="button"
-                            onClick={() => setShowApiKey(!showApiKey)}
-                            className="absolute right-2 top-1/2 -translate-y-1/2 p-1 hover:bg-gray-700 rounded"
-                          >
-                            {showApiKey ? (
-                              <EyeSlashIcon className="w-4 h-4 text-gray-400" />
-                            ) : (
-                              <EyeIcon className="w-4 h-4 text-gray-400" />
-                            )}
-                          </button>
-                        </div>
+                        <SecretInput
+                          value={(formData.config as any)?.apiKey || ""}
+                          onChange={(value) => handleConfigChange("apiKey", value)}
+                          className="w-full px-3 py-2 bg-gray-800 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                          placeholder="sk-ant-..."
+                        />
                       </div>
                     </div>
                   )}
@@ -531,9 +489,42 @@ export const ModelConfigModal: React.FC<ModelConfigModalProps> = ({
                           className="w-full px-3 py-2 bg-gray-800 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                         />
                       </div>
+                      <div className="col-span-2">
+                        <label htmlFor="contextWindow" className="block text-xs font-medium text-gray-400 mb-1">
+                          Context Window (tokens)
+                        </label>
+                        <input
+                          id="contextWindow"
+                          type="number"
+                          min="1"
+                          value={formData.parameters?.contextWindow || ""}
+                          onChange={(e) => handleParameterChange("contextWindow", e.target.value ? parseInt(e.target.value) : undefined)}
+                          placeholder="From model list"
+                          className="w-full px-3 py-2 bg-gray-800 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        />
+                        <p className="mt-1 text-xs text-gray-500">Older turns are summarised as the chat nears this size. Leave empty to use the window known for the model.</p>
+                      </div>
                     </div>
                   </div>
 
+                  {/* System Prompt */}
+                  <div className="space-y-2">
+                    <label htmlFor="systemPrompt" className="block text-sm font-medium text-gray-300">
+                      System Prompt
+                    </label>
+                    <textarea
+                      id="systemPrompt"
+                      rows={3}
+                      value={formData.systemPrompt || ""}
+                      onChange={(e) => setFormData(prev => ({ ...prev, systemPrompt: e.target.value }))}
+                      placeholder="Instructions added whenever this model is used, e.g. formatting this model needs"
+                      className="w-full px-3 py-2 bg-gray-800 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+                    />
+                    <p className="text-xs text-gray-500">
+                      Added after the persona's prompt. Supports {"{{date}}"}, {"{{servers}}"} and the other prompt variables.
+                    </p>
+                  </div>
+
                   {/* Options */}
                   <div className="space-y-3">
                     <div className="flex items-center gap-3">
@@ -20,6 +20,7 @@ import { StarIcon as StarIconSolid } from "@heroicons/react/24/solid";
 import { ModelConfig, LLMProvider, AvailableModel } from "../../shared/types";
 import { ModelConfigModal } from "./ModelConfigModal";
 import ConfirmDialog from "./ConfirmDialog";
+import { isSecretRef } from "../../shared/secrets";
 
 const PROVIDER_INFO = {
   watsonx: {
@@ -78,7 +79,7 @@ export const ModelManagement: React.FC<ModelManagementProps> = ({ className = ""
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
   const [configToDelete, setConfigToDelete] = useState<ModelConfig | null>(null);
   const [loading, setLoading] = useState(true);
-  const [showApiKeys, setShowApiKeys] = useState<Record<string, boolean>>({});
+  const [revealedApiKeys, setRevealedApiKeys] = useState<Record<string, string>>({});
 
   useEffect(() => {
     loadData();
@@ -147,11 +148,25 @@ export const ModelManagement: React.FC<ModelManagementProps> = ({ className = ""
     }
   };
 
-  const toggleApiKeyVisibility = (configId: string) => {
-    setShowApiKeys(prev => ({
-      ...prev,
-      [configId]: !prev[configId],
-    }));
+  const toggleApiKeyVisibility = async (config: ModelConfig) => {
+    if (revealedApiKeys[config.id] !== undefined) {
+      setRevealedApiKeys(prev => {
+        const { [config.id]: _, ...rest } = prev;
+        return rest;
+      });
+      return;
+    }
+
+    // Saved keys only reach the renderer when the user asks to see them
+    const apiKey = getApiKey(config);
+    try {
+      const revealed = isSecretRef(apiKey)
+        ? await window.electronAPI.revealSecret(apiKey)
+        : apiKey;
+      setRevealedApiKeys(prev => ({ ...prev, [config.id]: revealed }));
+    } catch (error) {
+      console.error("Failed to reveal API key:", error);
+    }
   };
 
   const getApiKey = (config: ModelConfig): string => {
@@ -161,7 +176,7 @@ export const ModelManagement: React.FC<ModelManagementProps> = ({ className = ""
 
   const getMaskedApiKey = (apiKey: string): string => {
     if (!apiKey) return "";
-    if (apiKey.length <= 8) return "••••••••";
+    if (isSecretRef(apiKey) || apiKey.length <= 8) return "••••••••";
     return apiKey.slice(0, 4) + "••••••••" + apiKey.slice(-4);
   };
 
@@ -228,7 +243,8 @@ export const ModelManagement: React.FC<ModelManagementProps> = ({ className = ""
           {modelConfigs.map((config) => {
             const providerInfo = PROVIDER_INFO[config.provider];
             const apiKey = getApiKey(config);
-            const showKey = showApiKeys[config.id];
+            const revealedKey = revealedApiKeys[config.id];
+            const showKey = revealedKey !== undefined;
 
             return (
               <motion.div
@@ -281,10 +297,10 @@ export const ModelManagement: React.FC<ModelManagementProps> = ({ className = ""
                           <div className="flex items-center gap-2">
                             <span className="font-medium">API Key:</span>
                             <span className="font-mono text-xs">
-                              {showKey ? apiKey : getMaskedApiKey(apiKey)}
+                              {showKey ? revealedKey : getMaskedApiKey(apiKey)}
                             </span>
                             <button
-                              onClick={() => toggleApiKeyVisibility(config.id)}
+                              onClick={() => toggleApiKeyVisibility(config)}
                               className="p-1 hover:bg-gray-700 rounded transition-colors"
                               aria-label={showKey ? "Hide API key" : "Show API key"}
                             >
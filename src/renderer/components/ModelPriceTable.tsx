@@ -0,0 +1,204 @@
+import React, { useEffect, useState } from "react";
+import { PlusIcon, TrashIcon } from "@heroicons/react/24/outline";
+import { LLMProvider, ModelPrice } from "../../shared/types";
+
+interface ModelPriceTableProps {
+  onSaved?: () => void;
+}
+
+const PROVIDERS: { id: LLMProvider; name: string }[] = [
+  { id: "openai", name: "OpenAI" },
+  { id: "anthropic", name: "Anthropic" },
+  { id: "azure", name: "Azure OpenAI" },
+  { id: "watsonx", name: "IBM Watsonx" },
+  { id: "groq", name: "Groq" },
+  { id: "cohere", name: "Cohere" },
+  { id: "ollama", name: "Ollama" },
+];
+
+const cellInputClasses =
+  "w-full px-2 py-1 bg-gray-900 border border-gray-700 rounded text-white text-sm focus:outline-none focus:border-blue-500";
+
+// The per-provider price table that usage costs are worked out from
+export const ModelPriceTable: React.FC<ModelPriceTableProps> = ({
+  onSaved,
+}) => {
+  const [prices, setPrices] = useState<ModelPrice[]>([]);
+  const [dirty, setDirty] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadPrices = async () => {
+    try {
+      setPrices(await window.electronAPI.getModelPrices());
+      setDirty(false);
+    } catch (error) {
+      console.error("Failed to load model prices:", error);
+    }
+  };
+
+  useEffect(() => {
+    loadPrices();
+  }, []);
+
+  const updatePrice = (index: number, patch: Partial<ModelPrice>) => {
+    setPrices((prev) =>
+      prev.map((price, i) => (i === index ? { ...price, ...patch } : price))
+    );
+    setDirty(true);
+  };
+
+  const addPrice = () => {
+    setPrices((prev) => [
+      ...prev,
+      {
+        provider: "openai",
+        modelId: "",
+        inputPerMillion: 0,
+        outputPerMillion: 0,
+      },
+    ]);
+    setDirty(true);
+  };
+
+  const removePrice = (index: number) => {
+    setPrices((prev) => prev.filter((_, i) => i !== index));
+    setDirty(true);
+  };
+
+  const handleSave = async () => {
+    setError(null);
+    try {
+      setPrices(await window.electronAPI.saveModelPrices(prices));
+      setDirty(false);
+      onSaved?.();
+    } catch (error) {
+      console.error("Failed to save model prices:", error);
+      setError(error instanceof Error ? error.message : "Failed to save");
+    }
+  };
+
+  return (
+    <div className="bg-gray-800 border border-gray-700 rounded-lg p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="font-medium text-white">Prices</h3>
+          <p className="text-gray-400 text-sm">
+            USD per million tokens. A model id matches models that start with
+            it; leave it empty to price every model of the provider.
+          </p>
+        </div>
+        <button
+          onClick={addPrice}
+          className="flex items-center gap-2 px-3 py-1.5 text-sm text-gray-300 hover:bg-gray-700 rounded-lg transition-colors flex-shrink-0"
+        >
+          <PlusIcon className="w-4 h-4" />
+          Add Price
+        </button>
+      </div>
+
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-xs text-gray-400">
+            <th className="pb-2 pr-2 font-medium">Provider</th>
+            <th className="pb-2 pr-2 font-medium">Model id</th>
+            <th className="pb-2 pr-2 font-medium w-28">Input</th>
+            <th className="pb-2 pr-2 font-medium w-28">Output</th>
+            <th className="pb-2 w-8" />
+          </tr>
+        </thead>
+        <tbody>
+          {prices.map((price, index) => (
+            <tr key={index}>
+              <td className="py-1 pr-2">
+                <select
+                  value={price.provider}
+                  onChange={(e) =>
+                    updatePrice(index, {
+                      provider: e.target.value as LLMProvider,
+                    })
+                  }
+                  className={cellInputClasses}
+                >
+                  {PROVIDERS.map((provider) => (
+                    <option key={provider.id} value={provider.id}>
+                      {provider.name}
+                    </option>
+                  ))}
+                </select>
+              </td>
+              <td className="py-1 pr-2">
+                <input
+                  value={price.modelId}
+                  onChange={(e) =>
+                    updatePrice(index, { modelId: e.target.value })
+                  }
+                  placeholder="All models"
+                  className={`${cellInputClasses} font-mono`}
+                />
+              </td>
+              <td className="py-1 pr-2">
+                <input
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={price.inputPerMillion}
+                  onChange={(e) =>
+                    updatePrice(index, {
+                      inputPerMillion: parseFloat(e.target.value) || 0,
+                    })
+                  }
+                  className={cellInputClasses}
+                />
+              </td>
+              <td className="py-1 pr-2">
+                <input
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={price.outputPerMillion}
+                  onChange={(e) =>
+                    updatePrice(index, {
+                      outputPerMillion: parseFloat(e.target.value) || 0,
+                    })
+                  }
+                  className={cellInputClasses}
+                />
+              </td>
+              <td className="py-1 text-right">
+                <button
+                  onClick={() => removePrice(index)}
+                  className="p-1 hover:bg-gray-700 text-gray-400 hover:text-red-400 rounded transition-colors"
+                  title="Remove price"
+                  aria-label={`Remove price for ${
+                    price.modelId || price.provider
+                  }`}
+                >
+                  <TrashIcon className="w-4 h-4" />
+                </button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+
+      {dirty && (
+        <div className="flex justify-end gap-2">
+          <button
+            onClick={loadPrices}
+            className="px-4 py-2 text-gray-300 hover:bg-gray-700 rounded-lg transition-colors"
+          >
+            Discard
+          </button>
+          <button
+            onClick={handleSave}
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors"
+          >
+            Save Prices
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -8,6 +8,7 @@ import {
   CommandLineIcon,
   GlobeAltIcon,
 } from "@heroicons/react/24/outline";
+import ProfileSwitcher from "./ProfileSwitcher";
 
 interface NavigationProps {
   selectedTab: string;
@@ -111,6 +112,9 @@ const Navigation: React.FC<NavigationProps> = ({
             : "❌ MISSING"}
         </div>
       )}
+      <div className="pb-2">
+        <ProfileSwitcher />
+      </div>
       {navItems.map((item) => {
         const Icon = item.icon;
         const isActive = selectedTab === item.id;
@@ -0,0 +1,477 @@
+import React, { useEffect, useRef, useState } from "react";
+import { motion } from "framer-motion";
+import {
+  PlusIcon,
+  PencilIcon,
+  TrashIcon,
+  UserCircleIcon,
+} from "@heroicons/react/24/outline";
+import { ModelConfig, Persona } from "../../shared/types";
+import { PROMPT_VARIABLES } from "../../shared/promptVariables";
+import ConfirmDialog from "./ConfirmDialog";
+
+interface PersonaManagementProps {
+  className?: string;
+}
+
+interface PersonaDraft {
+  id?: string;
+  name: string;
+  description: string;
+  systemPrompt: string;
+  defaultModelId: string;
+  allowedServerIds?: string[]; // Undefined allows every server
+  allowedTools?: string[]; // Undefined allows every tool
+}
+
+const EMPTY_DRAFT: PersonaDraft = {
+  name: "",
+  description: "",
+  systemPrompt: "",
+  defaultModelId: "",
+};
+
+const inputClasses =
+  "w-full px-3 py-2 bg-gray-900 border border-gray-700 rounded-lg text-white text-sm focus:outline-none focus:border-blue-500";
+
+export const PersonaManagement: React.FC<PersonaManagementProps> = ({
+  className = "",
+}) => {
+  const [personas, setPersonas] = useState<Persona[]>([]);
+  const [modelConfigs, setModelConfigs] = useState<ModelConfig[]>([]);
+  const [servers, setServers] = useState<any[]>([]);
+  const [tools, setTools] = useState<any[]>([]);
+  const [draft, setDraft] = useState<PersonaDraft | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [personaToDelete, setPersonaToDelete] = useState<Persona | null>(null);
+  const promptRef = useRef<HTMLTextAreaElement>(null);
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  const loadData = async () => {
+    try {
+      const [personaList, configs, serverList, toolList] = await Promise.all([
+        window.electronAPI.listPersonas(),
+        window.electronAPI.getModelConfigs(),
+        window.electronAPI.listServers(),
+        window.electronAPI.listTools(),
+      ]);
+      setPersonas(personaList);
+      setModelConfigs(configs);
+      setServers(serverList);
+      setTools(toolList);
+    } catch (error) {
+      console.error("Failed to load personas:", error);
+    }
+  };
+
+  const startEditing = (persona?: Persona) => {
+    setError(null);
+    setDraft(
+      persona
+        ? {
+            id: persona.id,
+            name: persona.name,
+            description: persona.description || "",
+            systemPrompt: persona.systemPrompt,
+            defaultModelId: persona.defaultModelId || "",
+            allowedServerIds: persona.allowedServerIds,
+            allowedTools: persona.allowedTools,
+          }
+        : { ...EMPTY_DRAFT }
+    );
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+    try {
+      await window.electronAPI.savePersona({
+        ...(draft.id && { id: draft.id }),
+        name: draft.name,
+        description: draft.description,
+        systemPrompt: draft.systemPrompt,
+        ...(draft.defaultModelId && { defaultModelId: draft.defaultModelId }),
+        ...(draft.allowedServerIds && {
+          allowedServerIds: draft.allowedServerIds,
+        }),
+        ...(draft.allowedTools && { allowedTools: draft.allowedTools }),
+      });
+      setDraft(null);
+      await loadData();
+    } catch (error) {
+      console.error("Failed to save persona:", error);
+      setError(error instanceof Error ? error.message : "Failed to save");
+    }
+  };
+
+  const confirmDelete = async () => {
+    if (!personaToDelete) return;
+    try {
+      await window.electronAPI.deletePersona(personaToDelete.id);
+      await loadData();
+    } catch (error) {
+      console.error("Failed to delete persona:", error);
+    } finally {
+      setPersonaToDelete(null);
+    }
+  };
+
+  // Put a {{variable}} at the cursor in the prompt
+  const insertVariable = (name: string) => {
+    if (!draft) return;
+    const textarea = promptRef.current;
+    const placeholder = `{{${name}}}`;
+    const start = textarea?.selectionStart ?? draft.systemPrompt.length;
+    const end = textarea?.selectionEnd ?? start;
+    setDraft({
+      ...draft,
+      systemPrompt:
+        draft.systemPrompt.slice(0, start) +
+        placeholder +
+        draft.systemPrompt.slice(end),
+    });
+    textarea?.focus();
+  };
+
+  const toggleIn = (list: string[] | undefined, all: string[], id: string) => {
+    const current = list || all;
+    return current.includes(id)
+      ? current.filter((item) => item !== id)
+      : [...current, id];
+  };
+
+  const toolName = (tool: any): string => tool.qualifiedName || tool.name;
+  const serverName = (id: string) =>
+    servers.find((server) => server.id === id)?.name || id;
+  const modelName = (id?: string) =>
+    modelConfigs.find((config) => config.id === id)?.name;
+
+  const renderEditor = (current: PersonaDraft) => {
+    const allServerIds = servers.map((server) => server.id);
+    const visibleTools = tools.filter(
+      (tool) =>
+        !current.allowedServerIds ||
+        current.allowedServerIds.includes(tool.serverId)
+    );
+
+    return (
+      <div className="bg-gray-800 border border-blue-500/50 rounded-lg p-4 space-y-4">
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-1">
+              Name
+            </label>
+            <input
+              value={current.name}
+              onChange={(e) => setDraft({ ...current, name: e.target.value })}
+              placeholder="Code reviewer"
+              className={inputClasses}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-1">
+              Default Model
+            </label>
+            <select
+              value={current.defaultModelId}
+              onChange={(e) =>
+                setDraft({ ...current, defaultModelId: e.target.value })
+              }
+              className={inputClasses}
+            >
+              <option value="">Keep the selected model</option>
+              {modelConfigs.map((config) => (
+                <option key={config.id} value={config.id}>
+                  {config.name}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-1">
+            Description
+          </label>
+          <input
+            value={current.description}
+            onChange={(e) =>
+              setDraft({ ...current, description: e.target.value })
+            }
+            placeholder="What this persona is for"
+            className={inputClasses}
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-1">
+            System Prompt
+          </label>
+          <textarea
+            ref={promptRef}
+            value={current.systemPrompt}
+            onChange={(e) =>
+              setDraft({ ...current, systemPrompt: e.target.value })
+            }
+            rows={8}
+            placeholder="You are a careful code reviewer. Today is {{date}}."
+            className={`${inputClasses} font-mono resize-y`}
+          />
+          <div className="flex flex-wrap items-center gap-1 mt-2">
+            <span className="text-xs text-gray-500 mr-1">Insert:</span>
+            {PROMPT_VARIABLES.map((variable) => (
+              <button
+                key={variable.name}
+                type="button"
+                onClick={() => insertVariable(variable.name)}
+                title={variable.description}
+                className="px-2 py-0.5 bg-gray-700 hover:bg-gray-600 text-gray-300 rounded text-xs font-mono transition-colors"
+              >
+                {`{{${variable.name}}}`}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <label className="flex items-center gap-2 text-sm font-medium text-gray-300 mb-2">
+            <input
+              type="checkbox"
+              checked={!current.allowedServerIds}
+              onChange={(e) =>
+                setDraft({
+                  ...current,
+                  allowedServerIds: e.target.checked ? undefined : allServerIds,
+                })
+              }
+            />
+            Use all servers
+          </label>
+          {current.allowedServerIds && (
+            <div className="grid grid-cols-2 gap-1 pl-6">
+              {servers.length === 0 && (
+                <p className="text-xs text-gray-500">No servers configured</p>
+              )}
+              {servers.map((server) => (
+                <label
+                  key={server.id}
+                  className="flex items-center gap-2 text-sm text-gray-400"
+                >
+                  <input
+                    type="checkbox"
+                    checked={current.allowedServerIds!.includes(server.id)}
+                    onChange={() =>
+                      setDraft({
+                        ...current,
+                        allowedServerIds: toggleIn(
+                          current.allowedServerIds,
+                          allServerIds,
+                          server.id
+                        ),
+                      })
+                    }
+                  />
+                  <span className="truncate">{server.name}</span>
+                </label>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div>
+          <label className="flex items-center gap-2 text-sm font-medium text-gray-300 mb-2">
+            <input
+              type="checkbox"
+              checked={!current.allowedTools}
+              onChange={(e) =>
+                setDraft({
+                  ...current,
+                  allowedTools: e.target.checked
+                    ? undefined
+                    : visibleTools.map(toolName),
+                })
+              }
+            />
+            Use all tools of the allowed servers
+          </label>
+          {current.allowedTools && (
+            <div className="max-h-48 overflow-y-auto space-y-1 pl-6">
+              {visibleTools.length === 0 && (
+                <p className="text-xs text-gray-500">
+                  Connect a server to choose its tools
+                </p>
+              )}
+              {visibleTools.map((tool) => (
+                <label
+                  key={toolName(tool)}
+                  className="flex items-center gap-2 text-sm text-gray-400"
+                >
+                  <input
+                    type="checkbox"
+                    checked={current.allowedTools!.includes(toolName(tool))}
+                    onChange={() =>
+                      setDraft({
+                        ...current,
+                        allowedTools: toggleIn(
+                          current.allowedTools,
+                          visibleTools.map(toolName),
+                          toolName(tool)
+                        ),
+                      })
+                    }
+                  />
+                  <span className="font-mono text-xs truncate">
+                    {tool.name}
+                  </span>
+                  <span className="text-xs text-gray-500 truncate">
+                    {serverName(tool.serverId)}
+                  </span>
+                </label>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {error && <p className="text-sm text-red-400">{error}</p>}
+
+        <div className="flex justify-end gap-2">
+          <button
+            onClick={() => setDraft(null)}
+            className="px-4 py-2 text-gray-300 hover:bg-gray-700 rounded-lg transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={!current.name.trim()}
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white rounded-lg transition-colors"
+          >
+            {current.id ? "Save Persona" : "Add Persona"}
+          </button>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className={`space-y-6 ${className}`}>
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-xl font-semibold text-white">Personas</h2>
+          <p className="text-gray-400 text-sm">
+            System prompts with their own model, servers and tools
+          </p>
+        </div>
+        <button
+          onClick={() => startEditing()}
+          disabled={!!draft}
+          className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white rounded-lg transition-colors"
+          aria-label="Add new persona"
+        >
+          <PlusIcon className="w-4 h-4" />
+          Add Persona
+        </button>
+      </div>
+
+      {draft && !draft.id && renderEditor(draft)}
+
+      {personas.length === 0 && !draft ? (
+        <div className="text-center py-12 bg-gray-800 border border-gray-700 rounded-lg">
+          <UserCircleIcon className="w-12 h-12 text-gray-500 mx-auto mb-4" />
+          <h3 className="text-lg font-medium text-white mb-2">No Personas</h3>
+          <p className="text-gray-400">
+            Without a persona, chats use the default assistant prompt.
+          </p>
+        </div>
+      ) : (
+        <div className="grid gap-4">
+          {personas.map((persona) =>
+            draft?.id === persona.id ? (
+              <React.Fragment key={persona.id}>
+                {renderEditor(draft)}
+              </React.Fragment>
+            ) : (
+              <motion.div
+                key={persona.id}
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                className="bg-gray-800 border border-gray-700 rounded-lg p-4"
+              >
+                <div className="flex items-start justify-between">
+                  <div className="flex items-start gap-3 flex-1 min-w-0">
+                    <div className="p-2 rounded-lg bg-blue-500/10 flex-shrink-0">
+                      <UserCircleIcon className="w-5 h-5 text-blue-400" />
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <h3 className="font-medium text-white truncate mb-1">
+                        {persona.name}
+                      </h3>
+                      {persona.description && (
+                        <p className="text-sm text-gray-400 mb-1">
+                          {persona.description}
+                        </p>
+                      )}
+                      <div className="flex flex-wrap items-center gap-4 text-xs text-gray-500">
+                        {modelName(persona.defaultModelId) && (
+                          <span>
+                            Model: {modelName(persona.defaultModelId)}
+                          </span>
+                        )}
+                        <span>
+                          Servers:{" "}
+                          {persona.allowedServerIds
+                            ? persona.allowedServerIds
+                                .map(serverName)
+                                .join(", ") || "none"
+                            : "all"}
+                        </span>
+                        <span>
+                          Tools:{" "}
+                          {persona.allowedTools
+                            ? persona.allowedTools.length
+                            : "all"}
+                        </span>
+                      </div>
+                    </div>
+                  </div>
+
+                  <div className="flex items-center gap-2 flex-shrink-0">
+                    <button
+                      onClick={() => startEditing(persona)}
+                      disabled={!!draft}
+                      className="p-2 hover:bg-gray-700 text-gray-400 hover:text-blue-400 disabled:opacity-50 rounded-lg transition-colors"
+                      title="Edit persona"
+                      aria-label={`Edit ${persona.name} persona`}
+                    >
+                      <PencilIcon className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => setPersonaToDelete(persona)}
+                      className="p-2 hover:bg-gray-700 text-gray-400 hover:text-red-400 rounded-lg transition-colors"
+                      title="Delete persona"
+                      aria-label={`Delete ${persona.name} persona`}
+                    >
+                      <TrashIcon className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+              </motion.div>
+            )
+          )}
+        </div>
+      )}
+
+      <ConfirmDialog
+        open={!!personaToDelete}
+        onCancel={() => setPersonaToDelete(null)}
+        onConfirm={confirmDelete}
+        title="Delete Persona"
+        message={`Are you sure you want to delete "${personaToDelete?.name}"? Conversations using it go back to the default prompt.`}
+        confirmText="Delete"
+      />
+    </div>
+  );
+};
@@ -0,0 +1,176 @@
+import React, { useEffect, useState } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { ChevronDownIcon, UserCircleIcon } from "@heroicons/react/24/outline";
+import { Conversation, ConversationList, Persona } from "../../shared/types";
+
+interface PersonaPickerProps {
+  onPersonaChange?: (persona: Persona | null) => void;
+  disabled?: boolean; // While a message is being answered
+}
+
+// Persona and extra instructions of the open conversation
+const PersonaPicker: React.FC<PersonaPickerProps> = ({
+  onPersonaChange,
+  disabled = false,
+}) => {
+  const [personas, setPersonas] = useState<Persona[]>([]);
+  const [conversation, setConversation] = useState<Conversation | null>(null);
+  const [isOpen, setIsOpen] = useState(false);
+  const [instructions, setInstructions] = useState("");
+
+  const loadConversation = async () => {
+    try {
+      const list: ConversationList =
+        await window.electronAPI.listConversations();
+      setConversation(
+        list.conversations.find((c) => c.id === list.activeConversationId) ||
+          null
+      );
+    } catch (error) {
+      console.error("Failed to load conversation:", error);
+    }
+  };
+
+  const loadPersonas = async () => {
+    try {
+      setPersonas(await window.electronAPI.listPersonas());
+    } catch (error) {
+      console.error("Failed to load personas:", error);
+    }
+  };
+
+  useEffect(() => {
+    if (!window.electronAPI?.listPersonas) return;
+    loadPersonas();
+    loadConversation();
+    return window.electronAPI.on("conversations-changed", loadConversation);
+  }, []);
+
+  // Personas may have been edited in settings since the last look
+  useEffect(() => {
+    if (!isOpen) return;
+    loadPersonas();
+    setInstructions(conversation?.systemPrompt || "");
+  }, [isOpen]);
+
+  const update = async (personaId?: string | null, systemPrompt?: string) => {
+    try {
+      setConversation(
+        await window.electronAPI.updateConversationPrompt({
+          ...(personaId !== undefined && { personaId }),
+          ...(systemPrompt !== undefined && { systemPrompt }),
+        })
+      );
+    } catch (error) {
+      console.error("Failed to update conversation prompt:", error);
+    }
+  };
+
+  const pickPersona = (persona: Persona | null) => {
+    update(persona ? persona.id : null);
+    onPersonaChange?.(persona);
+  };
+
+  const saveInstructions = () => {
+    if (instructions.trim() !== (conversation?.systemPrompt || "")) {
+      update(undefined, instructions);
+    }
+    setIsOpen(false);
+  };
+
+  const activePersona = personas.find((p) => p.id === conversation?.personaId);
+  const label = conversation?.personaId
+    ? activePersona?.name || "Persona"
+    : "Default assistant";
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => (isOpen ? saveInstructions() : setIsOpen(true))}
+        disabled={disabled}
+        className="flex items-center gap-2 px-3 py-2 bg-slate-800/50 hover:bg-slate-700/50 border border-slate-700/50 hover:border-slate-600/50 rounded-lg text-slate-300 hover:text-white transition-all duration-200 text-sm font-medium disabled:opacity-50"
+        title="Persona and instructions for this chat"
+      >
+        <UserCircleIcon className="w-4 h-4" />
+        <span className="max-w-[10rem] truncate">{label}</span>
+        {conversation?.systemPrompt && (
+          <span className="w-1.5 h-1.5 rounded-full bg-emerald-400" />
+        )}
+        <ChevronDownIcon
+          className={`w-3 h-3 transition-transform ${
+            isOpen ? "rotate-180" : ""
+          }`}
+        />
+      </button>
+
+      <AnimatePresence>
+        {isOpen && (
+          <motion.div
+            initial={{ opacity: 0, y: -10 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -10 }}
+            className="absolute right-0 top-full mt-2 w-80 bg-slate-800 border border-slate-700 rounded-lg shadow-xl z-50"
+          >
+            <div className="p-2 space-y-1 max-h-64 overflow-y-auto">
+              {[null, ...personas].map((persona) => {
+                const selected =
+                  (persona?.id || null) === (conversation?.personaId || null);
+                const description = persona
+                  ? persona.description
+                  : "General help, with every enabled tool";
+                return (
+                  <button
+                    key={persona?.id || "default"}
+                    onClick={() => pickPersona(persona)}
+                    className={`w-full text-left px-3 py-2 rounded-md transition-colors ${
+                      selected
+                        ? "bg-emerald-500/10 text-emerald-300"
+                        : "text-slate-300 hover:bg-slate-700/60"
+                    }`}
+                  >
+                    <div className="text-sm font-medium">
+                      {persona?.name || "Default assistant"}
+                    </div>
+                    {description && (
+                      <div className="text-xs text-slate-500 truncate">
+                        {description}
+                      </div>
+                    )}
+                  </button>
+                );
+              })}
+              {personas.length === 0 && (
+                <p className="px-3 py-1 text-xs text-slate-500">
+                  Add personas in Settings.
+                </p>
+              )}
+            </div>
+
+            <div className="p-3 border-t border-slate-700">
+              <label className="block text-xs font-medium text-slate-400 mb-1">
+                Instructions for this chat
+              </label>
+              <textarea
+                value={instructions}
+                onChange={(e) => setInstructions(e.target.value)}
+                rows={3}
+                placeholder="Answer in French. Keep replies short."
+                className="w-full text-sm text-slate-200 bg-slate-900 border border-slate-700 rounded-md px-2 py-1.5 resize-none focus:outline-none focus:border-emerald-500/60"
+              />
+              <div className="flex justify-end mt-2">
+                <button
+                  onClick={saveInstructions}
+                  className="px-3 py-1 text-xs font-medium text-white bg-emerald-600 hover:bg-emerald-700 rounded-md"
+                >
+                  Done
+                </button>
+              </div>
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
+
+export default PersonaPicker;
@@ -0,0 +1,252 @@
+import React, { useEffect, useRef, useState } from "react";
+import {
+  ArrowDownTrayIcon,
+  ArrowUpTrayIcon,
+  BookmarkIcon,
+  CheckIcon,
+  ChevronUpDownIcon,
+  PlusIcon,
+  Squares2X2Icon,
+  TrashIcon,
+} from "@heroicons/react/24/outline";
+import {
+  ProfileSwitchResult,
+  WorkspaceProfile,
+  WorkspaceProfileList,
+} from "../../shared/types";
+
+interface ProfileSwitcherProps {
+  collapsed?: boolean;
+}
+
+// Switches between workspace profiles: named sets of enabled and connected
+// servers, tool states and the default model
+const ProfileSwitcher: React.FC<ProfileSwitcherProps> = ({
+  collapsed = false,
+}) => {
+  const [list, setList] = useState<WorkspaceProfileList>({
+    profiles: [],
+    activeProfileId: null,
+  });
+  const [isOpen, setIsOpen] = useState(false);
+  const [isCreating, setIsCreating] = useState(false);
+  const [newName, setNewName] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const loadProfiles = async () => {
+    try {
+      setList(await window.electronAPI.listProfiles());
+    } catch (error) {
+      console.error("Failed to load profiles:", error);
+    }
+  };
+
+  useEffect(() => {
+    if (!window.electronAPI?.listProfiles) return;
+    loadProfiles();
+
+    const unsubscribe = window.electronAPI.on(
+      "profile-switched",
+      (result: ProfileSwitchResult) => {
+        loadProfiles();
+        setMessage(
+          result.failed.length > 0
+            ? `${result.failed.length} server(s) failed to connect`
+            : null
+        );
+      }
+    );
+    return unsubscribe;
+  }, []);
+
+  // Close the menu on outside clicks
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) {
+        setIsOpen(false);
+        setIsCreating(false);
+      }
+    };
+    document.addEventListener("mousedown", handleClick);
+    return () => document.removeEventListener("mousedown", handleClick);
+  }, [isOpen]);
+
+  const activeProfile = list.profiles.find(
+    (profile) => profile.id === list.activeProfileId
+  );
+
+  const run = async (action: () => Promise<unknown>) => {
+    setBusy(true);
+    setMessage(null);
+    try {
+      await action();
+      await loadProfiles();
+    } catch (error) {
+      console.error("Profile action failed:", error);
+      setMessage(error instanceof Error ? error.message : "Action failed");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const switchTo = (profile: WorkspaceProfile) =>
+    run(async () => {
+      await window.electronAPI.switchProfile(profile.id);
+      setIsOpen(false);
+    });
+
+  const createProfile = () =>
+    run(async () => {
+      if (!newName.trim()) return;
+      await window.electronAPI.createProfile(newName.trim());
+      setNewName("");
+      setIsCreating(false);
+    });
+
+  const menuItemClasses =
+    "w-full flex items-center space-x-2 px-3 py-1.5 text-xs text-slate-300 hover:bg-slate-800/70 hover:text-white rounded-md transition-colors duration-150 disabled:opacity-50";
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`w-full flex items-center ${
+          collapsed ? "justify-center p-2" : "space-x-2 px-3 py-2"
+        } rounded-lg border border-slate-700/50 bg-slate-800/40 hover:bg-slate-800/70 transition-colors duration-200`}
+        title={activeProfile ? `Profile: ${activeProfile.name}` : "Profiles"}
+      >
+        <Squares2X2Icon className="w-4 h-4 text-indigo-400 flex-shrink-0" />
+        {!collapsed && (
+          <>
+            <span className="flex-1 text-left text-sm text-slate-200 truncate">
+              {activeProfile?.name || "No profile"}
+            </span>
+            <ChevronUpDownIcon className="w-4 h-4 text-slate-500" />
+          </>
+        )}
+      </button>
+
+      {isOpen && (
+        <div
+          className={`absolute z-40 mt-1 w-60 ${
+            collapsed ? "left-full ml-2 top-0" : "left-0"
+          } bg-slate-900 border border-slate-700 rounded-lg shadow-xl p-1.5 space-y-1`}
+        >
+          {list.profiles.length === 0 && (
+            <p className="px-3 py-2 text-xs text-slate-500">
+              Save your current servers, tools and model as a profile to switch
+              back to them later.
+            </p>
+          )}
+
+          {list.profiles.map((profile) => (
+            <div key={profile.id} className="flex items-center group">
+              <button
+                onClick={() => switchTo(profile)}
+                disabled={busy}
+                className={menuItemClasses}
+              >
+                {profile.id === list.activeProfileId ? (
+                  <CheckIcon className="w-3.5 h-3.5 text-indigo-400" />
+                ) : (
+                  <span className="w-3.5" />
+                )}
+                <span className="truncate">{profile.name}</span>
+              </button>
+              <button
+                onClick={() =>
+                  run(() => window.electronAPI.deleteProfile(profile.id))
+                }
+                disabled={busy}
+                className="p-1 rounded opacity-0 group-hover:opacity-100 text-slate-500 hover:text-red-400"
+                title="Delete profile"
+              >
+                <TrashIcon className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          ))}
+
+          <div className="border-t border-slate-800 pt-1 space-y-1">
+            {activeProfile && (
+              <button
+                onClick={() =>
+                  run(() => window.electronAPI.saveProfile(activeProfile.id))
+                }
+                disabled={busy}
+                className={menuItemClasses}
+              >
+                <BookmarkIcon className="w-3.5 h-3.5" />
+                <span className="truncate">
+                  Save current setup to "{activeProfile.name}"
+                </span>
+              </button>
+            )}
+
+            {isCreating ? (
+              <form
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  createProfile();
+                }}
+                className="flex items-center space-x-1 px-1"
+              >
+                <input
+                  value={newName}
+                  onChange={(e) => setNewName(e.target.value)}
+                  placeholder="Profile name"
+                  autoFocus
+                  className="flex-1 min-w-0 text-xs text-slate-200 bg-slate-800 border border-slate-700 rounded-md px-2 py-1 focus:outline-none focus:border-indigo-500"
+                />
+                <button
+                  type="submit"
+                  disabled={!newName.trim() || busy}
+                  className="px-2 py-1 text-xs bg-indigo-500 text-white rounded-md hover:bg-indigo-600 disabled:opacity-50"
+                >
+                  Save
+                </button>
+              </form>
+            ) : (
+              <button
+                onClick={() => setIsCreating(true)}
+                className={menuItemClasses}
+              >
+                <PlusIcon className="w-3.5 h-3.5" />
+                <span>New profile from current setup</span>
+              </button>
+            )}
+
+            <button
+              onClick={() => run(() => window.electronAPI.importProfile())}
+              disabled={busy}
+              className={menuItemClasses}
+            >
+              <ArrowDownTrayIcon className="w-3.5 h-3.5" />
+              <span>Import profile...</span>
+            </button>
+            {activeProfile && (
+              <button
+                onClick={() =>
+                  run(() => window.electronAPI.exportProfile(activeProfile.id))
+                }
+                disabled={busy}
+                className={menuItemClasses}
+              >
+                <ArrowUpTrayIcon className="w-3.5 h-3.5" />
+                <span>Export "{activeProfile.name}"...</span>
+              </button>
+            )}
+          </div>
+
+          {message && (
+            <p className="px-3 py-1 text-xs text-amber-400">{message}</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProfileSwitcher;
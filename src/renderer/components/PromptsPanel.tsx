@@ -18,6 +18,7 @@ import {
   DialogContent,
   DialogActions,
   TextField,
+  Autocomplete,
   Alert,
   Chip,
   Accordion,
@@ -30,7 +31,12 @@ import {
   ExpandMore as ExpandMoreIcon,
   Code as CodeIcon,
 } from "@mui/icons-material";
-import { ServerStatus, Prompt } from "../../shared/types";
+import {
+  ServerStatus,
+  Prompt,
+  ServerListChangedEvent,
+} from "../../shared/types";
+import { useCompletion } from "../hooks/useCompletion";
 
 interface PromptsPanelProps {
   servers: ServerStatus[];
@@ -52,6 +58,11 @@ const PromptsPanel: React.FC<PromptsPanelProps> = ({
   const [promptError, setPromptError] = useState<string | null>(null);
   const [executing, setExecuting] = useState(false);
 
+  const completion = useCompletion(
+    selectedServerId,
+    selectedPrompt ? { type: "ref/prompt", name: selectedPrompt.name } : null
+  );
+
   const connectedServers = servers.filter((s) => s.connected);
 
   useEffect(() => {
@@ -62,6 +73,22 @@ const PromptsPanel: React.FC<PromptsPanelProps> = ({
     }
   }, [selectedServerId, servers]);
 
+  // Reload when the selected server announces its prompts changed
+  useEffect(() => {
+    if (!window.electronAPI) return;
+
+    const unsubscribe = window.electronAPI.on(
+      "server-list-changed",
+      (event: ServerListChangedEvent) => {
+        if (event.kind === "prompts" && event.serverId === selectedServerId) {
+          loadPrompts(event.serverId);
+        }
+      }
+    );
+
+    return unsubscribe;
+  }, [selectedServerId]);
+
   const loadPrompts = async (serverId: string) => {
     setLoading(true);
     try {
@@ -126,6 +153,7 @@ const PromptsPanel: React.FC<PromptsPanelProps> = ({
       ...prev,
       [argName]: value,
     }));
+    completion.requestCompletion(argName, value, promptArgs);
   };
 
   const renderPromptArguments = (prompt: Prompt) => {
@@ -321,18 +349,42 @@ const PromptsPanel: React.FC<PromptsPanelProps> = ({
                   <Typography variant="subtitle2" gutterBottom>
                     Arguments:
                   </Typography>
+                  {completion.supported === false && (
+                    <Typography
+                      variant="caption"
+                      color="text.secondary"
+                      sx={{ display: "block", mb: 1 }}
+                    >
+                      No completions supported by this server
+                    </Typography>
+                  )}
                   <Stack spacing={2}>
                     {selectedPrompt.arguments.map((arg) => (
-                      <TextField
+                      <Autocomplete
                         key={arg.name}
-                        label={arg.name}
-                        helperText={arg.description}
-                        required={arg.required}
-                        value={promptArgs[arg.name] || ""}
-                        onChange={(e) =>
-                          handleArgChange(arg.name, e.target.value)
+                        freeSolo
+                        options={completion.suggestions[arg.name] || []}
+                        loading={completion.loading === arg.name}
+                        inputValue={promptArgs[arg.name] || ""}
+                        onInputChange={(_, value) =>
+                          handleArgChange(arg.name, value)
+                        }
+                        onOpen={() =>
+                          completion.requestCompletion(
+                            arg.name,
+                            promptArgs[arg.name] || "",
+                            promptArgs
+                          )
                         }
-                        fullWidth
+                        renderInput={(params) => (
+                          <TextField
+                            {...params}
+                            label={arg.name}
+                            helperText={arg.description}
+                            required={arg.required}
+                            fullWidth
+                          />
+                        )}
                       />
                     ))}
                   </Stack>
@@ -0,0 +1,139 @@
+import React, { useState } from "react";
+import {
+  Card,
+  CardContent,
+  CardActions,
+  Typography,
+  Box,
+  Button,
+  Chip,
+  Stack,
+  TextField,
+  Autocomplete,
+  Alert,
+  CircularProgress,
+} from "@mui/material";
+import {
+  DataObject as TemplateIcon,
+  Visibility as ViewIcon,
+} from "@mui/icons-material";
+import { ResourceTemplate } from "../../shared/types";
+import { useCompletion } from "../hooks/useCompletion";
+
+interface ResourceTemplateFormProps {
+  serverId: string;
+  template: ResourceTemplate;
+  onRead: (uri: string, contents: any[]) => void;
+}
+
+const ResourceTemplateForm: React.FC<ResourceTemplateFormProps> = ({
+  serverId,
+  template,
+  onRead,
+}) => {
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [reading, setReading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const completion = useCompletion(serverId, {
+    type: "ref/resource",
+    uri: template.uriTemplate,
+  });
+
+  const handleChange = (name: string, value: string) => {
+    setValues((prev) => ({ ...prev, [name]: value }));
+    completion.requestCompletion(name, value, values);
+  };
+
+  const handleRead = async () => {
+    setReading(true);
+    setError(null);
+    try {
+      const result = await window.electronAPI.readResourceTemplate(
+        serverId,
+        template.uriTemplate,
+        values
+      );
+      onRead(result.uri, result.contents);
+    } catch (error: any) {
+      setError(error.message || "Failed to read resource");
+    } finally {
+      setReading(false);
+    }
+  };
+
+  const isComplete = template.variables.every((name) => values[name]?.trim());
+
+  return (
+    <Card variant="outlined">
+      <CardContent>
+        <Box sx={{ display: "flex", alignItems: "center", mb: 1 }}>
+          <TemplateIcon sx={{ mr: 1, color: "secondary.main" }} />
+          <Typography variant="h6" sx={{ flexGrow: 1 }}>
+            {template.name || "Unnamed Template"}
+          </Typography>
+          {template.mimeType && (
+            <Chip label={template.mimeType} size="small" />
+          )}
+        </Box>
+
+        <Typography
+          variant="body2"
+          color="text.secondary"
+          sx={{ fontFamily: "monospace", mb: 1 }}
+        >
+          {template.uriTemplate}
+        </Typography>
+
+        {template.description && (
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+            {template.description}
+          </Typography>
+        )}
+
+        {completion.supported === false && (
+          <Typography
+            variant="caption"
+            color="text.secondary"
+            sx={{ display: "block", mb: 1 }}
+          >
+            No completions supported by this server
+          </Typography>
+        )}
+
+        <Stack spacing={2}>
+          {template.variables.map((name) => (
+            <Autocomplete
+              key={name}
+              freeSolo
+              options={completion.suggestions[name] || []}
+              loading={completion.loading === name}
+              inputValue={values[name] || ""}
+              onInputChange={(_, value) => handleChange(name, value)}
+              onOpen={() =>
+                completion.requestCompletion(name, values[name] || "", values)
+              }
+              renderInput={(params) => (
+                <TextField {...params} label={name} size="small" required />
+              )}
+            />
+          ))}
+          {error && <Alert severity="error">{error}</Alert>}
+        </Stack>
+      </CardContent>
+
+      <CardActions>
+        <Button
+          startIcon={reading ? <CircularProgress size={16} /> : <ViewIcon />}
+          color="primary"
+          onClick={handleRead}
+          disabled={!isComplete || reading}
+        >
+          Read Resource
+        </Button>
+      </CardActions>
+    </Card>
+  );
+};
+
+export default ResourceTemplateForm;
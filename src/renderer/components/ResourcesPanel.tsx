@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useRef } from "react";
 import {
   Paper,
   Typography,
@@ -24,8 +24,22 @@ import {
   Description as DescriptionIcon,
   Visibility as ViewIcon,
   Link as LinkIcon,
+  NotificationsActive as WatchIcon,
 } from "@mui/icons-material";
-import { ServerStatus, Resource } from "../../shared/types";
+import {
+  ServerStatus,
+  Resource,
+  ResourceTemplate,
+  ServerListChangedEvent,
+} from "../../shared/types";
+import LiveResourceViewer from "./LiveResourceViewer";
+import ResourceTemplateForm from "./ResourceTemplateForm";
+
+interface PinnedResource {
+  serverId: string;
+  resource: Resource;
+  initialContents: any[];
+}
 
 interface ResourcesPanelProps {
   servers: ServerStatus[];
@@ -39,6 +53,7 @@ const ResourcesPanel: React.FC<ResourcesPanelProps> = ({
   onSelectServer,
 }) => {
   const [resources, setResources] = useState<Resource[]>([]);
+  const [templates, setTemplates] = useState<ResourceTemplate[]>([]);
   const [loading, setLoading] = useState(false);
   const [viewDialogOpen, setViewDialogOpen] = useState(false);
   const [selectedResource, setSelectedResource] = useState<Resource | null>(
@@ -47,6 +62,9 @@ const ResourcesPanel: React.FC<ResourcesPanelProps> = ({
   const [resourceContent, setResourceContent] = useState<any>(null);
   const [contentLoading, setContentLoading] = useState(false);
   const [contentError, setContentError] = useState<string | null>(null);
+  const [pinnedResources, setPinnedResources] = useState<PinnedResource[]>([]);
+  const [subscribeError, setSubscribeError] = useState<string | null>(null);
+  const pinnedRef = useRef<PinnedResource[]>([]);
 
   const connectedServers = servers.filter((s) => s.connected);
 
@@ -58,19 +76,95 @@ const ResourcesPanel: React.FC<ResourcesPanelProps> = ({
     }
   }, [selectedServerId, servers]);
 
+  // Reload when the selected server announces its resources changed
+  useEffect(() => {
+    if (!window.electronAPI) return;
+
+    const unsubscribe = window.electronAPI.on(
+      "server-list-changed",
+      (event: ServerListChangedEvent) => {
+        if (event.kind === "resources" && event.serverId === selectedServerId) {
+          loadResources(event.serverId);
+        }
+      }
+    );
+
+    return unsubscribe;
+  }, [selectedServerId]);
+
   const loadResources = async (serverId: string) => {
     setLoading(true);
     try {
-      const serverResources = await window.electronAPI.listResources(serverId);
+      const [serverResources, serverTemplates] = await Promise.all([
+        window.electronAPI.listResources(serverId),
+        window.electronAPI.listResourceTemplates(serverId),
+      ]);
       setResources(serverResources);
+      setTemplates(serverTemplates);
     } catch (error) {
       console.error("Failed to load resources:", error);
       setResources([]);
+      setTemplates([]);
     } finally {
       setLoading(false);
     }
   };
 
+  useEffect(() => {
+    pinnedRef.current = pinnedResources;
+  }, [pinnedResources]);
+
+  // Drop server-side subscriptions when the panel goes away
+  useEffect(() => {
+    return () => {
+      pinnedRef.current.forEach(({ serverId, resource }) => {
+        window.electronAPI
+          ?.unsubscribeResource(serverId, resource.uri)
+          .catch(() => {});
+      });
+    };
+  }, []);
+
+  const isPinned = (serverId: string, uri: string) =>
+    pinnedResources.some(
+      (pinned) => pinned.serverId === serverId && pinned.resource.uri === uri
+    );
+
+  const handlePinResource = async (resource: Resource) => {
+    if (!selectedServerId || isPinned(selectedServerId, resource.uri)) return;
+
+    setSubscribeError(null);
+    try {
+      const contents = await window.electronAPI.subscribeResource(
+        selectedServerId,
+        resource.uri
+      );
+      setPinnedResources((prev) => [
+        ...prev,
+        {
+          serverId: selectedServerId,
+          resource,
+          initialContents: contents || [],
+        },
+      ]);
+    } catch (error: any) {
+      setSubscribeError(error.message || "Failed to subscribe to resource");
+    }
+  };
+
+  const handleUnpinResource = async (serverId: string, uri: string) => {
+    setPinnedResources((prev) =>
+      prev.filter(
+        (pinned) => !(pinned.serverId === serverId && pinned.resource.uri === uri)
+      )
+    );
+    try {
+      await window.electronAPI.unsubscribeResource(serverId, uri);
+    } catch (error) {
+      console.error("Failed to unsubscribe from resource:", error);
+    }
+  };
+
   const handleViewResource = async (resource: Resource) => {
     if (!selectedServerId) return;
 
@@ -93,6 +187,24 @@ const ResourcesPanel: React.FC<ResourcesPanelProps> = ({
     }
   };
 
+  // Show the result of an expanded template read in the view dialog
+  const handleTemplateRead = (
+    template: ResourceTemplate,
+    uri: string,
+    contents: any[]
+  ) => {
+    setSelectedResource({
+      uri,
+      name: template.name,
+      description: template.description,
+      mimeType: template.mimeType,
+    });
+    setContentError(null);
+    setContentLoading(false);
+    setResourceContent(contents);
+    setViewDialogOpen(true);
+  };
+
   const closeViewDialog = () => {
     setViewDialogOpen(false);
     setSelectedResource(null);
@@ -209,11 +321,38 @@ const ResourcesPanel: React.FC<ResourcesPanelProps> = ({
         </Select>
       </FormControl>
 
+      {subscribeError && (
+        <Alert
+          severity="error"
+          sx={{ mb: 2 }}
+          onClose={() => setSubscribeError(null)}
+        >
+          {subscribeError}
+        </Alert>
+      )}
+
+      {/* Live (subscribed) resources */}
+      {pinnedResources.length > 0 && (
+        <Stack spacing={2} sx={{ mb: 3 }}>
+          {pinnedResources.map((pinned) => (
+            <LiveResourceViewer
+              key={`${pinned.serverId}-${pinned.resource.uri}`}
+              serverId={pinned.serverId}
+              resource={pinned.resource}
+              initialContents={pinned.initialContents}
+              onUnsubscribe={() =>
+                handleUnpinResource(pinned.serverId, pinned.resource.uri)
+              }
+            />
+          ))}
+        </Stack>
+      )}
+
       {loading ? (
         <Box sx={{ display: "flex", justifyContent: "center", p: 4 }}>
           <CircularProgress />
         </Box>
-      ) : resources.length === 0 ? (
+      ) : resources.length === 0 && templates.length === 0 ? (
         <Paper sx={{ p: 4, textAlign: "center" }}>
           <Typography variant="h6" color="text.secondary" gutterBottom>
             No Resources Available
@@ -267,9 +406,40 @@ const ResourcesPanel: React.FC<ResourcesPanelProps> = ({
                 >
                   View Content
                 </Button>
+                <Button
+                  startIcon={<WatchIcon />}
+                  onClick={() => handlePinResource(resource)}
+                  disabled={
+                    !selectedServerId ||
+                    isPinned(selectedServerId, resource.uri)
+                  }
+                >
+                  {selectedServerId && isPinned(selectedServerId, resource.uri)
+                    ? "Watching"
+                    : "Watch Live"}
+                </Button>
               </CardActions>
             </Card>
           ))}
+
+          {/* Parameterised resources */}
+          {templates.length > 0 && selectedServerId && (
+            <>
+              <Typography variant="h6" sx={{ pt: 2 }}>
+                Resource Templates
+              </Typography>
+              {templates.map((template) => (
+                <ResourceTemplateForm
+                  key={template.uriTemplate}
+                  serverId={selectedServerId}
+                  template={template}
+                  onRead={(uri, contents) =>
+                    handleTemplateRead(template, uri, contents)
+                  }
+                />
+              ))}
+            </>
+          )}
         </Stack>
       )}
 
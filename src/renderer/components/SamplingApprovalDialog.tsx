@@ -0,0 +1,199 @@
+import React, { useEffect, useState } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import {
+  SparklesIcon,
+  XMarkIcon,
+  CheckIcon,
+} from "@heroicons/react/24/outline";
+import { SamplingApprovalRequest } from "../../shared/types";
+
+// Shows server-initiated sampling requests one at a time. Each request is
+// approved twice: once for the prompt and once for the produced completion.
+const SamplingApprovalDialog: React.FC = () => {
+  const [queue, setQueue] = useState<SamplingApprovalRequest[]>([]);
+  const [editedCompletion, setEditedCompletion] = useState("");
+
+  useEffect(() => {
+    if (!window.electronAPI?.onSamplingRequest) return;
+
+    const unsubscribe = window.electronAPI.onSamplingRequest(
+      (request: SamplingApprovalRequest) => {
+        setQueue((prev) => [...prev, request]);
+      }
+    );
+    // The server gave up on the request or it timed out
+    const unsubscribeCancelled = window.electronAPI.onSamplingRequestCancelled(
+      (requestId: string) => {
+        setQueue((prev) => prev.filter((r) => r.requestId !== requestId));
+      }
+    );
+
+    return () => {
+      unsubscribe();
+      unsubscribeCancelled();
+    };
+  }, []);
+
+  const current = queue[0];
+
+  useEffect(() => {
+    setEditedCompletion(current?.completion || "");
+  }, [current?.requestId, current?.stage]);
+
+  const respond = async (approved: boolean) => {
+    if (!current) return;
+
+    try {
+      await window.electronAPI.respondToSamplingRequest({
+        requestId: current.requestId,
+        approved,
+        editedCompletion:
+          approved &&
+          current.stage === "completion" &&
+          editedCompletion !== current.completion
+            ? editedCompletion
+            : undefined,
+      });
+    } catch (error) {
+      console.error("Failed to respond to sampling request:", error);
+    } finally {
+      setQueue((prev) => prev.slice(1));
+    }
+  };
+
+  return (
+    <AnimatePresence>
+      {current && (
+        <>
+          {/* Backdrop */}
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50"
+          />
+
+          {/* Dialog */}
+          <motion.div
+            key={`${current.requestId}-${current.stage}`}
+            initial={{ opacity: 0, scale: 0.95, y: 20 }}
+            animate={{ opacity: 1, scale: 1, y: 0 }}
+            exit={{ opacity: 0, scale: 0.95, y: 20 }}
+            transition={{ type: "spring", duration: 0.3 }}
+            className="fixed inset-0 z-50 flex items-center justify-center p-4"
+          >
+            <div className="bg-zinc-900 border border-zinc-700 rounded-xl shadow-2xl w-full max-w-2xl max-h-[85vh] flex flex-col overflow-hidden">
+              {/* Header */}
+              <div className="flex items-center justify-between p-6 border-b border-zinc-700">
+                <div className="flex items-center space-x-3">
+                  <div className="p-2 rounded-lg bg-indigo-500/20">
+                    <SparklesIcon className="w-6 h-6 text-indigo-400" />
+                  </div>
+                  <div>
+                    <h2 className="text-xl font-semibold text-zinc-100">
+                      {current.stage === "prompt"
+                        ? "Server requests an LLM completion"
+                        : "Review completion before sending"}
+                    </h2>
+                    <p className="text-sm text-zinc-400">
+                      {current.serverName} · {current.modelName || "Default"}
+                      {current.maxTokens
+                        ? ` · max ${current.maxTokens} tokens`
+                        : ""}
+                    </p>
+                  </div>
+                </div>
+                <button
+                  onClick={() => respond(false)}
+                  className="p-2 hover:bg-zinc-800 rounded-lg transition-colors duration-200"
+                  aria-label="Reject request"
+                >
+                  <XMarkIcon className="w-5 h-5 text-zinc-400" />
+                </button>
+              </div>
+
+              {/* Content */}
+              <div className="p-6 space-y-4 overflow-y-auto">
+                {current.systemPrompt && (
+                  <div>
+                    <div className="text-xs font-medium uppercase tracking-wide text-zinc-500 mb-1">
+                      System prompt
+                    </div>
+                    <pre className="text-sm text-zinc-300 whitespace-pre-wrap bg-zinc-800/60 border border-zinc-700 rounded-lg p-3">
+                      {current.systemPrompt}
+                    </pre>
+                  </div>
+                )}
+
+                <div>
+                  <div className="text-xs font-medium uppercase tracking-wide text-zinc-500 mb-1">
+                    Messages
+                  </div>
+                  <div className="space-y-2">
+                    {current.messages.map((message, index) => (
+                      <div
+                        key={index}
+                        className="bg-zinc-800/60 border border-zinc-700 rounded-lg p-3"
+                      >
+                        <div className="text-xs text-zinc-500 mb-1">
+                          {message.role}
+                        </div>
+                        <pre className="text-sm text-zinc-300 whitespace-pre-wrap">
+                          {message.text}
+                        </pre>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+
+                {current.stage === "completion" && (
+                  <div>
+                    <div className="text-xs font-medium uppercase tracking-wide text-zinc-500 mb-1">
+                      Completion (editable)
+                    </div>
+                    <textarea
+                      value={editedCompletion}
+                      onChange={(e) => setEditedCompletion(e.target.value)}
+                      rows={8}
+                      className="w-full text-sm text-zinc-200 bg-zinc-800 border border-zinc-700 rounded-lg p-3 focus:outline-none focus:border-indigo-500"
+                    />
+                  </div>
+                )}
+              </div>
+
+              {/* Footer */}
+              <div className="flex items-center justify-between p-6 border-t border-zinc-700 bg-zinc-900/50">
+                <span className="text-xs text-zinc-500">
+                  {queue.length > 1 ? `${queue.length - 1} more pending` : ""}
+                </span>
+                <div className="flex items-center space-x-3">
+                  <button
+                    onClick={() => respond(false)}
+                    className="px-4 py-2 text-sm font-medium text-zinc-400 hover:text-zinc-300
+                             hover:bg-zinc-800 rounded-lg transition-all duration-200"
+                  >
+                    Reject
+                  </button>
+                  <button
+                    onClick={() => respond(true)}
+                    className="px-6 py-2 text-sm font-medium rounded-lg transition-all duration-200
+                             flex items-center space-x-2 bg-blue-500 text-white hover:bg-blue-600"
+                  >
+                    <CheckIcon className="w-4 h-4" />
+                    <span>
+                      {current.stage === "prompt"
+                        ? "Run model"
+                        : "Send to server"}
+                    </span>
+                  </button>
+                </div>
+              </div>
+            </div>
+          </motion.div>
+        </>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default SamplingApprovalDialog;
@@ -0,0 +1,64 @@
+import React, { useEffect, useState } from "react";
+import { EyeIcon, EyeSlashIcon } from "@heroicons/react/24/outline";
+import { isSecretRef } from "../../shared/secrets";
+
+interface SecretInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  className?: string;
+  placeholder?: string;
+}
+
+// Password field for values that may be saved in the secret vault. A saved
+// secret only arrives as a reference; it is fetched from the main process
+// when the user clicks the eye, and typing replaces it.
+export const SecretInput: React.FC<SecretInputProps> = ({
+  value,
+  onChange,
+  className = "",
+  placeholder,
+}) => {
+  const [visible, setVisible] = useState(false);
+  const [revealed, setRevealed] = useState<string | null>(null);
+  const saved = isSecretRef(value);
+
+  useEffect(() => {
+    setRevealed(null);
+  }, [value]);
+
+  const toggleVisible = async () => {
+    if (!visible && saved && revealed === null) {
+      try {
+        setRevealed(await window.electronAPI.revealSecret(value));
+      } catch (error) {
+        console.error("Failed to reveal secret:", error);
+        return;
+      }
+    }
+    setVisible(!visible);
+  };
+
+  return (
+    <div className="relative">
+      <input
+        type={visible ? "text" : "password"}
+        value={saved ? revealed ?? "" : value}
+        onChange={(e) => onChange(e.target.value)}
+        className={`${className} pr-10`}
+        placeholder={saved ? "•••••••• saved in vault" : placeholder}
+      />
+      <button
+        type="button"
+        onClick={toggleVisible}
+        className="absolute right-2 top-1/2 -translate-y-1/2 p-1 hover:bg-gray-700 rounded"
+        aria-label={visible ? "Hide" : "Reveal"}
+      >
+        {visible ? (
+          <EyeSlashIcon className="w-4 h-4 text-gray-400" />
+        ) : (
+          <EyeIcon className="w-4 h-4 text-gray-400" />
+        )}
+      </button>
+    </div>
+  );
+};
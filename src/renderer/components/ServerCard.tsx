@@ -10,7 +10,10 @@ import {
   EyeIcon,
   PencilIcon,
   TrashIcon,
+  ArrowPathIcon,
+  CommandLineIcon,
 } from "@heroicons/react/24/outline";
+import { ServerHealth } from "../../shared/types";
 
 // Spinner component
 const ModernSpinner: React.FC<{ className?: string; size?: number }> = ({
@@ -28,6 +31,46 @@ const ModernSpinner: React.FC<{ className?: string; size?: number }> = ({
   </div>
 );
 
+// Latency sparkline for recent health check pings
+const LatencySparkline: React.FC<{ values: number[]; className?: string }> = ({
+  values,
+  className = "",
+}) => {
+  const width = 80;
+  const height = 20;
+  if (values.length < 2) {
+    return <div style={{ width, height }} />;
+  }
+
+  const max = Math.max(...values, 1);
+  const step = width / (values.length - 1);
+  const points = values
+    .map((value, index) => {
+      const x = index * step;
+      const y = height - (value / max) * (height - 2) - 1;
+      return `${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(" ");
+
+  return (
+    <svg width={width} height={height} className={className}>
+      <polyline
+        points={points}
+        fill="none"
+        stroke="currentColor"
+        strokeWidth={1.5}
+        strokeLinejoin="round"
+      />
+    </svg>
+  );
+};
+
+const HEALTH_STYLES: Record<ServerHealth["state"], string> = {
+  healthy: "bg-emerald-500/20 text-emerald-300",
+  degraded: "bg-yellow-500/20 text-yellow-300",
+  unhealthy: "bg-red-500/20 text-red-300",
+};
+
 interface ServerCardProps {
   server: {
     id: string;
@@ -36,6 +79,12 @@ interface ServerCardProps {
     type?: string;
     uptime?: number;
     lastActivity?: Date;
+    error?: string;
+    reconnecting?: {
+      attempt: number;
+      maxAttempts: number;
+    };
+    health?: ServerHealth;
   };
   toolCount?: number;
   contextParamsCount?: number;
@@ -61,6 +110,29 @@ const ServerCard: React.FC<ServerCardProps> = ({
   isLoading = false,
 }) => {
   const [isExpanded, setIsExpanded] = useState(false);
+  const [stderrLines, setStderrLines] = useState<string[] | null>(null);
+  const [isLoadingStderr, setIsLoadingStderr] = useState(false);
+
+  const isStdio = (server.type || "stdio") === "stdio";
+
+  const loadStderr = async () => {
+    setIsLoadingStderr(true);
+    try {
+      setStderrLines(await window.electronAPI.getServerStderr(server.id));
+    } catch (error) {
+      console.error("Failed to load server stderr:", error);
+    } finally {
+      setIsLoadingStderr(false);
+    }
+  };
+
+  const toggleStderr = () => {
+    if (stderrLines) {
+      setStderrLines(null);
+    } else {
+      loadStderr();
+    }
+  };
 
   const formatUptime = (seconds: number = 0) => {
     const hours = Math.floor(seconds / 3600);
@@ -108,10 +180,16 @@ const ServerCard: React.FC<ServerCardProps> = ({
                   className={`px-2 py-1 rounded-full text-xs font-medium ${
                     server.connected
                       ? "bg-emerald-500/20 text-emerald-300"
+                      : server.reconnecting
+                      ? "bg-amber-500/20 text-amber-300"
                       : "bg-slate-600/50 text-slate-400"
                   }`}
                 >
-                  {server.connected ? "Connected" : "Disconnected"}
+                  {server.connected
+                    ? "Connected"
+                    : server.reconnecting
+                    ? `Reconnecting (attempt ${server.reconnecting.attempt}/${server.reconnecting.maxAttempts})`
+                    : "Disconnected"}
                 </span>
                 {server.type && (
                   <span className="text-slate-500">• {server.type}</span>
@@ -194,6 +272,13 @@ const ServerCard: React.FC<ServerCardProps> = ({
           </div>
         </div>
 
+        {!server.connected && server.error && (
+          <div className="flex items-start gap-2 p-2.5 mb-3 bg-red-500/10 border border-red-500/20 rounded-md text-xs text-red-300">
+            <ExclamationTriangleIcon className="w-4 h-4 flex-shrink-0" />
+            <span className="break-words">{server.error}</span>
+          </div>
+        )}
+
         {/* Quick Stats */}
         {server.connected && (
           <div className="grid grid-cols-4 gap-3 text-xs">
@@ -221,6 +306,41 @@ const ServerCard: React.FC<ServerCardProps> = ({
             </div>
           </div>
         )}
+
+        {/* Ping Health */}
+        {server.connected && server.health && (
+          <div
+            className="flex items-center justify-between mt-3 text-xs"
+            title={server.health.lastError}
+          >
+            <div className="flex items-center gap-2">
+              <span
+                className={`px-2 py-0.5 rounded-full font-medium ${
+                  HEALTH_STYLES[server.health.state]
+                }`}
+              >
+                {server.health.state}
+              </span>
+              {server.health.consecutiveFailures > 0 && (
+                <span className="text-red-300">
+                  {server.health.consecutiveFailures} failed ping
+                  {server.health.consecutiveFailures === 1 ? "" : "s"}
+                </span>
+              )}
+            </div>
+            <div className="flex items-center gap-2 text-slate-400">
+              <LatencySparkline
+                values={server.health.latencyHistory}
+                className="text-indigo-400"
+              />
+              <span className="w-14 text-right">
+                {server.health.latencyHistory.length > 0
+                  ? `${server.health.latencyHistory.slice(-1)[0]} ms`
+                  : "—"}
+              </span>
+            </div>
+          </div>
+        )}
       </div>
 
       {/* Expanded Details */}
@@ -258,6 +378,41 @@ const ServerCard: React.FC<ServerCardProps> = ({
               </>
             )}
           </div>
+
+          {isStdio && (
+            <div className="mt-4">
+              <div className="flex items-center justify-between">
+                <button
+                  onClick={toggleStderr}
+                  className="flex items-center gap-1.5 text-xs text-slate-400 hover:text-white transition-colors"
+                >
+                  <CommandLineIcon className="w-4 h-4" />
+                  {stderrLines ? "Hide stderr" : "Show stderr (last 200 lines)"}
+                </button>
+                {stderrLines && (
+                  <button
+                    onClick={loadStderr}
+                    disabled={isLoadingStderr}
+                    className="p-1 text-slate-400 hover:text-white hover:bg-slate-700 rounded-md transition-all duration-200 disabled:opacity-50"
+                    title="Refresh stderr"
+                  >
+                    <ArrowPathIcon
+                      className={`w-3.5 h-3.5 ${
+                        isLoadingStderr ? "animate-spin" : ""
+                      }`}
+                    />
+                  </button>
+                )}
+              </div>
+              {stderrLines && (
+                <pre className="mt-2 max-h-64 overflow-auto p-3 bg-slate-900/70 border border-slate-700/50 rounded-md text-xs text-slate-300 font-mono whitespace-pre-wrap break-all">
+                  {stderrLines.length > 0
+                    ? stderrLines.join("\n")
+                    : "No stderr output"}
+                </pre>
+              )}
+            </div>
+          )}
         </div>
       )}
     </div>
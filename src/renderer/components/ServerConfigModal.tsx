@@ -14,8 +14,25 @@ import {
   ClipboardDocumentIcon,
   EyeIcon,
   EyeSlashIcon,
+  FolderIcon,
 } from "@heroicons/react/24/outline";
-import { ServerConfig, ModelConfig } from "../../shared/types";
+import { ServerConfig, ModelConfig, ServerLogLevel } from "../../shared/types";
+import {
+  TOOL_NAMESPACE_SEPARATOR,
+  isValidToolNamespace,
+  slugifyToolNamespace,
+} from "../../shared/toolNames";
+
+const SERVER_LOG_LEVELS: ServerLogLevel[] = [
+  "debug",
+  "info",
+  "notice",
+  "warning",
+  "error",
+  "critical",
+  "alert",
+  "emergency",
+];
 
 interface ServerConfigModalProps {
   isOpen: boolean;
@@ -220,6 +237,62 @@ const ServerConfigModal: React.FC<ServerConfigModalProps> = ({
     setContextParams(updated);
   };
 
+  // Roots are pushed to a running server right away so it receives
+  // roots/list_changed instead of being restarted on save
+  const updateRoots = async (roots: string[]) => {
+    setConfig({ ...config, roots });
+    if (isEditing && config.id) {
+      try {
+        await (window as any).electronAPI.setServerRoots(config.id, roots);
+      } catch (error) {
+        console.error("ServerConfigModal: Failed to update roots:", error);
+      }
+    }
+  };
+
+  // Like roots, the log level is applied to a running server immediately
+  const updateLogLevel = async (logLevel: ServerLogLevel) => {
+    setConfig({ ...config, logLevel });
+    if (isEditing && config.id) {
+      try {
+        await (window as any).electronAPI.setServerLogLevel(
+          config.id,
+          logLevel
+        );
+      } catch (error) {
+        console.error("ServerConfigModal: Failed to update log level:", error);
+      }
+    }
+  };
+
+  const updateHealthCheckInterval = async (healthCheckInterval: number) => {
+    setConfig({ ...config, healthCheckInterval });
+    if (isEditing && config.id) {
+      try {
+        await (window as any).electronAPI.setServerHealthCheckInterval(
+          config.id,
+          healthCheckInterval
+        );
+      } catch (error) {
+        console.error(
+          "ServerConfigModal: Failed to update health check interval:",
+          error
+        );
+      }
+    }
+  };
+
+  const addRoot = async () => {
+    const folder = await (window as any).electronAPI.selectDirectory();
+    if (folder && !(config.roots || []).includes(folder)) {
+      await updateRoots([...(config.roots || []), folder]);
+    }
+  };
+
+  const removeRoot = async (folder: string) => {
+    await updateRoots((config.roots || []).filter((root) => root !== folder));
+  };
+
   const getJsonConfig = () => {
     const envObj = envVars.reduce((acc, { key, value }) => {
       if (key.trim()) acc[key.trim()] = value;
@@ -240,7 +313,7 @@ const ServerConfigModal: React.FC<ServerConfigModalProps> = ({
       mcpServers: {
         [config.name || "server-name"]: {
           ...(config.type === "stdio" && { command: config.command }),
-          ...(config.type === "sse" && { url: config.url }),
+          ...(config.type !== "stdio" && { url: config.url }),
           ...(argsArray.length > 0 && { args: argsArray }),
           ...(Object.keys(envObj).length > 0 && { env: envObj }),
           ...(Object.keys(contextObj).length > 0 && {
@@ -249,6 +322,7 @@ const ServerConfigModal: React.FC<ServerConfigModalProps> = ({
           ...(Object.keys(toolConfigs).length > 0 && {
             toolConfigs: toolConfigs,
           }),
+          ...((config.roots || []).length > 0 && { roots: config.roots }),
         },
       },
     };
@@ -263,6 +337,7 @@ const ServerConfigModal: React.FC<ServerConfigModalProps> = ({
     { id: "command", label: "Command", icon: CommandLineIcon },
     { id: "environment", label: "Environment", icon: CogIcon },
     { id: "context", label: "Context Parameters", icon: DocumentTextIcon },
+    { id: "roots", label: "Roots", icon: FolderIcon },
     { id: "json", label: "JSON Config", icon: ClipboardDocumentIcon },
   ];
 
@@ -362,7 +437,7 @@ const ServerConfigModal: React.FC<ServerConfigModalProps> = ({
                   <label className="block text-sm font-medium text-slate-300 mb-2">
                     Server Type *
                   </label>
-                  <div className="grid grid-cols-2 gap-3">
+                  <div className="grid grid-cols-3 gap-3">
                     {[
                       {
                         value: "stdio",
@@ -374,6 +449,11 @@ const ServerConfigModal: React.FC<ServerConfigModalProps> = ({
                         label: "Server-Sent Events",
                         desc: "HTTP-based connection",
                       },
+                      {
+                        value: "streamable-http",
+                        label: "Streamable HTTP",
+                        desc: "Current HTTP transport",
+                      },
                     ].map((type) => (
                       <button
                         key={type.value}
@@ -381,7 +461,7 @@ const ServerConfigModal: React.FC<ServerConfigModalProps> = ({
                           !isReadOnly &&
                           setConfig({
                             ...config,
-                            type: type.value as "stdio" | "sse",
+                            type: type.value as ServerConfig["type"],
                           })
                         }
                         disabled={isReadOnly}
@@ -400,7 +480,7 @@ const ServerConfigModal: React.FC<ServerConfigModalProps> = ({
                   </div>
                 </div>
 
-                {config.type === "sse" && (
+                {config.type !== "stdio" && (
                   <div>
                     <label className="block text-sm font-medium text-slate-300 mb-2">
                       Server URL *
@@ -455,6 +535,95 @@ const ServerConfigModal: React.FC<ServerConfigModalProps> = ({
                       : `${availableModels.length} models available. Choose a specific model for this server's tool execution.`}
                   </p>
                 </div>
+
+                {/* Server Log Level */}
+                <div>
+                  <label className="block text-sm font-medium text-slate-300 mb-2">
+                    Server Log Level
+                  </label>
+                  <select
+                    value={config.logLevel || "info"}
+                    onChange={(e) =>
+                      updateLogLevel(e.target.value as ServerLogLevel)
+                    }
+                    disabled={isReadOnly}
+                    aria-label="Server Log Level"
+                    className="w-full px-3 py-2 bg-slate-800 border border-slate-600 rounded-lg text-white focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {SERVER_LOG_LEVELS.map((level) => (
+                      <option key={level} value={level}>
+                        {level}
+                      </option>
+                    ))}
+                  </select>
+                  <p className="text-xs text-slate-400 mt-1">
+                    Minimum severity of log messages the server sends to the
+                    Logs console. Only applies to servers that support MCP
+                    logging.
+                  </p>
+                </div>
+
+                {/* Health Check Interval */}
+                <div>
+                  <label className="block text-sm font-medium text-slate-300 mb-2">
+                    Health Check Interval (seconds)
+                  </label>
+                  <input
+                    type="number"
+                    min={0}
+                    value={config.healthCheckInterval ?? 30}
+                    onChange={(e) =>
+                      updateHealthCheckInterval(
+                        Math.max(0, parseInt(e.target.value) || 0)
+                      )
+                    }
+                    disabled={isReadOnly}
+                    aria-label="Health Check Interval"
+                    className="w-full px-3 py-2 bg-slate-800 border border-slate-600 rounded-lg text-white focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                  />
+                  <p className="text-xs text-slate-400 mt-1">
+                    How often the server is pinged to measure latency. Set to 0
+                    to turn health checks off.
+                  </p>
+                </div>
+
+                {/* Tool Namespace */}
+                <div>
+                  <label className="block text-sm font-medium text-slate-300 mb-2">
+                    Tool Namespace
+                  </label>
+                  <input
+                    type="text"
+                    value={config.toolNamespace || ""}
+                    onChange={(e) =>
+                      setConfig({
+                        ...config,
+                        toolNamespace: e.target.value || undefined,
+                      })
+                    }
+                    disabled={isReadOnly}
+                    placeholder={slugifyToolNamespace(config.name || "")}
+                    aria-label="Tool Namespace"
+                    className="w-full px-3 py-2 bg-slate-800 border border-slate-600 rounded-lg text-white font-mono focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                  />
+                  {config.toolNamespace &&
+                  !isValidToolNamespace(config.toolNamespace) ? (
+                    <p className="text-xs text-red-400 mt-1">
+                      Use letters, digits, hyphens and single underscores. The
+                      server name will be used instead.
+                    </p>
+                  ) : (
+                    <p className="text-xs text-slate-400 mt-1">
+                      The AI assistant sees this server&apos;s tools as{" "}
+                      <code>
+                        {config.toolNamespace ||
+                          slugifyToolNamespace(config.name || "")}
+                        {TOOL_NAMESPACE_SEPARATOR}tool_name
+                      </code>
+                      .
+                    </p>
+                  )}
+                </div>
               </div>
             )}
 
@@ -720,6 +889,60 @@ const ServerConfigModal: React.FC<ServerConfigModalProps> = ({
               </div>
             )}
 
+            {/* Roots Tab */}
+            {activeTab === "roots" && (
+              <div className="space-y-4">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <h3 className="text-sm font-medium text-slate-300">
+                      Workspace Roots
+                    </h3>
+                    <p className="text-xs text-slate-400 mt-1">
+                      Folders this server may work in. They are shared with
+                      the server through the MCP roots capability.
+                    </p>
+                  </div>
+                  {!isReadOnly && (
+                    <button
+                      onClick={addRoot}
+                      className="flex items-center space-x-1 px-3 py-1.5 bg-indigo-500/20 hover:bg-indigo-500/30 text-indigo-300 rounded-md transition-colors text-sm"
+                    >
+                      <PlusIcon className="w-4 h-4" />
+                      <span>Add Folder</span>
+                    </button>
+                  )}
+                </div>
+
+                <div className="space-y-3">
+                  {(config.roots || []).map((folder) => (
+                    <div
+                      key={folder}
+                      className="flex items-center space-x-3 p-3 bg-slate-800/50 rounded-lg border border-slate-700"
+                    >
+                      <FolderIcon className="w-4 h-4 text-indigo-400 flex-shrink-0" />
+                      <span className="flex-1 text-sm text-slate-200 font-mono truncate">
+                        {folder}
+                      </span>
+                      {!isReadOnly && (
+                        <button
+                          onClick={() => removeRoot(folder)}
+                          className="p-2 text-red-400 hover:text-red-300 hover:bg-red-500/10 rounded-md transition-colors"
+                        >
+                          <TrashIcon className="w-4 h-4" />
+                        </button>
+                      )}
+                    </div>
+                  ))}
+                  {(config.roots || []).length === 0 && (
+                    <div className="text-center py-8 text-slate-400">
+                      <FolderIcon className="w-8 h-8 mx-auto mb-2 opacity-50" />
+                      <p>No roots configured</p>
+                    </div>
+                  )}
+                </div>
+              </div>
+            )}
+
             {/* JSON Tab */}
             {activeTab === "json" && (
               <div className="space-y-4">
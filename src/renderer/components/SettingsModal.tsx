@@ -24,10 +24,14 @@ import {
   EyeSlashIcon,
   AdjustmentsHorizontalIcon,
   SparklesIcon,
+  UserCircleIcon,
+  ChartBarIcon,
 } from "@heroicons/react/24/outline";
 import { useSettings } from "../providers/SettingsProvider";
 import { useTheme } from "../providers/ThemeProvider";
 import { ModelManagement } from "./ModelManagement";
+import { PersonaManagement } from "./PersonaManagement";
+import { UsageDashboard } from "./UsageDashboard";
 
 interface SettingsModalProps {
   isOpen: boolean;
@@ -144,6 +148,8 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
   const tabs = [
     { id: "general", label: "General", icon: CogIcon },
     { id: "models", label: "AI Models", icon: SparklesIcon },
+    { id: "personas", label: "Personas", icon: UserCircleIcon },
+    { id: "usage", label: "Usage", icon: ChartBarIcon },
     { id: "appearance", label: "Appearance", icon: PaintBrushIcon },
     { id: "storage", label: "Server Storage", icon: FolderIcon },
     { id: "notifications", label: "Notifications", icon: BellIcon },
@@ -300,6 +306,10 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
                   "Configure general application settings"}
                 {activeTab === "models" &&
                   "Configure and manage AI models for chat"}
+                {activeTab === "personas" &&
+                  "System prompts and tool access for your chats"}
+                {activeTab === "usage" &&
+                  "Token usage and cost by day, model and conversation"}
                 {activeTab === "storage" &&
                   "Manage where generated server files are stored"}
                 {activeTab === "servers" &&
@@ -541,6 +551,16 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
                 <ModelManagement className="space-y-6" />
               )}
 
+              {/* Personas Tab */}
+              {activeTab === "personas" && (
+                <PersonaManagement className="space-y-6" />
+              )}
+
+              {/* Usage Tab */}
+              {activeTab === "usage" && (
+                <UsageDashboard className="space-y-6" />
+              )}
+
               {/* Appearance Tab */}
               {activeTab === "appearance" && (
                 <div className="space-y-6">
@@ -9,14 +9,31 @@ import {
   WifiIcon,
   ExclamationTriangleIcon,
   CheckCircleIcon,
+  ArrowPathIcon,
+  HeartIcon,
 } from "@heroicons/react/24/outline";
 
+interface ReconnectingServer {
+  id: string;
+  name: string;
+  attempt: number;
+  maxAttempts: number;
+}
+
+interface HealthSummary {
+  healthy: number;
+  degraded: number;
+  unhealthy: number;
+}
+
 interface StatusBarProps {
   serverCount: number;
   connectedServers: number;
   toolCount: number;
   lastUpdate?: Date;
   isOnline?: boolean;
+  reconnectingServers?: ReconnectingServer[];
+  healthSummary?: HealthSummary;
 }
 
 export const StatusBar: React.FC<StatusBarProps> = ({
@@ -25,6 +42,8 @@ export const StatusBar: React.FC<StatusBarProps> = ({
   toolCount,
   lastUpdate,
   isOnline = true,
+  reconnectingServers = [],
+  healthSummary,
 }) => {
   const [currentTime, setCurrentTime] = useState(new Date());
   const [showTooltip, setShowTooltip] = useState<string | null>(null);
@@ -76,6 +95,17 @@ export const StatusBar: React.FC<StatusBarProps> = ({
     };
   };
 
+  const healthChecked = healthSummary
+    ? healthSummary.healthy + healthSummary.degraded + healthSummary.unhealthy
+    : 0;
+  const healthColor = !healthSummary
+    ? "text-slate-400"
+    : healthSummary.unhealthy > 0
+    ? "text-red-400"
+    : healthSummary.degraded > 0
+    ? "text-yellow-400"
+    : "text-emerald-400";
+
   const connectionStatus = getConnectionStatus();
   const ConnectionIcon = connectionStatus.icon;
 
@@ -148,6 +178,54 @@ export const StatusBar: React.FC<StatusBarProps> = ({
             )}
           </div>
 
+          {/* Servers the supervisor is bringing back */}
+          {reconnectingServers.length > 0 && (
+            <div
+              className="flex items-center space-x-1.5 cursor-help relative"
+              onMouseEnter={() => setShowTooltip("reconnecting")}
+              onMouseLeave={() => setShowTooltip(null)}
+            >
+              <ArrowPathIcon className="w-3.5 h-3.5 text-amber-400 animate-spin" />
+              <span className="text-amber-400">
+                {reconnectingServers.length === 1
+                  ? `Reconnecting ${reconnectingServers[0].name} (attempt ${reconnectingServers[0].attempt}/${reconnectingServers[0].maxAttempts})`
+                  : `Reconnecting ${reconnectingServers.length} servers`}
+              </span>
+
+              {showTooltip === "reconnecting" && (
+                <div className="absolute bottom-full mb-2 left-0 bg-slate-800 text-white text-xs rounded px-2 py-1 whitespace-nowrap z-50 border border-slate-700">
+                  {reconnectingServers.map((server) => (
+                    <div key={server.id}>
+                      {server.name} • attempt {server.attempt}/
+                      {server.maxAttempts}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Ping Health Summary */}
+          {healthSummary && healthChecked > 0 && (
+            <div
+              className="flex items-center space-x-1.5 cursor-help relative"
+              onMouseEnter={() => setShowTooltip("health")}
+              onMouseLeave={() => setShowTooltip(null)}
+            >
+              <HeartIcon className={`w-3.5 h-3.5 ${healthColor}`} />
+              <span className={healthColor}>
+                {healthSummary.healthy}/{healthChecked} healthy
+              </span>
+
+              {showTooltip === "health" && (
+                <div className="absolute bottom-full mb-2 left-0 bg-slate-800 text-white text-xs rounded px-2 py-1 whitespace-nowrap z-50 border border-slate-700">
+                  {healthSummary.healthy} healthy • {healthSummary.degraded}{" "}
+                  degraded • {healthSummary.unhealthy} unhealthy
+                </div>
+              )}
+            </div>
+          )}
+
           {/* Tool Count with Enhanced Info */}
           <div
             className="flex items-center space-x-1.5 cursor-help relative"
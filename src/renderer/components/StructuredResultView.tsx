@@ -0,0 +1,168 @@
+import React, { useState } from "react";
+import { ChevronDownIcon, ChevronRightIcon } from "@heroicons/react/24/outline";
+
+interface StructuredResultViewProps {
+  value: any;
+  schema?: any; // The tool's outputSchema, for column order and descriptions
+}
+
+const isPlainObject = (value: any): value is Record<string, any> =>
+  value !== null && typeof value === "object" && !Array.isArray(value);
+
+// Arrays of objects read best as a table
+const isTable = (value: any): value is Record<string, any>[] =>
+  Array.isArray(value) && value.length > 0 && value.every(isPlainObject);
+
+const PrimitiveValue: React.FC<{ value: any }> = ({ value }) => {
+  if (value === null || value === undefined) {
+    return <span className="text-slate-500 italic">null</span>;
+  }
+  if (typeof value === "number") {
+    return <span className="text-sky-300">{value}</span>;
+  }
+  if (typeof value === "boolean") {
+    return <span className="text-amber-300">{String(value)}</span>;
+  }
+  return <span className="text-emerald-200">{String(value)}</span>;
+};
+
+const ValueNode: React.FC<{ value: any; schema?: any; depth: number }> = ({
+  value,
+  schema,
+  depth,
+}) => {
+  if (isTable(value)) {
+    return <ResultTable rows={value} schema={schema?.items} depth={depth} />;
+  }
+  if (isPlainObject(value) || Array.isArray(value)) {
+    return <ResultTree value={value} schema={schema} depth={depth} />;
+  }
+  return <PrimitiveValue value={value} />;
+};
+
+const ResultTable: React.FC<{
+  rows: Record<string, any>[];
+  schema?: any;
+  depth: number;
+}> = ({ rows, schema, depth }) => {
+  // Schema order first, then any keys the schema doesn't mention
+  const columns = Array.from(
+    new Set([
+      ...Object.keys(schema?.properties || {}),
+      ...rows.flatMap((row) => Object.keys(row)),
+    ])
+  );
+
+  return (
+    <div className="overflow-x-auto rounded border border-slate-700/50">
+      <table className="min-w-full text-xs font-mono">
+        <thead className="bg-slate-800/80">
+          <tr>
+            {columns.map((column) => (
+              <th
+                key={column}
+                title={schema?.properties?.[column]?.description}
+                className="px-2 py-1.5 text-left font-semibold text-slate-300 whitespace-nowrap"
+              >
+                {column}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row, index) => (
+            <tr key={index} className="border-t border-slate-700/50 align-top">
+              {columns.map((column) => (
+                <td key={column} className="px-2 py-1.5">
+                  <ValueNode
+                    value={row[column]}
+                    schema={schema?.properties?.[column]}
+                    depth={depth + 1}
+                  />
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+const ResultTree: React.FC<{
+  value: Record<string, any> | any[];
+  schema?: any;
+  depth: number;
+}> = ({ value, schema, depth }) => {
+  const [expanded, setExpanded] = useState(depth < 2);
+  const entries: [string, any][] = Array.isArray(value)
+    ? value.map((item, index) => [String(index), item])
+    : Object.entries(value);
+
+  if (entries.length === 0) {
+    return (
+      <span className="text-slate-500">
+        {Array.isArray(value) ? "[]" : "{}"}
+      </span>
+    );
+  }
+
+  return (
+    <div className="text-xs font-mono">
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="flex items-center gap-1 text-slate-400 hover:text-slate-200"
+      >
+        {expanded ? (
+          <ChevronDownIcon className="w-3 h-3" />
+        ) : (
+          <ChevronRightIcon className="w-3 h-3" />
+        )}
+        <span>
+          {Array.isArray(value)
+            ? `${entries.length} items`
+            : `${entries.length} fields`}
+        </span>
+      </button>
+      {expanded && (
+        <div className="ml-2 pl-3 border-l border-slate-700/60 space-y-1 mt-1">
+          {entries.map(([key, item]) => {
+            const itemSchema = Array.isArray(value)
+              ? schema?.items
+              : schema?.properties?.[key];
+            return (
+              <div key={key} className="flex items-start gap-2">
+                <span
+                  className="text-slate-400 whitespace-nowrap"
+                  title={itemSchema?.description}
+                >
+                  {key}:
+                </span>
+                <div className="min-w-0 flex-1">
+                  <ValueNode
+                    value={item}
+                    schema={itemSchema}
+                    depth={depth + 1}
+                  />
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Renders a tool's structuredContent as typed values: arrays of objects as a
+// table, everything else as a collapsible tree
+const StructuredResultView: React.FC<StructuredResultViewProps> = ({
+  value,
+  schema,
+}) => (
+  <div className="bg-slate-700/30 p-3 rounded max-h-80 overflow-auto">
+    <ValueNode value={value} schema={schema} depth={0} />
+  </div>
+);
+
+export default StructuredResultView;
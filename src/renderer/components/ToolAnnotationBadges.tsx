@@ -0,0 +1,89 @@
+import React from "react";
+import {
+  ArrowPathIcon,
+  EyeIcon,
+  GlobeAltIcon,
+  TableCellsIcon,
+  TrashIcon,
+} from "@heroicons/react/24/outline";
+import { ToolAnnotations } from "../../shared/types";
+
+interface ToolAnnotationBadgesProps {
+  annotations?: ToolAnnotations;
+  hasOutputSchema?: boolean;
+}
+
+// Badges for the behaviour hints a server declares on a tool. Hints aren't
+// guaranteed, so they're worded as what the server says about the tool.
+const ToolAnnotationBadges: React.FC<ToolAnnotationBadgesProps> = ({
+  annotations,
+  hasOutputSchema = false,
+}) => {
+  const badges: {
+    label: string;
+    title: string;
+    icon: React.ElementType;
+    className: string;
+  }[] = [];
+
+  if (annotations?.readOnlyHint) {
+    badges.push({
+      label: "Read-only",
+      title: "The server says this tool doesn't change anything",
+      icon: EyeIcon,
+      className: "bg-emerald-500/20 text-emerald-300",
+    });
+  } else if (annotations?.destructiveHint) {
+    badges.push({
+      label: "Destructive",
+      title: "The server says this tool may delete or overwrite data",
+      icon: TrashIcon,
+      className: "bg-red-500/20 text-red-300",
+    });
+  }
+  if (annotations?.idempotentHint) {
+    badges.push({
+      label: "Idempotent",
+      title: "Calling it again with the same arguments has no extra effect",
+      icon: ArrowPathIcon,
+      className: "bg-sky-500/20 text-sky-300",
+    });
+  }
+  if (annotations?.openWorldHint) {
+    badges.push({
+      label: "Open world",
+      title: "This tool reaches systems outside the server",
+      icon: GlobeAltIcon,
+      className: "bg-amber-500/20 text-amber-300",
+    });
+  }
+  if (hasOutputSchema) {
+    badges.push({
+      label: "Structured output",
+      title: "Results follow a declared output schema",
+      icon: TableCellsIcon,
+      className: "bg-indigo-500/20 text-indigo-300",
+    });
+  }
+
+  if (badges.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="flex flex-wrap gap-1.5">
+      {badges.map(({ label, title, icon: Icon, className }) => (
+        <span
+          key={label}
+          title={title}
+          className={`flex items-center gap-1 text-xs px-2 py-0.5 rounded-full ${className}`}
+        >
+          <Icon className="w-3 h-3" />
+          {label}
+        </span>
+      ))}
+    </div>
+  );
+};
+
+export default ToolAnnotationBadges;
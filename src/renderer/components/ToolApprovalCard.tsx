@@ -0,0 +1,238 @@
+import React, { useEffect, useState } from "react";
+import { motion } from "framer-motion";
+import {
+  CheckIcon,
+  ExclamationTriangleIcon,
+  PencilSquareIcon,
+  ShieldCheckIcon,
+  XMarkIcon,
+} from "@heroicons/react/24/outline";
+import {
+  PendingToolCall,
+  ToolApprovalDecision,
+  ToolApprovalRequest,
+} from "../../shared/types";
+
+interface ToolApprovalCardProps {
+  request: ToolApprovalRequest;
+  onRespond: (decisions: ToolApprovalDecision[]) => void;
+  disabled?: boolean;
+}
+
+interface CallDraft {
+  action: "approve" | "reject";
+  argsText: string;
+  editing: boolean;
+  reason: string;
+}
+
+const draftFor = (call: PendingToolCall): CallDraft => ({
+  action: "approve",
+  argsText: JSON.stringify(call.args ?? {}, null, 2),
+  editing: false,
+  reason: "",
+});
+
+// Shows the tool calls the agent paused on, so the user can approve them,
+// edit their arguments first, or reject them
+const ToolApprovalCard: React.FC<ToolApprovalCardProps> = ({
+  request,
+  onRespond,
+  disabled = false,
+}) => {
+  const [drafts, setDrafts] = useState<Record<string, CallDraft>>({});
+
+  useEffect(() => {
+    setDrafts(
+      Object.fromEntries(
+        request.toolCalls.map((call) => [call.id, draftFor(call)])
+      )
+    );
+  }, [request]);
+
+  const updateDraft = (id: string, patch: Partial<CallDraft>) => {
+    setDrafts((prev) => ({ ...prev, [id]: { ...prev[id], ...patch } }));
+  };
+
+  const parseArgs = (draft: CallDraft): any => {
+    try {
+      return JSON.parse(draft.argsText);
+    } catch {
+      return undefined;
+    }
+  };
+
+  const hasInvalidArgs = request.toolCalls.some((call) => {
+    const draft = drafts[call.id];
+    return draft?.action === "approve" && parseArgs(draft) === undefined;
+  });
+
+  const submit = () => {
+    onRespond(
+      request.toolCalls.map((call): ToolApprovalDecision => {
+        const draft = drafts[call.id] || draftFor(call);
+        if (draft.action === "reject") {
+          return {
+            id: call.id,
+            action: "reject",
+            ...(draft.reason.trim() && { reason: draft.reason.trim() }),
+          };
+        }
+
+        const args = parseArgs(draft);
+        const edited = JSON.stringify(args) !== JSON.stringify(call.args ?? {});
+        return { id: call.id, action: "approve", ...(edited && { args }) };
+      })
+    );
+  };
+
+  const rejectAll = () => {
+    onRespond(
+      request.toolCalls.map(
+        (call): ToolApprovalDecision => ({ id: call.id, action: "reject" })
+      )
+    );
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="mx-auto max-w-3xl bg-slate-800/80 border border-amber-500/30 rounded-xl p-4 space-y-3"
+    >
+      <div className="flex items-center space-x-2">
+        <ShieldCheckIcon className="w-5 h-5 text-amber-400" />
+        <h3 className="text-sm font-semibold text-white">
+          The agent wants to run{" "}
+          {request.toolCalls.length === 1
+            ? "a tool"
+            : `${request.toolCalls.length} tools`}
+        </h3>
+      </div>
+
+      {request.toolCalls.map((call) => {
+        const draft = drafts[call.id] || draftFor(call);
+        const invalid =
+          draft.action === "approve" && parseArgs(draft) === undefined;
+
+        return (
+          <div
+            key={call.id}
+            className="bg-slate-900/60 border border-slate-700/50 rounded-lg p-3 space-y-2"
+          >
+            <div className="flex items-center justify-between">
+              <div className="flex items-center space-x-2 min-w-0">
+                <span className="font-mono text-sm text-emerald-300 truncate">
+                  {call.name}
+                </span>
+                {call.destructive && (
+                  <span className="flex items-center space-x-1 text-xs bg-red-500/20 text-red-300 px-2 py-0.5 rounded-full">
+                    <ExclamationTriangleIcon className="w-3 h-3" />
+                    <span>Destructive</span>
+                  </span>
+                )}
+                {call.policy === "askOnce" && (
+                  <span className="text-xs text-slate-400">
+                    Approving allows it for the rest of this chat
+                  </span>
+                )}
+              </div>
+              <div className="flex items-center space-x-1">
+                <button
+                  onClick={() =>
+                    updateDraft(call.id, { editing: !draft.editing })
+                  }
+                  disabled={disabled || draft.action === "reject"}
+                  className="p-1.5 rounded-md text-slate-400 hover:text-white hover:bg-slate-700/60 disabled:opacity-40"
+                  title="Edit arguments"
+                >
+                  <PencilSquareIcon className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => updateDraft(call.id, { action: "approve" })}
+                  disabled={disabled}
+                  className={`px-2 py-1 text-xs rounded-md flex items-center space-x-1 ${
+                    draft.action === "approve"
+                      ? "bg-emerald-500/20 text-emerald-300 border border-emerald-500/40"
+                      : "text-slate-400 hover:text-white"
+                  }`}
+                >
+                  <CheckIcon className="w-3.5 h-3.5" />
+                  <span>Approve</span>
+                </button>
+                <button
+                  onClick={() => updateDraft(call.id, { action: "reject" })}
+                  disabled={disabled}
+                  className={`px-2 py-1 text-xs rounded-md flex items-center space-x-1 ${
+                    draft.action === "reject"
+                      ? "bg-red-500/20 text-red-300 border border-red-500/40"
+                      : "text-slate-400 hover:text-white"
+                  }`}
+                >
+                  <XMarkIcon className="w-3.5 h-3.5" />
+                  <span>Reject</span>
+                </button>
+              </div>
+            </div>
+
+            {draft.action === "reject" ? (
+              <input
+                value={draft.reason}
+                onChange={(e) =>
+                  updateDraft(call.id, { reason: e.target.value })
+                }
+                placeholder="Reason (optional, shown to the model)"
+                disabled={disabled}
+                className="w-full text-xs text-slate-200 bg-slate-800 border border-slate-700 rounded-md px-2 py-1.5 focus:outline-none focus:border-red-500/60"
+              />
+            ) : draft.editing ? (
+              <>
+                <textarea
+                  value={draft.argsText}
+                  onChange={(e) =>
+                    updateDraft(call.id, { argsText: e.target.value })
+                  }
+                  rows={Math.min(12, draft.argsText.split("\n").length + 1)}
+                  disabled={disabled}
+                  className={`w-full font-mono text-xs text-slate-200 bg-slate-800 border rounded-md px-2 py-1.5 focus:outline-none ${
+                    invalid
+                      ? "border-red-500/60"
+                      : "border-slate-700 focus:border-emerald-500/60"
+                  }`}
+                />
+                {invalid && (
+                  <p className="text-xs text-red-400">
+                    Arguments must be valid JSON
+                  </p>
+                )}
+              </>
+            ) : (
+              <pre className="text-xs font-mono text-slate-300 bg-slate-800/60 rounded-md px-2 py-1.5 overflow-x-auto max-h-48">
+                {draft.argsText}
+              </pre>
+            )}
+          </div>
+        );
+      })}
+
+      <div className="flex justify-end space-x-2">
+        <button
+          onClick={rejectAll}
+          disabled={disabled}
+          className="px-3 py-1.5 text-sm text-slate-300 bg-slate-700 hover:bg-slate-600 rounded-lg disabled:opacity-50"
+        >
+          Reject all
+        </button>
+        <button
+          onClick={submit}
+          disabled={disabled || hasInvalidArgs}
+          className="px-4 py-1.5 text-sm font-medium text-white bg-emerald-600 hover:bg-emerald-700 rounded-lg disabled:opacity-50"
+        >
+          Continue
+        </button>
+      </div>
+    </motion.div>
+  );
+};
+
+export default ToolApprovalCard;
@@ -8,6 +8,8 @@ import {
   ClockIcon,
   ServerIcon,
 } from "@heroicons/react/24/outline";
+import { ToolAnnotations } from "../../shared/types";
+import ToolAnnotationBadges from "./ToolAnnotationBadges";
 
 interface ToolCardProps {
   tool: {
@@ -16,6 +18,8 @@ interface ToolCardProps {
     serverId: string;
     serverName?: string;
     inputSchema?: any;
+    outputSchema?: any;
+    annotations?: ToolAnnotations;
     lastUsed?: Date;
     usageCount?: number;
   };
@@ -92,6 +96,13 @@ const ToolCard: React.FC<ToolCardProps> = ({
               {tool.description || "No description available"}
             </p>
 
+            <div className="mb-3">
+              <ToolAnnotationBadges
+                annotations={tool.annotations}
+                hasOutputSchema={!!tool.outputSchema}
+              />
+            </div>
+
             {/* Stats */}
             <div className="flex items-center gap-3 text-xs text-slate-400">
               {tool.usageCount !== undefined && (
@@ -172,6 +183,18 @@ const ToolCard: React.FC<ToolCardProps> = ({
               {JSON.stringify(tool.inputSchema, null, 2)}
             </pre>
           </div>
+          {tool.outputSchema && (
+            <>
+              <h4 className="text-sm font-semibold text-white mt-4 mb-3">
+                Output Schema
+              </h4>
+              <div className="bg-slate-900/50 rounded-lg p-4 overflow-auto">
+                <pre className="text-xs text-slate-300 font-mono">
+                  {JSON.stringify(tool.outputSchema, null, 2)}
+                </pre>
+              </div>
+            </>
+          )}
         </div>
       )}
 
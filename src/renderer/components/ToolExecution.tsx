@@ -12,6 +12,11 @@ import {
   ChevronRightIcon,
   Cog6ToothIcon,
 } from "@heroicons/react/24/outline";
+import ToolProgressBar from "./ToolProgressBar";
+import ToolAnnotationBadges from "./ToolAnnotationBadges";
+import StructuredResultView from "./StructuredResultView";
+import { useToolProgress } from "../hooks/useToolProgress";
+import { ToolAnnotations, ToolCallResult } from "../../shared/types";
 
 interface ToolExecutionProps {
   tools: Tool[];
@@ -19,7 +24,8 @@ interface ToolExecutionProps {
   onExecuteTool?: (
     toolName: string,
     args: any,
-    serverId: string
+    serverId: string,
+    callId?: string
   ) => Promise<any>;
   onToolStateChange?: (
     toolName: string,
@@ -39,6 +45,8 @@ interface Tool {
     properties?: Record<string, any>;
     required?: string[];
   };
+  outputSchema?: any;
+  annotations?: ToolAnnotations;
 }
 
 interface ServerStatus {
@@ -55,10 +63,19 @@ interface ToolExecution {
   status: "running" | "completed" | "error";
   startTime: Date;
   endTime?: Date;
-  result?: any;
+  result?: ToolCallResult;
   error?: string;
+  outputSchema?: any; // The tool's output schema when it ran
 }
 
+// Text of a result's content blocks, e.g. the message of an error result
+const contentText = (result?: ToolCallResult): string =>
+  (result?.content || [])
+    .map((item: any) =>
+      item.type === "text" ? item.text : JSON.stringify(item, null, 2)
+    )
+    .join("\n");
+
 export const ToolExecution: React.FC<ToolExecutionProps> = ({
   tools,
   servers,
@@ -76,6 +93,10 @@ export const ToolExecution: React.FC<ToolExecutionProps> = ({
   const [localToolStates, setLocalToolStates] = useState<
     Record<string, boolean>
   >({});
+  const toolProgress = useToolProgress();
+  const activeExecutionId = executions.find(
+    (ex) => ex.status === "running"
+  )?.id;
 
   // Populate default values when tool is selected
   const selectTool = (tool: Tool) => {
@@ -150,21 +171,32 @@ export const ToolExecution: React.FC<ToolExecutionProps> = ({
       args: toolArgs,
       status: "running",
       startTime: new Date(),
+      outputSchema: tool.outputSchema,
     };
 
     setExecutions((prev) => [execution, ...prev]);
     setIsExecuting(true);
 
     try {
-      const result = await onExecuteTool(tool.name, toolArgs, tool.serverId);
+      // The execution id doubles as the call id for progress and cancellation
+      const result: ToolCallResult = await onExecuteTool(
+        tool.name,
+        toolArgs,
+        tool.serverId,
+        executionId
+      );
+      // The call went through but the tool itself reported a failure
       setExecutions((prev) =>
         prev.map((ex) =>
           ex.id === executionId
             ? {
                 ...ex,
-                status: "completed",
+                status: result?.isError ? "error" : "completed",
                 endTime: new Date(),
                 result,
+                ...(result?.isError && {
+                  error: contentText(result) || "The tool reported an error",
+                }),
               }
             : ex
         )
@@ -567,6 +599,12 @@ export const ToolExecution: React.FC<ToolExecutionProps> = ({
                             >
                               {tool.description}
                             </p>
+                            <div className="mt-2">
+                              <ToolAnnotationBadges
+                                annotations={tool.annotations}
+                                hasOutputSchema={!!tool.outputSchema}
+                              />
+                            </div>
                             <div className="flex items-center mt-2">
                               <span className="text-xs px-2 py-1 bg-slate-700/50 rounded">
                                 {server?.name || "Unknown Server"}
@@ -637,6 +675,12 @@ export const ToolExecution: React.FC<ToolExecutionProps> = ({
                       <p className="text-slate-400 text-sm mt-1">
                         {selectedTool.description || "No description available"}
                       </p>
+                      <div className="mt-2">
+                        <ToolAnnotationBadges
+                          annotations={selectedTool.annotations}
+                          hasOutputSchema={!!selectedTool.outputSchema}
+                        />
+                      </div>
                       <div className="flex items-center mt-2 space-x-3">
                         <span className="text-xs px-2 py-1 bg-slate-700/50 rounded">
                           Server:{" "}
@@ -805,13 +849,32 @@ export const ToolExecution: React.FC<ToolExecutionProps> = ({
                     )}
                   </button>
 
-                  <button
-                    onClick={() => setToolArgs({})}
-                    className="px-4 py-3 bg-slate-700 text-slate-300 rounded-lg hover:bg-slate-600 transition-colors duration-200"
-                  >
-                    Clear
-                  </button>
+                  {isExecuting && activeExecutionId ? (
+                    <button
+                      onClick={() => toolProgress.cancel(activeExecutionId)}
+                      className="px-4 py-3 bg-red-500/20 text-red-300 rounded-lg hover:bg-red-500/30 transition-colors duration-200 flex items-center space-x-2"
+                    >
+                      <StopIcon className="w-4 h-4" />
+                      <span>Cancel</span>
+                    </button>
+                  ) : (
+                    <button
+                      onClick={() => setToolArgs({})}
+                      className="px-4 py-3 bg-slate-700 text-slate-300 rounded-lg hover:bg-slate-600 transition-colors duration-200"
+                    >
+                      Clear
+                    </button>
+                  )}
                 </div>
+
+                {activeExecutionId &&
+                  toolProgress.running[activeExecutionId] && (
+                    <div className="mt-4">
+                      <ToolProgressBar
+                        event={toolProgress.running[activeExecutionId]}
+                      />
+                    </div>
+                  )}
               </motion.div>
             )}
           </div>
@@ -921,32 +984,56 @@ export const ToolExecution: React.FC<ToolExecutionProps> = ({
                               </div>
                             </div>
 
+                            {/* Structured output, checked against the tool's output schema */}
+                            {execution.result?.structuredContent && (
+                              <div>
+                                <h5 className="text-sm font-medium text-slate-300 mb-2">
+                                  Structured Result
+                                </h5>
+                                <StructuredResultView
+                                  value={execution.result.structuredContent}
+                                  schema={execution.outputSchema}
+                                />
+                              </div>
+                            )}
+
+                            {execution.result?.validationErrors && (
+                              <div className="bg-amber-500/10 border border-amber-500/20 p-3 rounded">
+                                <p className="text-amber-400 text-sm font-medium mb-1">
+                                  Result doesn't match the output schema
+                                </p>
+                                <ul className="text-amber-300/80 text-xs font-mono space-y-0.5">
+                                  {execution.result.validationErrors.map(
+                                    (message, index) => (
+                                      <li key={index}>{message}</li>
+                                    )
+                                  )}
+                                </ul>
+                              </div>
+                            )}
+
                             {/* Result or Error */}
-                            {execution.result && (
+                            {execution.result && !execution.result.isError && (
                               <div>
                                 <h5 className="text-sm font-medium text-slate-300 mb-2">
                                   Result
                                 </h5>
                                 <div className="relative">
                                   <pre className="bg-slate-700/50 p-3 rounded text-xs font-mono text-slate-300 overflow-x-auto max-h-40 overflow-y-auto">
-                                    {typeof execution.result === "string"
-                                      ? execution.result
-                                      : JSON.stringify(
-                                          execution.result,
-                                          null,
-                                          2
-                                        )}
+                                    {JSON.stringify(
+                                      execution.result.content,
+                                      null,
+                                      2
+                                    )}
                                   </pre>
                                   <button
                                     onClick={() =>
                                       copyToClipboard(
-                                        typeof execution.result === "string"
-                                          ? execution.result
-                                          : JSON.stringify(
-                                              execution.result,
-                                              null,
-                                              2
-                                            )
+                                        JSON.stringify(
+                                          execution.result?.content,
+                                          null,
+                                          2
+                                        )
                                       )
                                     }
                                     className="absolute top-2 right-2 p-1 text-slate-400 hover:text-slate-200 transition-colors duration-200"
@@ -0,0 +1,59 @@
+import React from "react";
+import { XMarkIcon } from "@heroicons/react/24/outline";
+import { ToolProgressEvent } from "../../shared/types";
+
+interface ToolProgressBarProps {
+  event: ToolProgressEvent;
+  onCancel?: (callId: string) => void;
+}
+
+const ToolProgressBar: React.FC<ToolProgressBarProps> = ({
+  event,
+  onCancel,
+}) => {
+  // Without a total the server only tells us it is still working
+  const percent =
+    event.total && event.progress !== undefined
+      ? Math.min(100, Math.round((event.progress / event.total) * 100))
+      : null;
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center justify-between text-xs text-slate-400">
+        <span className="truncate">
+          {event.toolName}
+          {event.message ? ` — ${event.message}` : ""}
+        </span>
+        <div className="flex items-center space-x-2 flex-shrink-0">
+          {percent !== null && <span>{percent}%</span>}
+          {event.progress !== undefined && percent === null && (
+            <span>{event.progress}</span>
+          )}
+          {onCancel && (
+            <button
+              type="button"
+              onClick={() => onCancel(event.callId)}
+              className="flex items-center space-x-1 px-2 py-0.5 rounded bg-red-500/20 text-red-300 hover:bg-red-500/30 transition-colors"
+              title="Cancel tool call"
+            >
+              <XMarkIcon className="w-3 h-3" />
+              <span>Cancel</span>
+            </button>
+          )}
+        </div>
+      </div>
+      <div className="h-1.5 w-full bg-slate-700 rounded-full overflow-hidden">
+        {percent !== null ? (
+          <div
+            className="h-full bg-gradient-to-r from-indigo-500 to-purple-600 transition-all duration-300"
+            style={{ width: `${percent}%` }}
+          />
+        ) : (
+          <div className="h-full w-1/3 bg-gradient-to-r from-indigo-500 to-purple-600 animate-pulse" />
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ToolProgressBar;
@@ -0,0 +1,43 @@
+import React, { useState } from "react";
+
+interface ToolResultTextProps {
+  result: any;
+  className?: string;
+}
+
+// Longer results are cut short here, as they are for the model, until the
+// user asks for the whole thing
+const PREVIEW_CHARS = 2000;
+
+const ToolResultText: React.FC<ToolResultTextProps> = ({
+  result,
+  className = "",
+}) => {
+  const [expanded, setExpanded] = useState(false);
+
+  const text =
+    typeof result === "string" ? result : JSON.stringify(result, null, 2);
+  const long = text.length > PREVIEW_CHARS;
+
+  return (
+    <div>
+      <div className={className}>
+        {long && !expanded ? `${text.slice(0, PREVIEW_CHARS)}…` : text}
+      </div>
+      {long && (
+        <button
+          onClick={() => setExpanded(!expanded)}
+          className="mt-1 text-emerald-400 hover:text-emerald-300 font-medium transition-colors"
+        >
+          {expanded
+            ? "Show less"
+            : `View full result (${text.length.toLocaleString(
+                "en-US"
+              )} characters)`}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default ToolResultText;
@@ -42,7 +42,19 @@ import {
   ToggleOff as ToggleOffIcon,
   Settings as SettingsIcon,
 } from "@mui/icons-material";
-import { ServerStatus, Tool } from "../../shared/types";
+import {
+  ServerStatus,
+  Tool,
+  ServerListChangedEvent,
+  ToolApprovalPolicy,
+} from "../../shared/types";
+
+const POLICY_LABELS: Record<ToolApprovalPolicy, string> = {
+  allow: "Always allow",
+  ask: "Ask every time",
+  askOnce: "Ask once per chat",
+  deny: "Deny",
+};
 
 interface ToolsPanelProps {
   servers: ServerStatus[];
@@ -64,6 +76,7 @@ const ToolsPanel: React.FC<ToolsPanelProps> = ({
   const [executionError, setExecutionError] = useState<string | null>(null);
   const [executing, setExecuting] = useState(false);
   const [togglingTools, setTogglingTools] = useState<Set<string>>(new Set());
+  const [allTools, setAllTools] = useState<Tool[]>([]);
 
   const connectedServers = servers.filter((s) => s.connected);
 
@@ -108,6 +121,50 @@ const ToolsPanel: React.FC<ToolsPanelProps> = ({
     }
   }, [selectedServerId, servers]);
 
+  // Reload when the selected server announces its tools changed
+  useEffect(() => {
+    if (!window.electronAPI) return;
+
+    const unsubscribe = window.electronAPI.on(
+      "server-list-changed",
+      (event: ServerListChangedEvent) => {
+        if (event.kind !== "tools") return;
+        if (event.serverId === selectedServerId) {
+          loadTools(event.serverId);
+        }
+        loadAllTools();
+      }
+    );
+
+    return unsubscribe;
+  }, [selectedServerId]);
+
+  // Tools of every connected server, for the collision report
+  useEffect(() => {
+    loadAllTools();
+  }, [connectedServers.map((s) => s.id).join(",")]);
+
+  const loadAllTools = async () => {
+    if (!window.electronAPI) return;
+    try {
+      setAllTools(await window.electronAPI.listTools());
+    } catch (error) {
+      console.error("ToolsPanel: Failed to load tools of all servers:", error);
+    }
+  };
+
+  // Tool names exposed by more than one server. The agent tells them apart
+  // by their namespaced names.
+  const collisions = Object.entries(
+    allTools.reduce<Record<string, Tool[]>>((groups, tool) => {
+      (groups[tool.name] = groups[tool.name] || []).push(tool);
+      return groups;
+    }, {})
+  ).filter(([, group]) => new Set(group.map((tool) => tool.serverId)).size > 1);
+
+  const getServerName = (serverId?: string) =>
+    servers.find((s) => s.id === serverId)?.name || serverId;
+
   const loadTools = async (serverId: string) => {
     console.log("ToolsPanel: loadTools called with serverId:", serverId);
     setLoading(true);
@@ -191,6 +248,23 @@ const ToolsPanel: React.FC<ToolsPanelProps> = ({
     }
   };
 
+  const handlePolicyChange = async (tool: Tool, policy: ToolApprovalPolicy) => {
+    if (!tool.serverId) return;
+
+    try {
+      await window.electronAPI.setToolPolicy(tool.name, tool.serverId, policy);
+      setTools((prevTools) =>
+        prevTools.map((t) =>
+          t.name === tool.name && t.serverId === tool.serverId
+            ? { ...t, policy }
+            : t
+        )
+      );
+    } catch (error) {
+      console.error("Failed to set tool approval policy:", error);
+    }
+  };
+
   const getToolKey = (tool: Tool): string => {
     return `${tool.serverId}:${tool.name}`;
   };
@@ -271,6 +345,32 @@ const ToolsPanel: React.FC<ToolsPanelProps> = ({
         </Select>
       </FormControl>
 
+      {/* Name Collisions */}
+      {collisions.length > 0 && (
+        <Alert severity="info" sx={{ mb: 3 }}>
+          <Typography variant="subtitle2" gutterBottom>
+            {collisions.length} tool name
+            {collisions.length === 1 ? " is" : "s are"} exposed by more than one
+            server
+          </Typography>
+          {collisions.map(([name, group]) => (
+            <Typography key={name} variant="body2">
+              <strong>{name}</strong>:{" "}
+              {group
+                .map(
+                  (tool) =>
+                    `${tool.qualifiedName} (${getServerName(tool.serverId)})`
+                )
+                .join(", ")}
+            </Typography>
+          ))}
+          <Typography variant="caption" color="text.secondary">
+            The assistant calls each by its namespaced name. Set a server's tool
+            namespace in its configuration to shorten them.
+          </Typography>
+        </Alert>
+      )}
+
       {/* Tools Summary */}
       {tools.length > 0 && (
         <Paper
@@ -339,9 +439,18 @@ const ToolsPanel: React.FC<ToolsPanelProps> = ({
                 <CardContent>
                   <Box sx={{ display: "flex", alignItems: "center", mb: 2 }}>
                     <CodeIcon sx={{ mr: 1, color: "primary.main" }} />
-                    <Typography variant="h6" sx={{ flexGrow: 1 }}>
-                      {tool.name}
-                    </Typography>
+                    <Box sx={{ flexGrow: 1 }}>
+                      <Typography variant="h6">{tool.name}</Typography>
+                      {tool.qualifiedName && (
+                        <Typography
+                          variant="caption"
+                          color="text.secondary"
+                          sx={{ fontFamily: "monospace" }}
+                        >
+                          Agent name: {tool.qualifiedName}
+                        </Typography>
+                      )}
+                    </Box>
 
                     {/* Tool Status Indicators */}
                     <Box sx={{ display: "flex", alignItems: "center", gap: 1 }}>
@@ -354,6 +463,38 @@ const ToolsPanel: React.FC<ToolsPanelProps> = ({
                         />
                       )}
 
+                      {/* Whether the agent asks before calling it */}
+                      {tool.serverId && (
+                        <Tooltip
+                          title={
+                            tool.annotations?.destructiveHint
+                              ? "The server marks this tool as destructive"
+                              : "When the agent may call this tool"
+                          }
+                        >
+                          <Select
+                            value={tool.policy || "allow"}
+                            onChange={(e) =>
+                              handlePolicyChange(
+                                tool,
+                                e.target.value as ToolApprovalPolicy
+                              )
+                            }
+                            size="small"
+                            variant="standard"
+                            sx={{ fontSize: "0.8rem" }}
+                          >
+                            {Object.entries(POLICY_LABELS).map(
+                              ([value, label]) => (
+                                <MenuItem key={value} value={value}>
+                                  {label}
+                                </MenuItem>
+                              )
+                            )}
+                          </Select>
+                        </Tooltip>
+                      )}
+
                       {/* Enable/Disable Toggle */}
                       {tool.serverId && (
                         <Tooltip
@@ -0,0 +1,254 @@
+import React, { useEffect, useState } from "react";
+import {
+  ArrowDownTrayIcon,
+  ChartBarIcon,
+  ExclamationTriangleIcon,
+} from "@heroicons/react/24/outline";
+import { UsageSummary, UsageSummaryRow } from "../../shared/types";
+import { formatCost, formatTokenCount } from "../../shared/usage";
+import { ModelPriceTable } from "./ModelPriceTable";
+
+interface UsageDashboardProps {
+  className?: string;
+}
+
+type UsageRange = "7" | "30" | "90" | "all";
+type UsageGrouping = "byDay" | "byModel" | "byConversation";
+
+const RANGES: { id: UsageRange; label: string }[] = [
+  { id: "7", label: "7 days" },
+  { id: "30", label: "30 days" },
+  { id: "90", label: "90 days" },
+  { id: "all", label: "All time" },
+];
+
+const GROUPINGS: { id: UsageGrouping; label: string }[] = [
+  { id: "byDay", label: "Day" },
+  { id: "byModel", label: "Model" },
+  { id: "byConversation", label: "Conversation" },
+];
+
+// Start of the first day in the range, in the user's time zone
+const sinceFor = (range: UsageRange): string | undefined => {
+  if (range === "all") return undefined;
+  const since = new Date();
+  since.setHours(0, 0, 0, 0);
+  since.setDate(since.getDate() - (Number(range) - 1));
+  return since.toISOString();
+};
+
+export const UsageDashboard: React.FC<UsageDashboardProps> = ({
+  className = "",
+}) => {
+  const [range, setRange] = useState<UsageRange>("30");
+  const [grouping, setGrouping] = useState<UsageGrouping>("byDay");
+  const [summary, setSummary] = useState<UsageSummary | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const loadSummary = async () => {
+    try {
+      setSummary(
+        await window.electronAPI.getUsageSummary({ since: sinceFor(range) })
+      );
+    } catch (error) {
+      console.error("Failed to load token usage:", error);
+    }
+  };
+
+  useEffect(() => {
+    loadSummary();
+  }, [range]);
+
+  const handleExport = async () => {
+    setMessage(null);
+    try {
+      const filePath = await window.electronAPI.exportUsageCsv({
+        since: sinceFor(range),
+      });
+      if (filePath) {
+        setMessage(`Exported to ${filePath}`);
+      }
+    } catch (error) {
+      console.error("Failed to export token usage:", error);
+      setMessage(error instanceof Error ? error.message : "Export failed");
+    }
+  };
+
+  const total = summary?.total;
+  const rows = summary ? summary[grouping] : [];
+  const maxTokens = Math.max(
+    1,
+    ...rows.map((row) => row.inputTokens + row.outputTokens)
+  );
+
+  const renderCost = (row: UsageSummaryRow) => (
+    <span
+      title={
+        row.unpricedCalls > 0
+          ? `${row.unpricedCalls} call${
+              row.unpricedCalls !== 1 ? "s" : ""
+            } without a price`
+          : undefined
+      }
+    >
+      {formatCost(row.cost)}
+      {row.unpricedCalls > 0 && <span className="text-amber-400">*</span>}
+    </span>
+  );
+
+  return (
+    <div className={`space-y-6 ${className}`}>
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-xl font-semibold text-white">Token Usage</h2>
+          <p className="text-gray-400 text-sm">
+            Tokens and cost of chat replies and server sampling requests
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <select
+            value={range}
+            onChange={(e) => setRange(e.target.value as UsageRange)}
+            className="px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white text-sm focus:outline-none focus:border-blue-500"
+          >
+            {RANGES.map((option) => (
+              <option key={option.id} value={option.id}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={handleExport}
+            disabled={!total?.calls}
+            className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white rounded-lg transition-colors"
+          >
+            <ArrowDownTrayIcon className="w-4 h-4" />
+            Export CSV
+          </button>
+        </div>
+      </div>
+
+      {message && <p className="text-sm text-gray-400">{message}</p>}
+
+      {/* Totals */}
+      <div className="grid grid-cols-4 gap-4">
+        {[
+          { label: "Cost", value: total ? renderCost(total) : "—" },
+          {
+            label: "Input tokens",
+            value: total ? formatTokenCount(total.inputTokens) : "—",
+          },
+          {
+            label: "Output tokens",
+            value: total ? formatTokenCount(total.outputTokens) : "—",
+          },
+          { label: "Model calls", value: total ? total.calls : "—" },
+        ].map((card) => (
+          <div
+            key={card.label}
+            className="bg-gray-800 border border-gray-700 rounded-lg p-4"
+          >
+            <div className="text-xs text-gray-400 mb-1">{card.label}</div>
+            <div className="text-2xl font-semibold text-white">
+              {card.value}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {!!total?.estimatedCalls && (
+        <div className="flex items-start gap-2 text-xs text-gray-400">
+          <ExclamationTriangleIcon className="w-4 h-4 text-amber-400 flex-shrink-0" />
+          <span>
+            {total.estimatedCalls} of {total.calls} calls were counted with a
+            tokenizer estimate because the provider didn't report usage.
+          </span>
+        </div>
+      )}
+
+      {/* Breakdown */}
+      <div className="bg-gray-800 border border-gray-700 rounded-lg">
+        <div className="flex items-center gap-1 p-2 border-b border-gray-700">
+          <span className="text-sm text-gray-400 px-2">By</span>
+          {GROUPINGS.map((option) => (
+            <button
+              key={option.id}
+              onClick={() => setGrouping(option.id)}
+              className={`px-3 py-1 rounded-md text-sm transition-colors ${
+                grouping === option.id
+                  ? "bg-blue-600 text-white"
+                  : "text-gray-300 hover:bg-gray-700"
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+
+        {rows.length === 0 ? (
+          <div className="text-center py-12">
+            <ChartBarIcon className="w-12 h-12 text-gray-500 mx-auto mb-4" />
+            <p className="text-gray-400">No model calls in this period.</p>
+          </div>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-gray-400">
+                <th className="px-4 py-2 font-medium">
+                  {GROUPINGS.find((option) => option.id === grouping)?.label}
+                </th>
+                <th className="px-4 py-2 font-medium w-1/3">Tokens</th>
+                <th className="px-4 py-2 font-medium text-right">Input</th>
+                <th className="px-4 py-2 font-medium text-right">Output</th>
+                <th className="px-4 py-2 font-medium text-right">Calls</th>
+                <th className="px-4 py-2 font-medium text-right">Cost</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row) => {
+                const tokens = row.inputTokens + row.outputTokens;
+                return (
+                  <tr key={row.key} className="border-t border-gray-700/60">
+                    <td className="px-4 py-2 text-white max-w-[14rem] truncate">
+                      {row.label}
+                    </td>
+                    <td className="px-4 py-2">
+                      <div className="h-2 bg-gray-700 rounded-full overflow-hidden">
+                        <div
+                          className="h-full bg-blue-500"
+                          style={{ width: `${(tokens / maxTokens) * 100}%` }}
+                        />
+                      </div>
+                    </td>
+                    <td className="px-4 py-2 text-right text-gray-300">
+                      {formatTokenCount(row.inputTokens)}
+                    </td>
+                    <td className="px-4 py-2 text-right text-gray-300">
+                      {formatTokenCount(row.outputTokens)}
+                    </td>
+                    <td className="px-4 py-2 text-right text-gray-300">
+                      {row.calls}
+                    </td>
+                    <td className="px-4 py-2 text-right text-white">
+                      {renderCost(row)}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {!!total?.unpricedCalls && (
+        <p className="text-xs text-gray-400">
+          <span className="text-amber-400">*</span> Some calls used models
+          without a price. Add one below to include them in the cost.
+        </p>
+      )}
+
+      <ModelPriceTable onSaved={loadSummary} />
+    </div>
+  );
+};
@@ -0,0 +1,166 @@
+import React, { useEffect, useState } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { LockClosedIcon, XMarkIcon } from "@heroicons/react/24/outline";
+import { VaultStatus } from "../../shared/types";
+
+// Asks for the vault passphrase when the OS keychain isn't available to
+// encrypt secrets. Until it is unlocked, anything needing a saved API key,
+// token or password fails.
+const VaultUnlockDialog: React.FC = () => {
+  const [status, setStatus] = useState<VaultStatus | null>(null);
+  const [dismissed, setDismissed] = useState(false);
+  const [passphrase, setPassphrase] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [unlocking, setUnlocking] = useState(false);
+
+  useEffect(() => {
+    if (!window.electronAPI?.getVaultStatus) return;
+
+    window.electronAPI
+      .getVaultStatus()
+      .then(setStatus)
+      .catch((err: any) => console.error("Failed to get vault status:", err));
+
+    const unsubscribe = window.electronAPI.on(
+      "vault-status",
+      (next: VaultStatus) => setStatus(next)
+    );
+    return unsubscribe;
+  }, []);
+
+  const creating = status ? !status.passphraseSet : false;
+  const isOpen = !!status && !status.unlocked && !dismissed;
+
+  const unlock = async () => {
+    if (!passphrase) return;
+    if (creating && passphrase !== confirmation) {
+      setError("Passphrases don't match");
+      return;
+    }
+
+    setUnlocking(true);
+    setError(null);
+    try {
+      setStatus(await window.electronAPI.unlockVault(passphrase));
+      setPassphrase("");
+      setConfirmation("");
+    } catch (err) {
+      setError(
+        err instanceof Error && err.message.includes("Incorrect")
+          ? "Incorrect passphrase"
+          : "Failed to unlock the vault"
+      );
+    } finally {
+      setUnlocking(false);
+    }
+  };
+
+  const inputClassName =
+    "w-full text-sm text-zinc-200 bg-zinc-800 border border-zinc-700 rounded-lg px-3 py-2 focus:outline-none focus:border-indigo-500";
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <>
+          {/* Backdrop */}
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50"
+          />
+
+          {/* Dialog */}
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95, y: 20 }}
+            animate={{ opacity: 1, scale: 1, y: 0 }}
+            exit={{ opacity: 0, scale: 0.95, y: 20 }}
+            transition={{ type: "spring", duration: 0.3 }}
+            className="fixed inset-0 z-50 flex items-center justify-center p-4"
+          >
+            <div className="bg-zinc-900 border border-zinc-700 rounded-xl shadow-2xl w-full max-w-md flex flex-col overflow-hidden">
+              {/* Header */}
+              <div className="flex items-center justify-between p-6 border-b border-zinc-700">
+                <div className="flex items-center space-x-3">
+                  <div className="p-2 rounded-lg bg-indigo-500/20">
+                    <LockClosedIcon className="w-6 h-6 text-indigo-400" />
+                  </div>
+                  <div>
+                    <h2 className="text-xl font-semibold text-zinc-100">
+                      {creating ? "Set a vault passphrase" : "Unlock secrets"}
+                    </h2>
+                    <p className="text-sm text-zinc-400">
+                      No system keychain is available
+                    </p>
+                  </div>
+                </div>
+                <button
+                  onClick={() => setDismissed(true)}
+                  className="p-2 hover:bg-zinc-800 rounded-lg transition-colors duration-200"
+                  aria-label="Not now"
+                >
+                  <XMarkIcon className="w-5 h-5 text-zinc-400" />
+                </button>
+              </div>
+
+              {/* Content */}
+              <form
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  unlock();
+                }}
+                className="p-6 space-y-4"
+              >
+                <p className="text-sm text-zinc-300">
+                  {creating
+                    ? "API keys, tokens and passwords are encrypted with this passphrase. You'll need it each time MCP Studio starts."
+                    : "Enter your passphrase to use saved API keys, tokens and passwords."}
+                </p>
+                <input
+                  type="password"
+                  value={passphrase}
+                  onChange={(e) => setPassphrase(e.target.value)}
+                  className={inputClassName}
+                  placeholder="Passphrase"
+                  autoFocus
+                />
+                {creating && (
+                  <input
+                    type="password"
+                    value={confirmation}
+                    onChange={(e) => setConfirmation(e.target.value)}
+                    className={inputClassName}
+                    placeholder="Confirm passphrase"
+                  />
+                )}
+                {error && <p className="text-xs text-red-400">{error}</p>}
+
+                <div className="flex items-center justify-end space-x-3 pt-2">
+                  <button
+                    type="button"
+                    onClick={() => setDismissed(true)}
+                    className="px-4 py-2 text-sm font-medium text-zinc-400 hover:text-zinc-300
+                             hover:bg-zinc-800 rounded-lg transition-all duration-200"
+                  >
+                    Not now
+                  </button>
+                  <button
+                    type="submit"
+                    disabled={!passphrase || unlocking}
+                    className="px-6 py-2 text-sm font-medium rounded-lg transition-all duration-200
+                             bg-blue-500 text-white hover:bg-blue-600 disabled:opacity-50"
+                  >
+                    {creating ? "Set passphrase" : "Unlock"}
+                  </button>
+                </div>
+              </form>
+            </div>
+          </motion.div>
+        </>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default VaultUnlockDialog;
@@ -0,0 +1,93 @@
+import { useState, useEffect } from "react";
+import { AgentStreamEvent } from "../../shared/types";
+
+export type AgentStreamStep =
+  | { kind: "text"; text: string }
+  | {
+      kind: "tool";
+      callId: string;
+      name: string;
+      args: any;
+      status: "running" | "done";
+      result?: string;
+    };
+
+interface AgentStreamState {
+  streaming: boolean;
+  steps: AgentStreamStep[]; // Text and tool calls, in the order they happened
+}
+
+/**
+ * Follow the agent run that is in progress in the main process: streamed
+ * reply text interleaved with the tool calls it makes. Cleared when the run
+ * ends, since the finished message then arrives through the invoke.
+ */
+export const useAgentStream = (): AgentStreamState => {
+  const [state, setState] = useState<AgentStreamState>({
+    streaming: false,
+    steps: [],
+  });
+
+  useEffect(() => {
+    if (!window.electronAPI) return;
+
+    const unsubscribe = window.electronAPI.on(
+      "agent-stream",
+      (event: AgentStreamEvent) => {
+        setState((prev) => {
+          switch (event.type) {
+            case "start":
+              return { streaming: true, steps: [] };
+            case "end":
+              return { streaming: false, steps: [] };
+            case "token": {
+              const last = prev.steps[prev.steps.length - 1];
+              if (last?.kind === "text") {
+                return {
+                  ...prev,
+                  steps: [
+                    ...prev.steps.slice(0, -1),
+                    { kind: "text", text: last.text + event.text },
+                  ],
+                };
+              }
+              return {
+                ...prev,
+                steps: [...prev.steps, { kind: "text", text: event.text }],
+              };
+            }
+            case "toolStart":
+              return {
+                ...prev,
+                steps: [
+                  ...prev.steps,
+                  {
+                    kind: "tool",
+                    callId: event.callId,
+                    name: event.name,
+                    args: event.args,
+                    status: "running",
+                  },
+                ],
+              };
+            case "toolEnd":
+              return {
+                ...prev,
+                steps: prev.steps.map((step) =>
+                  step.kind === "tool" && step.callId === event.callId
+                    ? { ...step, status: "done", result: event.result }
+                    : step
+                ),
+              };
+            default:
+              return prev;
+          }
+        });
+      }
+    );
+
+    return unsubscribe;
+  }, []);
+
+  return state;
+};
@@ -0,0 +1,92 @@
+import { useState, useEffect, useRef, useCallback } from "react";
+import { CompletionReference } from "../../shared/types";
+
+const DEFAULT_DEBOUNCE_MS = 250;
+
+interface CompletionState {
+  suggestions: Record<string, string[]>; // argument name -> values
+  loading: string | null; // argument currently being completed
+  // null until the server has been asked; false when it has no completions
+  supported: boolean | null;
+  requestCompletion: (
+    argumentName: string,
+    value: string,
+    context?: Record<string, string>
+  ) => void;
+}
+
+/**
+ * Debounced completion/complete suggestions for prompt arguments and
+ * resource template variables of one server.
+ */
+export const useCompletion = (
+  serverId: string | null,
+  ref: CompletionReference | null,
+  debounceMs: number = DEFAULT_DEBOUNCE_MS
+): CompletionState => {
+  const [suggestions, setSuggestions] = useState<Record<string, string[]>>(
+    {}
+  );
+  const [loading, setLoading] = useState<string | null>(null);
+  const [supported, setSupported] = useState<boolean | null>(null);
+  const timers = useRef<Record<string, ReturnType<typeof setTimeout>>>({});
+  const latestRequest = useRef<Record<string, number>>({});
+
+  const refKey = ref ? JSON.stringify(ref) : null;
+
+  const clearTimers = () => {
+    Object.values(timers.current).forEach(clearTimeout);
+    timers.current = {};
+  };
+
+  // Start fresh whenever the target prompt or template changes
+  useEffect(() => {
+    setSuggestions({});
+    setLoading(null);
+    setSupported(null);
+    latestRequest.current = {};
+    return clearTimers;
+  }, [serverId, refKey]);
+
+  const requestCompletion = useCallback(
+    (argumentName: string, value: string, context?: Record<string, string>) => {
+      if (!serverId || !ref || supported === false || !window.electronAPI) {
+        return;
+      }
+
+      clearTimeout(timers.current[argumentName]);
+      timers.current[argumentName] = setTimeout(async () => {
+        const requestId = (latestRequest.current[argumentName] || 0) + 1;
+        latestRequest.current[argumentName] = requestId;
+        setLoading(argumentName);
+
+        try {
+          const result = await window.electronAPI.complete(
+            serverId,
+            ref,
+            { name: argumentName, value },
+            context
+          );
+
+          // Ignore responses that were overtaken by newer keystrokes
+          if (latestRequest.current[argumentName] !== requestId) return;
+
+          setSupported(result.supported);
+          setSuggestions((prev) => ({
+            ...prev,
+            [argumentName]: result.values,
+          }));
+        } catch (error) {
+          console.error("Failed to fetch completions:", error);
+        } finally {
+          if (latestRequest.current[argumentName] === requestId) {
+            setLoading(null);
+          }
+        }
+      }, debounceMs);
+    },
+    [serverId, refKey, supported, debounceMs]
+  );
+
+  return { suggestions, loading, supported, requestCompletion };
+};
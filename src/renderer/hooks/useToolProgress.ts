@@ -0,0 +1,44 @@
+import { useState, useEffect, useCallback } from "react";
+import { ToolProgressEvent } from "../../shared/types";
+
+interface ToolProgressState {
+  running: Record<string, ToolProgressEvent>; // callId -> latest event
+  cancel: (callId: string) => Promise<void>;
+}
+
+/**
+ * Track tool calls that are in flight in the main process, with the latest
+ * notifications/progress update for each, and cancel them by call id.
+ */
+export const useToolProgress = (): ToolProgressState => {
+  const [running, setRunning] = useState<Record<string, ToolProgressEvent>>({});
+
+  useEffect(() => {
+    if (!window.electronAPI) return;
+
+    const unsubscribe = window.electronAPI.on(
+      "tool-progress",
+      (event: ToolProgressEvent) => {
+        setRunning((prev) => {
+          if (event.status === "running") {
+            return { ...prev, [event.callId]: event };
+          }
+          const { [event.callId]: _finished, ...rest } = prev;
+          return rest;
+        });
+      }
+    );
+
+    return unsubscribe;
+  }, []);
+
+  const cancel = useCallback(async (callId: string) => {
+    try {
+      await window.electronAPI.cancelTool(callId);
+    } catch (error) {
+      console.error("Failed to cancel tool call:", error);
+    }
+  }, []);
+
+  return { running, cancel };
+};
@@ -1,5 +1,20 @@
 import { PublicAPISpec, PublicAPIEndpoint } from "../../shared/publicApiTypes";
 import { APIServerConfig } from "../../shared/apiServerTypes";
+import { isSecretRef } from "../../shared/secrets";
+import { VaultStatus } from "../../shared/types";
+
+// Fields of authConfig.config that hold credentials. The rest (URLs, header
+// names, ...) stay readable in localStorage.
+const AUTH_SECRET_FIELDS = [
+  "token",
+  "accessToken",
+  "refreshToken",
+  "apiKey",
+  "key",
+  "password",
+  "secret",
+  "clientSecret",
+];
 
 interface PrivateAPIConfig {
   id: string;
@@ -25,6 +40,7 @@ class PrivateAPIService {
   private static instance: PrivateAPIService;
   private privateAPIs: Map<string, PrivateAPIConfig> = new Map();
   private readonly STORAGE_KEY = "mcp_studio_private_apis";
+  private authMigration: Promise<void> | null = null;
 
   public static getInstance(): PrivateAPIService {
     if (!PrivateAPIService.instance) {
@@ -35,6 +51,7 @@ class PrivateAPIService {
 
   private constructor() {
     this.loadFromStorage();
+    this.migrateWhenVaultUnlocked();
   }
 
   private loadFromStorage(): void {
@@ -60,11 +77,97 @@ class PrivateAPIService {
     }
   }
 
+  private isElectron(): boolean {
+    return typeof window !== "undefined" && !!(window as any).electronAPI;
+  }
+
+  // Auth settings go to the main process vault; localStorage only keeps
+  // references to them
+  private async sealAuthConfig(
+    config: PrivateAPIConfig
+  ): Promise<PrivateAPIConfig> {
+    if (!config.authConfig || !this.isElectron()) {
+      return config;
+    }
+
+    const sealed: Record<string, any> = { ...config.authConfig.config };
+    let changed = false;
+    for (const [key, value] of Object.entries(sealed)) {
+      if (
+        AUTH_SECRET_FIELDS.includes(key) &&
+        typeof value === "string" &&
+        value &&
+        !isSecretRef(value)
+      ) {
+        sealed[key] = await window.electronAPI.storeSecret(value);
+        changed = true;
+      }
+    }
+
+    return changed
+      ? { ...config, authConfig: { ...config.authConfig, config: sealed } }
+      : config;
+  }
+
+  private async deleteAuthSecrets(config: PrivateAPIConfig): Promise<void> {
+    if (!config.authConfig || !this.isElectron()) {
+      return;
+    }
+    for (const value of Object.values(config.authConfig.config)) {
+      if (isSecretRef(value)) {
+        await window.electronAPI.deleteSecret(value);
+      }
+    }
+  }
+
+  // Earlier versions kept auth settings in localStorage in plaintext. They
+  // move once the vault can take them, which may only be after an unlock.
+  private migrateWhenVaultUnlocked(): void {
+    if (!this.isElectron()) {
+      return;
+    }
+    const migrateIfUnlocked = (status: VaultStatus) => {
+      if (status.unlocked) {
+        this.migrateAuthConfigs();
+      }
+    };
+    window.electronAPI
+      .getVaultStatus()
+      .then(migrateIfUnlocked)
+      .catch((error) => console.error("Failed to get vault status:", error));
+    window.electronAPI.on("vault-status", migrateIfUnlocked);
+  }
+
+  private migrateAuthConfigs(): Promise<void> {
+    if (!this.authMigration) {
+      this.authMigration = (async () => {
+        let migrated = false;
+        for (const [id, config] of this.privateAPIs) {
+          const sealed = await this.sealAuthConfig(config);
+          if (sealed !== config) {
+            this.privateAPIs.set(id, sealed);
+            migrated = true;
+          }
+        }
+        if (migrated) {
+          this.saveToStorage();
+        }
+      })().catch((error) => {
+        console.error(
+          "Failed to move private API secrets to the vault:",
+          error
+        );
+        this.authMigration = null; // Try again on the next unlock
+      });
+    }
+    return this.authMigration;
+  }
+
   async addPrivateAPI(config: PrivateAPIConfig): Promise<void> {
     // Validate the API is accessible
     await this.validateAPIAccess(config);
 
-    this.privateAPIs.set(config.id, config);
+    this.privateAPIs.set(config.id, await this.sealAuthConfig(config));
     this.saveToStorage();
   }
 
@@ -252,8 +355,15 @@ class PrivateAPIService {
   }
 
   removePrivateAPI(id: string): void {
+    const config = this.privateAPIs.get(id);
     this.privateAPIs.delete(id);
     this.saveToStorage();
+
+    if (config) {
+      this.deleteAuthSecrets(config).catch((error) =>
+        console.error("Failed to delete private API secrets:", error)
+      );
+    }
   }
 
   async testConnection(id: string): Promise<{
@@ -1,3 +1,37 @@
+import type {
+  SamplingApprovalRequest,
+  SamplingApprovalResponse,
+  ResourceTemplate,
+  CompletionReference,
+  CompletionResult,
+  ElicitationRequest,
+  ElicitationResponse,
+  ServerLogLevel,
+  VaultStatus,
+  WorkspaceProfile,
+  WorkspaceProfileList,
+  ProfileSwitchResult,
+  ToolApprovalPolicy,
+  ToolApprovalDecision,
+  ToolCallResult,
+  ChatMessage,
+  Conversation,
+  ConversationList,
+  ConversationExportFormat,
+  OpenConversationResult,
+  ConversationPromptUpdate,
+  Persona,
+  ContextUsage,
+  ModelPrice,
+  UsageQuery,
+  UsageSummary,
+} from "../shared/types";
+import type {
+  ServerConfigFileSource,
+  ServerConfigFormat,
+  ServerConfigExportOptions,
+} from "../shared/serverConfigFormats";
+
 declare global {
   // Environment variables
   const __DEV__: boolean;
@@ -17,14 +51,23 @@ declare global {
       updateServer: (id: string, config: any) => Promise<any>;
       connectServer: (id: string) => Promise<void>;
       disconnectServer: (id: string) => Promise<void>;
+      setServerRoots: (id: string, roots: string[]) => Promise<void>;
+      setServerLogLevel: (id: string, level: ServerLogLevel) => Promise<void>;
+      getServerStderr: (id: string) => Promise<string[]>;
+      setServerHealthCheckInterval: (
+        id: string,
+        seconds: number
+      ) => Promise<void>;
 
       // Tool operations
       listTools: (serverId?: string) => Promise<any[]>;
       executeTool: (
         serverId: string,
         toolName: string,
-        args: any
-      ) => Promise<any>;
+        args: any,
+        callId?: string
+      ) => Promise<ToolCallResult>;
+      cancelTool: (callId: string) => Promise<boolean>;
 
       // Tool state management
       getToolStates: () => Promise<Record<string, boolean>>;
@@ -34,6 +77,12 @@ declare global {
         enabled: boolean
       ) => Promise<boolean>;
       toggleToolState: (toolName: string, serverId: string) => Promise<boolean>;
+      getToolPolicies: () => Promise<Record<string, ToolApprovalPolicy>>;
+      setToolPolicy: (
+        toolName: string,
+        serverId: string,
+        policy: ToolApprovalPolicy
+      ) => Promise<boolean>;
 
       // Agent operations
       sendMessage: ({
@@ -54,6 +103,10 @@ declare global {
         node?: any;
         model?: string;
       }) => Promise<any>;
+      respondToolApproval: (
+        decisions: ToolApprovalDecision[]
+      ) => Promise<ChatMessage>;
+      stopMessage: () => Promise<boolean>;
       clearChat: () => Promise<{ success: boolean }>;
 
       // Model management
@@ -70,11 +123,109 @@ declare global {
       // Resource operations
       listResources: (serverId: string) => Promise<any[]>;
       readResource: (serverId: string, uri: string) => Promise<any>;
+      subscribeResource: (serverId: string, uri: string) => Promise<any>;
+      unsubscribeResource: (serverId: string, uri: string) => Promise<void>;
+      listResourceTemplates: (serverId: string) => Promise<ResourceTemplate[]>;
+      readResourceTemplate: (
+        serverId: string,
+        uriTemplate: string,
+        variables: Record<string, string>
+      ) => Promise<{ uri: string; contents: any[] }>;
+
+      // Argument completion
+      complete: (
+        serverId: string,
+        ref: CompletionReference,
+        argument: { name: string; value: string },
+        context?: Record<string, string>
+      ) => Promise<CompletionResult>;
 
       // Prompt operations
       listPrompts: (serverId: string) => Promise<any[]>;
       getPrompt: (serverId: string, name: string, args: any) => Promise<any>;
 
+      // Sampling approvals
+      onSamplingRequest: (
+        callback: (request: SamplingApprovalRequest) => void
+      ) => () => void;
+      respondToSamplingRequest: (
+        response: SamplingApprovalResponse
+      ) => Promise<boolean>;
+      onSamplingRequestCancelled: (
+        callback: (requestId: string) => void
+      ) => () => void;
+
+      // Elicitation requests
+      onElicitationRequest: (
+        callback: (request: ElicitationRequest) => void
+      ) => () => void;
+      respondToElicitationRequest: (
+        response: ElicitationResponse
+      ) => Promise<boolean>;
+
+      // Secret vault
+      getVaultStatus: () => Promise<VaultStatus>;
+      unlockVault: (passphrase: string) => Promise<VaultStatus>;
+      storeSecret: (value: string) => Promise<string>;
+      revealSecret: (ref: string) => Promise<string>;
+      deleteSecret: (ref: string) => Promise<void>;
+
+      // Server config import/export
+      detectServerConfigFiles: () => Promise<ServerConfigFileSource[]>;
+      openServerConfigFile: () => Promise<ServerConfigFileSource | null>;
+      exportServerConfigs: (
+        serverIds: string[],
+        format: ServerConfigFormat,
+        options: ServerConfigExportOptions
+      ) => Promise<string>;
+      saveServerConfigExport: (
+        content: string,
+        format: ServerConfigFormat
+      ) => Promise<string | null>;
+
+      // Workspace profiles
+      listProfiles: () => Promise<WorkspaceProfileList>;
+      createProfile: (
+        name: string,
+        description?: string
+      ) => Promise<WorkspaceProfile>;
+      saveProfile: (id: string) => Promise<WorkspaceProfile>;
+      deleteProfile: (id: string) => Promise<void>;
+      switchProfile: (id: string) => Promise<ProfileSwitchResult>;
+      exportProfile: (id: string) => Promise<string | null>;
+      importProfile: () => Promise<WorkspaceProfile | null>;
+
+      // Chat conversations
+      listConversations: (search?: string) => Promise<ConversationList>;
+      openConversation: (id: string) => Promise<OpenConversationResult>;
+      renameConversation: (id: string, title: string) => Promise<Conversation>;
+      deleteConversation: (id: string) => Promise<void>;
+      exportConversation: (
+        id: string,
+        format: ConversationExportFormat
+      ) => Promise<string | null>;
+      updateConversationPrompt: (
+        update: ConversationPromptUpdate
+      ) => Promise<Conversation>;
+
+      // Personas
+      listPersonas: () => Promise<Persona[]>;
+      savePersona: (
+        persona: Omit<Persona, "id" | "createdAt" | "updatedAt"> & {
+          id?: string;
+        }
+      ) => Promise<Persona>;
+      deletePersona: (id: string) => Promise<void>;
+
+      // Context window
+      getContextUsage: (modelConfigId?: string) => Promise<ContextUsage | null>;
+
+      // Token usage and cost
+      getUsageSummary: (query?: UsageQuery) => Promise<UsageSummary>;
+      exportUsageCsv: (query?: UsageQuery) => Promise<string | null>;
+      getModelPrices: () => Promise<ModelPrice[]>;
+      saveModelPrices: (prices: ModelPrice[]) => Promise<ModelPrice[]>;
+
       // Context parameter discovery
       discoverContextParams: (
         serverId: string
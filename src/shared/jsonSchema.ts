@@ -0,0 +1,102 @@
+/**
+ * Minimal JSON Schema checks for tool output schemas
+ *
+ * Covers the keywords tool output schemas use in practice (type, required,
+ * properties, additionalProperties, items, enum, const). Anything else is
+ * accepted, so a result is only flagged when it clearly doesn't match.
+ */
+
+function typeOf(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number" && Number.isInteger(value)) return "integer";
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  const actual = typeOf(value);
+  return actual === type || (type === "number" && actual === "integer");
+}
+
+/**
+ * Check a value against a schema. Returns one message per mismatch, each
+ * prefixed with the JSON path it was found at; empty when the value matches.
+ */
+export function validateJsonSchema(
+  value: unknown,
+  schema: any,
+  path: string = "$"
+): string[] {
+  if (!schema || typeof schema !== "object") {
+    return [];
+  }
+
+  if (schema.type) {
+    const types: string[] = Array.isArray(schema.type)
+      ? schema.type
+      : [schema.type];
+    if (!types.some((type) => matchesType(value, type))) {
+      return [`${path}: expected ${types.join(" | ")}, got ${typeOf(value)}`];
+    }
+  }
+
+  if (
+    Array.isArray(schema.enum) &&
+    !schema.enum.some((option: unknown) => deepEqual(option, value))
+  ) {
+    return [`${path}: must be one of ${JSON.stringify(schema.enum)}`];
+  }
+
+  if ("const" in schema && !deepEqual(schema.const, value)) {
+    return [`${path}: must be ${JSON.stringify(schema.const)}`];
+  }
+
+  const errors: string[] = [];
+
+  if (typeOf(value) === "object") {
+    const record = value as Record<string, unknown>;
+    const properties: Record<string, any> = schema.properties || {};
+
+    for (const key of schema.required || []) {
+      if (!(key in record)) {
+        errors.push(`${path}: missing required property "${key}"`);
+      }
+    }
+
+    for (const [key, propertyValue] of Object.entries(record)) {
+      if (properties[key]) {
+        errors.push(
+          ...validateJsonSchema(
+            propertyValue,
+            properties[key],
+            `${path}.${key}`
+          )
+        );
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}: unexpected property "${key}"`);
+      } else if (typeof schema.additionalProperties === "object") {
+        errors.push(
+          ...validateJsonSchema(
+            propertyValue,
+            schema.additionalProperties,
+            `${path}.${key}`
+          )
+        );
+      }
+    }
+  }
+
+  if (Array.isArray(value) && schema.items && !Array.isArray(schema.items)) {
+    value.forEach((item, index) => {
+      errors.push(
+        ...validateJsonSchema(item, schema.items, `${path}[${index}]`)
+      );
+    });
+  }
+
+  return errors;
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
@@ -0,0 +1,26 @@
+/**
+ * Variables for system prompts
+ *
+ * Prompts may contain {{name}} placeholders that are filled in every time
+ * the prompt is sent, so they stay current over a long conversation.
+ */
+
+export const PROMPT_VARIABLES: { name: string; description: string }[] = [
+  { name: "date", description: "Today's date" },
+  { name: "time", description: "The current time" },
+  { name: "model", description: "Name of the model answering" },
+  { name: "persona", description: "Name of the conversation's persona" },
+  { name: "servers", description: "Connected MCP servers" },
+  { name: "tools", description: "Tools the assistant can call" },
+];
+
+// Unknown placeholders are left as they are, so a typo shows up in the
+// prompt instead of silently disappearing
+export function renderPromptTemplate(
+  template: string,
+  values: Record<string, string>
+): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, name) =>
+    name in values ? values[name] : placeholder
+  );
+}
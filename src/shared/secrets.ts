@@ -0,0 +1,20 @@
+/**
+ * Secret references
+ *
+ * Secrets are encrypted in the main process vault and configs only hold a
+ * reference to them. The renderer sees references, never the secret itself,
+ * unless the user asks to reveal one.
+ */
+
+export const SECRET_REF_PREFIX = "vault:";
+
+export function isSecretRef(value: unknown): boolean {
+  return typeof value === "string" && value.startsWith(SECRET_REF_PREFIX);
+}
+
+// Environment variables and headers that probably hold a credential
+export function looksLikeSecretName(name: string): boolean {
+  return /password|secret|token|api[_-]?key|credential|private[_-]?key|authorization/i.test(
+    name
+  );
+}
@@ -0,0 +1,324 @@
+/**
+ * Server configuration formats of other MCP clients
+ *
+ * Reads and writes the mcpServers files of Claude Desktop and Cursor and
+ * the servers file of VS Code, so servers can be moved between those clients
+ * and MCP Studio in bulk.
+ */
+
+import { ServerConfig } from "./types";
+import { looksLikeSecretName } from "./secrets";
+
+export type ServerConfigFormat = "claude-desktop" | "cursor" | "vscode";
+
+export const SERVER_CONFIG_FORMATS: Record<
+  ServerConfigFormat,
+  { label: string; fileName: string }
+> = {
+  "claude-desktop": {
+    label: "Claude Desktop",
+    fileName: "claude_desktop_config.json",
+  },
+  cursor: { label: "Cursor", fileName: "mcp.json" }, // .cursor/mcp.json
+  vscode: { label: "VS Code", fileName: "mcp.json" }, // .vscode/mcp.json
+};
+
+const REDACTED = "<REDACTED>";
+
+// A server read from another client's config, not saved yet
+export interface ImportedServer {
+  config: Omit<ServerConfig, "id">;
+  // Parts of the entry MCP Studio can't carry over
+  warnings: string[];
+}
+
+export interface ParsedServerConfigFile {
+  format: ServerConfigFormat;
+  servers: ImportedServer[];
+}
+
+// A config file read from disk, as listed in the import dialog
+export interface ServerConfigFileSource {
+  path: string;
+  format: ServerConfigFormat;
+  servers: ImportedServer[];
+  error?: string; // Set when the file exists but couldn't be parsed
+}
+
+export interface ServerConfigExportOptions {
+  // Replace credentials with placeholders instead of writing them out
+  redactSecrets: boolean;
+}
+
+/**
+ * Parse any of the supported files. The format is detected from the content
+ * unless the caller knows it from the file's location.
+ */
+export function parseServerConfigFile(
+  text: string,
+  formatHint?: ServerConfigFormat
+): ParsedServerConfigFile {
+  let parsed: any;
+  try {
+    // VS Code files are JSON with comments and trailing commas
+    parsed = JSON.parse(stripJsonComments(text));
+  } catch (error) {
+    throw new Error(
+      `Failed to parse JSON: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`
+    );
+  }
+
+  // VS Code user settings nest the same object under "mcp"
+  const vscodeServers = parsed?.servers ?? parsed?.mcp?.servers;
+  let entries: Record<string, any>;
+  let format: ServerConfigFormat;
+
+  if (parsed?.mcpServers && typeof parsed.mcpServers === "object") {
+    entries = parsed.mcpServers;
+    format =
+      formatHint ??
+      (Object.values(entries).some((entry: any) => entry?.url)
+        ? "cursor"
+        : "claude-desktop");
+  } else if (vscodeServers && typeof vscodeServers === "object") {
+    entries = vscodeServers;
+    format = "vscode";
+  } else if (parsed?.command || parsed?.url) {
+    // A single server entry on its own
+    entries = { [parsed.name || "Imported Server"]: parsed };
+    format = formatHint ?? "claude-desktop";
+  } else {
+    throw new Error(
+      "Invalid configuration format. Expected an 'mcpServers' or 'servers' object."
+    );
+  }
+
+  const servers = Object.entries(entries).map(([name, entry]) =>
+    importServerEntry(name, entry)
+  );
+  if (servers.length === 0) {
+    throw new Error("No servers found in the configuration");
+  }
+
+  return { format, servers };
+}
+
+function importServerEntry(name: string, entry: any): ImportedServer {
+  const warnings: string[] = [];
+  const base = {
+    name,
+    enabled: entry.disabled !== true,
+    autoRestart: false,
+    timeout: 30000,
+  };
+
+  if (JSON.stringify(entry).includes("${input:")) {
+    warnings.push("Uses VS Code input variables, fill them in after importing");
+  }
+  if (entry.envFile) {
+    warnings.push(`envFile "${entry.envFile}" is not loaded`);
+  }
+
+  const url = entry.url || entry.serverUrl;
+  if (url) {
+    const headers: Record<string, string> = { ...(entry.headers || {}) };
+    const authorization = headers.Authorization ?? headers.authorization;
+    const bearer = /^Bearer\s+(.+)$/i.exec(authorization || "");
+    if (bearer) {
+      delete headers.Authorization;
+      delete headers.authorization;
+    }
+
+    return {
+      config: {
+        ...base,
+        type: entry.type === "sse" ? "sse" : "remote",
+        url,
+        ...(Object.keys(headers).length > 0 && { headers }),
+        // Bearer tokens go into the vault instead of a plain header
+        authType: bearer ? "bearer" : "none",
+        ...(bearer && { accessToken: bearer[1] }),
+      },
+      warnings,
+    };
+  }
+
+  if (!entry.command) {
+    warnings.push("Has neither a command nor a URL");
+  }
+  return {
+    config: {
+      ...base,
+      type: "stdio",
+      command: entry.command || "",
+      args: entry.args || [],
+      env: entry.env || {},
+    },
+    warnings,
+  };
+}
+
+/**
+ * Render servers as a config file for another client
+ */
+export function formatServerConfigs(
+  configs: ServerConfig[],
+  format: ServerConfigFormat,
+  options: ServerConfigExportOptions
+): string {
+  const inputs: any[] = [];
+  const entries: Record<string, any> = {};
+
+  for (const config of configs) {
+    // VS Code prompts for redacted values instead of storing placeholders
+    const secret = (field: string, value: string): string => {
+      if (!options.redactSecrets) {
+        return value;
+      }
+      if (format !== "vscode") {
+        return REDACTED;
+      }
+      const id = `${config.name}-${field}`
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, "-");
+      inputs.push({
+        type: "promptString",
+        id,
+        description: `${field} for ${config.name}`,
+        password: true,
+      });
+      return `\${input:${id}}`;
+    };
+
+    entries[config.name] =
+      config.type === "stdio"
+        ? exportStdioEntry(config, format, secret)
+        : exportRemoteEntry(config, format, secret);
+  }
+
+  const file =
+    format === "vscode"
+      ? { ...(inputs.length > 0 && { inputs }), servers: entries }
+      : { mcpServers: entries };
+  return JSON.stringify(file, null, 2);
+}
+
+function exportStdioEntry(
+  config: ServerConfig,
+  format: ServerConfigFormat,
+  secret: (field: string, value: string) => string
+): Record<string, any> {
+  const env: Record<string, string> = {};
+  for (const [name, value] of Object.entries(config.env || {})) {
+    env[name] = looksLikeSecretName(name) ? secret(name, value) : value;
+  }
+
+  return {
+    ...(format === "vscode" && { type: "stdio" }),
+    command: config.command,
+    args: config.args || [],
+    ...(Object.keys(env).length > 0 && { env }),
+  };
+}
+
+function exportRemoteEntry(
+  config: ServerConfig,
+  format: ServerConfigFormat,
+  secret: (field: string, value: string) => string
+): Record<string, any> {
+  const headers: Record<string, string> = {};
+  for (const [name, value] of Object.entries(config.headers || {})) {
+    headers[name] = looksLikeSecretName(name) ? secret(name, value) : value;
+  }
+
+  // OAuth servers sign in again from the other client
+  switch (config.authType) {
+    case "bearer":
+      if (config.accessToken) {
+        headers["Authorization"] = `Bearer ${secret(
+          "token",
+          config.accessToken
+        )}`;
+      }
+      break;
+    case "apiKey":
+      if (config.apiKey) {
+        headers[config.apiKeyHeader || "X-API-Key"] = secret(
+          "apiKey",
+          config.apiKey
+        );
+      }
+      break;
+    case "basic":
+      if (config.username && config.password) {
+        headers["Authorization"] = `Basic ${secret(
+          "credentials",
+          btoa(`${config.username}:${config.password}`)
+        )}`;
+      }
+      break;
+  }
+
+  const hasHeaders = Object.keys(headers).length > 0;
+
+  if (format === "claude-desktop") {
+    // Claude Desktop only launches local processes; mcp-remote bridges
+    return {
+      command: "npx",
+      args: [
+        "-y",
+        "mcp-remote",
+        config.url,
+        ...Object.entries(headers).flatMap(([name, value]) => [
+          "--header",
+          `${name}: ${value}`,
+        ]),
+      ],
+    };
+  }
+
+  return {
+    ...(format === "vscode" && {
+      type: config.type === "sse" ? "sse" : "http",
+    }),
+    url: config.url,
+    ...(hasHeaders && { headers }),
+  };
+}
+
+// Remove // and /* */ comments and trailing commas outside of strings
+function stripJsonComments(text: string): string {
+  let result = "";
+  let inString = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inString) {
+      result += char;
+      if (char === "\\") {
+        result += text[++i] ?? "";
+      } else if (char === '"') {
+        inString = false;
+      }
+    } else if (char === '"') {
+      inString = true;
+      result += char;
+    } else if (char === "/" && text[i + 1] === "/") {
+      while (i < text.length && text[i] !== "\n") i++;
+      result += "\n";
+    } else if (char === "/" && text[i + 1] === "*") {
+      i = text.indexOf("*/", i + 2);
+      if (i === -1) break;
+      i++;
+    } else if (char === "," && /^\s*[}\]]/.test(text.slice(i + 1))) {
+      // Trailing comma
+    } else {
+      result += char;
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,69 @@
+/**
+ * Namespaced tool names
+ *
+ * The agent sees every tool as "<namespace>__<tool>", where the namespace is
+ * the server's tool namespace or its slugified name. That keeps same-named
+ * tools on different servers apart and lets a call be routed back to exactly
+ * one server.
+ */
+
+import { ServerConfig } from "./types";
+
+export const TOOL_NAMESPACE_SEPARATOR = "__";
+
+// Most model providers only accept ^[a-zA-Z0-9_-]{1,64}$ as a tool name
+const MAX_TOOL_NAME_LENGTH = 64;
+
+export function slugifyToolNamespace(name: string): string {
+  return (
+    name
+      .toLowerCase()
+      .replace(/[^a-z0-9-]+/g, "_")
+      .replace(/_{2,}/g, "_")
+      .replace(/^_+|_+$/g, "") || "server"
+  );
+}
+
+// Single underscores only, so the first "__" in a name always ends the
+// namespace
+export function isValidToolNamespace(namespace: string): boolean {
+  return /^[a-zA-Z0-9-]+(_[a-zA-Z0-9-]+)*$/.test(namespace);
+}
+
+/**
+ * Namespace of every server, keyed by server id. Servers are taken in the
+ * given (storage) order, so when two would share a namespace the later one
+ * gets a numeric suffix and existing names stay stable.
+ */
+export function buildToolNamespaces(
+  configs: Pick<ServerConfig, "id" | "name" | "toolNamespace">[]
+): Record<string, string> {
+  const namespaces: Record<string, string> = {};
+  const taken = new Set<string>();
+
+  for (const config of configs) {
+    const base =
+      config.toolNamespace && isValidToolNamespace(config.toolNamespace)
+        ? config.toolNamespace
+        : slugifyToolNamespace(config.name);
+
+    let namespace = base;
+    for (let n = 2; taken.has(namespace); n++) {
+      namespace = `${base}_${n}`;
+    }
+    taken.add(namespace);
+    namespaces[config.id] = namespace;
+  }
+
+  return namespaces;
+}
+
+// Tool names are sanitized and truncated to fit, so the server's tool list is
+// needed to map a qualified name back to its tool
+export function qualifyToolName(namespace: string, toolName: string): string {
+  const safeName = toolName.replace(/[^a-zA-Z0-9_-]/g, "_");
+  return `${namespace}${TOOL_NAMESPACE_SEPARATOR}${safeName}`.slice(
+    0,
+    MAX_TOOL_NAME_LENGTH
+  );
+}
@@ -13,6 +13,10 @@ export enum IpcChannels {
   UPDATE_SERVER = "update-server",
   CONNECT_SERVER = "connect-server",
   DISCONNECT_SERVER = "disconnect-server",
+  SET_SERVER_ROOTS = "set-server-roots",
+  SET_SERVER_LOG_LEVEL = "set-server-log-level",
+  SET_SERVER_HEALTH_CHECK_INTERVAL = "set-server-health-check-interval",
+  GET_SERVER_STDERR = "get-server-stderr",
   TEST_REMOTE_SERVER_CONNECTION = "test-remote-server-connection",
 
   // Tool operations
@@ -21,10 +25,15 @@ export enum IpcChannels {
   TOGGLE_TOOL_STATE = "toggle-tool-state",
   GET_TOOL_STATES = "get-tool-states",
   SET_TOOL_ENABLED = "set-tool-enabled",
+  GET_TOOL_POLICIES = "get-tool-policies",
+  SET_TOOL_POLICY = "set-tool-policy",
+  CANCEL_TOOL = "cancel-tool",
 
   // Agent operations
   SEND_MESSAGE = "send-message",
   SEND_WORKFLOW_MESSAGE = "send-workflow-message",
+  RESPOND_TOOL_APPROVAL = "respond-tool-approval",
+  STOP_MESSAGE = "stop-message",
   CLEAR_CHAT = "clear-chat",
 
   // Model management
@@ -39,6 +48,13 @@ export enum IpcChannels {
   // Resource operations
   LIST_RESOURCES = "list-resources",
   READ_RESOURCE = "read-resource",
+  SUBSCRIBE_RESOURCE = "subscribe-resource",
+  UNSUBSCRIBE_RESOURCE = "unsubscribe-resource",
+  LIST_RESOURCE_TEMPLATES = "list-resource-templates",
+  READ_RESOURCE_TEMPLATE = "read-resource-template",
+
+  // Argument completion
+  COMPLETE = "complete",
 
   // Prompt operations
   LIST_PROMPTS = "list-prompts",
@@ -68,12 +84,76 @@ export enum IpcChannels {
 
   // Authentication
   FETCH_USER_INFO = "fetch-user-info",
+
+  // Sampling (server-initiated LLM completions)
+  SAMPLING_REQUEST = "sampling-request",
+  SAMPLING_RESPONSE = "sampling-response",
+  SAMPLING_REQUEST_CANCELLED = "sampling-request-cancelled",
+
+  // Elicitation (server-initiated requests for user input)
+  ELICITATION_REQUEST = "elicitation-request",
+  ELICITATION_RESPONSE = "elicitation-response",
+
+  // Secret vault
+  GET_VAULT_STATUS = "get-vault-status",
+  UNLOCK_VAULT = "unlock-vault",
+  STORE_SECRET = "store-secret",
+  REVEAL_SECRET = "reveal-secret",
+  DELETE_SECRET = "delete-secret",
+
+  // Server config import/export (Claude Desktop, Cursor, VS Code)
+  DETECT_SERVER_CONFIG_FILES = "detect-server-config-files",
+  OPEN_SERVER_CONFIG_FILE = "open-server-config-file",
+  EXPORT_SERVER_CONFIGS = "export-server-configs",
+  SAVE_SERVER_CONFIG_EXPORT = "save-server-config-export",
+
+  // Workspace profiles
+  LIST_PROFILES = "list-profiles",
+  CREATE_PROFILE = "create-profile",
+  SAVE_PROFILE = "save-profile",
+  DELETE_PROFILE = "delete-profile",
+  SWITCH_PROFILE = "switch-profile",
+  EXPORT_PROFILE = "export-profile",
+  IMPORT_PROFILE = "import-profile",
+
+  // Chat conversations
+  LIST_CONVERSATIONS = "list-conversations",
+  OPEN_CONVERSATION = "open-conversation",
+  RENAME_CONVERSATION = "rename-conversation",
+  DELETE_CONVERSATION = "delete-conversation",
+  EXPORT_CONVERSATION = "export-conversation",
+  UPDATE_CONVERSATION_PROMPT = "update-conversation-prompt",
+
+  // Personas
+  LIST_PERSONAS = "list-personas",
+  SAVE_PERSONA = "save-persona",
+  DELETE_PERSONA = "delete-persona",
+
+  // Context window
+  GET_CONTEXT_USAGE = "get-context-usage",
+
+  // Token usage and cost
+  GET_USAGE_SUMMARY = "get-usage-summary",
+  EXPORT_USAGE_CSV = "export-usage-csv",
+  GET_MODEL_PRICES = "get-model-prices",
+  SAVE_MODEL_PRICES = "save-model-prices",
 }
 
+// RFC 5424 severities used by MCP logging/setLevel and notifications/message
+export type ServerLogLevel =
+  | "debug"
+  | "info"
+  | "notice"
+  | "warning"
+  | "error"
+  | "critical"
+  | "alert"
+  | "emergency";
+
 export interface ServerConfig {
   id: string;
   name: string;
-  type: "stdio" | "sse" | "remote";
+  type: "stdio" | "sse" | "remote" | "streamable-http";
   command?: string;
   args?: string[];
   env?: Record<string, string>;
@@ -92,17 +172,22 @@ export interface ServerConfig {
   metadata?: Record<string, any>;
   contextParams?: Record<string, any>;
   preferredModelId?: string;
+  roots?: string[]; // Absolute folder paths exposed to the server via roots/list
+  logLevel?: ServerLogLevel; // Minimum level the server should send via notifications/message
+  healthCheckInterval?: number; // Seconds between ping health checks, 0 disables them
+  toolNamespace?: string; // Prefix of this server's tools in agent tool names, defaults to the slugified name
   // Remote-specific configuration
   authType?: "none" | "bearer" | "oauth" | "basic" | "apiKey";
   oauthClientId?: string;
   oauthClientSecret?: string;
+  oauthRedirectUri?: string; // Set when the client was registered dynamically
   oauthScopes?: string[];
   oauthTokenEndpoint?: string;
   accessToken?: string;
   refreshToken?: string;
   tokenExpiry?: Date;
   apiKeyHeader?: string; // e.g., "X-API-Key", "Authorization"
-  sessionId?: string;
+  sessionId?: string; // Open Streamable HTTP session, ended on disconnect or the next connect
   description?: string;
   category?: string;
   isOfficial?: boolean;
@@ -113,8 +198,69 @@ export interface Tool {
   description?: string;
   inputSchema?: any;
   serverId?: string; // Track which server this tool belongs to
+  qualifiedName?: string; // "<namespace>__<name>", unique across servers
+  annotations?: ToolAnnotations;
+  outputSchema?: any; // JSON Schema of the tool's structuredContent
   enabled?: boolean; // Whether this tool is enabled for the agent
   isSystemTool?: boolean; // Whether this is a system tool (e.g., sequential thinking)
+  policy?: ToolApprovalPolicy; // Whether the agent must ask before calling it
+}
+
+// Behaviour hints a server declares for a tool. They are hints only and
+// not guaranteed to be accurate.
+export interface ToolAnnotations {
+  title?: string;
+  readOnlyHint?: boolean;
+  destructiveHint?: boolean;
+  idempotentHint?: boolean;
+  openWorldHint?: boolean;
+}
+
+// What a tool call returned. structuredContent is checked against the tool's
+// outputSchema; mismatches are reported rather than thrown.
+export interface ToolCallResult {
+  content: any[];
+  structuredContent?: Record<string, any>;
+  isError?: boolean; // The tool ran but reported a failure
+  validationErrors?: string[];
+}
+
+// When the agent may call a tool: right away, after asking every time,
+// after asking once per conversation, or never
+export type ToolApprovalPolicy = "allow" | "ask" | "askOnce" | "deny";
+
+// A tool call the agent proposed and is waiting on the user for
+export interface PendingToolCall {
+  id: string; // The model's tool call id
+  name: string;
+  qualifiedName: string;
+  serverId?: string;
+  args: any;
+  policy: ToolApprovalPolicy;
+  destructive?: boolean;
+}
+
+export interface ToolApprovalRequest {
+  threadId: string;
+  toolCalls: PendingToolCall[];
+}
+
+export interface ToolApprovalDecision {
+  id: string; // PendingToolCall id
+  action: "approve" | "reject";
+  args?: any; // Edited arguments, when the user changed them
+  reason?: string;
+}
+
+// Lifecycle and notifications/progress updates for one tool call
+export interface ToolProgressEvent {
+  callId: string;
+  serverId: string;
+  toolName: string;
+  status: "running" | "completed" | "failed" | "cancelled";
+  progress?: number;
+  total?: number;
+  message?: string;
 }
 
 export interface ToolConfig {
@@ -130,6 +276,25 @@ export interface Resource {
   mimeType?: string;
 }
 
+export interface ResourceTemplate {
+  uriTemplate: string; // RFC 6570 template, e.g. "db://{table}/{id}"
+  name?: string;
+  description?: string;
+  mimeType?: string;
+  variables: string[]; // Variable names parsed from uriTemplate
+}
+
+export type CompletionReference =
+  | { type: "ref/prompt"; name: string }
+  | { type: "ref/resource"; uri: string };
+
+export interface CompletionResult {
+  values: string[];
+  total?: number;
+  hasMore?: boolean;
+  supported: boolean; // false when the server has no completions capability
+}
+
 export interface ResourceConfig {
   uri: string;
   enabled: boolean;
@@ -185,6 +350,195 @@ export interface ServerStatus {
   uptime?: number; // Connection uptime in seconds
   lastActivity?: Date; // Last time the server was used for a tool call or other operation
   connectionStartTime?: Date; // When the connection was established
+  reconnecting?: ServerReconnectState; // Set while the supervisor is waiting to retry
+  health?: ServerHealth; // Result of the periodic ping health checks
+}
+
+export interface ServerHealth {
+  state: "healthy" | "degraded" | "unhealthy";
+  latencyHistory: number[]; // Round-trip times of recent successful pings in ms
+  consecutiveFailures: number;
+  lastCheckedAt?: Date;
+  lastError?: string;
+}
+
+export interface VaultStatus {
+  // "safeStorage" uses the OS keychain, "passphrase" a key derived from a
+  // passphrase the user enters each session
+  backend: "safeStorage" | "passphrase";
+  unlocked: boolean;
+  passphraseSet: boolean;
+}
+
+// Server state a workspace profile restores
+export interface WorkspaceProfileServer {
+  enabled: boolean;
+  autoConnect: boolean; // Connected when the profile becomes active
+  contextParams?: Record<string, any>;
+}
+
+// A named set of servers, tool states and default model to switch between
+export interface WorkspaceProfile {
+  id: string;
+  name: string;
+  description?: string;
+  servers: Record<string, WorkspaceProfileServer>; // serverId -> state
+  toolStates: Record<string, boolean>; // "serverId:toolName" -> enabled
+  defaultModelId?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface WorkspaceProfileList {
+  profiles: WorkspaceProfile[];
+  activeProfileId: string | null;
+}
+
+export interface ProfileSwitchResult {
+  profile: WorkspaceProfile;
+  connected: string[]; // Server ids
+  disconnected: string[];
+  failed: Array<{ serverId: string; error: string }>;
+}
+
+// A saved chat; its id is the agent's LangGraph thread id
+export interface Conversation {
+  id: string;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+  messageCount: number;
+  personaId?: string;
+  systemPrompt?: string; // Extra instructions for this conversation only
+}
+
+// The system prompt settings of the open conversation
+export interface ConversationPromptUpdate {
+  personaId?: string | null; // null clears it
+  systemPrompt?: string;
+}
+
+// A reusable assistant setup: its system prompt, the model it starts with
+// and the servers and tools it may use
+export interface Persona {
+  id: string;
+  name: string;
+  description?: string;
+  systemPrompt: string; // May contain {{variables}}
+  defaultModelId?: string; // ModelConfig id
+  allowedServerIds?: string[]; // Unset allows every server
+  allowedTools?: string[]; // Qualified tool names; unset allows every tool
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ConversationList {
+  conversations: Conversation[]; // Most recently updated first
+  activeConversationId: string | null;
+}
+
+export interface OpenConversationResult {
+  conversation: Conversation;
+  messages: ChatMessage[];
+  pendingApproval?: ToolApprovalRequest; // The thread paused on tool approval
+}
+
+export type ConversationExportFormat = "markdown" | "json";
+
+export interface ServerReconnectState {
+  attempt: number;
+  maxAttempts: number;
+  nextAttemptAt: Date;
+}
+
+// Emitted when a server sends a tools/resources/prompts list_changed
+// notification and the cached list has been re-fetched
+export interface ServerListChangedEvent {
+  serverId: string;
+  kind: "tools" | "resources" | "prompts";
+  added: string[]; // Tool/prompt names or resource URIs
+  removed: string[];
+}
+
+// Fresh contents of a subscribed resource after notifications/resources/updated
+export interface ResourceUpdatedEvent {
+  serverId: string;
+  uri: string;
+  contents?: any[];
+  error?: string;
+  timestamp: Date;
+}
+
+// A server-initiated sampling/createMessage request awaiting user approval.
+// "prompt" asks the user to approve running the model, "completion" asks the
+// user to approve sending the produced text back to the server.
+export interface SamplingApprovalRequest {
+  requestId: string;
+  stage: "prompt" | "completion";
+  serverId: string;
+  serverName: string;
+  modelConfigId?: string;
+  modelName?: string;
+  systemPrompt?: string;
+  messages: Array<{
+    role: "user" | "assistant";
+    text: string;
+  }>;
+  maxTokens?: number;
+  completion?: string;
+}
+
+export interface SamplingApprovalResponse {
+  requestId: string;
+  approved: boolean;
+  // Lets the user edit the completion before it is returned to the server
+  editedCompletion?: string;
+}
+
+// A server-initiated elicitation/create request awaiting the user's input.
+// requestedSchema is a flat object schema of primitive properties.
+export interface ElicitationRequest {
+  requestId: string;
+  serverId: string;
+  serverName: string;
+  message: string;
+  requestedSchema: {
+    type: "object";
+    properties: Record<string, ElicitationField>;
+    required?: string[];
+  };
+}
+
+export interface ElicitationField {
+  type: "string" | "number" | "integer" | "boolean";
+  title?: string;
+  description?: string;
+  default?: string | number | boolean;
+  enum?: string[];
+  enumNames?: string[];
+  format?: "email" | "uri" | "date" | "date-time";
+  minLength?: number;
+  maxLength?: number;
+  minimum?: number;
+  maximum?: number;
+}
+
+export type ElicitationAction = "accept" | "decline" | "cancel";
+
+export interface ElicitationResponse {
+  requestId: string;
+  action: ElicitationAction;
+  content?: Record<string, string | number | boolean>;
+}
+
+// A completed elicitation exchange, kept for logs and the chat transcript
+export interface ElicitationRecord {
+  serverId: string;
+  serverName: string;
+  message: string;
+  action: ElicitationAction;
+  content?: Record<string, string | number | boolean>;
+  timestamp: Date;
 }
 
 export interface ChatMessage {
@@ -193,8 +547,95 @@ export interface ChatMessage {
   content: string;
   timestamp: Date;
   toolCalls?: ToolCall[];
+  elicitations?: ElicitationRecord[]; // Input the user gave servers during this turn
+  pendingApproval?: ToolApprovalRequest; // Set when the turn paused for tool approval
+  usage?: TokenUsage; // Model calls made to produce an assistant message
+}
+
+// How full the model's context window is for the open conversation
+export interface ContextUsage {
+  usedTokens: number; // What the next model call would send, estimated
+  contextWindow: number;
+  summarized: boolean; // Older turns are sent as a summary
+  droppedTurns: number; // Turns left out because they didn't fit
+  truncatedResults: number; // Tool results cut short for the model
+}
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  estimated?: boolean; // Some counts came from a tokenizer, not the provider
+  cost?: number; // USD; unset when no price covers the model
+}
+
+// One model call, as recorded for usage accounting
+export interface UsageRecord {
+  id: string;
+  timestamp: string;
+  source: "chat" | "sampling";
+  conversationId?: string;
+  messageId?: string; // The assistant message the call contributed to
+  modelConfigId?: string;
+  provider: LLMProvider;
+  modelId: string;
+  modelName: string;
+  inputTokens: number;
+  outputTokens: number;
+  estimated?: boolean;
+}
+
+// USD per million tokens. An empty modelId covers every model of the
+// provider; otherwise the longest matching model id prefix wins.
+export interface ModelPrice {
+  provider: LLMProvider;
+  modelId: string;
+  inputPerMillion: number;
+  outputPerMillion: number;
 }
 
+export interface UsageQuery {
+  since?: string; // ISO date; all recorded usage without one
+}
+
+export interface UsageSummaryRow {
+  key: string; // Day (YYYY-MM-DD), model config id or conversation id
+  label: string;
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  cost: number; // USD, for the calls that have a price
+  unpricedCalls: number;
+  estimatedCalls: number;
+}
+
+export interface UsageSummary {
+  total: UsageSummaryRow;
+  byDay: UsageSummaryRow[]; // Oldest first
+  byModel: UsageSummaryRow[]; // Most expensive first
+  byConversation: UsageSummaryRow[]; // Most expensive first
+}
+
+// Incremental output of an agent run, sent while SEND_MESSAGE is pending.
+// "end" carries the same message the invoke resolves with.
+export type AgentStreamEvent =
+  | { type: "start"; runId: string }
+  | { type: "token"; runId: string; text: string }
+  | {
+      type: "toolStart";
+      runId: string;
+      callId: string;
+      name: string;
+      args: any;
+    }
+  | {
+      type: "toolEnd";
+      runId: string;
+      callId: string;
+      name: string;
+      result?: string;
+    }
+  | { type: "end"; runId: string; message: ChatMessage; stopped?: boolean };
+
 export interface ToolCall {
   id: string;
   name: string;
@@ -284,6 +725,7 @@ export interface ModelConfig {
   modelId: string;
   enabled: boolean;
   isDefault?: boolean;
+  systemPrompt?: string; // Added to the system prompt whenever it's used
   // Provider-specific configuration
   config:
     | WatsonxConfig
@@ -301,6 +743,7 @@ export interface ModelConfig {
     topK?: number;
     repetitionPenalty?: number;
     streaming?: boolean;
+    contextWindow?: number; // Overrides the window known for the model
     [key: string]: any;
   };
 }
@@ -0,0 +1,41 @@
+/**
+ * Token usage formatting
+ *
+ * Counts that came from a tokenizer rather than the provider are marked
+ * with "~", and costs below a cent keep enough digits to tell them apart.
+ */
+
+import { TokenUsage } from "./types";
+
+export function formatTokenCount(tokens: number): string {
+  if (tokens >= 1_000_000) {
+    return `${(tokens / 1_000_000).toFixed(1)}M`;
+  }
+  if (tokens >= 10_000) {
+    return `${(tokens / 1000).toFixed(1)}k`;
+  }
+  return tokens.toLocaleString("en-US");
+}
+
+export function formatCost(cost: number): string {
+  if (cost === 0) {
+    return "$0.00";
+  }
+  if (cost < 0.01) {
+    return `$${cost.toPrecision(2)}`;
+  }
+  return `$${cost.toFixed(2)}`;
+}
+
+// "~1,204 in · 312 out · $0.0061"
+export function formatUsage(usage: TokenUsage): string {
+  const approx = usage.estimated ? "~" : "";
+  const parts = [
+    `${approx}${formatTokenCount(usage.inputTokens)} in`,
+    `${approx}${formatTokenCount(usage.outputTokens)} out`,
+  ];
+  if (usage.cost !== undefined) {
+    parts.push(formatCost(usage.cost));
+  }
+  return parts.join(" · ");
+}